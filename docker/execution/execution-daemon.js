@@ -3,20 +3,23 @@
 const express = require('express');
 const fs = require('fs').promises;
 const path = require('path');
+const { Worker } = require('worker_threads');
 
 const PORT = process.env.PORT || 3000;
 const EXECUTOR_ID = process.env.EXECUTOR_ID || 'executor-unknown';
+const FLOWS_DIR = process.env.FLOWS_DIR || '/app/flows';
 
-console.log(`🚀 Starting Genkit HTTP Execution Server (${EXECUTOR_ID})`);
-console.log(`   Listening on port: ${PORT}`);
+// Provider keys only ever reach a flow through its own run's environment
+const PROVIDER_KEY_VARS = ['GEMINI_API_KEY', 'GOOGLE_API_KEY', 'GOOGLE_GENAI_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY'];
 
 class GenkitExecutionServer {
   constructor() {
     this.app = express();
     this.flowCache = new Map();
+    this.runningExecutions = new Map(); // executionId -> cancel()
+    this.debugSessions = new Map(); // executionId -> { paused, command() } of debug runs
     this.setupMiddleware();
     this.setupRoutes();
-    this.setupSignalHandlers();
   }
 
   setupMiddleware() {
@@ -43,6 +46,11 @@ class GenkitExecutionServer {
 
     // Flow execution endpoint
     this.app.post('/execute', async (req, res) => {
+      if ((req.headers.accept || '').includes('text/event-stream')) {
+        await this.streamExecution(req, res);
+        return;
+      }
+
       try {
         const result = await this.executeFlow(req.body);
         res.json(result);
@@ -57,6 +65,42 @@ class GenkitExecutionServer {
       }
     });
 
+    // Cancel a running execution by terminating its worker thread
+    this.app.delete('/executions/:executionId', (req, res) => {
+      const cancel = this.runningExecutions.get(req.params.executionId);
+      if (!cancel) {
+        res.status(404).json({ error: 'Execution not running' });
+        return;
+      }
+      cancel();
+      res.json({ cancelled: true, executionId: req.params.executionId });
+    });
+
+    // Where a debug run is paused; `paused` is null while it runs between breakpoints
+    this.app.get('/executions/:executionId/debug', (req, res) => {
+      if (!this.runningExecutions.has(req.params.executionId)) {
+        res.status(404).json({ error: 'Execution is not running' });
+        return;
+      }
+      const session = this.debugSessions.get(req.params.executionId);
+      res.json({ executionId: req.params.executionId, paused: session ? session.paused : null });
+    });
+
+    // Step, continue or replace the input of a paused debug run
+    this.app.post('/executions/:executionId/debug', (req, res) => {
+      if (!this.runningExecutions.has(req.params.executionId)) {
+        res.status(404).json({ error: 'Execution is not running' });
+        return;
+      }
+      const session = this.debugSessions.get(req.params.executionId);
+      if (!session || !session.paused) {
+        res.status(409).json({ error: 'Execution is not paused' });
+        return;
+      }
+      session.command(req.body || {});
+      res.json({ executionId: req.params.executionId, action: req.body && req.body.action });
+    });
+
     // Shutdown endpoint (for graceful container shutdown)
     this.app.post('/shutdown', (req, res) => {
       console.log('📡 Received shutdown request');
@@ -65,6 +109,32 @@ class GenkitExecutionServer {
     });
   }
 
+  // Streams chunks the flow sends as Server-Sent Events, followed by the execution result
+  async streamExecution(req, res) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    const send = (event) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+
+    try {
+      const result = await this.executeFlow(req.body, (chunk) => send({ message: chunk }));
+      send({ result });
+    } catch (error) {
+      console.error(`❌ Streaming execution failed:`, error.message);
+      send({
+        result: {
+          success: false,
+          error: error.message,
+          executorId: EXECUTOR_ID,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+    res.end();
+  }
+
   setupSignalHandlers() {
     process.on('SIGTERM', () => {
       console.log('📡 Received SIGTERM, shutting down gracefully...');
@@ -77,35 +147,68 @@ class GenkitExecutionServer {
     });
   }
 
-  async executeFlow(requestData) {
+  async executeFlow(requestData, onChunk) {
     const { code, input, config, flowId, executionId: providedExecutionId } = requestData;
     const executionId = providedExecutionId || `exec_${Date.now()}_${Math.random().toString(36).slice(2,8)}`;
     
     console.log(`⚡ Executing flow ${flowId || executionId}...`);
+
+    // Collects what the flow records while running (e.g. sub-flow calls, indexed documents, node traces, model calls)
+    const runtime = { ...(config.runtime || {}), record: { subflows: [], documents: [], nodes: [], modelCalls: [] } };
     
     try {
-      // Set up environment variables for API keys
-      this.setupEnvironmentFromConfig(config, input);
+      // API keys go into this run's environment only, never the daemon's
+      const env = this.buildExecutionEnv(config, input);
       
       // Execute the generated Genkit flow code directly
-      const result = await this.executeGenkitFlow(code, input, executionId);
+      const result = await this.executeGenkitFlow(code, input, executionId, runtime, onChunk, env);
       
       console.log(`✅ Execution ${executionId} completed successfully`);
       
       return {
         success: true,
         result: result,
+        record: runtime.record,
         executionId,
         executorId: EXECUTOR_ID,
         timestamp: new Date().toISOString()
       };
       
     } catch (error) {
+      if (error.cancelled) {
+        console.log(`🛑 Execution ${executionId} cancelled`);
+        return {
+          success: false,
+          cancelled: true,
+          error: error.message,
+          record: runtime.record,
+          executionId,
+          executorId: EXECUTOR_ID,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      // Interrupts pause the run rather than fail it
+      if (error.flowInterrupt) {
+        console.log(`⏸️  Execution ${executionId} interrupted at node ${error.flowInterrupt.nodeId}`);
+        return {
+          success: true,
+          interrupted: true,
+          interrupt: error.flowInterrupt,
+          record: runtime.record,
+          executionId,
+          executorId: EXECUTOR_ID,
+          timestamp: new Date().toISOString()
+        };
+      }
+
       console.error(`❌ Execution ${executionId} failed:`, error.message);
       
       return {
         success: false,
         error: error.message,
+        nodeId: error.nodeId || (error.cause && error.cause.nodeId) || undefined,
+        record: runtime.record,
         executionId,
         executorId: EXECUTOR_ID,
         timestamp: new Date().toISOString()
@@ -113,41 +216,42 @@ class GenkitExecutionServer {
     }
   }
 
-  setupEnvironmentFromConfig(config, input) {
-    // Extract API keys from config and set as environment variables
+  // The environment a run's worker thread starts with: the daemon's own variables
+  // without any provider keys, plus the keys from this run's config. Workers get a
+  // private copy of it, so concurrent runs never see each other's keys.
+  buildExecutionEnv(config, input) {
+    const env = { ...process.env };
+    for (const name of PROVIDER_KEY_VARS) {
+      delete env[name];
+    }
+
     if (config.googleApiKey) {
-      process.env.GEMINI_API_KEY = config.googleApiKey;
-      process.env.GOOGLE_API_KEY = config.googleApiKey; // Some providers use this variant
+      env.GEMINI_API_KEY = config.googleApiKey;
+      env.GOOGLE_API_KEY = config.googleApiKey; // Some providers use this variant
     }
     if (config.openaiApiKey) {
-      process.env.OPENAI_API_KEY = config.openaiApiKey;
+      env.OPENAI_API_KEY = config.openaiApiKey;
     }
     if (config.anthropicApiKey) {
-      process.env.ANTHROPIC_API_KEY = config.anthropicApiKey;
+      env.ANTHROPIC_API_KEY = config.anthropicApiKey;
     }
     
-    // Log available API keys for debugging
-    const apiKeys = {
-      google: process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY,
-      openai: process.env.OPENAI_API_KEY,
-      anthropic: process.env.ANTHROPIC_API_KEY
-    };
-    
     console.log('🔑 API keys from config:', {
-      google: apiKeys.google ? '✅ Set' : '❌ Missing',
-      openai: apiKeys.openai ? '✅ Set' : '❌ Missing', 
-      anthropic: apiKeys.anthropic ? '✅ Set' : '❌ Missing'
+      google: env.GEMINI_API_KEY ? '✅ Set' : '❌ Missing',
+      openai: env.OPENAI_API_KEY ? '✅ Set' : '❌ Missing', 
+      anthropic: env.ANTHROPIC_API_KEY ? '✅ Set' : '❌ Missing'
     });
     
     // Set execution environment
-    process.env.NODE_ENV = 'production';
-    process.env.NODE_PATH = '/app/node_modules';
-    process.env.FLOW_INPUT = JSON.stringify(input);
-    process.env.FLOW_CONFIG = JSON.stringify(config);
+    env.NODE_ENV = 'production';
+    env.NODE_PATH = '/app/node_modules';
+    env.FLOW_INPUT = JSON.stringify(input);
+    env.FLOW_CONFIG = JSON.stringify(config);
+    return env;
   }
 
-  async executeGenkitFlow(code, input, executionId) {
-    const tempDir = '/app/flows';
+  async executeGenkitFlow(code, input, executionId, runtime = {}, onChunk, env) {
+    const tempDir = FLOWS_DIR;
     const moduleId = `flow_${executionId}`;
     const codePath = path.join(tempDir, `${moduleId}.mjs`);
     
@@ -159,15 +263,8 @@ class GenkitExecutionServer {
       await fs.writeFile(codePath, code);
       console.log(`📝 Created temp flow file: ${codePath}`);
       
-      // Dynamic import the generated flow
-      const flowModule = await import(codePath);
-      
-      // Execute the generated Genkit flow (exported as default)
-      if (typeof flowModule.default !== 'function') {
-        throw new Error('Generated code must export a Genkit flow as default export');
-      }
-      
-      const result = await flowModule.default(input);
+      // Run the generated Genkit flow (exported as default) on its own thread so it can be cancelled
+      const result = await this.runFlowWorker(codePath, input, executionId, runtime, onChunk, env);
       console.log(`✅ Flow execution completed: ${executionId}`);
       
       return result;
@@ -186,8 +283,69 @@ class GenkitExecutionServer {
     }
   }
 
+  // Resolves with the flow's result once the worker finishes. The worker owns a copy
+  // of the runtime context, so its execution record is copied back when it reports.
+  runFlowWorker(codePath, input, executionId, runtime, onChunk, env) {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(path.join(__dirname, 'flow-worker.js'), {
+        workerData: { codePath, input, runtime },
+        env
+      });
+      let settled = false;
+      const settle = (fn, value) => {
+        if (settled) return;
+        settled = true;
+        this.runningExecutions.delete(executionId);
+        this.debugSessions.delete(executionId);
+        fn(value);
+      };
+
+      this.runningExecutions.set(executionId, () => {
+        const error = new Error('Execution cancelled');
+        error.cancelled = true;
+        worker.terminate();
+        settle(reject, error);
+      });
+
+      if (runtime.debug) {
+        const session = {
+          paused: null,
+          command: (command) => {
+            session.paused = null;
+            worker.postMessage({ type: 'debug', command });
+          }
+        };
+        this.debugSessions.set(executionId, session);
+      }
+
+      worker.on('message', (message) => {
+        if (message.type === 'chunk') {
+          if (onChunk) onChunk(message.chunk);
+          return;
+        }
+        if (message.type === 'debug') {
+          const session = this.debugSessions.get(executionId);
+          if (session) session.paused = message.pause;
+          return;
+        }
+        runtime.record = message.record;
+        if (message.type === 'result') {
+          settle(resolve, message.result);
+        } else {
+          const error = new Error(message.error.message);
+          error.nodeId = message.error.nodeId;
+          error.flowInterrupt = message.error.flowInterrupt;
+          settle(reject, error);
+        }
+        worker.terminate();
+      });
+      worker.on('error', (error) => settle(reject, error));
+      worker.on('exit', (code) => settle(reject, new Error(`Flow worker exited with code ${code}`)));
+    });
+  }
+
   async cleanupTempFiles() {
-    const tempDir = '/app/flows';
+    const tempDir = FLOWS_DIR;
     try {
       const files = await fs.readdir(tempDir);
       const flowFiles = files.filter(file => file.startsWith('flow_') && file.endsWith('.mjs'));
@@ -210,6 +368,10 @@ class GenkitExecutionServer {
   }
 
   async start() {
+    console.log(`🚀 Starting Genkit HTTP Execution Server (${EXECUTOR_ID})`);
+    console.log(`   Listening on port: ${PORT}`);
+    this.setupSignalHandlers();
+
     // Clean up any leftover temp files from previous runs
     await this.cleanupTempFiles();
     
@@ -229,9 +391,13 @@ class GenkitExecutionServer {
   }
 }
 
-// Start the server
-const server = new GenkitExecutionServer();
-server.start().catch(error => {
-  console.error('💥 Failed to start execution server:', error);
-  process.exit(1);
-});
\ No newline at end of file
+module.exports = { GenkitExecutionServer };
+
+// Start the server when run as the container's entrypoint
+if (require.main === module) {
+  const server = new GenkitExecutionServer();
+  server.start().catch(error => {
+    console.error('💥 Failed to start execution server:', error);
+    process.exit(1);
+  });
+}
\ No newline at end of file
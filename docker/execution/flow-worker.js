@@ -0,0 +1,57 @@
+// Runs one generated flow module on a worker thread, so the daemon can stop the
+// execution by terminating the thread. Streamed chunks, the result and the
+// execution record are posted back to the daemon as plain messages. Debug runs
+// post where they paused and wait for the daemon to send the debugger's command.
+
+const { parentPort, workerData } = require('worker_threads');
+
+async function run() {
+  const { codePath, input, runtime } = workerData;
+  const send = (message) => parentPort.postMessage(message);
+  if (runtime.debug) {
+    installDebugger(runtime.debug, send);
+  }
+
+  try {
+    const flowModule = await import(codePath);
+    if (typeof flowModule.default !== 'function') {
+      throw new Error('Generated code must export a Genkit flow as default export');
+    }
+
+    const result = await flowModule.default(input, {
+      context: { flowshapr: runtime },
+      onChunk: (chunk) => send({ type: 'chunk', chunk })
+    });
+    send({ type: 'result', result, record: runtime.record });
+  } catch (error) {
+    send({
+      type: 'error',
+      error: {
+        message: error && error.message ? error.message : String(error),
+        nodeId: (error && (error.nodeId || (error.cause && error.cause.nodeId))) || undefined,
+        flowInterrupt: error && error.flowInterrupt
+      },
+      record: runtime.record
+    });
+  }
+}
+
+// The generated flow awaits `pause` before nodes it stops at, one node at a time
+// even in parallel groups, so a single pending resume is enough; values are copied
+// as JSON so whatever the context holds can be posted
+function installDebugger(session, send) {
+  let resume = null;
+  session.pause = (state) => new Promise((resolve) => {
+    resume = resolve;
+    send({ type: 'debug', pause: JSON.parse(JSON.stringify(state)) });
+  });
+  parentPort.on('message', (message) => {
+    if (message.type === 'debug' && resume) {
+      const next = resume;
+      resume = null;
+      next(message.command);
+    }
+  });
+}
+
+run();
@@ -0,0 +1,7 @@
+import { NextRequest } from 'next/server';
+import { proxyJson } from '@/lib/api/proxy';
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string; environment: string }> }) {
+  const { id, environment } = await params;
+  return proxyJson(request, `/api/flows/${id}/environments/${environment}`, { method: 'PUT' });
+}
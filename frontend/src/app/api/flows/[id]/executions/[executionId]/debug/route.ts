@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server';
+import { proxyJson } from '@/lib/api/proxy';
+
+// Keeps `wait`, so the debugger's long poll reaches the backend
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string; executionId: string }> }) {
+  const { id, executionId } = await params;
+  return proxyJson(request, `/api/flows/${id}/executions/${executionId}/debug${request.nextUrl.search}`, { method: 'GET' });
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string; executionId: string }> }) {
+  const { id, executionId } = await params;
+  return proxyJson(request, `/api/flows/${id}/executions/${executionId}/debug`, { method: 'POST' });
+}
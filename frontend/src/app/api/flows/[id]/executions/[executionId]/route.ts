@@ -0,0 +1,7 @@
+import { NextRequest } from 'next/server';
+import { proxyJson } from '@/lib/api/proxy';
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string; executionId: string }> }) {
+  const { id, executionId } = await params;
+  return proxyJson(request, `/api/flows/${id}/executions/${executionId}`, { method: 'DELETE' });
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { proxyJson } from '@/lib/api/proxy';
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string; scheduleId: string }> }) {
+  const { id, scheduleId } = await params;
+  return proxyJson(request, `/api/flows/${id}/schedules/${scheduleId}`, { method: 'PUT' });
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string; scheduleId: string }> }) {
+  const { id, scheduleId } = await params;
+  return proxyJson(request, `/api/flows/${id}/schedules/${scheduleId}`, { method: 'DELETE' });
+}
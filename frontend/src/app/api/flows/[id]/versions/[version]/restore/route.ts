@@ -0,0 +1,7 @@
+import { NextRequest } from 'next/server';
+import { proxyJson } from '@/lib/api/proxy';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string; version: string }> }) {
+  const { id, version } = await params;
+  return proxyJson(request, `/api/flows/${id}/versions/${version}/restore`, { method: 'POST' });
+}
@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server';
+import { proxyJson } from '@/lib/api/proxy';
+
+// Keeps `from` and `to`, which pick the versions to compare
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return proxyJson(request, `/api/flows/${id}/versions/diff${request.nextUrl.search}`, { method: 'GET' });
+}
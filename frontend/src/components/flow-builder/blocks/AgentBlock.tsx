@@ -1,7 +1,7 @@
 import React from 'react';
 import { NodeProps, Handle, Position } from '@xyflow/react';
 import { BaseNode, InsertVarButton } from './common/BaseNode';
-import { FlowNodeData, AgentNodeConfig, AVAILABLE_MODELS, DEFAULT_MODEL_PARAMS, ProviderStatus } from '@/types/flow';
+import { FlowNodeData, AgentNodeConfig, AVAILABLE_MODELS, DEFAULT_MODEL_PARAMS, MODEL_DISPLAY_NAMES, MODEL_PROVIDERS, ProviderStatus } from '@/types/flow';
 import { useProviderStatus } from '@/stores';
 
 const AgentBlock = React.memo(function AgentBlock({ data, selected, id }: NodeProps) {
@@ -18,6 +18,8 @@ const AgentBlock = React.memo(function AgentBlock({ data, selected, id }: NodePr
     { provider: 'googleai', isActive: true, hasApiKey: hasGoogleKey },
     { provider: 'openai', isActive: true, hasApiKey: hasOpenaiKey },
     { provider: 'anthropic', isActive: true, hasApiKey: hasAnthropicKey },
+    // Runs offline on scripted responses, so it needs no connection
+    { provider: 'mock', isActive: true, hasApiKey: true },
   ];
 
   React.useEffect(() => {
@@ -80,10 +82,10 @@ const AgentBlock = React.memo(function AgentBlock({ data, selected, id }: NodePr
               onChange={(e) => handleConfigChange('provider', e.target.value)}
               className="nodrag select select-bordered select-xs w-full"
             >
-              {(['googleai','openai','anthropic'] as const).map((prov) => {
+              {(['googleai','openai','anthropic','mock'] as const).map((prov) => {
                 const status = providerStatus.find(p => p.provider === prov);
                 const disabled = !status?.hasApiKey;
-                const label = prov === 'googleai' ? 'Google AI' : prov === 'openai' ? 'OpenAI' : 'Anthropic';
+                const label = MODEL_PROVIDERS[prov];
                 return (
                   <option key={prov} value={prov} disabled={disabled}>
                     {label}{disabled ? ' (no API key)' : ''}
@@ -103,7 +105,7 @@ const AgentBlock = React.memo(function AgentBlock({ data, selected, id }: NodePr
             disabled={!selectedHasKey || availableModels.length === 0}
           >
             {availableModels.map((m) => (
-              <option key={m} value={m}>{m}</option>
+              <option key={m} value={m}>{selectedProvider === 'mock' ? MODEL_DISPLAY_NAMES[m] : m}</option>
             ))}
           </select>
           {!selectedHasKey && (
@@ -176,6 +178,44 @@ const AgentBlock = React.memo(function AgentBlock({ data, selected, id }: NodePr
                 <option key={p.id} value={p.id}>{p.name}</option>
               ))}
             </select>
+            <label className="block text-xs font-medium text-base-content/70 mt-2 mb-1">Version</label>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              placeholder="Latest"
+              value={config.promptVersion ?? ''}
+              onChange={(e) => handleConfigChange('promptVersion', e.target.value ? parseInt(e.target.value, 10) : undefined)}
+              className="nodrag input input-bordered input-xs w-full text-xs"
+            />
+          </div>
+        )}
+
+        {selectedProvider === 'mock' && (config.model || availableModels[0]) === 'scripted' && (
+          <div className="space-y-2">
+            <div>
+              <label className="block text-xs font-medium text-base-content/70 mb-1">Mock Responses</label>
+              <textarea
+                value={config.mockResponses || ''}
+                onChange={(e) => handleConfigChange('mockResponses', e.target.value)}
+                className="nodrag textarea textarea-bordered textarea-xs w-full text-xs font-mono resize-none"
+                placeholder='[{"match": "weather", "text": "Sunny"}]'
+                rows={3}
+              />
+              <div className="mt-1 text-[11px] text-base-content/60">
+                Rules tried in order: match (regex) with text, output (JSON) or toolRequest. Unmatched prompts are echoed.
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-base-content/70 mb-1">Fixture</label>
+              <input
+                type="text"
+                value={config.mockFixture || ''}
+                onChange={(e) => handleConfigChange('mockFixture', e.target.value || undefined)}
+                className="nodrag input input-bordered input-xs w-full text-xs"
+                placeholder="weather-replies"
+              />
+            </div>
           </div>
         )}
 
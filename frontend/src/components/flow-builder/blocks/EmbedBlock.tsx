@@ -0,0 +1,36 @@
+import React from 'react';
+import { NodeProps } from '@xyflow/react';
+import { BaseNode } from './common/BaseNode';
+import { EmbedderSelect } from './common/EmbedderSelect';
+import { FlowNodeData, EmbedNodeConfig } from '@/types/flow';
+
+export default function EmbedBlock({ data, selected, id }: NodeProps) {
+  const nodeData = data as FlowNodeData;
+  const config = nodeData.config as EmbedNodeConfig;
+
+  const handleConfigChange = (field: string, value: any) => {
+    const newConfig = { ...config, [field]: value };
+    nodeData.config = newConfig;
+    window.dispatchEvent(new CustomEvent('nodeConfigChange', {
+      detail: { nodeId: id as unknown as string, field, value, config: newConfig }
+    }));
+  };
+
+  return (
+    <BaseNode id={id as unknown as string} data={nodeData} selected={selected}>
+      <div className="space-y-2">
+        <EmbedderSelect value={config.embedder} onChange={(value) => handleConfigChange('embedder', value)} />
+        <div>
+          <label className="block text-xs font-medium text-base-content/70 mb-1">Text</label>
+          <textarea
+            value={config.text || ''}
+            onChange={(e) => handleConfigChange('text', e.target.value)}
+            rows={2}
+            placeholder="{{input.question}} (empty = incoming value)"
+            className="nodrag w-full px-2 py-1 text-xs rounded border border bg-base-100 focus:bg-base-100 focus:ring-1 focus:ring-indigo-300 focus:outline-none font-mono resize-none"
+          />
+        </div>
+      </div>
+    </BaseNode>
+  );
+}
@@ -0,0 +1,65 @@
+import React from 'react';
+import { NodeProps, Handle, Position } from '@xyflow/react';
+import { BaseNode } from './common/BaseNode';
+import { FlowNodeData, ForEachNodeConfig } from '@/types/flow';
+
+export default function ForEachBlock({ data, selected, id }: NodeProps) {
+  const nodeData = data as FlowNodeData;
+  const config = nodeData.config as ForEachNodeConfig;
+
+  const handleConfigChange = (field: string, value: any) => {
+    const newConfig = { ...config, [field]: value };
+    nodeData.config = newConfig;
+    window.dispatchEvent(new CustomEvent('nodeConfigChange', {
+      detail: { nodeId: id as unknown as string, field, value, config: newConfig }
+    }));
+  };
+
+  return (
+    <BaseNode id={id as unknown as string} data={nodeData} selected={selected} showSourceHandle={false}>
+      <div className="space-y-2">
+        <div>
+          <label className="block text-xs font-medium text-base-content/70 mb-1">Items Path</label>
+          <input
+            type="text"
+            value={config.itemsPath || ''}
+            onChange={(e) => handleConfigChange('itemsPath', e.target.value)}
+            placeholder="documents (empty = input is the list)"
+            className="nodrag w-full px-2 py-1 text-xs rounded border border bg-base-100 focus:bg-base-100 focus:ring-1 focus:ring-indigo-300 focus:outline-none font-mono"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs font-medium text-base-content/70 mb-1">Concurrency</label>
+            <input
+              type="number"
+              min="1"
+              max="50"
+              value={config.concurrency || 5}
+              onChange={(e) => handleConfigChange('concurrency', parseInt(e.target.value) || 1)}
+              className="nodrag w-full px-2 py-1 text-xs rounded border border bg-base-100 focus:bg-base-100 focus:ring-1 focus:ring-indigo-300 focus:outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-base-content/70 mb-1">On Item Error</label>
+            <select
+              value={config.errorPolicy || 'fail-fast'}
+              onChange={(e) => handleConfigChange('errorPolicy', e.target.value)}
+              className="nodrag w-full px-2 py-1 text-xs rounded border border bg-base-100 focus:bg-base-100 focus:ring-1 focus:ring-indigo-300 focus:outline-none"
+            >
+              <option value="fail-fast">Fail fast</option>
+              <option value="skip">Skip item</option>
+              <option value="collect">Collect errors</option>
+            </select>
+          </div>
+        </div>
+        <div className="flex justify-between text-[10px] text-base-content/60">
+          <span>Each item →</span>
+          <span>Results →</span>
+        </div>
+      </div>
+      <Handle type="source" position={Position.Right} id="item" className="w-7 h-7 !bg-info !border-2 !border-white rounded-full !z-10" style={{ top: '30%' }} />
+      <Handle type="source" position={Position.Right} id="done" className="w-7 h-7 !bg-success !border-2 !border-white rounded-full !z-10" style={{ top: '70%' }} />
+    </BaseNode>
+  );
+}
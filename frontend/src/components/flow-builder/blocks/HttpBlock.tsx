@@ -0,0 +1,101 @@
+import React from 'react';
+import { NodeProps } from '@xyflow/react';
+import { BaseNode } from './common/BaseNode';
+import { FlowNodeData, HttpNodeConfig } from '@/types/flow';
+
+const METHODS: HttpNodeConfig['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export default function HttpBlock({ data, selected, id }: NodeProps) {
+  const nodeData = data as FlowNodeData;
+  const config = nodeData.config as HttpNodeConfig;
+
+  const handleConfigChange = (field: string, value: any) => {
+    const newConfig = { ...config, [field]: value };
+    nodeData.config = newConfig;
+    window.dispatchEvent(new CustomEvent('nodeConfigChange', {
+      detail: { nodeId: id as unknown as string, field, value, config: newConfig }
+    }));
+  };
+
+  const inputClass = 'nodrag w-full px-2 py-1 text-xs rounded border border bg-base-100 focus:bg-base-100 focus:ring-1 focus:ring-indigo-300 focus:outline-none';
+
+  return (
+    <BaseNode id={id as unknown as string} data={nodeData} selected={selected}>
+      <div className="space-y-2">
+        <div className="flex gap-1">
+          <select
+            value={config.method || 'GET'}
+            onChange={(e) => handleConfigChange('method', e.target.value)}
+            className={`${inputClass} !w-20`}
+          >
+            {METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+          </select>
+          <input
+            type="text"
+            value={config.url || ''}
+            onChange={(e) => handleConfigChange('url', e.target.value)}
+            placeholder="https://api.example.com/orders/{{input.id}}"
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-base-content/70 mb-1">Headers (JSON)</label>
+          <textarea
+            value={config.headers || ''}
+            onChange={(e) => handleConfigChange('headers', e.target.value)}
+            rows={2}
+            placeholder={'{ "Authorization": "Bearer {{secrets.my-connection}}" }'}
+            className={`${inputClass} font-mono resize-none`}
+          />
+        </div>
+        {config.method && config.method !== 'GET' && (
+          <div>
+            <label className="block text-xs font-medium text-base-content/70 mb-1">Body</label>
+            <textarea
+              value={config.body || ''}
+              onChange={(e) => handleConfigChange('body', e.target.value)}
+              rows={3}
+              placeholder={'{ "query": "{{input.question}}" }'}
+              className={`${inputClass} font-mono resize-none`}
+            />
+          </div>
+        )}
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="block text-xs font-medium text-base-content/70 mb-1">Response</label>
+            <select
+              value={config.responseType || 'json'}
+              onChange={(e) => handleConfigChange('responseType', e.target.value)}
+              className={inputClass}
+            >
+              <option value="json">JSON</option>
+              <option value="text">Text</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-base-content/70 mb-1">Timeout (ms)</label>
+            <input
+              type="number"
+              min="1"
+              max="120000"
+              value={config.timeout || 10000}
+              onChange={(e) => handleConfigChange('timeout', parseInt(e.target.value) || 10000)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-base-content/70 mb-1">Retries</label>
+            <input
+              type="number"
+              min="0"
+              max="5"
+              value={config.retries || 0}
+              onChange={(e) => handleConfigChange('retries', parseInt(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      </div>
+    </BaseNode>
+  );
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { NodeProps } from '@xyflow/react';
+import { BaseNode } from './common/BaseNode';
+import { EmbedderSelect } from './common/EmbedderSelect';
+import { FlowNodeData, IndexNodeConfig } from '@/types/flow';
+
+export default function IndexBlock({ data, selected, id }: NodeProps) {
+  const nodeData = data as FlowNodeData;
+  const config = nodeData.config as IndexNodeConfig;
+
+  const handleConfigChange = (field: string, value: any) => {
+    const newConfig = { ...config, [field]: value };
+    nodeData.config = newConfig;
+    window.dispatchEvent(new CustomEvent('nodeConfigChange', {
+      detail: { nodeId: id as unknown as string, field, value, config: newConfig }
+    }));
+  };
+
+  return (
+    <BaseNode id={id as unknown as string} data={nodeData} selected={selected}>
+      <div className="space-y-2">
+        <EmbedderSelect value={config.embedder} onChange={(value) => handleConfigChange('embedder', value)} />
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs font-medium text-base-content/70 mb-1">Chunk Size</label>
+            <input
+              type="number"
+              min="0"
+              max="20000"
+              step="100"
+              value={config.chunkSize ?? 1000}
+              onChange={(e) => handleConfigChange('chunkSize', parseInt(e.target.value) || 0)}
+              className="nodrag w-full px-2 py-1 text-xs rounded border border bg-base-100 focus:bg-base-100 focus:ring-1 focus:ring-indigo-300 focus:outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-base-content/70 mb-1">Overlap</label>
+            <input
+              type="number"
+              min="0"
+              step="10"
+              value={config.chunkOverlap ?? 100}
+              onChange={(e) => handleConfigChange('chunkOverlap', parseInt(e.target.value) || 0)}
+              className="nodrag w-full px-2 py-1 text-xs rounded border border bg-base-100 focus:bg-base-100 focus:ring-1 focus:ring-indigo-300 focus:outline-none"
+            />
+          </div>
+        </div>
+        <p className="text-[10px] text-base-content/60">Chunk size 0 stores each document whole.</p>
+      </div>
+    </BaseNode>
+  );
+}
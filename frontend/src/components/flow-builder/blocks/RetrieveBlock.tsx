@@ -0,0 +1,47 @@
+import React from 'react';
+import { NodeProps } from '@xyflow/react';
+import { BaseNode } from './common/BaseNode';
+import { EmbedderSelect } from './common/EmbedderSelect';
+import { FlowNodeData, RetrieveNodeConfig } from '@/types/flow';
+
+export default function RetrieveBlock({ data, selected, id }: NodeProps) {
+  const nodeData = data as FlowNodeData;
+  const config = nodeData.config as RetrieveNodeConfig;
+
+  const handleConfigChange = (field: string, value: any) => {
+    const newConfig = { ...config, [field]: value };
+    nodeData.config = newConfig;
+    window.dispatchEvent(new CustomEvent('nodeConfigChange', {
+      detail: { nodeId: id as unknown as string, field, value, config: newConfig }
+    }));
+  };
+
+  return (
+    <BaseNode id={id as unknown as string} data={nodeData} selected={selected}>
+      <div className="space-y-2">
+        <EmbedderSelect value={config.embedder} onChange={(value) => handleConfigChange('embedder', value)} />
+        <div>
+          <label className="block text-xs font-medium text-base-content/70 mb-1">Query</label>
+          <input
+            type="text"
+            value={config.query || ''}
+            onChange={(e) => handleConfigChange('query', e.target.value)}
+            placeholder="{{input.question}} (empty = incoming value)"
+            className="nodrag w-full px-2 py-1 text-xs rounded border border bg-base-100 focus:bg-base-100 focus:ring-1 focus:ring-indigo-300 focus:outline-none font-mono"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-base-content/70 mb-1">Top K</label>
+          <input
+            type="number"
+            min="1"
+            max="50"
+            value={config.topK || 3}
+            onChange={(e) => handleConfigChange('topK', parseInt(e.target.value) || 1)}
+            className="nodrag w-full px-2 py-1 text-xs rounded border border bg-base-100 focus:bg-base-100 focus:ring-1 focus:ring-indigo-300 focus:outline-none"
+          />
+        </div>
+      </div>
+    </BaseNode>
+  );
+}
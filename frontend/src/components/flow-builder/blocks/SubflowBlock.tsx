@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { NodeProps } from '@xyflow/react';
+import { BaseNode } from './common/BaseNode';
+import { FlowNodeData, SubflowNodeConfig } from '@/types/flow';
+
+interface FlowOption {
+  id: string;
+  name: string;
+  alias: string;
+  version?: string;
+}
+
+export default function SubflowBlock({ data, selected, id }: NodeProps) {
+  const nodeData = data as FlowNodeData;
+  const config = nodeData.config as SubflowNodeConfig;
+  const [flows, setFlows] = useState<FlowOption[]>([]);
+
+  useEffect(() => {
+    const fetchFlows = async () => {
+      try {
+        const response = await fetch('/api/flows', { credentials: 'include' });
+        if (response.ok) {
+          const result = await response.json();
+          setFlows(result.data || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch flows:', error);
+        setFlows([]);
+      }
+    };
+    fetchFlows();
+  }, []);
+
+  const handleConfigChange = (updates: Partial<SubflowNodeConfig>) => {
+    const newConfig = { ...config, ...updates } as SubflowNodeConfig;
+    nodeData.config = newConfig;
+    for (const [field, value] of Object.entries(updates)) {
+      window.dispatchEvent(new CustomEvent('nodeConfigChange', {
+        detail: { nodeId: id as unknown as string, field, value, config: newConfig }
+      }));
+    }
+  };
+
+  const handleFlowChange = (flowId: string) => {
+    const flow = flows.find(f => f.id === flowId);
+    handleConfigChange({ flowId, flowAlias: flow?.alias || '' });
+  };
+
+  return (
+    <BaseNode id={id as unknown as string} data={nodeData} selected={selected}>
+      <div className="space-y-2">
+        <div>
+          <label className="block text-xs font-medium text-base-content/70 mb-1">Flow</label>
+          <select
+            value={config.flowId || ''}
+            onChange={(e) => handleFlowChange(e.target.value)}
+            className="nodrag select select-bordered select-xs w-full"
+          >
+            <option value="">Select a flow...</option>
+            {config.flowId && !flows.some(f => f.id === config.flowId) && (
+              <option value={config.flowId}>{config.flowAlias || config.flowId}</option>
+            )}
+            {flows.map(flow => (
+              <option key={flow.id} value={flow.id}>{flow.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-base-content/70 mb-1">Version (Optional)</label>
+          <input
+            type="text"
+            value={config.version || ''}
+            onChange={(e) => handleConfigChange({ version: e.target.value || undefined })}
+            className="nodrag input input-bordered input-xs w-full text-xs"
+            placeholder="latest"
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-base-content/70 mb-1">Input Mapping (Optional)</label>
+          <textarea
+            value={config.inputMapping || ''}
+            onChange={(e) => handleConfigChange({ inputMapping: e.target.value })}
+            className="nodrag textarea textarea-bordered textarea-xs w-full text-xs font-mono resize-none"
+            rows={3}
+            placeholder={'{\n  "text": "message.body"\n}'}
+          />
+        </div>
+      </div>
+    </BaseNode>
+  );
+}
@@ -26,8 +26,6 @@ export default function TransformBlock({ data, selected, id }: NodeProps) {
             className="nodrag w-full px-2 py-1 text-xs rounded border border bg-base-100 focus:bg-base-100 focus:ring-1 focus:ring-orange-300 focus:outline-none"
           >
             <option value="javascript">JavaScript</option>
-            <option value="typescript">TypeScript</option>
-            <option value="python">Python</option>
           </select>
         </div>
 
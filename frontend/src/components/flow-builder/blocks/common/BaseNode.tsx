@@ -3,7 +3,7 @@ import { Handle, Position } from '@xyflow/react';
 // Minimal interface to support both legacy BlockInstance and current FlowNodeData
 type BaseNodeData = { blockType?: string; type?: string } & Record<string, any>;
 import { useBlocksStore } from '@/stores';
-import { Trash2, FileText, Brain, Download, Wrench, Code, GitBranch, Square, Bot } from 'lucide-react';
+import { Trash2, Pin, Play, CircleDot, FileText, Brain, Download, Wrench, Code, GitBranch, Square, Bot, Hand, Repeat, Workflow, Globe, Binary, DatabaseZap, FileSearch } from 'lucide-react';
 
 // Icon mapping function to convert server icon strings to React components
 const getIconComponent = (iconName: string) => {
@@ -15,6 +15,13 @@ const getIconComponent = (iconName: string) => {
     'Code': Code,
     'GitBranch': GitBranch,
     'Bot': Bot,
+    'Hand': Hand,
+    'Repeat': Repeat,
+    'Workflow': Workflow,
+    'Globe': Globe,
+    'Binary': Binary,
+    'DatabaseZap': DatabaseZap,
+    'FileSearch': FileSearch,
     'Square': Square
   };
   
@@ -118,6 +125,36 @@ export function BaseNode({ id, data, selected, children, showSourceHandle = true
   const blockType = (data as any).blockType || (data as any).type;
   const blockConfig = getBlockMetadata(blockType);
   const nodeStyle = getNodeStyle(blockType, getBlockMetadata);
+  const [isPinned, setIsPinned] = useState(() => (window as any).__pinnedData?.[id] !== undefined);
+
+  useEffect(() => {
+    const onPinnedDataChange = (ev: any) => {
+      const pinnedData = ev?.detail || (window as any).__pinnedData || {};
+      setIsPinned(pinnedData[id] !== undefined);
+    };
+    window.addEventListener('pinnedDataChange', onPinnedDataChange as EventListener);
+    return () => window.removeEventListener('pinnedDataChange', onPinnedDataChange as EventListener);
+  }, [id]);
+
+  const [hasBreakpoint, setHasBreakpoint] = useState<boolean>(() => ((window as any).__breakpoints || []).includes(id));
+  // Set while a debug run waits before this node
+  const [isPaused, setIsPaused] = useState(() => (window as any).__debugPause?.nodeId === id);
+
+  useEffect(() => {
+    const onBreakpointsChange = (ev: any) => {
+      const breakpoints: string[] = ev?.detail || (window as any).__breakpoints || [];
+      setHasBreakpoint(breakpoints.includes(id));
+    };
+    const onDebugPauseChange = (ev: any) => {
+      setIsPaused(ev?.detail?.nodeId === id);
+    };
+    window.addEventListener('breakpointsChange', onBreakpointsChange as EventListener);
+    window.addEventListener('debugPauseChange', onDebugPauseChange as EventListener);
+    return () => {
+      window.removeEventListener('breakpointsChange', onBreakpointsChange as EventListener);
+      window.removeEventListener('debugPauseChange', onDebugPauseChange as EventListener);
+    };
+  }, [id]);
   
   // Fallback if block type not found
   if (!blockConfig) {
@@ -132,7 +169,7 @@ export function BaseNode({ id, data, selected, children, showSourceHandle = true
 
   return (
     <div 
-      className={`flow-node ${nodeStyles.base} ${nodeStyle} ${selected ? 'ring-2 ring-primary' : ''}`}
+      className={`flow-node ${nodeStyles.base} ${nodeStyle} ${isPaused ? 'ring-2 ring-warning' : selected ? 'ring-2 ring-primary' : ''}`}
     >
       {showTargetHandle && (
         <Handle
@@ -149,6 +186,50 @@ export function BaseNode({ id, data, selected, children, showSourceHandle = true
             <div className="font-semibold text-sm">{blockConfig.name}</div>
           </div>
           <div className="flex items-center gap-2">
+            {isPinned && (
+              <button
+                type="button"
+                aria-label="Unpin data"
+                title="Output is pinned for runs from a later node. Click to unpin."
+                className="btn btn-ghost btn-xs btn-square text-warning"
+                onMouseDown={(e) => { e.stopPropagation(); e.preventDefault(); }}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  e.preventDefault();
+                  window.dispatchEvent(new CustomEvent('nodePinData', { detail: { nodeId: id } }));
+                }}
+              >
+                <Pin className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              type="button"
+              aria-label={hasBreakpoint ? 'Remove breakpoint' : 'Add breakpoint'}
+              title={hasBreakpoint ? 'Debug runs pause before this node. Click to remove the breakpoint.' : 'Add breakpoint'}
+              className={`btn btn-ghost btn-xs btn-square ${hasBreakpoint ? 'text-error' : ''}`}
+              onMouseDown={(e) => { e.stopPropagation(); e.preventDefault(); }}
+              onClick={(e) => {
+                e.stopPropagation();
+                e.preventDefault();
+                window.dispatchEvent(new CustomEvent('nodeToggleBreakpoint', { detail: { nodeId: id } }));
+              }}
+            >
+              <CircleDot className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              aria-label="Run from here"
+              title="Run from here"
+              className="btn btn-ghost btn-xs btn-square"
+              onMouseDown={(e) => { e.stopPropagation(); e.preventDefault(); }}
+              onClick={(e) => {
+                e.stopPropagation();
+                e.preventDefault();
+                window.dispatchEvent(new CustomEvent('nodeRunFrom', { detail: { nodeId: id } }));
+              }}
+            >
+              <Play className="w-4 h-4" />
+            </button>
             <button
               type="button"
               aria-label="Delete node"
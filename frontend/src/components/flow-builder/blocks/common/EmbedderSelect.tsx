@@ -0,0 +1,24 @@
+import React from 'react';
+import { EMBEDDERS } from '@/types/flow';
+
+interface EmbedderSelectProps {
+  value?: string;
+  onChange: (value: string) => void;
+}
+
+export function EmbedderSelect({ value, onChange }: EmbedderSelectProps) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-base-content/70 mb-1">Embedder</label>
+      <select
+        value={value || 'flowshapr/fake-embedder'}
+        onChange={(e) => onChange(e.target.value)}
+        className="nodrag w-full px-2 py-1 text-xs rounded border border bg-base-100 focus:bg-base-100 focus:ring-1 focus:ring-indigo-300 focus:outline-none"
+      >
+        {Object.entries(EMBEDDERS).map(([embedder, label]) => (
+          <option key={embedder} value={embedder}>{label}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
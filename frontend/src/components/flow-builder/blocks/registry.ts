@@ -5,6 +5,13 @@ import OutputBlock from './OutputBlock';
 import ConditionBlock from './ConditionBlock';
 import McpToolBlock from './tools/McpToolBlock';
 import InterruptBlock from './InterruptBlock';
+import TransformBlock from './TransformBlock';
+import ForEachBlock from './ForEachBlock';
+import SubflowBlock from './SubflowBlock';
+import HttpBlock from './HttpBlock';
+import EmbedBlock from './EmbedBlock';
+import IndexBlock from './IndexBlock';
+import RetrieveBlock from './RetrieveBlock';
 
 // ReactFlow node type registry
 export const nodeTypes = {
@@ -14,6 +21,13 @@ export const nodeTypes = {
   [NodeType.CONDITION]: ConditionBlock,
   [NodeType.TOOL]: McpToolBlock,
   [NodeType.INTERRUPT]: InterruptBlock,
+  [NodeType.TRANSFORM]: TransformBlock,
+  [NodeType.FOREACH]: ForEachBlock,
+  [NodeType.SUBFLOW]: SubflowBlock,
+  [NodeType.HTTP]: HttpBlock,
+  [NodeType.EMBED]: EmbedBlock,
+  [NodeType.INDEX]: IndexBlock,
+  [NodeType.RETRIEVE]: RetrieveBlock,
 };
 
 // Visuals per node type
@@ -24,6 +38,13 @@ const nodeColors: Record<NodeType, string> = {
   [NodeType.CONDITION]: '#eab308',
   [NodeType.TOOL]: '#14b8a6',
   [NodeType.INTERRUPT]: '#ea580c',
+  [NodeType.TRANSFORM]: '#f97316',
+  [NodeType.FOREACH]: '#6366f1',
+  [NodeType.SUBFLOW]: '#4f46e5',
+  [NodeType.HTTP]: '#0891b2',
+  [NodeType.EMBED]: '#059669',
+  [NodeType.INDEX]: '#0d9488',
+  [NodeType.RETRIEVE]: '#0f766e',
 };
 
 export function getNodeColor(type: NodeType): string {
@@ -38,6 +59,13 @@ const nodeLabels: Record<NodeType, string> = {
   [NodeType.CONDITION]: 'Condition',
   [NodeType.TOOL]: 'Tool',
   [NodeType.INTERRUPT]: 'Interrupt',
+  [NodeType.TRANSFORM]: 'Transform',
+  [NodeType.FOREACH]: 'For Each',
+  [NodeType.SUBFLOW]: 'Subflow',
+  [NodeType.HTTP]: 'HTTP Request',
+  [NodeType.EMBED]: 'Embed',
+  [NodeType.INDEX]: 'Index Documents',
+  [NodeType.RETRIEVE]: 'Retrieve Documents',
 };
 
 export function getNodeLabel(type: NodeType | string): string {
@@ -95,6 +123,53 @@ export function getDefaultConfig(type: NodeType | string): any {
         timeout: undefined,
         allowedResponses: [],
       };
+    case NodeType.TRANSFORM:
+      return {
+        language: 'javascript',
+        code: '// Transform the data\nreturn data;',
+        timeout: 1000,
+      };
+    case NodeType.FOREACH:
+      return {
+        itemsPath: '',
+        concurrency: 5,
+        errorPolicy: 'fail-fast',
+      };
+    case NodeType.SUBFLOW:
+      return {
+        flowId: '',
+        flowAlias: '',
+        version: undefined,
+        inputMapping: '',
+      };
+    case NodeType.HTTP:
+      return {
+        method: 'GET',
+        url: '',
+        headers: '',
+        body: '',
+        responseType: 'json',
+        timeout: 10000,
+        retries: 0,
+        retryDelay: 500,
+      };
+    case NodeType.EMBED:
+      return {
+        embedder: 'flowshapr/fake-embedder',
+        text: '',
+      };
+    case NodeType.INDEX:
+      return {
+        embedder: 'flowshapr/fake-embedder',
+        chunkSize: 1000,
+        chunkOverlap: 100,
+      };
+    case NodeType.RETRIEVE:
+      return {
+        embedder: 'flowshapr/fake-embedder',
+        query: '',
+        topK: 3,
+      };
     default:
       return {};
   }
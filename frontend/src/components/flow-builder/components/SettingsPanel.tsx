@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { SidebarList, SidebarListHeader, SidebarListItem } from '@/components/ui/SidebarList';
+import { FLOW_ENVIRONMENTS, type FlowEnvironment, type FlowPromotion, type FlowSchedule, type FlowVersionSummary, type ScheduledRun, type TrafficVariant, type TrafficVariantSummary } from '@/types/flow';
 
 interface SettingsPanelProps {
   selectedFlow?: {
@@ -14,7 +15,7 @@ interface SettingsPanelProps {
   };
 }
 
-type SettingsTab = 'general' | 'connections' | 'access-tokens';
+type SettingsTab = 'general' | 'connections' | 'access-tokens' | 'environments' | 'schedules';
 
 export function SettingsPanel({ selectedFlow }: SettingsPanelProps) {
   const [activeTab, setActiveTab] = useState<SettingsTab>('general');
@@ -51,6 +52,24 @@ export function SettingsPanel({ selectedFlow }: SettingsPanelProps) {
           >
             Access Tokens
           </button>
+          <button
+            role="tab"
+            onClick={() => setActiveTab('environments')}
+            className={`tab text-sm font-medium ${
+              activeTab === 'environments' ? 'tab-active' : ''
+            }`}
+          >
+            Environments
+          </button>
+          <button
+            role="tab"
+            onClick={() => setActiveTab('schedules')}
+            className={`tab text-sm font-medium ${
+              activeTab === 'schedules' ? 'tab-active' : ''
+            }`}
+          >
+            Schedules
+          </button>
         </div>
       </div>
 
@@ -65,6 +84,12 @@ export function SettingsPanel({ selectedFlow }: SettingsPanelProps) {
         {activeTab === 'access-tokens' && (
           <AccessTokensTab flowId={selectedFlow?.id || ''} />
         )}
+        {activeTab === 'environments' && (
+          <EnvironmentsTab flowId={selectedFlow?.id || ''} />
+        )}
+        {activeTab === 'schedules' && (
+          <SchedulesTab flowId={selectedFlow?.id || ''} />
+        )}
       </div>
     </div>
   );
@@ -195,7 +220,7 @@ function GeneralSettingsTab({ selectedFlow }: { selectedFlow?: any }) {
 }
 
 function ConnectionsTab({ flowId }: { flowId: string }) {
-  const [list, setList] = useState<Array<{ id: string; name: string; provider: string; isActive: boolean }>>([]);
+  const [list, setList] = useState<Array<{ id: string; name: string; provider: string; isActive: boolean; environment?: string | null }>>([]);
   const [loading, setLoading] = useState(false);
 
   const load = async () => {
@@ -217,6 +242,7 @@ function ConnectionsTab({ flowId }: { flowId: string }) {
     const name = (document.getElementById('conn-name') as HTMLInputElement)?.value?.trim();
     const provider = (document.getElementById('conn-provider') as HTMLSelectElement)?.value as any;
     const apiKey = (document.getElementById('conn-key') as HTMLInputElement)?.value?.trim();
+    const environment = (document.getElementById('conn-environment') as HTMLSelectElement)?.value || null;
     
     if (!flowId || !name || !apiKey) {
       window.dispatchEvent(new CustomEvent('consoleLog', { 
@@ -229,7 +255,7 @@ function ConnectionsTab({ flowId }: { flowId: string }) {
       const resp = await fetch(`/api/flows/${flowId}/connections`, { 
         method: 'POST', 
         headers: { 'Content-Type': 'application/json' }, 
-        body: JSON.stringify({ name, provider, apiKey }) 
+        body: JSON.stringify({ name, provider, apiKey, environment }) 
       });
       
       if (!resp.ok) {
@@ -275,7 +301,7 @@ function ConnectionsTab({ flowId }: { flowId: string }) {
 
         <div className="space-y-4">
           <div className="p-4 border border-base-300 rounded-lg">
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
               <div>
                 <label className="block text-sm font-medium text-base-content/70 mb-1">Name</label>
                 <input 
@@ -301,6 +327,13 @@ function ConnectionsTab({ flowId }: { flowId: string }) {
                   placeholder="sk-..."
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-base-content/70 mb-1">Environment</label>
+                <select className="select select-bordered select-sm w-full" id="conn-environment" defaultValue="">
+                  <option value="">Shared</option>
+                  {FLOW_ENVIRONMENTS.map(env => <option key={env} value={env}>{env}</option>)}
+                </select>
+              </div>
               <div className="flex items-end">
                 <button 
                   className="btn btn-primary btn-sm w-full" 
@@ -325,6 +358,7 @@ function ConnectionsTab({ flowId }: { flowId: string }) {
                   <div className="text-sm font-medium">
                     {connection.name}
                     <span className="ml-2 text-xs text-base-content/60">({connection.provider})</span>
+                    {connection.environment && <span className="ml-2 badge badge-sm badge-outline">{connection.environment}</span>}
                   </div>
                   <div className="text-xs text-base-content/60 mt-1">
                     {connection.isActive ? (
@@ -356,6 +390,18 @@ function AccessTokensTab({ flowId }: { flowId: string }) {
   const [scopes, setScopes] = useState('execute_flow');
   const [createdToken, setCreatedToken] = useState<string | null>(null);
   const [limitToFlow, setLimitToFlow] = useState(true);
+  const [environment, setEnvironment] = useState('');
+  const [webhookSecret, setWebhookSecret] = useState<string | null>(null);
+
+  const revealWebhookSecret = async () => {
+    const resp = await fetch(`/api/flows/${flowId}/webhook-secret`, { cache: 'no-store' });
+    const json = await resp.json().catch(() => ({}));
+    if (resp.ok) {
+      setWebhookSecret(json?.data?.secret || null);
+    } else {
+      window.dispatchEvent(new CustomEvent('consoleLog', { detail: { level: 'error', message: json?.error?.details || `Failed to get webhook secret (${resp.status})` } }));
+    }
+  };
 
   const load = async () => {
     if (!flowId) return;
@@ -380,7 +426,8 @@ function AccessTokensTab({ flowId }: { flowId: string }) {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ 
         name: name.trim(), 
-        scopes: scoped.split(',').map(s => s.trim()).filter(Boolean) 
+        scopes: scoped.split(',').map(s => s.trim()).filter(Boolean),
+        environment: environment || null,
       }),
     });
     
@@ -432,7 +479,7 @@ function AccessTokensTab({ flowId }: { flowId: string }) {
         <div className="space-y-4">
           <div className="p-4 border border-base-300 rounded-lg">
             <div className="space-y-3">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
                 <input 
                   className="input input-bordered input-sm" 
                   placeholder="Token name" 
@@ -445,6 +492,15 @@ function AccessTokensTab({ flowId }: { flowId: string }) {
                   value={scopes} 
                   onChange={(e) => setScopes(e.target.value)} 
                 />
+                <select
+                  className="select select-bordered select-sm"
+                  value={environment}
+                  onChange={(e) => setEnvironment(e.target.value)}
+                  title="Runs with the token use the version deployed to this environment"
+                >
+                  <option value="">Latest published</option>
+                  {FLOW_ENVIRONMENTS.map(env => <option key={env} value={env}>{env}</option>)}
+                </select>
                 <button 
                   className="btn btn-primary btn-sm" 
                   onClick={create} 
@@ -498,6 +554,7 @@ function AccessTokensTab({ flowId }: { flowId: string }) {
                   <div className="text-sm font-medium">
                     {token.name} 
                     <span className="ml-2 text-xs text-base-content/60 font-mono">({token.prefix}...)</span>
+                    {token.environment && <span className="ml-2 badge badge-sm badge-outline">{token.environment}</span>}
                   </div>
                   <div className="text-xs text-base-content/60 mt-1">
                     Scopes: {(token.scopes || []).join(', ') || 'no scopes'}
@@ -515,8 +572,477 @@ function AccessTokensTab({ flowId }: { flowId: string }) {
               </div>
             ))}
           </div>
+
+          <div className="p-4 border border-base-300 rounded-lg">
+            <div className="text-sm font-medium mb-1">Webhook signing secret</div>
+            <p className="text-xs text-base-content/70 mb-2">
+              Completion webhooks of this flow&apos;s asynchronous runs carry an <code>X-Flowshapr-Signature</code> HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;body&gt;</code> made with this secret.
+            </p>
+            {webhookSecret ? (
+              <div className="flex items-center gap-2">
+                <code className="flex-1 p-2 bg-base-200 rounded text-xs break-all font-mono">{webhookSecret}</code>
+                <button className="btn btn-sm btn-ghost" onClick={() => copyToClipboard(webhookSecret)}>Copy</button>
+              </div>
+            ) : (
+              <button className="btn btn-ghost btn-sm" onClick={revealWebhookSecret} disabled={!flowId}>Reveal secret</button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function EnvironmentsTab({ flowId }: { flowId: string }) {
+  const [environments, setEnvironments] = useState<FlowEnvironment[]>([]);
+  const [versions, setVersions] = useState<FlowVersionSummary[]>([]);
+  const [promotions, setPromotions] = useState<FlowPromotion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [target, setTarget] = useState<string>(FLOW_ENVIRONMENTS[0]);
+  const [version, setVersion] = useState('');
+  const [reason, setReason] = useState('');
+
+  const load = async () => {
+    if (!flowId) return;
+    setLoading(true);
+    try {
+      const [envResp, versionResp, promotionResp] = await Promise.all([
+        fetch(`/api/flows/${flowId}/environments`, { cache: 'no-store' }),
+        fetch(`/api/flows/${flowId}/versions`, { cache: 'no-store' }),
+        fetch(`/api/flows/${flowId}/environments/promotions`, { cache: 'no-store' }),
+      ]);
+      setEnvironments((await envResp.json())?.data || []);
+      const versionList: FlowVersionSummary[] = (await versionResp.json())?.data || [];
+      setVersions(versionList);
+      setVersion(current => current || versionList[0]?.version || '');
+      setPromotions((await promotionResp.json())?.data || []);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, [flowId]);
+
+  const send = async (url: string, method: string, body: Record<string, unknown>) => {
+    const resp = await fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+    const json = await resp.json().catch(() => ({}));
+    window.dispatchEvent(new CustomEvent('consoleLog', {
+      detail: resp.ok
+        ? { level: 'info', message: json?.message || 'Environment updated' }
+        : { level: 'error', message: json?.error?.message || `Failed to update environment (${resp.status})` }
+    }));
+    if (resp.ok) {
+      setReason('');
+      await load();
+    }
+  };
+
+  const deploy = () => {
+    if (!flowId || !version) return;
+    send(`/api/flows/${flowId}/environments/${target}`, 'PUT', { version, ...(reason.trim() ? { reason: reason.trim() } : {}) });
+  };
+
+  // Promotions move what one environment runs to the next one and need a reason for the history
+  const promote = (from: string, to: string) => {
+    if (!flowId || !reason.trim()) return;
+    send(`/api/flows/${flowId}/environments/promote`, 'POST', { from, to, reason: reason.trim() });
+  };
+
+  return (
+    <div className="flex-1 p-6 overflow-auto">
+      <div className="max-w-2xl space-y-6">
+        <div>
+          <h2 className="text-lg font-semibold text-base-content mb-2">Environments</h2>
+          <p className="text-sm text-base-content/70">
+            Each environment runs a published version with its own connections. Access tokens bound to an environment run its version.
+          </p>
+        </div>
+
+        <div className="p-4 border border-base-300 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select className="select select-bordered select-sm" value={target} onChange={(e) => setTarget(e.target.value)}>
+              {FLOW_ENVIRONMENTS.map(env => <option key={env} value={env}>{env}</option>)}
+            </select>
+            <select className="select select-bordered select-sm" value={version} onChange={(e) => setVersion(e.target.value)}>
+              {versions.length === 0 && <option value="">No published versions</option>}
+              {versions.map(v => <option key={v.id} value={v.version}>v{v.version}</option>)}
+            </select>
+            <button className="btn btn-primary btn-sm" onClick={deploy} disabled={!version || loading}>
+              Deploy
+            </button>
+          </div>
+          <input
+            className="input input-bordered input-sm w-full"
+            placeholder="Reason (required to promote)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <div className="border border-base-300 rounded-lg divide-y">
+          {environments.map((env, index) => {
+            const next = FLOW_ENVIRONMENTS[index + 1];
+            return (
+              <div key={env.name} className="p-4 flex items-center justify-between">
+                <div className="flex-1">
+                  <div className="text-sm font-medium">
+                    {env.name}
+                    <span className="ml-2 text-xs text-base-content/60">{env.version ? `v${env.version}` : 'Not deployed'}</span>
+                  </div>
+                  {env.deployedAt && (
+                    <div className="text-xs text-base-content/60 mt-1">Deployed {new Date(env.deployedAt).toLocaleString()}</div>
+                  )}
+                </div>
+                {next && (
+                  <button
+                    className="btn btn-ghost btn-sm"
+                    onClick={() => promote(env.name, next)}
+                    disabled={!env.version || !reason.trim()}
+                    title={reason.trim() ? undefined : 'Enter a reason to promote'}
+                  >
+                    Promote to {next}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <TrafficSplitSection flowId={flowId} versions={versions} />
+
+        <div>
+          <h3 className="text-sm font-semibold text-base-content mb-2">History</h3>
+          <div className="border border-base-300 rounded-lg divide-y">
+            {promotions.length === 0 && (
+              <div className="p-4 text-sm text-base-content/60 text-center">
+                {loading ? 'Loading history...' : 'Nothing deployed yet.'}
+              </div>
+            )}
+            {promotions.map(promotion => (
+              <div key={promotion.id} className="p-3 text-xs">
+                <div className="text-base-content">
+                  v{promotion.version} {promotion.fromEnvironment ? `promoted from ${promotion.fromEnvironment} to` : 'deployed to'} {promotion.environment}
+                  {promotion.previousVersion && <span className="text-base-content/60"> (was v{promotion.previousVersion})</span>}
+                </div>
+                <div className="text-base-content/60">
+                  {promotion.promotedByName || promotion.promotedBy} · {new Date(promotion.createdAt).toLocaleString()}
+                  {promotion.reason && <span> · {promotion.reason}</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TrafficSplitSection({ flowId, versions }: { flowId: string; versions: FlowVersionSummary[] }) {
+  const [variants, setVariants] = useState<TrafficVariant[]>([]);
+  const [summary, setSummary] = useState<TrafficVariantSummary[]>([]);
+
+  const load = async () => {
+    if (!flowId) return;
+    const [splitResp, summaryResp] = await Promise.all([
+      fetch(`/api/flows/${flowId}/traffic-split`, { cache: 'no-store' }),
+      fetch(`/api/flows/${flowId}/traffic-split/summary`, { cache: 'no-store' }),
+    ]);
+    setVariants((await splitResp.json())?.data?.variants || []);
+    setSummary((await summaryResp.json())?.data || []);
+  };
+
+  useEffect(() => { load(); }, [flowId]);
+
+  const update = (index: number, changes: Partial<TrafficVariant>) =>
+    setVariants(current => current.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+
+  const addVariant = () => setVariants(current => [
+    ...current,
+    { name: current.length === 0 ? 'stable' : current.length === 1 ? 'canary' : `variant-${current.length + 1}`, version: versions[0]?.version || '', weight: current.length === 0 ? 100 : 0 },
+  ]);
+
+  const totalWeight = variants.reduce((total, variant) => total + (Number(variant.weight) || 0), 0);
+
+  const save = async (method: 'PUT' | 'DELETE') => {
+    if (!flowId) return;
+    const resp = await fetch(`/api/flows/${flowId}/traffic-split`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      ...(method === 'PUT' ? { body: JSON.stringify({ variants }) } : {}),
+    });
+    const json = await resp.json().catch(() => ({}));
+    window.dispatchEvent(new CustomEvent('consoleLog', {
+      detail: resp.ok
+        ? { level: 'info', message: json?.message || 'Traffic split updated' }
+        : { level: 'error', message: json?.error?.message || `Failed to update traffic split (${resp.status})` }
+    }));
+    if (resp.ok) await load();
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-base-content">Traffic split</h3>
+        <button className="text-xs text-primary" onClick={load}>Refresh</button>
+      </div>
+      <p className="text-xs text-base-content/70 mb-2">
+        Splits unpinned <code>by-alias</code> runs between published versions. Callers sending an <code>X-Routing-Key</code> header stay on one variant.
+      </p>
+      <div className="p-4 border border-base-300 rounded-lg space-y-2">
+        {variants.map((variant, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <input
+              className="input input-bordered input-sm col-span-4"
+              value={variant.name}
+              onChange={(e) => update(index, { name: e.target.value })}
+            />
+            <select
+              className="select select-bordered select-sm col-span-4"
+              value={variant.version}
+              onChange={(e) => update(index, { version: e.target.value })}
+            >
+              {versions.map(v => <option key={v.id} value={v.version}>v{v.version}</option>)}
+            </select>
+            <input
+              className="input input-bordered input-sm col-span-2"
+              type="number"
+              min={0}
+              max={100}
+              value={variant.weight}
+              onChange={(e) => update(index, { weight: Number(e.target.value) })}
+            />
+            <span className="text-xs text-base-content/60 col-span-1">%</span>
+            <button
+              className="btn btn-ghost btn-xs text-error col-span-1"
+              onClick={() => setVariants(current => current.filter((_, i) => i !== index))}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center justify-between pt-1">
+          <button className="btn btn-ghost btn-sm" onClick={addVariant} disabled={versions.length === 0}>Add variant</button>
+          <div className="flex items-center gap-2">
+            {variants.length > 0 && totalWeight !== 100 && (
+              <span className="text-xs text-warning">Weights add up to {totalWeight}%</span>
+            )}
+            <button className="btn btn-ghost btn-sm" onClick={() => save('DELETE')}>Remove split</button>
+            <button className="btn btn-primary btn-sm" onClick={() => save('PUT')} disabled={variants.length === 0 || totalWeight !== 100}>
+              Save split
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {summary.length > 0 && (
+        <table className="table table-xs mt-3">
+          <thead>
+            <tr>
+              <th>Variant</th>
+              <th>Weight</th>
+              <th>Runs</th>
+              <th>Error rate</th>
+              <th>Avg</th>
+              <th>p95</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.map(row => (
+              <tr key={row.variant}>
+                <td>{row.variant}{row.version ? ` (v${row.version})` : ''}</td>
+                <td>{row.weight === null ? '—' : `${row.weight}%`}</td>
+                <td>{row.runs}</td>
+                <td>{(row.errorRate * 100).toFixed(1)}%</td>
+                <td>{row.avgDuration === null ? '—' : `${row.avgDuration} ms`}</td>
+                <td>{row.p95Duration === null ? '—' : `${row.p95Duration} ms`}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function SchedulesTab({ flowId }: { flowId: string }) {
+  const [schedules, setSchedules] = useState<FlowSchedule[]>([]);
+  const [runs, setRuns] = useState<ScheduledRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [cronExpression, setCronExpression] = useState('0 9 * * *');
+  const [timezone, setTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC');
+  const [input, setInput] = useState('{}');
+
+  const load = async () => {
+    if (!flowId) return;
+    setLoading(true);
+    try {
+      const [scheduleResp, runResp] = await Promise.all([
+        fetch(`/api/flows/${flowId}/schedules`, { cache: 'no-store' }),
+        fetch(`/api/flows/${flowId}/schedules/runs`, { cache: 'no-store' }),
+      ]);
+      setSchedules((await scheduleResp.json())?.data || []);
+      setRuns((await runResp.json())?.data || []);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, [flowId]);
+
+  const send = async (url: string, method: string, body?: Record<string, unknown>) => {
+    const resp = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      ...(body ? { body: JSON.stringify(body) } : {}),
+    });
+    const json = await resp.json().catch(() => ({}));
+    window.dispatchEvent(new CustomEvent('consoleLog', {
+      detail: resp.ok
+        ? { level: 'info', message: json?.message || 'Schedule updated' }
+        : { level: 'error', message: json?.error?.message || `Failed to update schedule (${resp.status})` }
+    }));
+    if (resp.ok) await load();
+    return resp.ok;
+  };
+
+  const create = async () => {
+    if (!flowId || !name.trim() || !cronExpression.trim()) return;
+    let parsedInput: unknown;
+    try {
+      parsedInput = JSON.parse(input || '{}');
+    } catch {
+      window.dispatchEvent(new CustomEvent('consoleLog', { detail: { level: 'error', message: 'Schedule input must be valid JSON' } }));
+      return;
+    }
+    const created = await send(`/api/flows/${flowId}/schedules`, 'POST', {
+      name: name.trim(),
+      cronExpression: cronExpression.trim(),
+      timezone: timezone.trim() || 'UTC',
+      input: parsedInput,
+    });
+    if (created) setName('');
+  };
+
+  const scheduleName = (scheduleId: string | null) =>
+    schedules.find(schedule => schedule.id === scheduleId)?.name || 'Deleted schedule';
+
+  return (
+    <div className="flex-1 p-6 overflow-auto">
+      <div className="max-w-2xl space-y-6">
+        <div>
+          <h2 className="text-lg font-semibold text-base-content mb-2">Schedules</h2>
+          <p className="text-sm text-base-content/70">
+            Run the published version on a cron schedule with a fixed input. Runs are queued like API runs and appear in traces.
+          </p>
+        </div>
+
+        <div className="p-4 border border-base-300 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              className="input input-bordered input-sm"
+              placeholder="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <input
+              className="input input-bordered input-sm font-mono"
+              placeholder="Cron, e.g. 0 9 * * mon-fri"
+              value={cronExpression}
+              onChange={(e) => setCronExpression(e.target.value)}
+            />
+            <input
+              className="input input-bordered input-sm"
+              placeholder="Timezone, e.g. Europe/Berlin"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+            />
+          </div>
+          <textarea
+            className="textarea textarea-bordered w-full font-mono text-xs"
+            rows={3}
+            placeholder="Input (JSON)"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+          />
+          <div className="flex justify-end">
+            <button className="btn btn-primary btn-sm" onClick={create} disabled={!name.trim() || !cronExpression.trim() || loading}>
+              Add schedule
+            </button>
+          </div>
+        </div>
+
+        <div className="border border-base-300 rounded-lg divide-y">
+          {schedules.length === 0 && (
+            <div className="p-4 text-sm text-base-content/60 text-center">
+              {loading ? 'Loading schedules...' : 'No schedules yet.'}
+            </div>
+          )}
+          {schedules.map(schedule => (
+            <div key={schedule.id} className="p-4 flex items-center justify-between">
+              <div className="flex-1">
+                <div className="text-sm font-medium">
+                  {schedule.name}
+                  <span className="ml-2 text-xs font-mono text-base-content/60">{schedule.cronExpression}</span>
+                  <span className="ml-2 text-xs text-base-content/60">{schedule.timezone}</span>
+                </div>
+                <div className="text-xs text-base-content/60 mt-1">
+                  {schedule.isActive && schedule.nextRunAt ? `Next run ${new Date(schedule.nextRunAt).toLocaleString()}` : 'Paused'}
+                  {schedule.lastRunAt && <span> · Last run {new Date(schedule.lastRunAt).toLocaleString()}</span>}
+                </div>
+                {schedule.lastError && (
+                  <div className="text-xs text-error mt-1">{schedule.lastError}</div>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="toggle toggle-sm"
+                  checked={schedule.isActive}
+                  title={schedule.isActive ? 'Pause' : 'Resume'}
+                  onChange={() => send(`/api/flows/${flowId}/schedules/${schedule.id}`, 'PUT', { isActive: !schedule.isActive })}
+                />
+                <button
+                  className="btn btn-ghost btn-sm text-error"
+                  onClick={() => send(`/api/flows/${flowId}/schedules/${schedule.id}`, 'DELETE')}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-base-content">Recent scheduled runs</h3>
+            <button className="text-xs text-primary" onClick={load}>Refresh</button>
+          </div>
+          <div className="border border-base-300 rounded-lg divide-y">
+            {runs.length === 0 && (
+              <div className="p-4 text-sm text-base-content/60 text-center">No scheduled runs yet.</div>
+            )}
+            {runs.map(run => (
+              <div key={run.executionId} className="p-3 text-xs flex items-center justify-between">
+                <div>
+                  <div className="text-base-content">
+                    {scheduleName(run.scheduleId)}
+                    {run.version && <span className="text-base-content/60"> · v{run.version}</span>}
+                  </div>
+                  <div className="text-base-content/60">
+                    {new Date(run.createdAt).toLocaleString()}
+                    {run.duration !== null && <span> · {run.duration} ms</span>}
+                    {run.errorMessage && <span className="text-error"> · {run.errorMessage}</span>}
+                  </div>
+                </div>
+                <span className={`badge badge-sm ${run.status === 'completed' ? 'badge-success' : run.status === 'failed' ? 'badge-error' : 'badge-ghost'}`}>
+                  {run.status}
+                </span>
+              </div>
+            ))}
+          </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
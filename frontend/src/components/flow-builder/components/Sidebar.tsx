@@ -2,7 +2,7 @@ import React, { useEffect } from 'react';
 import { clientBlockService } from '@/lib/blocks/client-service';
 import { BlockCategory, ClientBlockMetadata } from '@/lib/blocks/client-types';
 import { useBlocksStore } from '@/stores';
-import { FileText, Brain, Download, Wrench, Code, GitBranch, Square, Bot } from 'lucide-react';
+import { FileText, Brain, Download, Wrench, Code, GitBranch, Square, Bot, Hand, Repeat, Workflow, Globe, Binary, DatabaseZap, FileSearch } from 'lucide-react';
 
 // Icon mapping function to convert server icon strings to React components
 const getIconComponent = (iconName: string) => {
@@ -14,6 +14,13 @@ const getIconComponent = (iconName: string) => {
     'Code': Code,
     'GitBranch': GitBranch,
     'Bot': Bot,
+    'Hand': Hand,
+    'Repeat': Repeat,
+    'Workflow': Workflow,
+    'Globe': Globe,
+    'Binary': Binary,
+    'DatabaseZap': DatabaseZap,
+    'FileSearch': FileSearch,
     'Square': Square
   };
   
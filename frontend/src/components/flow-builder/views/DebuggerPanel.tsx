@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { DebugPause } from '@/types/flow';
+
+type DebugCommand = { action: 'step' | 'continue'; input?: unknown };
+
+export function DebuggerPanel({
+  pause,
+  isDebugging,
+  nodeLabel,
+  onCommand,
+}: {
+  pause: DebugPause | null;
+  isDebugging: boolean;
+  nodeLabel: (nodeId: string) => string;
+  onCommand: (command: DebugCommand) => Promise<void>;
+}) {
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  // Each pause starts from the value the node would receive
+  useEffect(() => {
+    setDraft(pause ? JSON.stringify(pause.input, null, 2) ?? '' : '');
+    setError(null);
+  }, [pause]);
+
+  const send = async (action: DebugCommand['action']) => {
+    if (!pause) return;
+    const command: DebugCommand = { action };
+    if (draft !== (JSON.stringify(pause.input, null, 2) ?? '')) {
+      try {
+        command.input = JSON.parse(draft);
+      } catch {
+        setError('The incoming value must be valid JSON');
+        return;
+      }
+    }
+    setSending(true);
+    try {
+      await onCommand(command);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-base-100 border border rounded-lg h-full flex flex-col">
+      <div className="p-3 border-b border flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-base-content">Debugger</h3>
+        <span className="text-xs text-base-content/70">
+          {pause ? `Paused before ${nodeLabel(pause.nodeId)}` : isDebugging ? 'Running' : 'Idle'}
+        </span>
+      </div>
+      <div className="flex-1 overflow-auto p-3 space-y-3">
+        {!pause && (
+          <div className="h-full flex items-center justify-center text-base-content/60 text-sm text-center">
+            {isDebugging
+              ? 'Running to the next breakpoint...'
+              : 'Add breakpoints on nodes, then start a Debug run from the Test panel'}
+          </div>
+        )}
+        {pause && (
+          <>
+            <div className="flex gap-2">
+              <button className="btn btn-sm btn-primary flex-1" onClick={() => send('step')} disabled={sending}>
+                Step
+              </button>
+              <button className="btn btn-sm btn-outline flex-1" onClick={() => send('continue')} disabled={sending}>
+                Continue
+              </button>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-base-content/70 mb-1">Incoming value</label>
+              <textarea
+                className="textarea textarea-bordered w-full font-mono text-xs"
+                rows={6}
+                value={draft}
+                onChange={(e) => { setDraft(e.target.value); setError(null); }}
+              />
+              {error && <div className="text-xs text-error mt-1">{error}</div>}
+            </div>
+            <div>
+              <div className="text-xs font-medium text-base-content/70 mb-1">Context</div>
+              <ul className="space-y-2">
+                {Object.entries(pause.ctx || {}).map(([name, value]) => (
+                  <li key={name} className="border rounded p-2 text-xs">
+                    <div className="font-medium text-base-content mb-1">{name}</div>
+                    <pre className="bg-base-200 border rounded p-2 text-[11px] overflow-auto">
+                      {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
+                    </pre>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,12 +9,14 @@ import { SDKPanel } from '@/components/flow-builder/components/SDKPanel';
 import { CodeEditor } from '@/components/code-preview/components/CodeEditor';
 import { TestPanel } from '@/components/testing/views/TestPanel';
 import { ConsolePanel, type ConsoleEntry } from '@/components/flow-builder/views/ConsolePanel';
-import { FlowNode, FlowEdge, NodeType, GeneratedCode, ExecutionResult, InputNodeConfig, FlowVariable } from '@/types/flow';
+import { DebuggerPanel } from '@/components/flow-builder/views/DebuggerPanel';
+import { VersionHistoryDrawer } from '@/components/flow-builder/views/VersionHistoryDrawer';
+import { FlowNode, FlowEdge, NodeType, GeneratedCode, ExecutionResult, InputNodeConfig, FlowVariable, DebugPause } from '@/types/flow';
 import { generateCode } from '@/lib/code-generator';
 import { generateId, debounce } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { getDefaultConfig, getNodeLabel } from '@/components/flow-builder/blocks/registry';
-import { Save, FolderOpen, Rocket } from 'lucide-react';
+import { Save, FolderOpen, Rocket, History } from 'lucide-react';
 import { SidebarList, SidebarListHeader, SidebarListItem } from '@/components/ui/SidebarList';
 import { useAnalytics } from '@/hooks/useAnalytics';
 import { useConnectionStore } from '@/stores';
@@ -96,8 +98,16 @@ export function FlowBuilderView({
   });
   const [viewport, setViewport] = useState<{ x: number; y: number; zoom: number }>({ x: 0, y: 0, zoom: 1 });
   const [startNodeId, setStartNodeId] = useState<string | null>(null);
+  // Outputs pinned per node, seeded instead of re-running them when a run starts at a later node
+  const [pinnedData, setPinnedData] = useState<Record<string, unknown>>({});
+  const [runFromNodeId, setRunFromNodeId] = useState<string | null>(null);
+  // Nodes debug runs pause before, and the debug run in progress with where it waits
+  const [breakpoints, setBreakpoints] = useState<string[]>([]);
+  const [debugExecutionId, setDebugExecutionId] = useState<string | null>(null);
+  const [debugPause, setDebugPause] = useState<DebugPause | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
-  const [activePanel, setActivePanel] = useState<'code' | 'test' | 'variables' | 'console' | 'sdk'>('code');
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [activePanel, setActivePanel] = useState<'code' | 'test' | 'variables' | 'console' | 'debugger' | 'sdk'>('code');
   const [panelWidth, setPanelWidth] = useState(384); // Default 384px (w-96)
   const [apiKeys, setApiKeys] = useState<{ googleai?: string; openai?: string; anthropic?: string }>({});
   
@@ -107,6 +117,8 @@ export function FlowBuilderView({
   const [prompts, setPrompts] = useState<any[]>([]);
   const [flowLoading, setFlowLoading] = useState(false);
   const flowVersionRef = React.useRef(0);
+  // Execution the test panel is waiting on, so its Stop button can cancel it
+  const runningExecutionRef = React.useRef<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
 
@@ -140,6 +152,8 @@ export function FlowBuilderView({
           version: '1.0.0',
           viewport,
           startNodeId,
+          pinnedData,
+          breakpoints,
           apiKeys,
           connections,
         }
@@ -176,7 +190,7 @@ export function FlowBuilderView({
 
       setTimeout(() => setAutosaveStatus('idle'), 3000);
     }
-  }, [selectedFlow, viewport, startNodeId, apiKeys, flowLoading, connections, pushConsole]);
+  }, [selectedFlow, viewport, startNodeId, pinnedData, breakpoints, apiKeys, flowLoading, connections, pushConsole]);
 
   // Debounced autosave
   const debouncedAutosave = useCallback(
@@ -260,6 +274,8 @@ export function FlowBuilderView({
           setNodes(flow.nodes);
           setEdges(flow.edges);
           if (flow.metadata?.startNodeId) setStartNodeId(flow.metadata.startNodeId);
+          setPinnedData(flow.metadata?.pinnedData || {});
+          setBreakpoints(Array.isArray(flow.metadata?.breakpoints) ? flow.metadata.breakpoints : []);
           if (flow.metadata?.viewport && typeof flow.metadata.viewport.zoom === 'number') {
             setViewport({ x: flow.metadata.viewport.x || 0, y: flow.metadata.viewport.y || 0, zoom: flow.metadata.viewport.zoom });
           }
@@ -300,6 +316,9 @@ export function FlowBuilderView({
     // Clear current graph before loading new one
     setNodes([]);
     setEdges([]);
+    setPinnedData({});
+    setRunFromNodeId(null);
+    setBreakpoints([]);
     load();
   }, [selectedFlow?.id, loadConnections, clearConnections, pushConsole]);
 
@@ -325,6 +344,12 @@ export function FlowBuilderView({
       
       setNodes(prev => prev.filter(n => n.id !== nodeId));
       setEdges(prev => prev.filter(e => e.source !== nodeId && e.target !== nodeId));
+      setPinnedData(prev => {
+        const { [nodeId]: _removed, ...rest } = prev;
+        return rest;
+      });
+      setRunFromNodeId(prev => (prev === nodeId ? null : prev));
+      setBreakpoints(prev => prev.filter(id => id !== nodeId));
 
       // Track node deletion
       if (nodeToDelete) {
@@ -337,6 +362,29 @@ export function FlowBuilderView({
       if (nodeId) setStartNodeId(nodeId);
     };
 
+    const handleNodeRunFrom = (event: CustomEvent) => {
+      const { nodeId } = event.detail || {};
+      if (!nodeId) return;
+      setRunFromNodeId(nodeId);
+      setActivePanel('test');
+    };
+
+    // Pins the given output, or unpins the node when no output is given
+    const handleNodePinData = (event: CustomEvent) => {
+      const { nodeId, output } = event.detail || {};
+      if (!nodeId) return;
+      setPinnedData(prev => {
+        const { [nodeId]: _previous, ...rest } = prev;
+        return output === undefined ? rest : { ...rest, [nodeId]: output };
+      });
+    };
+
+    const handleNodeToggleBreakpoint = (event: CustomEvent) => {
+      const { nodeId } = event.detail || {};
+      if (!nodeId) return;
+      setBreakpoints(prev => (prev.includes(nodeId) ? prev.filter(id => id !== nodeId) : [...prev, nodeId]));
+    };
+
     const handleConsoleLog = (event: CustomEvent) => {
       const detail: any = event.detail || {};
       if (!detail || !detail.message) return;
@@ -353,12 +401,18 @@ export function FlowBuilderView({
 
     window.addEventListener('nodeConfigChange', handleNodeConfigChange as EventListener);
     window.addEventListener('nodeSetStart', handleNodeSetStart as EventListener);
+    window.addEventListener('nodeRunFrom', handleNodeRunFrom as EventListener);
+    window.addEventListener('nodePinData', handleNodePinData as EventListener);
+    window.addEventListener('nodeToggleBreakpoint', handleNodeToggleBreakpoint as EventListener);
     window.addEventListener('nodeDelete', handleNodeDelete as EventListener);
     window.addEventListener('consoleLog', handleConsoleLog as EventListener);
     window.addEventListener('navigate', handleNavigate as EventListener);
     return () => {
       window.removeEventListener('nodeConfigChange', handleNodeConfigChange as EventListener);
       window.removeEventListener('nodeSetStart', handleNodeSetStart as EventListener);
+      window.removeEventListener('nodeRunFrom', handleNodeRunFrom as EventListener);
+      window.removeEventListener('nodePinData', handleNodePinData as EventListener);
+      window.removeEventListener('nodeToggleBreakpoint', handleNodeToggleBreakpoint as EventListener);
       window.removeEventListener('nodeDelete', handleNodeDelete as EventListener);
       window.removeEventListener('consoleLog', handleConsoleLog as EventListener);
       window.removeEventListener('navigate', handleNavigate as EventListener);
@@ -396,20 +450,29 @@ export function FlowBuilderView({
     analytics.trackNodeAdd(type, position);
   }, [nodes.length, analytics]);
 
-  const handleExecuteFlow = useCallback(async (input: any): Promise<ExecutionResult> => {
+  const handleExecuteFlow = useCallback(async (input: any, options?: { debug?: boolean }): Promise<ExecutionResult> => {
     setIsExecuting(true);
     const startTime = analytics.trackExecutionStart(selectedFlow?.id || 'unknown');
 
     try {
       if (!selectedFlow) throw new Error('No flow selected');
 
+      const executionId = `exec_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+      runningExecutionRef.current = executionId;
+      const debug = Boolean(options?.debug && breakpoints.length > 0);
+      if (debug) setDebugExecutionId(executionId);
+
       // Send wrapped format to maintain internal functionality while supporting both formats
       const body = {
+        executionId,
         input,
         nodes,
         edges,
-        metadata: { startNodeId, viewport },
+        metadata: { startNodeId, viewport, pinnedData },
         connections,
+        includeTraces: true,
+        ...(runFromNodeId ? { runFromNodeId } : {}),
+        ...(debug ? { breakpoints } : {}),
       };
       let resp = await fetch(`/api/flows/${selectedFlow.id}/execute`, {
         method: 'POST',
@@ -439,9 +502,20 @@ export function FlowBuilderView({
           json?.error?.message || json?.error || json?.message ||
           `Execution failed (${resp.status})`;
         pushConsole({ level: 'error', message: `Execution error: ${msg}`, details: json });
+        // Failed runs still report the nodes that ran, up to the failing one
+        if (json?.success === false && Array.isArray(json.traces)) {
+          analytics.trackExecutionEnd(selectedFlow.id, startTime, false);
+          return json as ExecutionResult;
+        }
         throw new Error(msg);
       }
 
+      if (resp.status === 202 && json?.status === 'interrupted') {
+        pushConsole({ level: 'info', message: `Execution paused: ${json.interrupt?.message || 'waiting for input'}` });
+        analytics.trackExecutionEnd(selectedFlow.id, startTime, true);
+        return { success: true, executionId: json.executionId, interrupt: json.interrupt, traces: [] };
+      }
+
       pushConsole({ level: 'info', message: 'Execution completed successfully' });
 
       // Handle both response formats:
@@ -457,7 +531,7 @@ export function FlowBuilderView({
         result = {
           success: true,
           result: json,
-          traces: [], // Empty traces for now
+          traces: [],
         };
       }
 
@@ -475,9 +549,113 @@ export function FlowBuilderView({
 
       return { success: false, error: message, traces: [] };
     } finally {
+      runningExecutionRef.current = null;
+      setDebugExecutionId(null);
+      setDebugPause(null);
       setIsExecuting(false);
     }
-  }, [nodes, edges, startNodeId, viewport, connections, selectedFlow, analytics]);
+  }, [nodes, edges, startNodeId, viewport, pinnedData, runFromNodeId, breakpoints, connections, selectedFlow, analytics]);
+
+  const handleResumeExecution = useCallback(async (executionId: string, response: any): Promise<ExecutionResult> => {
+    setIsExecuting(true);
+    runningExecutionRef.current = executionId;
+
+    try {
+      if (!selectedFlow) throw new Error('No flow selected');
+
+      const resp = await fetch(`/api/flows/${selectedFlow.id}/executions/${executionId}/resume`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response }),
+      });
+      let json: any = null;
+      try { json = await resp.json(); } catch { /* fall back */ }
+
+      if (!resp.ok) {
+        const details = Array.isArray(json?.errors) ? `: ${json.errors.join('; ')}` : '';
+        const msg = `${json?.error?.message || json?.error || json?.message || `Resume failed (${resp.status})`}${details}`;
+        pushConsole({ level: 'error', message: `Resume error: ${msg}`, details: json });
+        throw new Error(msg);
+      }
+
+      if (resp.status === 202 && json?.status === 'interrupted') {
+        pushConsole({ level: 'info', message: `Execution paused: ${json.interrupt?.message || 'waiting for input'}` });
+        return { success: true, executionId: json.executionId, interrupt: json.interrupt, traces: [] };
+      }
+
+      pushConsole({ level: 'info', message: 'Execution resumed and completed successfully' });
+      return json && typeof json === 'object' && 'success' in json
+        ? json as ExecutionResult
+        : { success: true, executionId, result: json, traces: [] };
+    } catch (error) {
+      return { success: false, executionId, error: (error as Error).message, traces: [] };
+    } finally {
+      runningExecutionRef.current = null;
+      setIsExecuting(false);
+    }
+  }, [selectedFlow]);
+
+  const handleCancelExecution = useCallback(async () => {
+    const executionId = runningExecutionRef.current;
+    if (!selectedFlow || !executionId) return;
+
+    // The pending execute request settles with the cancellation once the run stops
+    const resp = await fetch(`/api/flows/${selectedFlow.id}/executions/${executionId}`, { method: 'DELETE' });
+    if (resp.ok) {
+      pushConsole({ level: 'info', message: 'Execution cancelled' });
+      analytics.trackFeatureUsage('cancel_execution');
+    } else {
+      let json: any = null;
+      try { json = await resp.json(); } catch { /* ignore */ }
+      pushConsole({ level: 'error', message: `Cancel failed: ${json?.error || `HTTP ${resp.status}`}`, details: json });
+    }
+  }, [selectedFlow, analytics]);
+
+  // Long-polls the debug run, so the debugger shows each pause as it happens
+  useEffect(() => {
+    if (!selectedFlow || !debugExecutionId || debugPause) return;
+    let stopped = false;
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    const poll = async () => {
+      while (!stopped) {
+        try {
+          const resp = await fetch(`/api/flows/${selectedFlow.id}/executions/${debugExecutionId}/debug?wait=20000`, { cache: 'no-store' });
+          const json: any = await resp.json().catch(() => null);
+          if (stopped) return;
+          if (resp.ok && json?.status === 'paused') {
+            setDebugPause(json.pause);
+            setActivePanel('debugger');
+            return;
+          }
+          // The run has not reached a container yet
+          if (!resp.ok || json?.status === 'stopped') await wait(500);
+        } catch {
+          await wait(1000);
+        }
+      }
+    };
+    poll();
+    return () => { stopped = true; };
+  }, [selectedFlow, debugExecutionId, debugPause]);
+
+  const handleDebugCommand = useCallback(async (command: { action: 'step' | 'continue'; input?: unknown }) => {
+    if (!selectedFlow || !debugExecutionId) return;
+
+    const resp = await fetch(`/api/flows/${selectedFlow.id}/executions/${debugExecutionId}/debug`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(command),
+    });
+    if (resp.ok) {
+      setDebugPause(null);
+      analytics.trackFeatureUsage(`debug_${command.action}`);
+    } else {
+      let json: any = null;
+      try { json = await resp.json(); } catch { /* ignore */ }
+      pushConsole({ level: 'error', message: `Debug command failed: ${json?.error || `HTTP ${resp.status}`}`, details: json });
+    }
+  }, [selectedFlow, debugExecutionId, analytics, pushConsole]);
 
   const handleClearFlow = useCallback(() => {
     setNodes([]);
@@ -491,7 +669,7 @@ export function FlowBuilderView({
     setEdges(prev => prev.filter(e => !selectedIds.has(e.source) && !selectedIds.has(e.target)) as FlowEdge[]);
   }, [nodes]);
 
-  const handlePanelChange = useCallback((panel: 'code' | 'test' | 'variables' | 'console' | 'sdk') => {
+  const handlePanelChange = useCallback((panel: 'code' | 'test' | 'variables' | 'console' | 'debugger' | 'sdk') => {
     setActivePanel(panel);
     analytics.trackFeatureUsage(`panel_${panel}`);
   }, [analytics]);
@@ -547,6 +725,13 @@ export function FlowBuilderView({
     input.click();
   }, []);
 
+  const handleVersionRestored = useCallback((flow: any, version: string) => {
+    setNodes(flow?.nodes || []);
+    setEdges(flow?.edges || []);
+    setStartNodeId(flow?.metadata?.startNodeId || null);
+    pushConsole({ level: 'info', message: `Restored version ${version}` });
+  }, [pushConsole]);
+
   const canExecute = nodes.length > 0 && generatedCode.isValid;
 
   // Compute variables available for prompts/transforms and expose globally for insert menus
@@ -614,6 +799,21 @@ export function FlowBuilderView({
     window.dispatchEvent(new CustomEvent('apiKeysChange', { detail: apiKeys }));
   }, [apiKeys]);
 
+  useEffect(() => {
+    (window as any).__pinnedData = pinnedData;
+    window.dispatchEvent(new CustomEvent('pinnedDataChange', { detail: pinnedData }));
+  }, [pinnedData]);
+
+  useEffect(() => {
+    (window as any).__breakpoints = breakpoints;
+    window.dispatchEvent(new CustomEvent('breakpointsChange', { detail: breakpoints }));
+  }, [breakpoints]);
+
+  useEffect(() => {
+    (window as any).__debugPause = debugPause;
+    window.dispatchEvent(new CustomEvent('debugPauseChange', { detail: debugPause }));
+  }, [debugPause]);
+
   // Connections are now managed by Zustand store - no window globals needed
 
   // Load prompts for flow (via flow-scoped API) and expose globally
@@ -713,6 +913,9 @@ export function FlowBuilderView({
           <Button onClick={handleLoadFlow} variant="ghost" size="icon" title="Load">
             <FolderOpen className="w-4 h-4" />
           </Button>
+          <Button onClick={() => setHistoryOpen(true)} variant="ghost" size="icon" title="Version history" disabled={!selectedFlow}>
+            <History className="w-4 h-4" />
+          </Button>
           {autosaveStatus === 'saving' && (
             <>
               <div className="w-3 h-3 border border-blue-300 border-t-blue-600 rounded-full animate-spin"></div>
@@ -820,6 +1023,15 @@ export function FlowBuilderView({
               >
                 Console
               </button>
+              <button
+                role="tab"
+                onClick={() => handlePanelChange('debugger')}
+                className={`tab text-sm font-medium ${
+                  activePanel === 'debugger' ? 'tab-active' : ''
+                }`}
+              >
+                Debugger
+              </button>
               <button
                 role="tab"
                 onClick={() => handlePanelChange('sdk')}
@@ -849,8 +1061,16 @@ export function FlowBuilderView({
                 {activePanel === 'test' && (
                   <TestPanel
                     onExecute={handleExecuteFlow}
+                    onResume={handleResumeExecution}
+                    onCancel={handleCancelExecution}
                     isExecuting={isExecuting}
                     canExecute={canExecute}
+                    nodeOptions={nodes.map(n => ({ id: n.id, label: n.data.label || n.id }))}
+                    runFromNodeId={runFromNodeId}
+                    onRunFromChange={setRunFromNodeId}
+                    pinnedData={pinnedData}
+                    onPinData={(nodeId, output) => window.dispatchEvent(new CustomEvent('nodePinData', { detail: { nodeId, output } }))}
+                    breakpointCount={breakpoints.length}
                   />
                 )}
                 {activePanel === 'variables' && (
@@ -868,6 +1088,14 @@ export function FlowBuilderView({
                     onClear={() => setConsoleEntries([])}
                   />
                 )}
+                {activePanel === 'debugger' && (
+                  <DebuggerPanel
+                    pause={debugPause}
+                    isDebugging={Boolean(debugExecutionId)}
+                    nodeLabel={(nodeId) => nodes.find(n => n.id === nodeId)?.data.label || nodeId}
+                    onCommand={handleDebugCommand}
+                  />
+                )}
                 {activePanel === 'sdk' && (
                   <SDKPanel
                     flow={selectedFlow}
@@ -881,6 +1109,13 @@ export function FlowBuilderView({
           </div>
         </div>
       </div>
+
+      <VersionHistoryDrawer
+        flowId={selectedFlow?.id || ''}
+        isOpen={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        onRestored={handleVersionRestored}
+      />
     </div>
   );
 }
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import type { FlowVersionDiff, FlowVersionSummary } from '@/types/flow';
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const describeEdge = (edge: FlowVersionDiff['edges']['added'][number]) =>
+  `${edge.source}${edge.sourceHandle ? `:${edge.sourceHandle}` : ''} → ${edge.target}${edge.targetHandle ? `:${edge.targetHandle}` : ''}`;
+
+export function VersionHistoryDrawer({
+  flowId,
+  isOpen,
+  onClose,
+  onRestored,
+}: {
+  flowId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: (flow: any, version: string) => void;
+}) {
+  const [versions, setVersions] = useState<FlowVersionSummary[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [diff, setDiff] = useState<FlowVersionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!flowId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const resp = await fetch(`/api/flows/${flowId}/versions`, { cache: 'no-store' });
+      const json = await resp.json();
+      if (!resp.ok) throw new Error(json?.error?.message || `HTTP ${resp.status}`);
+      setVersions(json.data || []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [flowId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      load();
+    } else {
+      setSelected(null);
+      setDiff(null);
+    }
+  }, [isOpen, load]);
+
+  // Each version is compared with the working definition, which is what a restore replaces
+  const select = async (version: string) => {
+    setSelected(version);
+    setDiff(null);
+    setConfirming(false);
+    setError(null);
+    try {
+      const resp = await fetch(`/api/flows/${flowId}/versions/diff?from=current&to=${encodeURIComponent(version)}`, { cache: 'no-store' });
+      const json = await resp.json();
+      if (!resp.ok) throw new Error(json?.error?.message || `HTTP ${resp.status}`);
+      setDiff(json.data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to compare versions');
+    }
+  };
+
+  const restore = async () => {
+    if (!selected) return;
+    setError(null);
+    try {
+      const resp = await fetch(`/api/flows/${flowId}/versions/${selected}/restore`, { method: 'POST' });
+      const json = await resp.json();
+      if (!resp.ok) throw new Error(json?.error?.message || `HTTP ${resp.status}`);
+      onRestored(json.data, selected);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to restore version');
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const unchanged = diff && !diff.nodes.added.length && !diff.nodes.removed.length && !diff.nodes.changed.length
+    && !diff.edges.added.length && !diff.edges.removed.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex justify-end z-[9999]" onClick={onClose}>
+      <div className="bg-base-100 h-full w-full max-w-md shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-3 border-b border flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-base-content">Version history</h3>
+          <div className="flex items-center gap-2">
+            <button className="text-xs text-primary" onClick={load} disabled={loading}>{loading ? 'Loading…' : 'Refresh'}</button>
+            <button onClick={onClose} className="btn btn-ghost btn-sm btn-circle">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-auto p-3 space-y-3">
+          {error && <div className="text-xs text-error">{error}</div>}
+          {!loading && versions.length === 0 && (
+            <div className="text-sm text-base-content/60 text-center py-6">
+              Versions are stored each time the flow is published
+            </div>
+          )}
+          <ul className="space-y-1">
+            {versions.map(version => (
+              <li key={version.id}>
+                <button
+                  className={`w-full text-left border rounded p-2 text-xs ${selected === version.version ? 'border-primary bg-base-200' : ''}`}
+                  onClick={() => select(version.version)}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-base-content">v{version.version}</span>
+                    <span className="text-base-content/60">{new Date(version.createdAt).toLocaleString()}</span>
+                  </div>
+                  <div className="text-base-content/70">
+                    {version.nodeCount} nodes, {version.edgeCount} edges{version.changelog ? ` · ${version.changelog}` : ''}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {selected && diff && (
+            <div className="border-t border pt-3 space-y-2 text-xs">
+              <div className="font-medium text-base-content">Restoring v{selected} would change the current flow:</div>
+              {unchanged && <div className="text-base-content/60">No differences</div>}
+              {diff.nodes.added.map(node => (
+                <div key={`add-${node.id}`} className="text-success">+ node {node.label || node.id} ({node.type})</div>
+              ))}
+              {diff.nodes.removed.map(node => (
+                <div key={`remove-${node.id}`} className="text-error">− node {node.label || node.id} ({node.type})</div>
+              ))}
+              {diff.nodes.changed.map(node => (
+                <div key={`change-${node.id}`} className="border rounded p-2">
+                  <div className="text-warning">~ node {node.label || node.id} ({node.type})</div>
+                  {node.changes.map(change => (
+                    <div key={change.field} className="font-mono text-[11px] text-base-content/80">
+                      {change.field}: {formatValue(change.before)} → {formatValue(change.after)}
+                    </div>
+                  ))}
+                </div>
+              ))}
+              {diff.edges.added.map(edge => (
+                <div key={`add-${edge.id}`} className="text-success">+ edge {describeEdge(edge)}</div>
+              ))}
+              {diff.edges.removed.map(edge => (
+                <div key={`remove-${edge.id}`} className="text-error">− edge {describeEdge(edge)}</div>
+              ))}
+            </div>
+          )}
+        </div>
+        {selected && (
+          <div className="p-3 border-t border flex justify-end gap-2">
+            {confirming && (
+              <button className="btn btn-sm btn-ghost" onClick={() => setConfirming(false)}>Cancel</button>
+            )}
+            <button
+              className={`btn btn-sm ${confirming ? 'btn-error' : 'btn-primary'}`}
+              onClick={() => (confirming ? restore() : setConfirming(true))}
+            >
+              {confirming ? `Replace the current flow with v${selected}` : `Restore v${selected}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,29 +3,37 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { ExecutionResult, ExecutionTrace } from '@/types/flow';
+import { ExecutionResult, ExecutionTrace, PendingInterrupt } from '@/types/flow';
 import { formatTimestamp } from '@/lib/utils';
-import { Play, Square, Clock, CheckCircle, XCircle, AlertCircle, ChevronDown, ChevronRight, Terminal } from 'lucide-react';
+import { Play, Square, Clock, CheckCircle, XCircle, AlertCircle, ChevronDown, ChevronRight, Terminal, Hand, Pin, Bug } from 'lucide-react';
 import { useAnalytics } from '@/hooks/useAnalytics';
 
 interface TestPanelProps {
-  onExecute?: (input: any) => Promise<ExecutionResult>;
+  onExecute?: (input: any, options?: { debug?: boolean }) => Promise<ExecutionResult>;
+  onResume?: (executionId: string, response: any) => Promise<ExecutionResult>;
+  onCancel?: () => void;
   isExecuting?: boolean;
   canExecute?: boolean;
+  nodeOptions?: Array<{ id: string; label: string }>;
+  runFromNodeId?: string | null; // Runs start at this node instead of the input
+  onRunFromChange?: (nodeId: string | null) => void;
+  pinnedData?: Record<string, unknown>;
+  onPinData?: (nodeId: string, output?: unknown) => void; // Unpins when no output is given
+  breakpointCount?: number; // Debug runs are offered once nodes have breakpoints
 }
 
-export function TestPanel({ onExecute, isExecuting = false, canExecute = false }: TestPanelProps) {
+export function TestPanel({ onExecute, onResume, onCancel, isExecuting = false, canExecute = false, nodeOptions = [], runFromNodeId = null, onRunFromChange, pinnedData = {}, onPinData, breakpointCount = 0 }: TestPanelProps) {
   const analytics = useAnalytics();
   const [input, setInput] = useState('');
   const [inputType, setInputType] = useState<'text' | 'json'>('text');
   const [results, setResults] = useState<ExecutionResult[]>([]);
   const [expandedTraces, setExpandedTraces] = useState<Set<string>>(new Set());
 
-  const handleExecute = async () => {
+  const handleExecute = async (debug = false) => {
     if (!onExecute) return;
 
     // Track test execution attempt
-    analytics.trackFeatureUsage('test_execution');
+    analytics.trackFeatureUsage(debug ? 'debug_execution' : 'test_execution');
 
     const startTime = Date.now();
 
@@ -44,7 +52,7 @@ export function TestPanel({ onExecute, isExecuting = false, canExecute = false }
         }
       }
       
-      const result = await onExecute(parsedInput);
+      const result = await onExecute(parsedInput, { debug });
       setResults([...results, result]);
 
       // Track execution result
@@ -68,6 +76,16 @@ export function TestPanel({ onExecute, isExecuting = false, canExecute = false }
     }
   };
 
+  const handleResume = async (resultIndex: number, executionId: string, response: any) => {
+    if (!onResume) return;
+
+    analytics.trackFeatureUsage('resume_interrupt');
+
+    // Replace the paused result with the outcome of the resumed run
+    const result = await onResume(executionId, response);
+    setResults(prev => prev.map((r, i) => (i === resultIndex ? result : r)));
+  };
+
   const handleClearResults = () => {
     setResults([]);
     analytics.trackFeatureUsage('clear_test_results');
@@ -123,9 +141,48 @@ export function TestPanel({ onExecute, isExecuting = false, canExecute = false }
             <Textarea value={input} onChange={(e) => setInput(e.target.value)} placeholder={inputType === 'json' ? '{"message": "Hello World"}' : 'Hello World'} className="text-xs font-mono" rows={3} />
           </div>
 
-          <Button onClick={handleExecute} disabled={!canExecute || isExecuting} className="w-full gap-2">
-            {isExecuting ? (<><Square className="w-4 h-4" /> Running...</>) : (<><Play className="w-4 h-4" /> Execute</>)}
-          </Button>
+          {onRunFromChange && (
+            <div>
+              <label className="block text-xs font-medium text-base-content mb-1">Start At</label>
+              <select
+                value={runFromNodeId || ''}
+                onChange={(e) => onRunFromChange(e.target.value || null)}
+                className="w-full text-xs border rounded px-2 py-1"
+              >
+                <option value="">Input (whole flow)</option>
+                {nodeOptions.map(node => (
+                  <option key={node.id} value={node.id}>{node.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {onPinData && (runFromNodeId || Object.keys(pinnedData).length > 0) && (
+            <PinnedDataEditor nodeOptions={nodeOptions} pinnedData={pinnedData} onPinData={onPinData} />
+          )}
+
+          {isExecuting ? (
+            <Button variant="outline" onClick={onCancel} disabled={!onCancel} className="w-full gap-2">
+              <Square className="w-4 h-4" /> Stop
+            </Button>
+          ) : (
+            <div className="flex gap-2">
+              <Button onClick={() => handleExecute()} disabled={!canExecute} className="flex-1 gap-2">
+                <Play className="w-4 h-4" /> {runFromNodeId ? `Run from ${nodeOptions.find(node => node.id === runFromNodeId)?.label || runFromNodeId}` : 'Execute'}
+              </Button>
+              {breakpointCount > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleExecute(true)}
+                  disabled={!canExecute}
+                  className="gap-2"
+                  title={`Pause at ${breakpointCount} breakpoint${breakpointCount === 1 ? '' : 's'}`}
+                >
+                  <Bug className="w-4 h-4" /> Debug
+                </Button>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -141,7 +198,7 @@ export function TestPanel({ onExecute, isExecuting = false, canExecute = false }
         ) : (
           <div className="divide-y">
             {results.map((result, index) => (
-              <ResultCard key={index} result={result} index={index} onToggleTrace={(i, id) => toggleTraceExpansion(i, id)} expandedTraces={expandedTraces} />
+              <ResultCard key={index} result={result} index={index} onToggleTrace={(i, id) => toggleTraceExpansion(i, id)} expandedTraces={expandedTraces} onResume={onResume ? (executionId, response) => handleResume(index, executionId, response) : undefined} isExecuting={isExecuting} onPinData={onPinData} />
             ))}
           </div>
         )}
@@ -150,20 +207,22 @@ export function TestPanel({ onExecute, isExecuting = false, canExecute = false }
   );
 }
 
-function ResultCard({ result, index, onToggleTrace, expandedTraces }: { result: ExecutionResult; index: number; onToggleTrace: (resultIndex: number, traceId: string) => void; expandedTraces: Set<string> }) {
+function ResultCard({ result, index, onToggleTrace, expandedTraces, onResume, isExecuting, onPinData }: { result: ExecutionResult; index: number; onToggleTrace: (resultIndex: number, traceId: string) => void; expandedTraces: Set<string>; onResume?: (executionId: string, response: any) => void; isExecuting?: boolean; onPinData?: (nodeId: string, output?: unknown) => void }) {
   const timestamp = new Date();
   return (
     <div className="p-3">
       <div className="flex items-center justify-between mb-2">
         <div className="flex items-center gap-2">
-          {result.success ? <CheckCircle className="w-4 h-4 text-success" /> : <XCircle className="w-4 h-4 text-error" />}
+          {result.interrupt ? <Hand className="w-4 h-4 text-warning" /> : result.success ? <CheckCircle className="w-4 h-4 text-success" /> : <XCircle className="w-4 h-4 text-error" />}
           <span className="text-sm font-medium">Execution #{index + 1}</span>
         </div>
         <div className="flex items-center gap-2 text-xs text-base-content/60"><Clock className="w-3 h-3" />{formatTimestamp(timestamp)}</div>
       </div>
 
       <div className="p-3">
-        {result.success ? (
+        {result.interrupt ? (
+          <InterruptPrompt interrupt={result.interrupt} onResume={onResume} isExecuting={isExecuting} />
+        ) : result.success ? (
           <div>
             <label className="block text-xs font-medium text-base-content mb-1">Result</label>
             <pre className="text-xs bg-base-200 p-2 rounded border overflow-x-auto">{JSON.stringify(result.result, null, 2)}</pre>
@@ -180,7 +239,7 @@ function ResultCard({ result, index, onToggleTrace, expandedTraces }: { result:
             <label className="block text-xs font-medium text-base-content mb-2">Execution Traces ({result.traces.length})</label>
             <div className="space-y-2">
               {result.traces.map((trace, traceIndex) => (
-                <TraceCard key={traceIndex} trace={trace} traceIndex={traceIndex} isExpanded={expandedTraces.has(`${index}-${traceIndex}`)} onToggle={() => onToggleTrace(index, traceIndex.toString())} />
+                <TraceCard key={traceIndex} trace={trace} traceIndex={traceIndex} isExpanded={expandedTraces.has(`${index}-${traceIndex}`)} onToggle={() => onToggleTrace(index, traceIndex.toString())} onPin={onPinData && !trace.error ? () => onPinData(trace.nodeId, trace.output) : undefined} />
               ))}
             </div>
           </div>
@@ -190,7 +249,101 @@ function ResultCard({ result, index, onToggleTrace, expandedTraces }: { result:
   );
 }
 
-function TraceCard({ trace, traceIndex, isExpanded, onToggle }: { trace: ExecutionTrace; traceIndex: number; isExpanded: boolean; onToggle: () => void }) {
+function InterruptPrompt({ interrupt, onResume, isExecuting }: { interrupt: PendingInterrupt; onResume?: (executionId: string, response: any) => void; isExecuting?: boolean }) {
+  const [response, setResponse] = useState('');
+
+  const submitText = () => {
+    if (!onResume) return;
+    // Send JSON when it parses, otherwise the raw text
+    let value: any = response;
+    try { value = JSON.parse(response); } catch { /* plain text */ }
+    onResume(interrupt.executionId, value);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-xs font-medium text-warning mb-1">Awaiting input</label>
+      <div className="text-xs bg-warning/10 p-2 rounded border-base-300">
+        <p>{interrupt.message}</p>
+        {interrupt.question && <p className="mt-1 font-medium">{interrupt.question}</p>}
+        {interrupt.expiresAt && <p className="mt-1 text-base-content/60">Expires {formatTimestamp(new Date(interrupt.expiresAt))}</p>}
+      </div>
+      {interrupt.allowedResponses.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {interrupt.allowedResponses.map(option => (
+            <Button key={option} size="sm" variant="outline" disabled={!onResume || isExecuting} onClick={() => onResume?.(interrupt.executionId, option)}>{option}</Button>
+          ))}
+        </div>
+      ) : (
+        <>
+          <Textarea value={response} onChange={(e) => setResponse(e.target.value)} placeholder={interrupt.responseSchema ? JSON.stringify(interrupt.responseSchema, null, 2) : 'Your response'} className="text-xs font-mono" rows={3} />
+          <Button size="sm" disabled={!onResume || isExecuting || !response.trim()} onClick={submitText}>Resume</Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+function PinnedDataEditor({ nodeOptions, pinnedData, onPinData }: { nodeOptions: Array<{ id: string; label: string }>; pinnedData: Record<string, unknown>; onPinData: (nodeId: string, output?: unknown) => void }) {
+  const [newNodeId, setNewNodeId] = useState('');
+  const unpinned = nodeOptions.filter(node => pinnedData[node.id] === undefined);
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-base-content mb-1">Pinned Data</label>
+      <div className="space-y-2">
+        {Object.entries(pinnedData).map(([nodeId, output]) => (
+          <PinnedOutput
+            key={`${nodeId}:${JSON.stringify(output)}`} // Starts over when the output is pinned again from a trace
+            label={nodeOptions.find(node => node.id === nodeId)?.label || nodeId}
+            output={output}
+            onChange={(value) => onPinData(nodeId, value)}
+            onUnpin={() => onPinData(nodeId)}
+          />
+        ))}
+        {unpinned.length > 0 && (
+          <div className="flex gap-2">
+            <select value={newNodeId} onChange={(e) => setNewNodeId(e.target.value)} className="flex-1 text-xs border rounded px-2 py-1">
+              <option value="">Pin data for…</option>
+              {unpinned.map(node => (
+                <option key={node.id} value={node.id}>{node.label}</option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" disabled={!newNodeId} onClick={() => { onPinData(newNodeId, null); setNewNodeId(''); }}>Pin</Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PinnedOutput({ label, output, onChange, onUnpin }: { label: string; output: unknown; onChange: (value: unknown) => void; onUnpin: () => void }) {
+  const [text, setText] = useState(() => JSON.stringify(output, null, 2));
+  const [invalid, setInvalid] = useState(false);
+
+  // Outputs are JSON; the edit applies once it parses
+  const commit = () => {
+    try {
+      onChange(JSON.parse(text));
+      setInvalid(false);
+    } catch {
+      setInvalid(true);
+    }
+  };
+
+  return (
+    <div className="border border rounded p-2 space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium flex items-center gap-1"><Pin className="w-3 h-3" />{label}</span>
+        <Button size="sm" variant="ghost" onClick={onUnpin}>Unpin</Button>
+      </div>
+      <Textarea value={text} onChange={(e) => setText(e.target.value)} onBlur={commit} className="text-xs font-mono" rows={3} />
+      {invalid && <div className="text-xs text-error">Pinned data must be valid JSON</div>}
+    </div>
+  );
+}
+
+function TraceCard({ trace, traceIndex, isExpanded, onToggle, onPin }: { trace: ExecutionTrace; traceIndex: number; isExpanded: boolean; onToggle: () => void; onPin?: () => void }) {
   return (
     <div className="border border rounded">
       <button onClick={onToggle} className="w-full p-2 flex items-center justify-between hover:bg-base-200 transition-colors">
@@ -209,7 +362,14 @@ function TraceCard({ trace, traceIndex, isExpanded, onToggle }: { trace: Executi
               <pre className="text-xs bg-base-100 p-2 rounded border overflow-x-auto">{JSON.stringify(trace.input, null, 2)}</pre>
             </div>
             <div>
-              <label className="block text-xs font-medium text-base-content mb-1">Output</label>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-xs font-medium text-base-content">Output</label>
+                {onPin && (
+                  <Button size="sm" variant="ghost" className="gap-1" onClick={onPin}>
+                    <Pin className="w-3 h-3" /> Pin output
+                  </Button>
+                )}
+              </div>
               <pre className="text-xs bg-base-100 p-2 rounded border overflow-x-auto">{JSON.stringify(trace.output, null, 2)}</pre>
             </div>
             {trace.error && (
@@ -49,7 +49,8 @@ export enum SubBlockType {
   SCHEMA = 'schema',
   MODEL_SELECTOR = 'model_selector',
   PROVIDER_SELECTOR = 'provider_selector',
-  CONNECTION_SELECTOR = 'connection_selector'
+  CONNECTION_SELECTOR = 'connection_selector',
+  FLOW_SELECTOR = 'flow_selector'
 }
 
 export type BlockCategory = 'input' | 'genai' | 'output' | 'logic' | 'data' | 'control';
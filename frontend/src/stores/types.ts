@@ -3,7 +3,7 @@
 export interface Connection {
   id: string;
   name: string;
-  provider: 'googleai' | 'openai' | 'anthropic';
+  provider: 'googleai' | 'openai' | 'anthropic' | 'mock';
   isActive: boolean;
   apiKey?: string; // Optional for security
   createdAt: string;
@@ -12,7 +12,7 @@ export interface Connection {
 
 export interface CreateConnectionRequest {
   name: string;
-  provider: 'googleai' | 'openai' | 'anthropic';
+  provider: 'googleai' | 'openai' | 'anthropic' | 'mock';
   apiKey: string;
 }
 
@@ -16,8 +16,14 @@ export enum NodeType {
   CONDITION = 'condition',
   TOOL = 'tool',
   INTERRUPT = 'interrupt',
+  TRANSFORM = 'transform',
+  FOREACH = 'foreach',
+  SUBFLOW = 'subflow',
+  HTTP = 'http',
+  EMBED = 'embed',
+  INDEX = 'index',
+  RETRIEVE = 'retrieve',
   // PROMPT node removed - integrated into AGENT
-  // TRANSFORM node removed
 }
 
 export interface NodeConfig {
@@ -31,7 +37,7 @@ export interface InputNodeConfig extends NodeConfig {
 // Enhanced Agent node config with integrated prompts and advanced parameters
 export interface AgentNodeConfig extends NodeConfig {
   // Provider and model selection
-  provider: 'googleai' | 'openai' | 'anthropic';
+  provider: 'googleai' | 'openai' | 'anthropic' | 'mock';
   model: string;
   
   // Prompt configuration
@@ -41,7 +47,7 @@ export interface AgentNodeConfig extends NodeConfig {
   userPrompt?: string;
   // For library prompts
   promptLibraryId?: string;
-  promptVersion?: string;
+  promptVersion?: number; // pinned prompt library version, latest when unset
   
   // Common parameters
   temperature?: number;
@@ -61,6 +67,10 @@ export interface AgentNodeConfig extends NodeConfig {
   
   // Common to multiple providers
   stopSequences?: string[];
+
+  // Mock provider: scripted rules (JSON) and a fixture file with more rules
+  mockResponses?: string;
+  mockFixture?: string;
 }
 
 // Legacy PromptNodeConfig - kept for migration purposes only
@@ -71,7 +81,8 @@ export interface PromptNodeConfig extends NodeConfig {
 
 export interface TransformNodeConfig extends NodeConfig {
   code: string;
-  language: 'javascript' | 'typescript';
+  language: 'javascript';
+  timeout?: number;
 }
 
 export interface OutputNodeConfig extends NodeConfig {
@@ -93,6 +104,47 @@ export interface InterruptNodeConfig extends NodeConfig {
   allowedResponses?: string[];
 }
 
+export interface ForEachNodeConfig extends NodeConfig {
+  itemsPath?: string;
+  concurrency?: number;
+  errorPolicy: 'fail-fast' | 'skip' | 'collect';
+}
+
+export interface SubflowNodeConfig extends NodeConfig {
+  flowId?: string;
+  flowAlias?: string;
+  version?: string;
+  inputMapping?: string; // JSON object: child input key -> dot path on the incoming data
+}
+
+export interface HttpNodeConfig extends NodeConfig {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url: string;
+  headers?: string; // JSON object of templated header values
+  body?: string;
+  responseType: 'json' | 'text';
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+}
+
+export interface EmbedNodeConfig extends NodeConfig {
+  embedder: string;
+  text?: string;
+}
+
+export interface IndexNodeConfig extends NodeConfig {
+  embedder: string;
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+export interface RetrieveNodeConfig extends NodeConfig {
+  embedder: string;
+  query?: string;
+  topK?: number;
+}
+
 export interface FlowConfig {
   id: string;
   name: string;
@@ -111,7 +163,123 @@ export interface ExecutionTrace {
   output: any;
   duration: number;
   error?: string;
-  timestamp: Date;
+  timestamp: Date | string; // ISO string in traces recorded by the server
+}
+
+export interface PendingInterrupt {
+  executionId: string;
+  nodeId: string;
+  interruptNodeId: string | null;
+  interruptType: 'manual-response' | 'restartable';
+  message: string;
+  question: string | null;
+  responseSchema: Record<string, any> | null;
+  allowedResponses: string[];
+  pausedAt: string;
+  expiresAt: string | null;
+}
+
+// Where a debug run waits: the node about to run, its incoming value and the flow context so far
+export interface DebugPause {
+  nodeId: string;
+  input: any;
+  ctx: Record<string, any>;
+}
+
+// A stored version of a flow, as listed in the version history
+export interface FlowVersionSummary {
+  id: string;
+  version: string;
+  changelog?: string;
+  nodeCount: number;
+  edgeCount: number;
+  createdAt: string;
+  createdBy: string;
+}
+
+// Structural changes between two versions; `field` is `type`, `label` or a config path like `config.model`
+export interface FlowVersionDiff {
+  from: string;
+  to: string;
+  nodes: {
+    added: { id: string; type: string; label?: string }[];
+    removed: { id: string; type: string; label?: string }[];
+    changed: { id: string; type: string; label?: string; changes: { field: string; before: any; after: any }[] }[];
+  };
+  edges: {
+    added: { id: string; source: string; target: string; sourceHandle?: string; targetHandle?: string }[];
+    removed: { id: string; source: string; target: string; sourceHandle?: string; targetHandle?: string }[];
+  };
+}
+
+// Deployment environments in promotion order
+export const FLOW_ENVIRONMENTS = ['dev', 'staging', 'prod'] as const;
+
+export type FlowEnvironmentName = typeof FLOW_ENVIRONMENTS[number];
+
+export interface FlowEnvironment {
+  name: FlowEnvironmentName;
+  version: string | null;
+  deployedAt: string | null;
+  deployedBy: string | null;
+}
+
+export interface FlowPromotion {
+  id: string;
+  environment: FlowEnvironmentName;
+  fromEnvironment: FlowEnvironmentName | null;
+  version: string;
+  previousVersion: string | null;
+  reason: string | null;
+  promotedBy: string;
+  promotedByName: string | null;
+  createdAt: string;
+}
+
+// Share of `by-alias` traffic a published version serves during a canary release
+export interface TrafficVariant {
+  name: string;
+  version: string;
+  weight: number;
+}
+
+export interface TrafficVariantSummary {
+  variant: string;
+  version: string | null;
+  weight: number | null;
+  runs: number;
+  failed: number;
+  errorRate: number;
+  avgDuration: number | null;
+  p95Duration: number | null;
+}
+
+// Cron schedule that runs the published version of a flow with a fixed input
+export interface FlowSchedule {
+  id: string;
+  name: string;
+  cronExpression: string;
+  timezone: string;
+  input: unknown;
+  isActive: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastExecutionId: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  flowId: string;
+  createdBy: string;
+}
+
+export interface ScheduledRun {
+  executionId: string;
+  scheduleId: string | null;
+  version: string | null;
+  status: string;
+  duration: number | null;
+  errorMessage: string | null;
+  createdAt: string;
 }
 
 export interface ExecutionResult {
@@ -120,6 +288,8 @@ export interface ExecutionResult {
   error?: string;
   traces: ExecutionTrace[];
   runtime?: string;
+  executionId?: string;
+  interrupt?: PendingInterrupt; // Set while the run waits for a human response
 }
 
 export interface GeneratedCode {
@@ -153,12 +323,27 @@ export const NODE_TYPES = {
   [NodeType.CONDITION]: 'Condition',
   [NodeType.TOOL]: 'Tool',
   [NodeType.INTERRUPT]: 'Interrupt',
+  [NodeType.TRANSFORM]: 'Transform',
+  [NodeType.FOREACH]: 'For Each',
+  [NodeType.SUBFLOW]: 'Subflow',
+  [NodeType.HTTP]: 'HTTP Request',
+  [NodeType.EMBED]: 'Embed',
+  [NodeType.INDEX]: 'Index Documents',
+  [NodeType.RETRIEVE]: 'Retrieve Documents',
 };
 
 export const MODEL_PROVIDERS = {
   googleai: 'Google AI',
   openai: 'OpenAI',
   anthropic: 'Anthropic',
+  mock: 'Mock (offline)',
+};
+
+// Embedders available to embed, index and retrieve blocks
+export const EMBEDDERS: Record<string, string> = {
+  'googleai/text-embedding-004': 'Google text-embedding-004',
+  'openai/text-embedding-3-small': 'OpenAI text-embedding-3-small',
+  'flowshapr/fake-embedder': 'Fake embedder (offline)',
 };
 
 // Up-to-date model lists for each provider
@@ -183,6 +368,10 @@ export const AVAILABLE_MODELS = {
     'claude-3-sonnet-20240229', 
     'claude-3-haiku-20240307'
   ],
+  mock: [
+    'scripted',
+    'echo'
+  ],
 };
 
 // Model display names for UI
@@ -204,6 +393,9 @@ export const MODEL_DISPLAY_NAMES: Record<string, string> = {
   'claude-3-opus-20240229': 'Claude 3 Opus',
   'claude-3-sonnet-20240229': 'Claude 3 Sonnet',
   'claude-3-haiku-20240307': 'Claude 3 Haiku',
+  // Mock
+  'scripted': 'Mock (scripted)',
+  'echo': 'Mock (echo)',
 };
 
 // Default parameters for each provider
@@ -228,6 +420,10 @@ export const DEFAULT_MODEL_PARAMS = {
     topP: 0.95,
     topKAnthropic: 40,
   },
+  mock: {
+    temperature: 0.7,
+    maxTokens: 2048,
+  },
 };
 
 // Variables system types
@@ -249,7 +445,7 @@ export interface VariableReference {
 
 // API Key status for providers
 export interface ProviderStatus {
-  provider: 'googleai' | 'openai' | 'anthropic';
+  provider: 'googleai' | 'openai' | 'anthropic' | 'mock';
   isActive: boolean;
   hasApiKey: boolean;
   lastChecked?: Date;
@@ -9,6 +9,10 @@ export interface FlowShaprClientOptions {
   headers?: Record<string, string>;
   timeout?: number;
   baseUrl?: string;
+  // Published version to run, e.g. '1.2.0'; defaults to the latest published version
+  version?: string;
+  // Keeps calls on the same variant of a traffic split, e.g. a user or session id
+  routingKey?: string;
   // Legacy support for direct apiKey parameter
   apiKey?: string;
 }
@@ -17,9 +21,9 @@ export interface FlowShaprClientOptions {
  * Run a flow by alias and get the complete result.
  * Compatible with Genkit's runFlow API but with FlowShapr-specific flow alias support.
  *
- * @param flowAlias - The flow alias (slug) to execute
+ * @param flowAlias - The flow alias (slug) to execute, optionally pinned as `alias@1.2.0`
  * @param input - The input data for the flow
- * @param options - Optional configuration (headers, timeout, baseUrl)
+ * @param options - Optional configuration (headers, timeout, baseUrl, version, routingKey)
  * @returns Promise resolving to the flow output
  */
 export async function runFlow<T = any>(
@@ -27,8 +31,7 @@ export async function runFlow<T = any>(
   input: any,
   options?: FlowShaprClientOptions
 ): Promise<T> {
-  const baseUrl = options?.baseUrl || 'https://app.flowshapr.ai';
-  const url = `${baseUrl.replace(/\/$/, '')}/api/flows/by-alias/${flowAlias}/execute`;
+  const url = buildFlowUrl(options?.baseUrl || 'https://app.flowshapr.ai', flowAlias, options?.version);
 
   return runFlowByUrl<T>(url, input, options);
 }
@@ -39,7 +42,7 @@ export async function runFlow<T = any>(
  *
  * @param url - The full flow endpoint URL
  * @param input - The input data for the flow
- * @param options - Optional configuration (headers, timeout)
+ * @param options - Optional configuration (headers, timeout, routingKey)
  * @returns Promise resolving to the flow output
  */
 export async function runFlowByUrl<T = any>(
@@ -51,6 +54,7 @@ export async function runFlowByUrl<T = any>(
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...(options?.routingKey ? { 'X-Routing-Key': options.routingKey } : {}),
       ...options?.headers,
     },
     body: JSON.stringify(input),
@@ -83,9 +87,9 @@ export async function runFlowByUrl<T = any>(
  * Run a flow by alias and stream the results.
  * Compatible with Genkit's streamFlow API but with FlowShapr-specific flow alias support.
  *
- * @param flowAlias - The flow alias (slug) to execute
+ * @param flowAlias - The flow alias (slug) to execute, optionally pinned as `alias@1.2.0`
  * @param input - The input data for the flow
- * @param options - Optional configuration (headers, timeout, baseUrl)
+ * @param options - Optional configuration (headers, timeout, baseUrl, version, routingKey)
  * @returns AsyncGenerator yielding stream chunks
  */
 export async function* streamFlow<T = any>(
@@ -93,8 +97,7 @@ export async function* streamFlow<T = any>(
   input: any,
   options?: FlowShaprClientOptions
 ): AsyncGenerator<T, void, unknown> {
-  const baseUrl = options?.baseUrl || 'https://app.flowshapr.ai';
-  const url = `${baseUrl.replace(/\/$/, '')}/api/flows/by-alias/${flowAlias}/execute`;
+  const url = buildFlowUrl(options?.baseUrl || 'https://app.flowshapr.ai', flowAlias, options?.version);
 
   yield* streamFlowByUrl<T>(url, input, options);
 }
@@ -105,7 +108,7 @@ export async function* streamFlow<T = any>(
  *
  * @param url - The full flow endpoint URL
  * @param input - The input data for the flow
- * @param options - Optional configuration (headers, timeout)
+ * @param options - Optional configuration (headers, timeout, routingKey)
  * @returns AsyncGenerator yielding stream chunks
  */
 export async function* streamFlowByUrl<T = any>(
@@ -118,6 +121,7 @@ export async function* streamFlowByUrl<T = any>(
     headers: {
       'Content-Type': 'application/json',
       'Accept': 'text/event-stream',
+      ...(options?.routingKey ? { 'X-Routing-Key': options.routingKey } : {}),
       ...options?.headers,
     },
     body: JSON.stringify(input),
@@ -197,11 +201,11 @@ export async function* streamFlowByUrl<T = any>(
 }
 
 /**
- * Helper function to construct flow URLs
+ * Helper function to construct flow URLs, pinned to a published version when one is given
  */
-export function buildFlowUrl(baseUrl: string, flowAlias: string): string {
+export function buildFlowUrl(baseUrl: string, flowAlias: string, version?: string): string {
   const base = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
-  return `${base}/api/flows/by-alias/${flowAlias}/execute`;
+  return `${base}/api/flows/by-alias/${version ? `${flowAlias}@${version}` : flowAlias}/execute`;
 }
 
 /**
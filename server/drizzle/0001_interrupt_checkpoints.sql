@@ -0,0 +1,2 @@
+ALTER TYPE "public"."trace_status" ADD VALUE 'interrupted';--> statement-breakpoint
+ALTER TABLE "trace" ADD COLUMN "checkpoint" jsonb;
\ No newline at end of file
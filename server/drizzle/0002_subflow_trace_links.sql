@@ -0,0 +1,2 @@
+ALTER TABLE "trace" ADD COLUMN "parent_execution_id" text;--> statement-breakpoint
+CREATE INDEX "trace_parent_execution_idx" ON "trace" USING btree ("parent_execution_id");
\ No newline at end of file
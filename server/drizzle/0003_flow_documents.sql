@@ -0,0 +1,13 @@
+CREATE TABLE "flow_document" (
+	"id" text PRIMARY KEY NOT NULL,
+	"content" text NOT NULL,
+	"metadata" jsonb,
+	"embedding" jsonb NOT NULL,
+	"embedder" text NOT NULL,
+	"execution_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"flow_id" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "flow_document" ADD CONSTRAINT "flow_document_flow_id_flow_id_fk" FOREIGN KEY ("flow_id") REFERENCES "public"."flow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "flow_document_flow_embedder_idx" ON "flow_document" USING btree ("flow_id","embedder");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "prompt_version" (
+	"id" text PRIMARY KEY NOT NULL,
+	"version" integer NOT NULL,
+	"template" text NOT NULL,
+	"variables" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"prompt_id" text NOT NULL,
+	"created_by" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "prompt" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "prompt_version" ADD CONSTRAINT "prompt_version_prompt_id_prompt_id_fk" FOREIGN KEY ("prompt_id") REFERENCES "public"."prompt"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "prompt_version" ADD CONSTRAINT "prompt_version_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "prompt_version_prompt_version_idx" ON "prompt_version" USING btree ("prompt_id","version");
\ No newline at end of file
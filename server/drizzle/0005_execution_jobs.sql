@@ -0,0 +1,17 @@
+CREATE TYPE "public"."execution_job_status" AS ENUM('queued', 'running', 'finished');--> statement-breakpoint
+CREATE TABLE "execution_job" (
+	"id" text PRIMARY KEY NOT NULL,
+	"execution_id" text NOT NULL,
+	"request" jsonb NOT NULL,
+	"callback_url" text,
+	"status" "execution_job_status" DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"locked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"flow_id" text NOT NULL,
+	CONSTRAINT "execution_job_execution_id_unique" UNIQUE("execution_id")
+);
+--> statement-breakpoint
+ALTER TABLE "execution_job" ADD CONSTRAINT "execution_job_flow_id_flow_id_fk" FOREIGN KEY ("flow_id") REFERENCES "public"."flow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "execution_job_status_created_at_idx" ON "execution_job" USING btree ("status","created_at");
\ No newline at end of file
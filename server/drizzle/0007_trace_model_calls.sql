@@ -0,0 +1 @@
+ALTER TABLE "trace" ADD COLUMN "model_calls" jsonb;
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- API calls now run published snapshots. Published flows only have their working
+-- definition, so snapshot it as their current version.
+INSERT INTO "flow_version" ("id", "version", "changelog", "nodes", "edges", "metadata", "config", "created_at", "flow_id", "created_by")
+SELECT md5(random()::text || "flow"."id"), "flow"."version", 'Published before version snapshots', "flow"."nodes", "flow"."edges", "flow"."metadata", "flow"."config", COALESCE("flow"."published_at", now()), "flow"."id", "flow"."created_by"
+FROM "flow"
+WHERE "flow"."status" = 'published'
+  AND NOT EXISTS (SELECT 1 FROM "flow_version" WHERE "flow_version"."flow_id" = "flow"."id" AND "flow_version"."version" = "flow"."version");
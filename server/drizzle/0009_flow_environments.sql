@@ -0,0 +1,17 @@
+CREATE TABLE "flow_promotion" (
+	"id" text PRIMARY KEY NOT NULL,
+	"environment" text NOT NULL,
+	"from_environment" text,
+	"version" text NOT NULL,
+	"previous_version" text,
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"flow_id" text NOT NULL,
+	"promoted_by" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "connection" ADD COLUMN "environment" text;--> statement-breakpoint
+ALTER TABLE "flow_api_key" ADD COLUMN "environment" text;--> statement-breakpoint
+ALTER TABLE "flow_promotion" ADD CONSTRAINT "flow_promotion_flow_id_flow_id_fk" FOREIGN KEY ("flow_id") REFERENCES "public"."flow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "flow_promotion" ADD CONSTRAINT "flow_promotion_promoted_by_user_id_fk" FOREIGN KEY ("promoted_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "flow_promotion_flow_created_at_idx" ON "flow_promotion" USING btree ("flow_id","created_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "trace" ADD COLUMN "variant" text;
\ No newline at end of file
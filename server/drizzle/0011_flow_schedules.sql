@@ -0,0 +1,24 @@
+CREATE TABLE "flow_schedule" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"cron_expression" text NOT NULL,
+	"timezone" text DEFAULT 'UTC' NOT NULL,
+	"input" jsonb,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"next_run_at" timestamp,
+	"last_run_at" timestamp,
+	"last_execution_id" text,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"flow_id" text NOT NULL,
+	"created_by" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "trace" ADD COLUMN "trigger" text;--> statement-breakpoint
+ALTER TABLE "trace" ADD COLUMN "schedule_id" text;--> statement-breakpoint
+ALTER TABLE "flow_schedule" ADD CONSTRAINT "flow_schedule_flow_id_flow_id_fk" FOREIGN KEY ("flow_id") REFERENCES "public"."flow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "flow_schedule" ADD CONSTRAINT "flow_schedule_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "flow_schedule_flow_idx" ON "flow_schedule" USING btree ("flow_id");--> statement-breakpoint
+CREATE INDEX "flow_schedule_due_idx" ON "flow_schedule" USING btree ("is_active","next_run_at");--> statement-breakpoint
+ALTER TABLE "trace" ADD CONSTRAINT "trace_schedule_id_flow_schedule_id_fk" FOREIGN KEY ("schedule_id") REFERENCES "public"."flow_schedule"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
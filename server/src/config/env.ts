@@ -33,7 +33,14 @@ export const ENV = {
   APPLE_CLIENT_ID: process.env.APPLE_CLIENT_ID,
   APPLE_CLIENT_SECRET: process.env.APPLE_CLIENT_SECRET,
   GENKIT_EXPORT_SECRET: process.env.GENKIT_EXPORT_SECRET,
+  WEBHOOK_SIGNING_SECRET: process.env.WEBHOOK_SIGNING_SECRET || "development-webhook-secret",
+  WEBHOOK_ALLOW_PRIVATE_NETWORKS: process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === "true", // Let callbacks reach private and loopback addresses
 };
 
+// Flows' webhook secrets are derived from this one, so production must not run on the public fallback
+if (ENV.NODE_ENV === "production" && !process.env.WEBHOOK_SIGNING_SECRET) {
+  throw new Error("WEBHOOK_SIGNING_SECRET must be set in production");
+}
+
 console.log("Database configured:", !!ENV.DATABASE_URL);
 console.log("Auth secret configured:", !!ENV.BETTER_AUTH_SECRET);
@@ -31,6 +31,16 @@ export class FlowApiKeysController {
       res.status(500).json({ success: false, error: { message: 'Failed to revoke API key', details: e?.message || String(e) } });
     }
   }
+
+  async getWebhookSecret(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any; // flowId
+      const data = await flowApiKeysService.getWebhookSecret(id, req.user!.id);
+      res.json({ success: true, data });
+    } catch (e: any) {
+      res.status(e?.statusCode || 500).json({ success: false, error: { message: 'Failed to get webhook secret', details: e?.message || String(e) } });
+    }
+  }
 }
 
 export const flowApiKeysController = new FlowApiKeysController();
@@ -2,8 +2,11 @@ import { and, eq } from 'drizzle-orm';
 import { db } from '../../../infrastructure/database/connection';
 import * as schema from '../../../infrastructure/database/schema';
 import { flowService } from '../../flows/services/FlowService';
-import { NotFoundError } from '../../../shared/utils/errors';
+import { ForbiddenError, NotFoundError } from '../../../shared/utils/errors';
 import { generateToken, hashToken } from '../../../shared/utils/crypto';
+import { deriveWebhookSecret } from '../../../shared/utils/webhooks';
+import { ENV } from '../../../config/env';
+import { CreateApiKeyRequest } from '../validation/schemas';
 
 export class FlowApiKeysService {
   private generateApiKeyId(): string { return `fak_${Date.now()}_${Math.random().toString(36).slice(2,8)}`; }
@@ -22,6 +25,7 @@ export class FlowApiKeysService {
         lastUsedAt: (schema as any).flowApiKey.lastUsedAt,
         usageCount: (schema as any).flowApiKey.usageCount,
         expiresAt: (schema as any).flowApiKey.expiresAt,
+        environment: (schema as any).flowApiKey.environment,
         createdAt: (schema as any).flowApiKey.createdAt,
       })
       .from((schema as any).flowApiKey)
@@ -29,7 +33,7 @@ export class FlowApiKeysService {
     return rows;
   }
 
-  async create(flowId: string, userId: string, data: { name: string; scopes?: string[]; rateLimit?: number; expiresAt?: string }) {
+  async create(flowId: string, userId: string, data: CreateApiKeyRequest) {
     const flow = await flowService.getFlowById(flowId, userId);
     if (!flow) throw new NotFoundError('Flow not found or access denied');
     const rawToken = `fs_${generateToken()}`;
@@ -45,10 +49,11 @@ export class FlowApiKeysService {
       rateLimit: data.rateLimit || null,
       isActive: true,
       expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+      environment: data.environment || null,
       flowId,
       createdBy: userId,
-    }).returning({ id: (schema as any).flowApiKey.id, prefix: (schema as any).flowApiKey.prefix, name: (schema as any).flowApiKey.name });
-    return { id: inserted[0].id, name: inserted[0].name, prefix: inserted[0].prefix, token: rawToken };
+    }).returning({ id: (schema as any).flowApiKey.id, prefix: (schema as any).flowApiKey.prefix, name: (schema as any).flowApiKey.name, environment: (schema as any).flowApiKey.environment });
+    return { id: inserted[0].id, name: inserted[0].name, prefix: inserted[0].prefix, environment: inserted[0].environment, token: rawToken };
   }
 
   async revoke(flowId: string, keyId: string, userId: string) {
@@ -60,6 +65,16 @@ export class FlowApiKeysService {
       .where(and(eq((schema as any).flowApiKey.flowId, flowId), eq((schema as any).flowApiKey.id, keyId)));
     return { success: true };
   }
+
+  // Secret completion webhooks of this flow's asynchronous runs are signed with
+  async getWebhookSecret(flowId: string, userId: string) {
+    const flow = await flowService.getFlowById(flowId, userId);
+    if (!flow) throw new NotFoundError('Flow not found or access denied');
+    if (!['owner', 'admin', 'developer'].includes(flow.memberRole)) {
+      throw new ForbiddenError("You don't have permission to view this flow's webhook secret");
+    }
+    return { secret: deriveWebhookSecret(ENV.WEBHOOK_SIGNING_SECRET, flowId) };
+  }
 }
 
 export const flowApiKeysService = new FlowApiKeysService();
@@ -37,7 +37,7 @@ jest.mock('../../../../shared/utils/crypto', () => mockCrypto);
 
 // Import after mocks
 import { FlowApiKeysService } from '../FlowApiKeysService';
-import { NotFoundError } from '../../../../shared/utils/errors';
+import { ForbiddenError, NotFoundError } from '../../../../shared/utils/errors';
 import {
   createMockApiKey,
   createMockUser,
@@ -249,6 +249,24 @@ describe('FlowApiKeysService', () => {
     });
   });
 
+  describe('getWebhookSecret', () => {
+    it('should return a secret of the flow\'s own', async () => {
+      mockFlowService.getFlowById.mockResolvedValue(mockFlow);
+
+      const { secret } = await flowApiKeysService.getWebhookSecret(mockFlow.id, mockUser.id);
+      const other = await flowApiKeysService.getWebhookSecret('other-flow', mockUser.id);
+
+      expect(secret).toMatch(/^whsec_/);
+      expect(other.secret).not.toBe(secret);
+    });
+
+    it('should not reveal the secret to viewers', async () => {
+      mockFlowService.getFlowById.mockResolvedValue({ ...mockFlow, memberRole: 'viewer' });
+
+      await expect(flowApiKeysService.getWebhookSecret(mockFlow.id, mockUser.id)).rejects.toThrow(ForbiddenError);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle database errors during list operation', async () => {
       mockFlowService.getFlowById.mockResolvedValue(mockFlow);
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { ENVIRONMENTS } from '../../environments/types';
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  scopes: z.array(z.string().min(1)).optional(),
+  rateLimit: z.number().int().positive().optional(),
+  expiresAt: z.string().datetime({ message: 'Invalid expiry date' }).optional(),
+  environment: z.enum(ENVIRONMENTS).nullable().optional(), // Runs with the key use this environment's version and connections
+});
+
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
@@ -1,13 +1,18 @@
-import { ServerBlockDefinition, SubBlockType, CodeGenerationContext } from '../types';
+import { ServerBlockDefinition, SubBlockType, CodeGenerationContext, ResolvedPrompt } from '../types';
 import { generateContextualTemplateCode, extractTemplateVariables } from '../utils/templateUtils';
+import { getAttachmentVariable, getPromptVariable } from '../utils/codegenNames';
+import { getInterruptToolName } from './InterruptBlock';
+import { useModelCalls } from '../utils/modelCalls';
+import { MOCK_MODEL_OPTIONS, MOCK_PLUGIN, generateMockResponses, parseMockResponses, validateMockFixtureName } from '../utils/mockModels';
 
 interface AgentBlockConfig {
-  provider: 'googleai' | 'openai' | 'anthropic';
+  provider: 'googleai' | 'openai' | 'anthropic' | 'mock';
   model: string;
   promptType: 'static' | 'library';
   systemPrompt?: string;
   userPrompt?: string;
   promptLibraryId?: string;
+  promptVersion?: number | string;
   temperature?: number;
   maxTokens?: number;
   topP?: number;
@@ -19,13 +24,15 @@ interface AgentBlockConfig {
   safetySettings?: string;
   responseFormat?: 'text' | 'json';
   jsonSchema?: string;
+  mockResponses?: string; // JSON rules scripting the mock provider's replies
+  mockFixture?: string;
 }
 
 export const AgentBlockDefinition: ServerBlockDefinition = {
   type: 'agent',
   name: 'Agent',
   description: 'AI model for text generation and reasoning',
-  longDescription: 'Configure AI agents with different providers (Google AI, OpenAI, Anthropic), models, and advanced parameters for text generation, reasoning, and structured output.',
+  longDescription: 'Configure AI agents with different providers (Google AI, OpenAI, Anthropic, or a mock for offline testing), models, and advanced parameters for text generation, reasoning, and structured output.',
   category: 'genai',
   version: '1.0.0',
   
@@ -41,7 +48,8 @@ export const AgentBlockDefinition: ServerBlockDefinition = {
       options: [
         { value: 'googleai', label: 'Google AI', description: 'Google Gemini models' },
         { value: 'openai', label: 'OpenAI', description: 'GPT models' },
-        { value: 'anthropic', label: 'Anthropic', description: 'Claude models' }
+        { value: 'anthropic', label: 'Anthropic', description: 'Claude models' },
+        { value: 'mock', label: 'Mock', description: 'Scripted responses for offline testing' }
       ]
     },
     {
@@ -59,9 +67,27 @@ export const AgentBlockDefinition: ServerBlockDefinition = {
         { value: 'claude-3-5-haiku', label: 'Claude 3.5 Haiku', description: 'Fast Claude model' },
         { value: 'claude-3-opus', label: 'Claude 3 Opus', description: 'Most capable Claude model' },
         { value: 'claude-3-sonnet', label: 'Claude 3 Sonnet', description: 'Balanced Claude model' },
-        { value: 'claude-3-haiku', label: 'Claude 3 Haiku', description: 'Fast Claude model' }
+        { value: 'claude-3-haiku', label: 'Claude 3 Haiku', description: 'Fast Claude model' },
+        ...MOCK_MODEL_OPTIONS
       ]
     },
+    {
+      id: 'mockResponses',
+      type: SubBlockType.TEXT,
+      label: 'Mock Responses',
+      placeholder: '[{"match": "weather", "text": "Sunny"}, {"output": {"ok": true}}]',
+      multiline: true,
+      visibleWhen: (config: AgentBlockConfig) => config.provider === 'mock',
+      description: 'Rules tried in order against the last user message: match (regex) with text, output (JSON) or toolRequest ({name, input}). Unmatched messages are echoed.'
+    },
+    {
+      id: 'mockFixture',
+      type: SubBlockType.TEXT,
+      label: 'Mock Fixture',
+      placeholder: 'weather-replies',
+      visibleWhen: (config: AgentBlockConfig) => config.provider === 'mock',
+      description: 'Fixture file with more rules, read from the server\'s mock fixtures directory'
+    },
     {
       id: 'promptType',
       type: SubBlockType.SELECT,
@@ -98,6 +124,15 @@ export const AgentBlockDefinition: ServerBlockDefinition = {
       visibleWhen: (config: AgentBlockConfig) => config.promptType === 'library',
       required: true
     },
+    {
+      id: 'promptVersion',
+      type: SubBlockType.NUMBER,
+      label: 'Prompt Version',
+      min: 1,
+      step: 1,
+      visibleWhen: (config: AgentBlockConfig) => config.promptType === 'library',
+      description: 'Pin a saved version of the prompt. Leave empty to use the latest.'
+    },
     {
       id: 'temperature',
       type: SubBlockType.NUMBER,
@@ -173,6 +208,34 @@ export const AgentBlockDefinition: ServerBlockDefinition = {
       });
     }
 
+    if (config.promptType === 'library' && parsePromptVersion(config.promptVersion) === null) {
+      errors.push({
+        field: 'promptVersion',
+        message: 'Prompt version must be a whole number of at least 1',
+        severity: 'error' as const
+      });
+    }
+
+    if (config.provider === 'mock') {
+      const { error } = parseMockResponses(config.mockResponses);
+      if (error) {
+        errors.push({
+          field: 'mockResponses',
+          message: error,
+          severity: 'error' as const
+        });
+      }
+
+      const fixtureError = validateMockFixtureName(config.mockFixture);
+      if (fixtureError) {
+        errors.push({
+          field: 'mockFixture',
+          message: fixtureError,
+          severity: 'error' as const
+        });
+      }
+    }
+
     if (config.responseFormat === 'json' && !config.jsonSchema) {
       errors.push({
         field: 'jsonSchema',
@@ -212,18 +275,42 @@ export const AgentBlockDefinition: ServerBlockDefinition = {
       // Add required model import to context
       const modelConstant = getAnthropicModelConstant(model);
       context.imports.add(`import { ${modelConstant} } from 'genkitx-anthropic';`);
+    } else if (provider === 'mock') {
+      context.plugins.add(MOCK_PLUGIN);
     }
 
-    let promptCode = '';
+    let promptSetup = '';
+    let promptOption = '';
     if (promptType === 'static') {
       const systemText = systemPrompt ? `System: ${systemPrompt}\n` : '';
       const userText = userPrompt || 'Process this input: {{input}}';
       const fullTemplate = systemText + userText;
       
       // Use the new template system that can handle any {{variable}} pattern
-      promptCode = generateContextualTemplateCode(fullTemplate, [inputVar]);
+      promptOption = `prompt: ${generateContextualTemplateCode(fullTemplate, [inputVar])}`;
     } else {
-      promptCode = `await getPromptFromLibrary('${config.promptLibraryId}', ${inputVar})`;
+      // Library prompts are resolved when the flow runs and compiled into a Genkit prompt
+      const nodeId = context.currentBlockId || outputVar;
+      const resolved = context.prompts?.[nodeId];
+      if (!resolved) {
+        promptSetup = `const ${outputVar}Prompt = (() => {
+      const unresolvedError = new Error(${JSON.stringify(`Agent node "${nodeId}" could not resolve library prompt "${config.promptLibraryId}"`)});
+      unresolvedError.nodeId = ${JSON.stringify(nodeId)};
+      throw unresolvedError;
+    })();
+    `;
+      } else {
+        const promptVar = getPromptVariable(resolved.promptId, resolved.version);
+        if (!context.definitions) {
+          context.definitions = new Map();
+        }
+        if (!context.definitions.has(promptVar)) {
+          context.definitions.set(promptVar, generatePromptDefinition(promptVar, resolved));
+        }
+        promptSetup = `const ${outputVar}Prompt = await ${promptVar}.render(${generatePromptInput(resolved, inputVar)});
+    `;
+      }
+      promptOption = `messages: ${outputVar}Prompt.messages`;
     }
 
     // Get correct model reference
@@ -235,6 +322,8 @@ export const AgentBlockDefinition: ServerBlockDefinition = {
     } else if (provider === 'anthropic') {
       const modelConstant = getAnthropicModelConstant(model);
       modelRef = modelConstant;
+    } else if (provider === 'mock') {
+      modelRef = `'mock/${model}'`;
     }
 
     const configOptions = [];
@@ -247,14 +336,71 @@ export const AgentBlockDefinition: ServerBlockDefinition = {
     if (responseFormat === 'json') {
       configOptions.push(`output: { format: 'json', schema: ${jsonSchema || 'undefined'} }`);
     }
+    if (provider === 'mock' && model === 'scripted') {
+      configOptions.push(`responses: ${generateMockResponses(parseMockResponses(config.mockResponses).rules, config.mockFixture)}`);
+    }
+
+    // Model calls are recorded, or answered from a recording, when the run asks for it
+    const useOption = useModelCalls(context, context.currentBlockId || outputVar, `${provider}/${model}`);
 
     const configStr = configOptions.length > 0 ? `,\n      config: {\n        ${configOptions.join(',\n        ')}\n      }` : '';
 
-    return `const ${outputVar}Response = await ai.generate({
+    const outputCode = `const ${outputVar} = ${responseFormat === 'json' ? `${outputVar}Response.output` : `(typeof ${outputVar}Response.text === 'function' ? ${outputVar}Response.text() : ${outputVar}Response.text || ${outputVar}Response.output || '')`};`;
+
+    // Tokens are forwarded to the caller as they arrive, tagged with the node producing them
+    const streamCode = `for await (const chunk of ${outputVar}Stream.stream) {
+      if (chunk.text) sendChunk({ nodeId: ${JSON.stringify(context.currentBlockId || outputVar)}, text: chunk.text });
+    }
+    const ${outputVar}Response = await ${outputVar}Stream.response;`;
+
+    // Interrupt blocks attached to the agent's tool handle become Genkit interrupt tools
+    const interrupts = (context.attachments?.[context.currentBlockId || ''] || []).filter(a => a.blockType === 'interrupt');
+    if (interrupts.length > 0) {
+      const nodeId = JSON.stringify(context.currentBlockId);
+      const interruptEntries = interrupts.map(i =>
+        `'${getInterruptToolName(i.id)}': { tool: ${getAttachmentVariable(i.id)}, restartable: ${i.config?.interruptType === 'restartable'} }`
+      );
+
+      return `${promptSetup}const ${outputVar}Interrupts = { ${interruptEntries.join(', ')} };
+    const ${outputVar}Resume = runtime.resume && runtime.resume.nodeId === ${nodeId} ? runtime.resume : null;
+    const ${outputVar}Stream = ai.generateStream({
+      model: ${modelRef},
+      ${useOption},
+      ...(${outputVar}Resume
+        ? {
+            messages: ${outputVar}Resume.messages,
+            resume: {
+              respond: ${outputVar}Resume.interrupts
+                .filter(part => !${outputVar}Interrupts[part.toolRequest.name].restartable)
+                .map(part => ${outputVar}Interrupts[part.toolRequest.name].tool.respond(part, ${outputVar}Resume.response)),
+              restart: ${outputVar}Resume.interrupts
+                .filter(part => ${outputVar}Interrupts[part.toolRequest.name].restartable)
+                .map(part => ${outputVar}Interrupts[part.toolRequest.name].tool.restart(part, ${outputVar}Resume.response))
+            }
+          }
+        : { ${promptOption} }),
+      tools: Object.values(${outputVar}Interrupts).map(entry => entry.tool)${configStr}
+    });
+    ${streamCode}
+    if (${outputVar}Response.interrupts.length > 0) {
+      const ${outputVar}Interrupted = new Error(${JSON.stringify(`Flow interrupted at node "${context.currentBlockId}"`)});
+      ${outputVar}Interrupted.flowInterrupt = {
+        nodeId: ${nodeId},
+        interrupts: ${outputVar}Response.interrupts,
+        messages: ${outputVar}Response.messages
+      };
+      throw ${outputVar}Interrupted;
+    }
+    ${outputCode}`;
+    }
+
+    return `${promptSetup}const ${outputVar}Stream = ai.generateStream({
       model: ${modelRef},
-      prompt: ${promptCode}${configStr}
+      ${useOption},
+      ${promptOption}${configStr}
     });
-    const ${outputVar} = ${responseFormat === 'json' ? `${outputVar}Response.output` : `(typeof ${outputVar}Response.text === 'function' ? ${outputVar}Response.text() : ${outputVar}Response.text || ${outputVar}Response.output || '')`};`;
+    ${streamCode}
+    ${outputCode}`;
   },
 
   getImports: (config: AgentBlockConfig) => {
@@ -278,6 +424,8 @@ export const AgentBlockDefinition: ServerBlockDefinition = {
 
       const modelConstant = getAnthropicModelConstant(config.model);
       imports.push(`import { anthropic, ${modelConstant} } from 'genkitx-anthropic';`);
+    } else if (config.provider === 'mock') {
+      imports.push("import { genkitPlugin } from 'genkit/plugin';");
     }
     return imports;
   },
@@ -301,7 +449,60 @@ export const AgentBlockDefinition: ServerBlockDefinition = {
       return ['openAI()'];
     } else if (config.provider === 'anthropic') {
       return ['anthropic()'];
+    } else if (config.provider === 'mock') {
+      return [MOCK_PLUGIN];
     }
     return [];
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Pinned prompt version: undefined when unpinned, null when invalid
+ */
+function parsePromptVersion(value: unknown): number | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  const version = typeof value === 'string' ? Number(value) : value;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 1 ? version : null;
+}
+
+/**
+ * Prompt version an agent block is pinned to, if any
+ */
+export function getPinnedPromptVersion(config: { promptVersion?: unknown }): number | undefined {
+  return parsePromptVersion(config.promptVersion) ?? undefined;
+}
+
+/**
+ * Declared prompt variables, or the ones the template references when none are declared
+ */
+function getPromptVariables(resolved: ResolvedPrompt): string[] {
+  if (resolved.variables.length > 0) return resolved.variables;
+  const roots = extractTemplateVariables(resolved.template)
+    .map(name => name.split('.')[0])
+    .filter(name => /^[A-Za-z_][\w]*$/.test(name) && name !== 'this');
+  return Array.from(new Set(roots));
+}
+
+/**
+ * Dotprompt definition for a library prompt, with its declared variables as input
+ */
+function generatePromptDefinition(promptVar: string, resolved: ResolvedPrompt): string {
+  const fields = getPromptVariables(resolved).map(name => `${JSON.stringify(name)}: z.any()`);
+  return `const ${promptVar} = ai.definePrompt({
+  name: '${promptVar}',
+  input: { schema: z.object({ ${fields.join(', ')} }) },
+  messages: ${JSON.stringify(resolved.template)},
+});`;
+}
+
+/**
+ * Prompt variables are read from the block input when it is an object, otherwise
+ * from the flow context like static prompts ({{input}}, {{step1}}, ...)
+ */
+function generatePromptInput(resolved: ResolvedPrompt, inputVar: string): string {
+  const entries = getPromptVariables(resolved).map(name => {
+    const key = JSON.stringify(name);
+    return `${key}: promptFields && ${key} in promptFields ? promptFields[${key}] : ctx[${key}]`;
+  });
+  return `((promptFields) => ({ ${entries.join(', ')} }))(${inputVar} && typeof ${inputVar} === 'object' && !Array.isArray(${inputVar}) ? ${inputVar} : null)`;
+}
@@ -1,4 +1,5 @@
 import { ServerBlockDefinition, SubBlockType, CodeGenerationContext } from '../types';
+import { containsUnsafeCode } from '../utils/codeSafety';
 
 interface ConditionBlockConfig {
   condition: string;
@@ -71,10 +72,7 @@ export const ConditionBlockDefinition: ServerBlockDefinition = {
     // Basic syntax validation for expressions
     if (config.conditionType === 'expression' && config.condition) {
       // Check for dangerous patterns
-      const dangerous = ['eval(', 'Function(', 'require(', 'import(', 'process.', 'global.'];
-      const hasDangerous = dangerous.some(pattern => config.condition.includes(pattern));
-      
-      if (hasDangerous) {
+      if (containsUnsafeCode(config.condition)) {
         errors.push({
           field: 'condition',
           message: 'Condition contains potentially unsafe code',
@@ -0,0 +1,81 @@
+import { ServerBlockDefinition, SubBlockType, CodeGenerationContext } from '../types';
+import { generateContextualTemplateCode } from '../utils/templateUtils';
+import { EMBEDDER_OPTIONS, FAKE_EMBEDDER, getEmbedderPlugins, useEmbedder, validateEmbedder } from '../utils/documentStore';
+
+interface EmbedBlockConfig {
+  embedder: string;
+  text?: string;
+}
+
+export const EmbedBlockDefinition: ServerBlockDefinition = {
+  type: 'embed',
+  name: 'Embed',
+  description: 'Turn text into an embedding vector',
+  longDescription: 'Calls a Genkit embedder and outputs the embedding vector for the text. The text defaults to the incoming value and can be built from {{variable}} templates instead.',
+  category: 'genai',
+  version: '1.0.0',
+
+  isAvailable: () => true,
+
+  subBlocks: [
+    {
+      id: 'embedder',
+      type: SubBlockType.SELECT,
+      label: 'Embedder',
+      required: true,
+      defaultValue: FAKE_EMBEDDER,
+      options: EMBEDDER_OPTIONS
+    },
+    {
+      id: 'text',
+      type: SubBlockType.TEXT,
+      label: 'Text',
+      placeholder: '{{input.question}}',
+      multiline: true,
+      description: 'Optional text template. Leave empty to embed the incoming value.'
+    }
+  ],
+
+  validateConfig: (config: EmbedBlockConfig) => {
+    const errors = [];
+
+    const embedderError = validateEmbedder(config.embedder);
+    if (embedderError) {
+      errors.push({
+        field: 'embedder',
+        message: embedderError,
+        severity: 'error' as const
+      });
+    }
+
+    if (config.text !== undefined && typeof config.text !== 'string') {
+      errors.push({
+        field: 'text',
+        message: 'Text must be a string template',
+        severity: 'error' as const
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  },
+
+  generateCode: (config: EmbedBlockConfig, context: CodeGenerationContext, inputVar: string, outputVar: string) => {
+    useEmbedder(config.embedder, context);
+    const text = config.text
+      ? generateContextualTemplateCode(config.text, [inputVar], expression => `toText(${expression})`)
+      : `toText(${inputVar})`;
+
+    return `const ${outputVar} = await (async () => {
+      const toText = (value) => value == null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      const embeddings = await ai.embed({ embedder: ${JSON.stringify(config.embedder)}, content: ${text} });
+      return embeddings[0].embedding;
+    })();`;
+  },
+
+  getImports: (config: EmbedBlockConfig) => [],
+  getDependencies: (config: EmbedBlockConfig) => [],
+  getPlugins: (config: EmbedBlockConfig) => getEmbedderPlugins(config.embedder)
+};
@@ -0,0 +1,142 @@
+import { ServerBlockDefinition, SubBlockType, CodeGenerationContext } from '../types';
+import { getLoopBodyVariable } from '../utils/codegenNames';
+
+export type ForEachErrorPolicy = 'fail-fast' | 'skip' | 'collect';
+
+interface ForEachBlockConfig {
+  itemsPath?: string;
+  concurrency?: number;
+  errorPolicy?: ForEachErrorPolicy;
+}
+
+const DEFAULT_CONCURRENCY = 5;
+const MAX_CONCURRENCY = 50;
+const ERROR_POLICIES: ForEachErrorPolicy[] = ['fail-fast', 'skip', 'collect'];
+
+export const ForEachBlockDefinition: ServerBlockDefinition = {
+  type: 'foreach',
+  name: 'For Each',
+  description: 'Run a sub-flow for every item in a list',
+  longDescription: 'Iterates over an array from the incoming data and runs the blocks connected to the "item" handle once per item, with a bounded number of items in flight. The collected results continue through the "done" handle.',
+  category: 'control',
+  version: '1.0.0',
+
+  isAvailable: () => true,
+
+  subBlocks: [
+    {
+      id: 'itemsPath',
+      type: SubBlockType.TEXT,
+      label: 'Items Path',
+      placeholder: 'documents',
+      description: 'Dot path to the array in the incoming data. Leave empty when the data is the array.'
+    },
+    {
+      id: 'concurrency',
+      type: SubBlockType.NUMBER,
+      label: 'Concurrency',
+      defaultValue: DEFAULT_CONCURRENCY,
+      min: 1,
+      max: MAX_CONCURRENCY,
+      step: 1,
+      description: 'Maximum number of items processed at the same time'
+    },
+    {
+      id: 'errorPolicy',
+      type: SubBlockType.SELECT,
+      label: 'On Item Error',
+      required: true,
+      defaultValue: 'fail-fast',
+      options: [
+        { value: 'fail-fast', label: 'Fail Fast', description: 'Stop and fail the flow on the first failing item' },
+        { value: 'skip', label: 'Skip', description: 'Leave failing items out of the results' },
+        { value: 'collect', label: 'Collect Errors', description: 'Output { results, errors } with failing items reported separately' }
+      ]
+    }
+  ],
+
+  validateConfig: (config: ForEachBlockConfig) => {
+    const errors = [];
+
+    if (config.itemsPath && !/^[A-Za-z0-9_$]+(\.[A-Za-z0-9_$]+)*$/.test(config.itemsPath)) {
+      errors.push({
+        field: 'itemsPath',
+        message: 'Items path must be a dot-separated property path',
+        severity: 'error' as const
+      });
+    }
+
+    if (config.concurrency !== undefined &&
+        (!Number.isInteger(config.concurrency) || config.concurrency < 1 || config.concurrency > MAX_CONCURRENCY)) {
+      errors.push({
+        field: 'concurrency',
+        message: `Concurrency must be a whole number between 1 and ${MAX_CONCURRENCY}`,
+        severity: 'error' as const
+      });
+    }
+
+    if (config.errorPolicy && !ERROR_POLICIES.includes(config.errorPolicy)) {
+      errors.push({
+        field: 'errorPolicy',
+        message: `Unsupported error policy: ${config.errorPolicy}`,
+        severity: 'error' as const
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  },
+
+  generateCode: (config: ForEachBlockConfig, context: CodeGenerationContext, inputVar: string, outputVar: string) => {
+    const nodeId = context.currentBlockId || outputVar;
+    const concurrency = config.concurrency || DEFAULT_CONCURRENCY;
+    const errorPolicy = config.errorPolicy || 'fail-fast';
+    const path = config.itemsPath ? config.itemsPath.split('.') : [];
+    const itemsExpr = path.length > 0
+      ? `${JSON.stringify(path)}.reduce((value, key) => (value == null ? undefined : value[key]), ${inputVar})`
+      : inputVar;
+
+    // Workers pull the next index until the list is drained, keeping at most
+    // `concurrency` items in flight while preserving result order
+    return `const ${outputVar} = await (async () => {
+      const items = ${itemsExpr};
+      if (!Array.isArray(items)) {
+        const notArrayError = new Error(${JSON.stringify(`ForEach node "${nodeId}" expected an array at "${config.itemsPath || 'input'}"`)});
+        notArrayError.nodeId = ${JSON.stringify(nodeId)};
+        throw notArrayError;
+      }
+      const results = new Array(items.length);
+      const failed = [];
+      let next = 0;
+      const worker = async () => {
+        while (next < items.length) {
+          const index = next++;
+          try {
+            results[index] = await ${getLoopBodyVariable(outputVar)}(items[index], index, ctx);
+          } catch (error) {
+            ${errorPolicy === 'fail-fast'
+              ? `next = items.length;
+            const itemError = new Error(${JSON.stringify(`ForEach node "${nodeId}" failed on item `)} + index + ': ' + (error && error.message ? error.message : String(error)));
+            itemError.nodeId = (error && error.nodeId) || ${JSON.stringify(nodeId)};
+            throw itemError;`
+              : `failed.push({ index, error: error && error.message ? error.message : String(error) });`}
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(${concurrency}, items.length) }, worker));
+      ${errorPolicy === 'collect'
+        ? `const failedIndexes = new Set(failed.map(entry => entry.index));
+      return { results: results.filter((_, index) => !failedIndexes.has(index)), errors: failed };`
+        : errorPolicy === 'skip'
+          ? `const failedIndexes = new Set(failed.map(entry => entry.index));
+      return results.filter((_, index) => !failedIndexes.has(index));`
+          : 'return results;'}
+    })();`;
+  },
+
+  getImports: (config: ForEachBlockConfig) => [],
+  getDependencies: (config: ForEachBlockConfig) => [],
+  getPlugins: (config: ForEachBlockConfig) => []
+};
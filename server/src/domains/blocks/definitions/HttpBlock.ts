@@ -0,0 +1,274 @@
+import { ServerBlockDefinition, SubBlockType, CodeGenerationContext } from '../types';
+import { generateContextualTemplateCode } from '../utils/templateUtils';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface HttpBlockConfig {
+  method?: HttpMethod;
+  url: string;
+  headers?: Record<string, string> | string;
+  body?: string;
+  responseType?: 'json' | 'text';
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+}
+
+const METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_TIMEOUT_MS = 120000;
+const MAX_RETRIES = 5;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// A leading variable is treated as a base URL and is not encoded
+const LEADING_VARIABLE = /^\{\{[^}]+\}\}/;
+
+function parseHeaders(headers?: Record<string, string> | string): Record<string, string> {
+  if (headers === undefined || headers === null || headers === '') return {};
+  const parsed = typeof headers === 'string' ? JSON.parse(headers) : headers;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Headers must be a JSON object');
+  }
+  for (const [name, value] of Object.entries(parsed)) {
+    if (typeof value !== 'string') {
+      throw new Error(`Header "${name}" must be a string`);
+    }
+  }
+  return parsed as Record<string, string>;
+}
+
+function generateUrlCode(url: string, inputVar: string): string {
+  const encode = (expression: string) => `encodeURIComponent(toText(${expression}))`;
+  const leading = url.match(LEADING_VARIABLE);
+  if (!leading) {
+    return generateContextualTemplateCode(url, [inputVar], encode);
+  }
+  const base = generateContextualTemplateCode(leading[0], [inputVar], expression => `toText(${expression})`);
+  const rest = url.slice(leading[0].length);
+  return rest ? `${base} + ${generateContextualTemplateCode(rest, [inputVar], encode)}` : base;
+}
+
+export const HttpBlockDefinition: ServerBlockDefinition = {
+  type: 'http',
+  name: 'HTTP Request',
+  description: 'Call an external REST API',
+  longDescription: 'Sends an HTTP request built from {{variable}} templates and outputs the parsed response body. Connection secrets are available as {{secrets.<connection name>}}. Network errors, timeouts, 429 and 5xx responses are retried with exponential backoff.',
+  category: 'data',
+  version: '1.0.0',
+
+  isAvailable: () => true,
+
+  subBlocks: [
+    {
+      id: 'method',
+      type: SubBlockType.SELECT,
+      label: 'Method',
+      required: true,
+      defaultValue: 'GET',
+      options: METHODS.map(method => ({ value: method, label: method }))
+    },
+    {
+      id: 'url',
+      type: SubBlockType.TEXT,
+      label: 'URL',
+      placeholder: 'https://api.example.com/orders/{{input.orderId}}',
+      required: true,
+      description: 'Request URL. Template values are URL-encoded.'
+    },
+    {
+      id: 'headers',
+      type: SubBlockType.JSON,
+      label: 'Headers',
+      description: 'JSON object of header values, e.g. { "Authorization": "Bearer {{secrets.orders-api}}" }'
+    },
+    {
+      id: 'body',
+      type: SubBlockType.TEXT,
+      label: 'Body',
+      placeholder: '{ "query": "{{input.question}}" }',
+      multiline: true,
+      visibleWhen: (config: HttpBlockConfig) => !!config.method && config.method !== 'GET',
+      description: 'Request body template. Object values are inserted as JSON.'
+    },
+    {
+      id: 'responseType',
+      type: SubBlockType.SELECT,
+      label: 'Response',
+      required: true,
+      defaultValue: 'json',
+      options: [
+        { value: 'json', label: 'JSON', description: 'Parse the response body as JSON' },
+        { value: 'text', label: 'Text', description: 'Output the raw response body' }
+      ]
+    },
+    {
+      id: 'timeout',
+      type: SubBlockType.NUMBER,
+      label: 'Timeout (ms)',
+      defaultValue: DEFAULT_TIMEOUT_MS,
+      min: 1,
+      max: MAX_TIMEOUT_MS,
+      description: 'Maximum time for each attempt'
+    },
+    {
+      id: 'retries',
+      type: SubBlockType.NUMBER,
+      label: 'Retries',
+      defaultValue: 0,
+      min: 0,
+      max: MAX_RETRIES,
+      step: 1,
+      description: 'Extra attempts after a network error, timeout, 429 or 5xx response'
+    },
+    {
+      id: 'retryDelay',
+      type: SubBlockType.NUMBER,
+      label: 'Retry Delay (ms)',
+      defaultValue: DEFAULT_RETRY_DELAY_MS,
+      min: 0,
+      max: MAX_RETRY_DELAY_MS,
+      description: 'Delay before the first retry, doubled for each further attempt'
+    }
+  ],
+
+  validateConfig: (config: HttpBlockConfig) => {
+    const errors = [];
+
+    if (!config.url || !config.url.trim()) {
+      errors.push({
+        field: 'url',
+        message: 'URL is required',
+        severity: 'error' as const
+      });
+    } else if (!LEADING_VARIABLE.test(config.url) && !/^https?:\/\//i.test(config.url)) {
+      errors.push({
+        field: 'url',
+        message: 'URL must start with http:// or https://',
+        severity: 'error' as const
+      });
+    }
+
+    if (config.method && !METHODS.includes(config.method)) {
+      errors.push({
+        field: 'method',
+        message: `Unsupported HTTP method: ${config.method}`,
+        severity: 'error' as const
+      });
+    }
+
+    try {
+      parseHeaders(config.headers);
+    } catch (error) {
+      errors.push({
+        field: 'headers',
+        message: `Invalid headers: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        severity: 'error' as const
+      });
+    }
+
+    if (config.responseType && !['json', 'text'].includes(config.responseType)) {
+      errors.push({
+        field: 'responseType',
+        message: `Unsupported response type: ${config.responseType}`,
+        severity: 'error' as const
+      });
+    }
+
+    if (config.timeout !== undefined && (typeof config.timeout !== 'number' || config.timeout <= 0 || config.timeout > MAX_TIMEOUT_MS)) {
+      errors.push({
+        field: 'timeout',
+        message: `Timeout must be between 1 and ${MAX_TIMEOUT_MS} ms`,
+        severity: 'error' as const
+      });
+    }
+
+    if (config.retries !== undefined && (!Number.isInteger(config.retries) || config.retries < 0 || config.retries > MAX_RETRIES)) {
+      errors.push({
+        field: 'retries',
+        message: `Retries must be a whole number between 0 and ${MAX_RETRIES}`,
+        severity: 'error' as const
+      });
+    }
+
+    if (config.retryDelay !== undefined && (typeof config.retryDelay !== 'number' || config.retryDelay < 0 || config.retryDelay > MAX_RETRY_DELAY_MS)) {
+      errors.push({
+        field: 'retryDelay',
+        message: `Retry delay must be between 0 and ${MAX_RETRY_DELAY_MS} ms`,
+        severity: 'error' as const
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  },
+
+  generateCode: (config: HttpBlockConfig, context: CodeGenerationContext, inputVar: string, outputVar: string) => {
+    const nodeId = context.currentBlockId || outputVar;
+    const method = config.method || 'GET';
+    const timeout = config.timeout || DEFAULT_TIMEOUT_MS;
+    const retries = config.retries || 0;
+    const retryDelay = config.retryDelay ?? DEFAULT_RETRY_DELAY_MS;
+    const text = (expression: string) => `toText(${expression})`;
+    // Failures name the URL template so resolved secrets never reach error messages
+    const request = `${method} ${config.url}`;
+
+    const headerEntries = Object.entries(parseHeaders(config.headers))
+      .map(([name, value]) => `${JSON.stringify(name)}: ${generateContextualTemplateCode(value, [inputVar], text)}`);
+    const hasBody = method !== 'GET' && !!config.body;
+
+    // Secrets are only visible to the templates of this request, never to ctx
+    return `const ${outputVar} = await (async (ctx) => {
+      const toText = (value) => value == null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      const url = ${generateUrlCode(config.url, inputVar)};
+      const headers = { ${headerEntries.join(', ')} };
+      const body = ${hasBody ? generateContextualTemplateCode(config.body!, [inputVar], text) : 'undefined'};
+      if (body !== undefined && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+        headers['content-type'] = /^\\s*[[{]/.test(body) ? 'application/json' : 'text/plain';
+      }
+      let failure = 'request was not sent';
+      for (let attempt = 0; attempt <= ${retries}; attempt++) {
+        if (attempt > 0) {
+          await new Promise(resolve => setTimeout(resolve, ${retryDelay} * 2 ** (attempt - 1)));
+        }
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), ${timeout});
+        let retryable = true;
+        try {
+          const response = await fetch(url, { method: ${JSON.stringify(method)}, headers, body, signal: controller.signal });
+          const responseText = await response.text();
+          if (!response.ok) {
+            failure = ${JSON.stringify(`${request} returned `)} + response.status + (responseText ? ': ' + responseText.slice(0, 200) : '');
+            retryable = response.status === 429 || response.status >= 500;
+          } else {
+            ${config.responseType === 'text'
+              ? 'return responseText;'
+              : `if (!responseText) return null;
+            try {
+              return JSON.parse(responseText);
+            } catch {
+              failure = ${JSON.stringify(`response from ${request} is not valid JSON`)};
+              retryable = false;
+            }`}
+          }
+        } catch (error) {
+          failure = controller.signal.aborted
+            ? ${JSON.stringify(`${request} timed out after ${timeout} ms`)}
+            : ${JSON.stringify(`${request} failed: `)} + (error && error.message ? error.message : String(error));
+        } finally {
+          clearTimeout(timer);
+        }
+        if (!retryable) break;
+      }
+      const httpError = new Error(${JSON.stringify(`HTTP node "${nodeId}" failed: `)} + failure);
+      httpError.nodeId = ${JSON.stringify(nodeId)};
+      throw httpError;
+    })({ ...ctx, secrets: runtime.secrets || {} });`;
+  },
+
+  getImports: (config: HttpBlockConfig) => [],
+  getDependencies: (config: HttpBlockConfig) => [],
+  getPlugins: (config: HttpBlockConfig) => []
+};
@@ -0,0 +1,121 @@
+import { ServerBlockDefinition, SubBlockType, CodeGenerationContext } from '../types';
+import { DOCUMENT_STORE, EMBEDDER_OPTIONS, FAKE_EMBEDDER, getEmbedderPlugins, useDocumentStore, validateEmbedder } from '../utils/documentStore';
+
+interface IndexBlockConfig {
+  embedder: string;
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_CHUNK_OVERLAP = 100;
+const MAX_CHUNK_SIZE = 20000;
+
+export const IndexBlockDefinition: ServerBlockDefinition = {
+  type: 'index',
+  name: 'Index Documents',
+  description: 'Store documents in the flow document store',
+  longDescription: 'Splits the incoming documents into chunks, embeds them and adds them to this flow\'s document store so Retrieve blocks can find them, in this run and later ones. Accepts a string, an array of strings, or objects with `text` (or `content`) and optional `metadata`.',
+  category: 'data',
+  version: '1.0.0',
+
+  isAvailable: () => true,
+
+  subBlocks: [
+    {
+      id: 'embedder',
+      type: SubBlockType.SELECT,
+      label: 'Embedder',
+      required: true,
+      defaultValue: FAKE_EMBEDDER,
+      options: EMBEDDER_OPTIONS,
+      description: 'Retrieve blocks must use the same embedder to find these documents'
+    },
+    {
+      id: 'chunkSize',
+      type: SubBlockType.NUMBER,
+      label: 'Chunk Size',
+      defaultValue: DEFAULT_CHUNK_SIZE,
+      min: 0,
+      max: MAX_CHUNK_SIZE,
+      step: 100,
+      description: 'Maximum characters per chunk. 0 stores each document whole.'
+    },
+    {
+      id: 'chunkOverlap',
+      type: SubBlockType.NUMBER,
+      label: 'Chunk Overlap',
+      defaultValue: DEFAULT_CHUNK_OVERLAP,
+      min: 0,
+      step: 10,
+      description: 'Characters repeated between neighbouring chunks'
+    }
+  ],
+
+  validateConfig: (config: IndexBlockConfig) => {
+    const errors = [];
+
+    const embedderError = validateEmbedder(config.embedder);
+    if (embedderError) {
+      errors.push({
+        field: 'embedder',
+        message: embedderError,
+        severity: 'error' as const
+      });
+    }
+
+    const chunkSize = config.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (!Number.isInteger(chunkSize) || chunkSize < 0 || chunkSize > MAX_CHUNK_SIZE) {
+      errors.push({
+        field: 'chunkSize',
+        message: `Chunk size must be a whole number between 0 and ${MAX_CHUNK_SIZE}`,
+        severity: 'error' as const
+      });
+    }
+
+    const chunkOverlap = config.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP;
+    if (!Number.isInteger(chunkOverlap) || chunkOverlap < 0 || (chunkSize > 0 && chunkOverlap >= chunkSize)) {
+      errors.push({
+        field: 'chunkOverlap',
+        message: 'Chunk overlap must be a whole number smaller than the chunk size',
+        severity: 'error' as const
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  },
+
+  generateCode: (config: IndexBlockConfig, context: CodeGenerationContext, inputVar: string, outputVar: string) => {
+    const nodeId = context.currentBlockId || outputVar;
+    const chunkSize = config.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const chunkOverlap = config.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP;
+    useDocumentStore(config.embedder, context);
+
+    return `const ${outputVar} = await (async () => {
+      const sources = (Array.isArray(${inputVar}) ? ${inputVar} : [${inputVar}]).map((source) =>
+        typeof source === 'string' ? { text: source } : { text: source?.text ?? source?.content, metadata: source?.metadata }
+      );
+      if (sources.some((source) => typeof source.text !== 'string')) {
+        const indexError = new Error(${JSON.stringify(`Index node "${nodeId}" failed: documents must be strings or objects with a text field`)});
+        indexError.nodeId = ${JSON.stringify(nodeId)};
+        throw indexError;
+      }
+      const documents = sources.flatMap((source, sourceIndex) =>
+        chunkDocumentText(source.text, ${chunkSize}, ${chunkOverlap}).map((chunk, chunkIndex) =>
+          ({ content: [{ text: chunk }], metadata: { ...(source.metadata || {}), nodeId: ${JSON.stringify(nodeId)}, sourceIndex, chunkIndex } })
+        )
+      );
+      if (documents.length > 0) {
+        await ai.index({ indexer: ${JSON.stringify(DOCUMENT_STORE)}, documents, options: { embedder: ${JSON.stringify(config.embedder)} } });
+      }
+      return { documents: sources.length, chunks: documents.length };
+    })();`;
+  },
+
+  getImports: (config: IndexBlockConfig) => [],
+  getDependencies: (config: IndexBlockConfig) => [],
+  getPlugins: (config: IndexBlockConfig) => getEmbedderPlugins(config.embedder)
+};
@@ -0,0 +1,155 @@
+import { ServerBlockDefinition, SubBlockType, CodeGenerationContext } from '../types';
+import { toIdentifier } from '../utils/codegenNames';
+
+export interface InterruptBlockConfig {
+  interruptType?: 'manual-response' | 'restartable';
+  message: string;
+  responseSchema?: string;
+  timeout?: number;
+  allowedResponses?: string[];
+}
+
+const MIN_TIMEOUT_MS = 1000;
+const MAX_TIMEOUT_MS = 3600000;
+
+/**
+ * Name of the Genkit tool emitted for an interrupt block. The runtime maps
+ * interrupted tool requests back to their block through this name.
+ */
+export function getInterruptToolName(blockId: string): string {
+  return `interrupt_${toIdentifier(blockId)}`;
+}
+
+function parseResponseSchema(responseSchema?: string): Record<string, any> | null {
+  if (!responseSchema || !responseSchema.trim()) return null;
+  const parsed = JSON.parse(responseSchema);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Response schema must be a JSON object');
+  }
+  return parsed;
+}
+
+export const InterruptBlockDefinition: ServerBlockDefinition = {
+  type: 'interrupt',
+  name: 'Interrupt',
+  description: 'Pause for human input',
+  longDescription: 'Attach to an Agent as a tool. When the model calls it, the run pauses with status "interrupted" until a human response is submitted through the resume API or the timeout expires.',
+  category: 'control',
+  version: '1.0.0',
+
+  isAvailable: () => true,
+
+  subBlocks: [
+    {
+      id: 'interruptType',
+      type: SubBlockType.SELECT,
+      label: 'Interrupt Type',
+      required: true,
+      defaultValue: 'manual-response',
+      options: [
+        { value: 'manual-response', label: 'Manual Response', description: 'The human response is returned to the model as the tool output' },
+        { value: 'restartable', label: 'Restartable', description: 'The tool is re-run with the human response as resume metadata' }
+      ]
+    },
+    {
+      id: 'message',
+      type: SubBlockType.TEXT,
+      label: 'Interrupt Message',
+      placeholder: 'Please review the data and provide your response...',
+      multiline: true,
+      required: true,
+      description: 'Shown to the reviewer and used as the tool description for the model'
+    },
+    {
+      id: 'responseSchema',
+      type: SubBlockType.SCHEMA,
+      label: 'Response Schema',
+      language: 'json',
+      description: 'Optional JSON Schema the human response must satisfy'
+    },
+    {
+      id: 'timeout',
+      type: SubBlockType.NUMBER,
+      label: 'Timeout (ms)',
+      min: MIN_TIMEOUT_MS,
+      max: MAX_TIMEOUT_MS,
+      description: 'How long the run waits for a response before failing'
+    },
+    {
+      id: 'allowedResponses',
+      type: SubBlockType.JSON,
+      label: 'Allowed Responses',
+      description: 'Optional list of accepted string responses'
+    }
+  ],
+
+  validateConfig: (config: InterruptBlockConfig) => {
+    const errors = [];
+
+    if (!config.message || !config.message.trim()) {
+      errors.push({
+        field: 'message',
+        message: 'Interrupt message is required',
+        severity: 'error' as const
+      });
+    }
+
+    try {
+      parseResponseSchema(config.responseSchema);
+    } catch (error) {
+      errors.push({
+        field: 'responseSchema',
+        message: `Invalid response schema: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        severity: 'error' as const
+      });
+    }
+
+    if (config.timeout !== undefined && config.timeout !== null &&
+        (typeof config.timeout !== 'number' || config.timeout < MIN_TIMEOUT_MS || config.timeout > MAX_TIMEOUT_MS)) {
+      errors.push({
+        field: 'timeout',
+        message: `Timeout must be between ${MIN_TIMEOUT_MS} and ${MAX_TIMEOUT_MS} ms`,
+        severity: 'error' as const
+      });
+    }
+
+    if (config.allowedResponses !== undefined &&
+        (!Array.isArray(config.allowedResponses) || config.allowedResponses.some(r => typeof r !== 'string'))) {
+      errors.push({
+        field: 'allowedResponses',
+        message: 'Allowed responses must be a list of strings',
+        severity: 'error' as const
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  },
+
+  generateCode: (config: InterruptBlockConfig, context: CodeGenerationContext, inputVar: string, outputVar: string) => {
+    const blockId = context.currentBlockId || outputVar;
+    const responseSchema = parseResponseSchema(config.responseSchema);
+
+    // Tool interrupts are only available from the beta entry point
+    context.genkitEntry = 'genkit/beta';
+
+    // Runs cannot register actions, so the tool is dynamic rather than defined
+    return `const ${outputVar} = ai.dynamicTool({
+      name: '${getInterruptToolName(blockId)}',
+      description: ${JSON.stringify(config.message)},
+      inputSchema: z.object({ question: z.string().optional() }).passthrough(),
+      ${responseSchema ? `outputJsonSchema: ${JSON.stringify(responseSchema)}` : 'outputSchema: z.any()'}
+    }, async (request, { interrupt, resumed }) => {
+      if (resumed) {
+        return resumed;
+      }
+      interrupt({ blockId: ${JSON.stringify(blockId)}, message: ${JSON.stringify(config.message)} });
+    });`;
+  },
+
+  getImports: (config: InterruptBlockConfig) => ["import { genkit } from 'genkit/beta';"],
+  getDependencies: (config: InterruptBlockConfig) => ['genkit'],
+  getPlugins: (config: InterruptBlockConfig) => []
+};
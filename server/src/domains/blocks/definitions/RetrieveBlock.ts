@@ -0,0 +1,110 @@
+import { ServerBlockDefinition, SubBlockType, CodeGenerationContext } from '../types';
+import { generateContextualTemplateCode } from '../utils/templateUtils';
+import { DOCUMENT_STORE, EMBEDDER_OPTIONS, FAKE_EMBEDDER, getEmbedderPlugins, useDocumentStore, validateEmbedder } from '../utils/documentStore';
+
+interface RetrieveBlockConfig {
+  embedder: string;
+  query?: string;
+  topK?: number;
+}
+
+const DEFAULT_TOP_K = 3;
+const MAX_TOP_K = 50;
+
+export const RetrieveBlockDefinition: ServerBlockDefinition = {
+  type: 'retrieve',
+  name: 'Retrieve Documents',
+  description: 'Find the most relevant stored documents',
+  longDescription: 'Embeds the query and returns the top-k most similar chunks from this flow\'s document store as `{ text, metadata, score }` objects, best match first. Only documents indexed with the same embedder are searched, newest first up to the size a run can carry.',
+  category: 'data',
+  version: '1.0.0',
+
+  isAvailable: () => true,
+
+  subBlocks: [
+    {
+      id: 'embedder',
+      type: SubBlockType.SELECT,
+      label: 'Embedder',
+      required: true,
+      defaultValue: FAKE_EMBEDDER,
+      options: EMBEDDER_OPTIONS,
+      description: 'Must match the embedder the documents were indexed with'
+    },
+    {
+      id: 'query',
+      type: SubBlockType.TEXT,
+      label: 'Query',
+      placeholder: '{{input.question}}',
+      description: 'Optional query template. Leave empty to search with the incoming value.'
+    },
+    {
+      id: 'topK',
+      type: SubBlockType.NUMBER,
+      label: 'Top K',
+      defaultValue: DEFAULT_TOP_K,
+      min: 1,
+      max: MAX_TOP_K,
+      step: 1,
+      description: 'Number of documents to return'
+    }
+  ],
+
+  validateConfig: (config: RetrieveBlockConfig) => {
+    const errors = [];
+
+    const embedderError = validateEmbedder(config.embedder);
+    if (embedderError) {
+      errors.push({
+        field: 'embedder',
+        message: embedderError,
+        severity: 'error' as const
+      });
+    }
+
+    if (config.query !== undefined && typeof config.query !== 'string') {
+      errors.push({
+        field: 'query',
+        message: 'Query must be a string template',
+        severity: 'error' as const
+      });
+    }
+
+    if (config.topK !== undefined && (!Number.isInteger(config.topK) || config.topK < 1 || config.topK > MAX_TOP_K)) {
+      errors.push({
+        field: 'topK',
+        message: `Top K must be a whole number between 1 and ${MAX_TOP_K}`,
+        severity: 'error' as const
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  },
+
+  generateCode: (config: RetrieveBlockConfig, context: CodeGenerationContext, inputVar: string, outputVar: string) => {
+    useDocumentStore(config.embedder, context);
+    const query = config.query
+      ? generateContextualTemplateCode(config.query, [inputVar], expression => `toText(${expression})`)
+      : `toText(${inputVar})`;
+
+    return `const ${outputVar} = await (async () => {
+      const toText = (value) => value == null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      const documents = await ai.retrieve({
+        retriever: ${JSON.stringify(DOCUMENT_STORE)},
+        query: ${query},
+        options: { embedder: ${JSON.stringify(config.embedder)}, k: ${config.topK || DEFAULT_TOP_K} },
+      });
+      return documents.map((document) => {
+        const { score, ...metadata } = document.metadata || {};
+        return { text: document.text, metadata, score };
+      });
+    })();`;
+  },
+
+  getImports: (config: RetrieveBlockConfig) => [],
+  getDependencies: (config: RetrieveBlockConfig) => [],
+  getPlugins: (config: RetrieveBlockConfig) => getEmbedderPlugins(config.embedder)
+};
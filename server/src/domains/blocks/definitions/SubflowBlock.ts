@@ -0,0 +1,155 @@
+import { ServerBlockDefinition, SubBlockType, CodeGenerationContext } from '../types';
+import { getSubflowVariable } from '../utils/codegenNames';
+
+export interface SubflowBlockConfig {
+  flowId?: string;
+  flowAlias?: string;
+  version?: string;
+  inputMapping?: Record<string, string> | string;
+}
+
+const PATH_PATTERN = /^[A-Za-z0-9_$]+(\.[A-Za-z0-9_$]+)*$/;
+
+/**
+ * Parse the optional child input mapping: child input key -> dot path on the incoming data
+ */
+export function parseInputMapping(inputMapping?: Record<string, string> | string): Record<string, string> | null {
+  if (inputMapping === undefined || inputMapping === null || inputMapping === '') return null;
+  const parsed = typeof inputMapping === 'string' ? JSON.parse(inputMapping) : inputMapping;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Input mapping must be a JSON object');
+  }
+  for (const [key, path] of Object.entries(parsed)) {
+    if (typeof path !== 'string' || !PATH_PATTERN.test(path)) {
+      throw new Error(`Input mapping for "${key}" must be a dot-separated property path`);
+    }
+  }
+  return Object.keys(parsed).length > 0 ? parsed as Record<string, string> : null;
+}
+
+function buildInputExpression(mapping: Record<string, string> | null, inputVar: string): string {
+  if (!mapping) return inputVar;
+  const entries = Object.entries(mapping).map(([key, path]) =>
+    `${JSON.stringify(key)}: ${JSON.stringify(path.split('.'))}.reduce((value, part) => (value == null ? undefined : value[part]), ${inputVar})`
+  );
+  return `{ ${entries.join(', ')} }`;
+}
+
+export const SubflowBlockDefinition: ServerBlockDefinition = {
+  type: 'subflow',
+  name: 'Subflow',
+  description: 'Run another flow as a step',
+  longDescription: 'Calls another flow from the same organization as a nested Genkit flow. Pin a version to keep the step stable while the child flow evolves; without a pin the latest saved definition runs. The child output becomes this step\'s output.',
+  category: 'control',
+  version: '1.0.0',
+
+  isAvailable: () => true,
+
+  subBlocks: [
+    {
+      id: 'flowId',
+      type: SubBlockType.FLOW_SELECTOR,
+      label: 'Flow',
+      required: true,
+      description: 'Flow to call. Only flows in the same organization can be selected.'
+    },
+    {
+      id: 'version',
+      type: SubBlockType.TEXT,
+      label: 'Version',
+      placeholder: 'latest',
+      description: 'Optional version to pin, e.g. 1.2.0'
+    },
+    {
+      id: 'inputMapping',
+      type: SubBlockType.JSON,
+      label: 'Input Mapping',
+      description: 'Optional JSON object mapping child input keys to dot paths on the incoming data. Leave empty to pass the data through.'
+    }
+  ],
+
+  validateConfig: (config: SubflowBlockConfig) => {
+    const errors = [];
+
+    if (!config.flowId && !(config.flowAlias && config.flowAlias.trim())) {
+      errors.push({
+        field: 'flowId',
+        message: 'A flow to call is required',
+        severity: 'error' as const
+      });
+    }
+
+    if (config.version !== undefined && config.version !== null && typeof config.version !== 'string') {
+      errors.push({
+        field: 'version',
+        message: 'Version must be a string',
+        severity: 'error' as const
+      });
+    }
+
+    try {
+      parseInputMapping(config.inputMapping);
+    } catch (error) {
+      errors.push({
+        field: 'inputMapping',
+        message: `Invalid input mapping: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        severity: 'error' as const
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  },
+
+  generateCode: (config: SubflowBlockConfig, context: CodeGenerationContext, inputVar: string, outputVar: string) => {
+    const nodeId = context.currentBlockId || outputVar;
+    const subflow = context.subflows?.[nodeId];
+    const label = subflow?.alias || config.flowAlias || config.flowId || 'unknown';
+
+    // Child flows are resolved when the flow runs; previews only show the call site
+    if (!subflow) {
+      return `const ${outputVar} = await (async () => {
+      const unresolvedError = new Error(${JSON.stringify(`Subflow node "${nodeId}" could not resolve flow "${label}"`)});
+      unresolvedError.nodeId = ${JSON.stringify(nodeId)};
+      throw unresolvedError;
+    })();`;
+    }
+
+    const summary = `nodeId: ${JSON.stringify(nodeId)}, flowId: ${JSON.stringify(subflow.flowId)}, alias: ${JSON.stringify(subflow.alias)}, version: ${JSON.stringify(subflow.version)}`;
+
+    // The child shares the execution record so its trace can be linked to this run,
+    // except for its node traces, which belong to the child's own trace. It indexes
+    // into and retrieves from its own document store, and shares the caller's
+    // stream so its tokens reach the client
+    return `const ${outputVar} = await (async () => {
+      const subflowInput = ${buildInputExpression(parseInputMapping(config.inputMapping), inputVar)};
+      const subflowStart = Date.now();
+      const subflowRecord = runtime.record && runtime.record.subflows;
+      const childRecord = runtime.record && { ...runtime.record, nodes: [] };
+      try {
+        const subflowOutput = await ${getSubflowVariable(subflow.flowId, subflow.version)}(subflowInput, {
+          context: { flowshapr: { record: childRecord, secrets: runtime.secrets, flowId: ${JSON.stringify(subflow.flowId)}, documents: runtime.documents, mockFixtures: runtime.mockFixtures, modelCalls: runtime.modelCalls } },
+          onChunk: sendChunk
+        });
+        if (subflowRecord) {
+          subflowRecord.push({ ${summary}, input: subflowInput, output: subflowOutput, duration: Date.now() - subflowStart, status: 'completed', nodes: childRecord.nodes });
+        }
+        return subflowOutput;
+      } catch (error) {
+        const message = error && error.message ? error.message : String(error);
+        if (subflowRecord) {
+          subflowRecord.push({ ${summary}, input: subflowInput, output: null, duration: Date.now() - subflowStart, status: 'failed', errorMessage: message, nodes: childRecord.nodes });
+        }
+        const subflowError = new Error(${JSON.stringify(`Subflow node "${nodeId}" (${subflow.alias}) failed: `)} + message);
+        subflowError.nodeId = ${JSON.stringify(nodeId)};
+        throw subflowError;
+      }
+    })();`;
+  },
+
+  getImports: (config: SubflowBlockConfig) => [],
+  getDependencies: (config: SubflowBlockConfig) => [],
+  getPlugins: (config: SubflowBlockConfig) => []
+};
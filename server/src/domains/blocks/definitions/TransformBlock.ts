@@ -0,0 +1,140 @@
+import { ServerBlockDefinition, SubBlockType, CodeGenerationContext } from '../types';
+import { containsUnsafeCode } from '../utils/codeSafety';
+
+interface TransformBlockConfig {
+  code: string;
+  language?: 'javascript';
+  timeout?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 1000;
+const MAX_TIMEOUT_MS = 30000;
+
+export const TransformBlockDefinition: ServerBlockDefinition = {
+  type: 'transform',
+  name: 'Transform',
+  description: 'Transform data with JavaScript',
+  longDescription: 'Reshape, filter or enrich data between blocks with a JavaScript function body. The code receives the incoming value as `data` and previous step outputs as `ctx`, runs in a separate JavaScript context without access to Node.js APIs and returns the new value.',
+  category: 'data',
+  version: '1.0.0',
+
+  isAvailable: () => true,
+
+  subBlocks: [
+    {
+      id: 'language',
+      type: SubBlockType.SELECT,
+      label: 'Language',
+      required: true,
+      defaultValue: 'javascript',
+      options: [
+        { value: 'javascript', label: 'JavaScript', description: 'Synchronous JavaScript function body' }
+      ]
+    },
+    {
+      id: 'code',
+      type: SubBlockType.CODE,
+      label: 'Code',
+      placeholder: '// Transform the data\nreturn data;',
+      multiline: true,
+      language: 'javascript',
+      required: true,
+      description: 'Function body with access to `data` (incoming value; with several incoming edges, an object keyed by the ids of the nodes they come from) and `ctx` (previous step outputs)'
+    },
+    {
+      id: 'timeout',
+      type: SubBlockType.NUMBER,
+      label: 'Timeout (ms)',
+      defaultValue: DEFAULT_TIMEOUT_MS,
+      min: 10,
+      max: MAX_TIMEOUT_MS,
+      step: 10,
+      description: 'Maximum time the transform may run'
+    }
+  ],
+
+  validateConfig: (config: TransformBlockConfig) => {
+    const errors = [];
+
+    if (!config.code || !config.code.trim()) {
+      errors.push({
+        field: 'code',
+        message: 'Transform code is required',
+        severity: 'error' as const
+      });
+    }
+
+    if (config.language && config.language !== 'javascript') {
+      errors.push({
+        field: 'language',
+        message: `Unsupported transform language: ${config.language}`,
+        severity: 'error' as const
+      });
+    }
+
+    if (config.code && containsUnsafeCode(config.code)) {
+      errors.push({
+        field: 'code',
+        message: 'Transform contains potentially unsafe code',
+        severity: 'error' as const
+      });
+    }
+
+    if (config.timeout !== undefined && (typeof config.timeout !== 'number' || config.timeout <= 0 || config.timeout > MAX_TIMEOUT_MS)) {
+      errors.push({
+        field: 'timeout',
+        message: `Timeout must be between 1 and ${MAX_TIMEOUT_MS} ms`,
+        severity: 'error' as const
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  },
+
+  generateCode: (config: TransformBlockConfig, context: CodeGenerationContext, inputVar: string, outputVar: string) => {
+    const nodeId = context.currentBlockId || outputVar;
+    const timeout = config.timeout || DEFAULT_TIMEOUT_MS;
+
+    context.imports.add("import vm from 'node:vm';");
+
+    // Only JSON strings cross between the flow and the transform context. The context has a
+    // null-prototype global, so nothing in it leads back to host-realm constructors, and the
+    // result and any error message are serialized inside it, under the timeout
+    const script = `((stringify, parse) => {
+  try {
+    const result = (function (data, ctx) {\n${config.code}\n})(parse(__data), parse(__ctx));
+    return stringify({ ok: true, value: result });
+  } catch (error) {
+    return stringify({ ok: false, message: error && error.message ? String(error.message) : String(error) });
+  }
+})(JSON.stringify, JSON.parse)`;
+
+    return `const ${outputVar} = (() => {
+      try {
+        const transformContext = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+        transformContext.__data = JSON.stringify(${inputVar} ?? null);
+        transformContext.__ctx = JSON.stringify(ctx);
+        const transformOutput = JSON.parse(vm.runInContext(
+          ${JSON.stringify(script)},
+          transformContext,
+          { timeout: ${timeout}, filename: ${JSON.stringify(`transform-${nodeId}.js`)} }
+        ));
+        if (!transformOutput.ok) {
+          throw new Error(transformOutput.message);
+        }
+        return transformOutput.value;
+      } catch (error) {
+        const transformError = new Error(${JSON.stringify(`Transform node "${nodeId}" failed: `)} + (error && error.message ? error.message : String(error)));
+        transformError.nodeId = ${JSON.stringify(nodeId)};
+        throw transformError;
+      }
+    })();`;
+  },
+
+  getImports: (config: TransformBlockConfig) => ["import vm from 'node:vm';"],
+  getDependencies: (config: TransformBlockConfig) => [],
+  getPlugins: (config: TransformBlockConfig) => []
+};
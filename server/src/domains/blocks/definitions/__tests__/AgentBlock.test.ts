@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals';
+import { AgentBlockDefinition } from '../AgentBlock';
+import { CodeGenerationContext } from '../../types';
+
+function createContext(): CodeGenerationContext {
+  return {
+    imports: new Set(),
+    dependencies: new Set(),
+    plugins: new Set(),
+    variables: [],
+    currentBlockId: 'agent-1',
+  };
+}
+
+const mockConfig = (config: Record<string, any> = {}) => ({
+  provider: 'mock',
+  model: 'scripted',
+  promptType: 'static',
+  userPrompt: '{{input}}',
+  ...config,
+});
+
+describe('AgentBlockDefinition', () => {
+  describe('mock provider', () => {
+    it('should accept scripted rules and a fixture', () => {
+      const result = AgentBlockDefinition.validateConfig(mockConfig({
+        mockResponses: '[{"match": "weather", "text": "Sunny"}, {"toolRequest": {"name": "lookup", "input": {}}}]',
+        mockFixture: 'weather-replies',
+      }));
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject rules that are not a list of valid rules', () => {
+      const errorFor = (mockResponses: string) => AgentBlockDefinition.validateConfig(mockConfig({ mockResponses })).errors[0];
+
+      expect(errorFor('{oops')).toMatchObject({ field: 'mockResponses', message: 'Mock responses must be valid JSON' });
+      expect(errorFor('{"text": "hi"}')).toMatchObject({ message: 'Mock responses must be an array of rules' });
+      expect(errorFor('[{"match": "("}]')).toMatchObject({ message: 'Mock response 1 has an invalid match pattern' });
+      expect(errorFor('[{"text": "hi", "output": {}}]')).toMatchObject({
+        message: 'Mock response 1 must set only one of text, output or toolRequest',
+      });
+    });
+
+    it('should reject fixture names that could leave the fixtures directory', () => {
+      const result = AgentBlockDefinition.validateConfig(mockConfig({ mockFixture: '../secrets' }));
+
+      expect(result.errors).toEqual([expect.objectContaining({ field: 'mockFixture' })]);
+    });
+
+    it('should call the scripted model through the mock plugin', () => {
+      const context = createContext();
+
+      const code = AgentBlockDefinition.generateCode(
+        mockConfig({ mockResponses: '[{"text": "Hi"}]', mockFixture: 'greetings' }),
+        context,
+        'step1',
+        'step2'
+      );
+
+      expect(Array.from(context.plugins)).toEqual(['mockModels()']);
+      expect(code).toContain("model: 'mock/scripted'");
+      expect(code).toContain('responses: [{"text":"Hi"}].concat((runtime.mockFixtures || {})["greetings"] || [])');
+      expect(AgentBlockDefinition.getImports(mockConfig())).toEqual(["import { genkitPlugin } from 'genkit/plugin';"]);
+    });
+  });
+});
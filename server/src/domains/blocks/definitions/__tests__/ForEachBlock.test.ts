@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+import { ForEachBlockDefinition } from '../ForEachBlock';
+import { CodeGenerationContext } from '../../types';
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+function createContext(blockId = 'loop-1'): CodeGenerationContext {
+  return {
+    imports: new Set(),
+    dependencies: new Set(),
+    plugins: new Set(),
+    variables: [],
+    currentBlockId: blockId,
+  };
+}
+
+// Evaluate the generated snippet with a stand-in for the per-item sub-flow
+async function runForEach(config: Record<string, any>, input: any, body: (item: any, index: number) => Promise<any>) {
+  const snippet = ForEachBlockDefinition.generateCode(config, createContext(), 'input', 'step2');
+  const run = new AsyncFunction('input', 'ctx', 'step2Body', `${snippet}\nreturn step2;`);
+  return run(input, { input }, body);
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('ForEachBlockDefinition', () => {
+  describe('validateConfig', () => {
+    it('should accept a path, concurrency and error policy', () => {
+      const result = ForEachBlockDefinition.validateConfig({ itemsPath: 'search.hits', concurrency: 3, errorPolicy: 'skip' });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject invalid settings', () => {
+      const result = ForEachBlockDefinition.validateConfig({ itemsPath: 'a..b', concurrency: 0, errorPolicy: 'retry' });
+
+      expect(result.errors.map(e => e.field)).toEqual(['itemsPath', 'concurrency', 'errorPolicy']);
+    });
+  });
+
+  describe('generateCode', () => {
+    it('should map every item at the items path in order', async () => {
+      const result = await runForEach({ itemsPath: 'docs' }, { docs: [1, 2, 3] }, async (item, index) => {
+        await delay(5 * (3 - index));
+        return item * 10;
+      });
+
+      expect(result).toEqual([10, 20, 30]);
+    });
+
+    it('should keep at most the configured number of items in flight', async () => {
+      let inFlight = 0;
+      let peak = 0;
+
+      await runForEach({ concurrency: 2 }, [1, 2, 3, 4, 5], async item => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await delay(5);
+        inFlight--;
+        return item;
+      });
+
+      expect(peak).toBe(2);
+    });
+
+    it('should fail fast with the failing item index', async () => {
+      const body = async (item: number) => {
+        if (item === 2) throw new Error('bad item');
+        return item;
+      };
+
+      await expect(runForEach({ concurrency: 1 }, [1, 2, 3], body))
+        .rejects.toThrow('ForEach node "loop-1" failed on item 1: bad item');
+    });
+
+    it('should skip failing items', async () => {
+      const result = await runForEach({ errorPolicy: 'skip' }, [1, 2, 3], async item => {
+        if (item === 2) throw new Error('bad item');
+        return item;
+      });
+
+      expect(result).toEqual([1, 3]);
+    });
+
+    it('should collect errors next to the results', async () => {
+      const result = await runForEach({ errorPolicy: 'collect' }, [1, 2, 3], async item => {
+        if (item === 2) throw new Error('bad item');
+        return item;
+      });
+
+      expect(result).toEqual({ results: [1, 3], errors: [{ index: 1, error: 'bad item' }] });
+    });
+
+    it('should reject input that is not an array', async () => {
+      await expect(runForEach({ itemsPath: 'docs' }, { docs: 'nope' }, async item => item))
+        .rejects.toThrow('ForEach node "loop-1" expected an array at "docs"');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HttpBlockDefinition } from '../HttpBlock';
+import { CodeGenerationContext } from '../../types';
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+type StubRequest = { method?: string; url?: string; headers: http.IncomingHttpHeaders; body: string };
+type StubReply = (request: StubRequest, res: http.ServerResponse) => void;
+
+// Local stub server: each test queues the replies the next requests receive
+let server: http.Server;
+let baseUrl: string;
+let requests: StubRequest[];
+let replies: StubReply[];
+
+function createContext(): CodeGenerationContext {
+  return {
+    imports: new Set(),
+    dependencies: new Set(),
+    plugins: new Set(),
+    variables: [],
+    currentBlockId: 'http-1',
+  };
+}
+
+// Evaluate the generated snippet the way it runs inside the generated flow body
+async function runRequest(config: any, input: any, runtime: any = {}, ctx: Record<string, any> = {}) {
+  const snippet = HttpBlockDefinition.generateCode(config, createContext(), 'step1', 'step2');
+  const run = new AsyncFunction('runtime', 'step1', 'ctx', `${snippet}\nreturn step2;`);
+  return run(runtime, input, { input, step1: input, ...ctx });
+}
+
+const json = (status: number, payload: any): StubReply => (_request, res) => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+describe('HttpBlockDefinition', () => {
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const request = { method: req.method, url: req.url, headers: req.headers, body };
+        requests.push(request);
+        const reply = replies.shift() || json(200, {});
+        reply(request, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    replies = [];
+  });
+
+  describe('validateConfig', () => {
+    it('should accept a templated request', () => {
+      const result = HttpBlockDefinition.validateConfig({
+        method: 'POST',
+        url: 'https://api.example.com/orders/{{input.id}}',
+        headers: '{"Authorization": "Bearer {{secrets.orders}}"}',
+        retries: 2,
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should require an http(s) URL unless it starts with a variable', () => {
+      expect(HttpBlockDefinition.validateConfig({ url: 'ftp://files' }).errors[0]).toMatchObject({
+        field: 'url',
+        message: 'URL must start with http:// or https://',
+      });
+      expect(HttpBlockDefinition.validateConfig({ url: '{{baseUrl}}/orders' }).isValid).toBe(true);
+    });
+
+    it('should reject non-string header values and out-of-range retries', () => {
+      const result = HttpBlockDefinition.validateConfig({ url: 'https://x.test', headers: { 'X-Count': 3 }, retries: 9 });
+
+      expect(result.errors.map(e => e.field)).toEqual(['headers', 'retries']);
+    });
+  });
+
+  describe('generateCode', () => {
+    it('should fill URL and header templates and parse JSON responses', async () => {
+      replies.push(json(200, { ok: true }));
+
+      const result = await runRequest(
+        { url: `${baseUrl}/search?q={{input.query}}`, headers: { 'X-Trace': '{{step1.trace}}' } },
+        { query: 'a&b c', trace: 't-1' }
+      );
+
+      expect(result).toEqual({ ok: true });
+      expect(requests[0]).toMatchObject({ method: 'GET', url: '/search?q=a%26b%20c' });
+      expect(requests[0].headers['x-trace']).toBe('t-1');
+    });
+
+    it('should send templated bodies with connection secrets', async () => {
+      const result = await runRequest(
+        {
+          method: 'POST',
+          url: `${baseUrl}/orders`,
+          headers: { Authorization: 'Bearer {{secrets.orders-api}}' },
+          body: '{"order": {{input}}, "note": "{{step0}}"}',
+          responseType: 'text',
+        },
+        { id: 7 },
+        { secrets: { 'orders-api': 'sk-test' } },
+        { step0: 'rush' }
+      );
+
+      expect(result).toBe('{}');
+      expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+      expect(requests[0].headers['content-type']).toBe('application/json');
+      expect(JSON.parse(requests[0].body)).toEqual({ order: { id: 7 }, note: 'rush' });
+    });
+
+    it('should retry server errors with backoff', async () => {
+      replies.push(json(503, { error: 'busy' }), json(200, { attempt: 2 }));
+
+      const result = await runRequest({ url: `${baseUrl}/flaky`, retries: 2, retryDelay: 5 }, {});
+
+      expect(result).toEqual({ attempt: 2 });
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should not retry client errors and attribute the failure to the node', async () => {
+      replies.push(json(404, { error: 'missing' }), json(200, {}));
+
+      const error: any = await runRequest({ url: `${baseUrl}/orders/{{input.id}}`, retries: 3, retryDelay: 5 }, { id: 1 }).catch(e => e);
+
+      expect(error.message).toBe(`HTTP node "http-1" failed: GET ${baseUrl}/orders/{{input.id}} returned 404: {"error":"missing"}`);
+      expect(error.nodeId).toBe('http-1');
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should abort attempts that exceed the timeout', async () => {
+      replies.push((_request, res) => setTimeout(() => res.end('{}'), 500));
+
+      const error: any = await runRequest({ url: `${baseUrl}/slow`, timeout: 50 }, {}).catch(e => e);
+
+      expect(error.message).toBe(`HTTP node "http-1" failed: GET ${baseUrl}/slow timed out after 50 ms`);
+    });
+
+    it('should report JSON parse failures without retrying', async () => {
+      replies.push((_request, res) => res.end('<html>'));
+
+      const error: any = await runRequest({ url: `${baseUrl}/html`, retries: 2, retryDelay: 5 }, {}).catch(e => e);
+
+      expect(error.message).toBe(`HTTP node "http-1" failed: response from GET ${baseUrl}/html is not valid JSON`);
+      expect(requests).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { IndexBlockDefinition } from '../IndexBlock';
+import { CodeGenerationContext } from '../../types';
+
+function createContext(): CodeGenerationContext {
+  return {
+    imports: new Set(),
+    dependencies: new Set(),
+    plugins: new Set(),
+    variables: [],
+    currentBlockId: 'index-1',
+  };
+}
+
+describe('IndexBlockDefinition', () => {
+  describe('validateConfig', () => {
+    it('should accept chunking options within range', () => {
+      const result = IndexBlockDefinition.validateConfig({ embedder: 'flowshapr/fake-embedder', chunkSize: 500, chunkOverlap: 50 });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should require a supported embedder', () => {
+      expect(IndexBlockDefinition.validateConfig({}).errors[0]).toMatchObject({ field: 'embedder', message: 'Embedder is required' });
+      expect(IndexBlockDefinition.validateConfig({ embedder: 'acme/vectors' }).errors[0]).toMatchObject({
+        field: 'embedder',
+        message: 'Unsupported embedder: acme/vectors',
+      });
+    });
+
+    it('should reject overlaps that are not smaller than the chunk size', () => {
+      const result = IndexBlockDefinition.validateConfig({ embedder: 'flowshapr/fake-embedder', chunkSize: 100, chunkOverlap: 100 });
+
+      expect(result.errors.map(e => e.field)).toEqual(['chunkOverlap']);
+    });
+  });
+
+  describe('generateCode', () => {
+    it('should register the document store and fake embedder once', () => {
+      const context = createContext();
+
+      IndexBlockDefinition.generateCode({ embedder: 'flowshapr/fake-embedder' }, context, 'step1', 'step2');
+      IndexBlockDefinition.generateCode({ embedder: 'flowshapr/fake-embedder' }, context, 'step2', 'step3');
+
+      expect(Array.from(context.definitions!.keys())).toEqual(['fakeEmbedder', 'documentStore']);
+      expect(context.plugins.size).toBe(0);
+    });
+
+    it('should add the provider plugin for hosted embedders', () => {
+      const context = createContext();
+
+      IndexBlockDefinition.generateCode({ embedder: 'openai/text-embedding-3-small' }, context, 'step1', 'step2');
+
+      expect(Array.from(context.plugins)).toEqual(['openAI()']);
+      expect(context.definitions!.has('fakeEmbedder')).toBe(false);
+    });
+
+    it('should attribute invalid documents to the node', async () => {
+      const snippet = IndexBlockDefinition.generateCode({ embedder: 'flowshapr/fake-embedder' }, createContext(), 'step1', 'step2');
+      const run = new Function('step1', `return (async () => {\n${snippet}\nreturn step2;\n})();`);
+
+      const error: any = await run([{ title: 'no text' }]).catch((e: any) => e);
+
+      expect(error.message).toBe('Index node "index-1" failed: documents must be strings or objects with a text field');
+      expect(error.nodeId).toBe('index-1');
+    });
+  });
+});
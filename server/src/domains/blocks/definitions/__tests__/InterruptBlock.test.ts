@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { InterruptBlockDefinition, getInterruptToolName } from '../InterruptBlock';
+import { CodeGenerationContext } from '../../types';
+
+function createContext(blockId = 'approval-1'): CodeGenerationContext {
+  return {
+    imports: new Set(),
+    dependencies: new Set(),
+    plugins: new Set(),
+    variables: [],
+    currentBlockId: blockId,
+  };
+}
+
+describe('InterruptBlockDefinition', () => {
+  describe('validateConfig', () => {
+    it('should accept a complete configuration', () => {
+      const result = InterruptBlockDefinition.validateConfig({
+        message: 'Approve?',
+        responseSchema: '{"type":"string"}',
+        timeout: 60000,
+        allowedResponses: ['yes', 'no'],
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should require a message', () => {
+      const result = InterruptBlockDefinition.validateConfig({ message: '' });
+
+      expect(result.errors[0]).toMatchObject({ field: 'message', message: 'Interrupt message is required' });
+    });
+
+    it('should reject malformed response schemas and timeouts', () => {
+      const result = InterruptBlockDefinition.validateConfig({ message: 'Approve?', responseSchema: '{nope', timeout: 10 });
+
+      expect(result.errors.map(e => e.field)).toEqual(['responseSchema', 'timeout']);
+    });
+  });
+
+  describe('generateCode', () => {
+    it('should define an interrupting tool named after the block', () => {
+      const context = createContext();
+      const code = InterruptBlockDefinition.generateCode({ message: 'Approve?' }, context, 'input', 'attachment_approval_1');
+
+      expect(getInterruptToolName('approval-1')).toBe('interrupt_approval_1');
+      expect(code).toContain("name: 'interrupt_approval_1'");
+      expect(code).toContain('interrupt({ blockId: "approval-1"');
+      expect(context.genkitEntry).toBe('genkit/beta');
+    });
+  });
+});
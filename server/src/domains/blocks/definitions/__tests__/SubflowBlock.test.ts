@@ -0,0 +1,96 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { SubflowBlockDefinition } from '../SubflowBlock';
+import { CodeGenerationContext, ResolvedSubflow } from '../../types';
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+const resolvedChild: ResolvedSubflow = {
+  flowId: 'flow-2',
+  alias: 'summarize',
+  version: '1.2.0',
+  blocks: [],
+  edges: [],
+  subflows: {},
+  prompts: {},
+};
+
+function createContext(subflows: Record<string, ResolvedSubflow> = { 'subflow-1': resolvedChild }): CodeGenerationContext {
+  return {
+    imports: new Set(),
+    dependencies: new Set(),
+    plugins: new Set(),
+    variables: [],
+    currentBlockId: 'subflow-1',
+    subflows,
+  };
+}
+
+const sendChunk = () => {};
+
+// Evaluate the generated snippet with a stand-in for the nested child flow
+async function runSubflow(config: any, input: any, child: (input: any, options: any) => Promise<any>, runtime: any = {}) {
+  const snippet = SubflowBlockDefinition.generateCode(config, createContext(), 'input', 'step2');
+  const run = new AsyncFunction('subflow_flow_2_v1_2_0', 'runtime', 'sendChunk', 'input', `${snippet}\nreturn step2;`);
+  return run(child, runtime, sendChunk, input);
+}
+
+describe('SubflowBlockDefinition', () => {
+  describe('validateConfig', () => {
+    it('should accept a selected flow with an input mapping', () => {
+      const result = SubflowBlockDefinition.validateConfig({ flowId: 'flow-2', version: '1.2.0', inputMapping: '{"text": "message.body"}' });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should require a flow', () => {
+      const result = SubflowBlockDefinition.validateConfig({});
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toMatchObject({ field: 'flowId', message: 'A flow to call is required' });
+    });
+
+    it('should reject mappings that are not property paths', () => {
+      const result = SubflowBlockDefinition.validateConfig({ flowId: 'flow-2', inputMapping: { text: 'message.body()' } });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toMatchObject({
+        field: 'inputMapping',
+        message: 'Invalid input mapping: Input mapping for "text" must be a dot-separated property path',
+      });
+    });
+  });
+
+  describe('generateCode', () => {
+    it('should pass the incoming data through without a mapping', async () => {
+      const child = jest.fn(async (childInput: any) => ({ summary: childInput.text }));
+
+      await expect(runSubflow({ flowId: 'flow-2' }, { text: 'hi' }, child)).resolves.toEqual({ summary: 'hi' });
+      expect(child).toHaveBeenCalledWith({ text: 'hi' }, { context: { flowshapr: { record: undefined, flowId: 'flow-2' } }, onChunk: sendChunk });
+    });
+
+    it('should map child inputs from the incoming data', async () => {
+      const child = jest.fn(async (childInput: any) => childInput);
+
+      await expect(runSubflow({ flowId: 'flow-2', inputMapping: { text: 'message.body' } }, { message: { body: 'hello' } }, child))
+        .resolves.toEqual({ text: 'hello' });
+    });
+
+    it('should record failed calls and attribute the error to the node', async () => {
+      const runtime = { record: { subflows: [] as any[] } };
+      const error: any = await runSubflow({ flowId: 'flow-2' }, {}, async () => { throw new Error('model offline'); }, runtime).catch(e => e);
+
+      expect(error.message).toBe('Subflow node "subflow-1" (summarize) failed: model offline');
+      expect(error.nodeId).toBe('subflow-1');
+      expect(runtime.record.subflows).toEqual([expect.objectContaining({
+        nodeId: 'subflow-1', flowId: 'flow-2', version: '1.2.0', status: 'failed', errorMessage: 'model offline',
+      })]);
+    });
+
+    it('should fail at run time when the child flow was not resolved', async () => {
+      const snippet = SubflowBlockDefinition.generateCode({ flowId: 'flow-2' }, createContext({}), 'input', 'step2');
+      const run = new AsyncFunction('input', `${snippet}\nreturn step2;`);
+
+      await expect(run({})).rejects.toThrow('Subflow node "subflow-1" could not resolve flow "flow-2"');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from '@jest/globals';
+import * as vm from 'vm';
+import { TransformBlockDefinition } from '../TransformBlock';
+import { CodeGenerationContext } from '../../types';
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+function createContext(blockId = 'transform-1'): CodeGenerationContext {
+  return {
+    imports: new Set(),
+    dependencies: new Set(),
+    plugins: new Set(),
+    variables: [],
+    currentBlockId: blockId,
+  };
+}
+
+// Evaluate the generated snippet the way it runs inside the generated flow body
+async function runTransform(code: string, input: any, ctx: Record<string, any> = {}) {
+  const context = createContext();
+  const snippet = TransformBlockDefinition.generateCode({ code }, context, 'input', 'step2');
+  const run = new AsyncFunction('vm', 'input', 'ctx', `${snippet}\nreturn step2;`);
+  return run(vm, input, { input, ...ctx });
+}
+
+describe('TransformBlockDefinition', () => {
+  describe('validateConfig', () => {
+    it('should accept a JavaScript function body', () => {
+      const result = TransformBlockDefinition.validateConfig({ code: 'return data;', language: 'javascript' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should require code', () => {
+      const result = TransformBlockDefinition.validateConfig({ code: '  ' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toMatchObject({ field: 'code', message: 'Transform code is required' });
+    });
+
+    it('should reject unsafe code the same way conditions do', () => {
+      const result = TransformBlockDefinition.validateConfig({ code: 'return process.env;' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toMatchObject({ field: 'code', message: 'Transform contains potentially unsafe code' });
+    });
+
+    it('should reject unsupported languages', () => {
+      const result = TransformBlockDefinition.validateConfig({ code: 'return data', language: 'python' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toMatchObject({ field: 'language' });
+    });
+  });
+
+  describe('generateCode', () => {
+    it('should register the vm import', () => {
+      const context = createContext();
+      TransformBlockDefinition.generateCode({ code: 'return data;' }, context, 'input', 'step2');
+
+      expect(context.imports.has("import vm from 'node:vm';")).toBe(true);
+    });
+
+    it('should expose data and ctx to the transform', async () => {
+      const result = await runTransform(
+        'return { total: data.items.length, label: ctx.step1.label };',
+        { items: [1, 2, 3] },
+        { step1: { label: 'orders' } }
+      );
+
+      expect(result).toEqual({ total: 3, label: 'orders' });
+    });
+
+    it('should block escapes through constructor chains', async () => {
+      await expect(runTransform('return data.constructor.constructor("return process")()', {}))
+        .rejects.toThrow('Transform node "transform-1" failed: Code generation from strings disallowed for this context');
+    });
+
+    it('should not reach the host process through the context global', async () => {
+      await expect(runTransform('return this.constructor.constructor("return process")().env', {}))
+        .rejects.toThrow('Transform node "transform-1" failed: Code generation from strings disallowed for this context');
+      await expect(runTransform('return Object.getPrototypeOf(this) === null && typeof process', {}))
+        .resolves.toBe(false);
+    });
+
+    it('should serialize results inside the timeout', async () => {
+      const context = createContext();
+      const snippet = TransformBlockDefinition.generateCode(
+        { code: 'return { toJSON() { while (true) {} } };', timeout: 50 }, context, 'input', 'step2'
+      );
+      const run = new AsyncFunction('vm', 'input', 'ctx', `${snippet}\nreturn step2;`);
+
+      await expect(run(vm, {}, {})).rejects.toThrow(/Script execution timed out/);
+    });
+
+    it('should attribute runtime errors to the node', async () => {
+      const error: any = await runTransform('throw new Error("bad row");', {}).catch(e => e);
+
+      expect(error.message).toBe('Transform node "transform-1" failed: bad row');
+      expect(error.nodeId).toBe('transform-1');
+    });
+
+    it('should stop transforms that exceed the timeout', async () => {
+      const context = createContext();
+      const snippet = TransformBlockDefinition.generateCode({ code: 'while (true) {}', timeout: 50 }, context, 'input', 'step2');
+      const run = new AsyncFunction('vm', 'input', 'ctx', `${snippet}\nreturn step2;`);
+
+      await expect(run(vm, {}, {})).rejects.toThrow(/Transform node "transform-1" failed: Script execution timed out/);
+    });
+  });
+});
@@ -4,6 +4,14 @@ import { AgentBlockDefinition } from './definitions/AgentBlock';
 import { OutputBlockDefinition } from './definitions/OutputBlock';
 import { ToolBlockDefinition } from './definitions/ToolBlock';
 import { ConditionBlockDefinition } from './definitions/ConditionBlock';
+import { TransformBlockDefinition } from './definitions/TransformBlock';
+import { InterruptBlockDefinition } from './definitions/InterruptBlock';
+import { ForEachBlockDefinition } from './definitions/ForEachBlock';
+import { SubflowBlockDefinition } from './definitions/SubflowBlock';
+import { HttpBlockDefinition } from './definitions/HttpBlock';
+import { EmbedBlockDefinition } from './definitions/EmbedBlock';
+import { IndexBlockDefinition } from './definitions/IndexBlock';
+import { RetrieveBlockDefinition } from './definitions/RetrieveBlock';
 import { logInfo } from '../../shared/utils/logger';
 
 /**
@@ -16,6 +24,14 @@ export function initializeServerBlocks() {
   serverBlockRegistry.register(OutputBlockDefinition);
   serverBlockRegistry.register(ToolBlockDefinition);
   serverBlockRegistry.register(ConditionBlockDefinition);
+  serverBlockRegistry.register(TransformBlockDefinition);
+  serverBlockRegistry.register(InterruptBlockDefinition);
+  serverBlockRegistry.register(ForEachBlockDefinition);
+  serverBlockRegistry.register(SubflowBlockDefinition);
+  serverBlockRegistry.register(HttpBlockDefinition);
+  serverBlockRegistry.register(EmbedBlockDefinition);
+  serverBlockRegistry.register(IndexBlockDefinition);
+  serverBlockRegistry.register(RetrieveBlockDefinition);
 
   logInfo('🚀 Server blocks initialized:', serverBlockRegistry.getStats());
 }
@@ -112,7 +112,15 @@ export class ServerBlockRegistry {
       'agent': 'Bot',
       'output': 'Download',
       'tool': 'Wrench',
-      'condition': 'GitBranch'
+      'condition': 'GitBranch',
+      'transform': 'Code',
+      'interrupt': 'Hand',
+      'foreach': 'Repeat',
+      'subflow': 'Workflow',
+      'http': 'Globe',
+      'embed': 'Binary',
+      'index': 'DatabaseZap',
+      'retrieve': 'FileSearch'
     };
     return icons[type] || 'Square';
   }
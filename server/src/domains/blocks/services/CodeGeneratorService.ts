@@ -1,5 +1,7 @@
-import { ServerBlockDefinition, BlockInstance, FlowEdge, FlowVariable, CodeGenerationContext, ValidationError } from '../types';
+import { ServerBlockDefinition, BlockInstance, FlowEdge, FlowVariable, CodeGenerationContext, ValidationError, ResolvedSubflow, ResolvedPrompt } from '../types';
 import { serverBlockRegistry } from '../registry';
+import { getAttachmentVariable, getLoopBodyVariable, getSubflowVariable } from '../utils/codegenNames';
+import { MOCK_PLUGIN, generateMockModelsPlugin } from '../utils/mockModels';
 
 export interface CodeGenerationResult {
   code: string;
@@ -9,6 +11,32 @@ export interface CodeGenerationResult {
   dependencies: string[];
 }
 
+interface FlowLayout {
+  stepVars: Map<string, string>;
+  edges: FlowEdge[]; // execution edges between reachable nodes
+  topoIndex: Map<string, number>;
+  branches: Map<string, { whenTrue: Set<string>; whenFalse: Set<string> }>;
+  loops: Map<string, Set<string>>; // ForEach nodes and their per-item sub-graph
+  enclosing: Map<string, string[]>; // conditions and loops containing a node, outermost first
+  branchVars: Map<string, string>;
+  inputs: Map<string, string>;
+}
+
+/**
+ * Run a flow from one of its nodes. Nodes before it that have pinned data are
+ * seeded with it instead of running.
+ */
+export interface RunFromOptions {
+  nodeId: string;
+  pinnedData: Record<string, unknown>; // Output to seed, by node id
+}
+
+// Nodes a run from a node executes, and the upstream nodes it seeds from pinned data
+interface PartialRun {
+  run: Set<string>;
+  pinned: Set<string>;
+}
+
 /**
  * Server-side code generator - handles business logic securely
  */
@@ -16,12 +44,29 @@ export class CodeGeneratorService {
   private blocks: BlockInstance[];
   private edges: FlowEdge[];
   private variables: FlowVariable[];
+  private subflows: Record<string, ResolvedSubflow>;
+  private prompts: Record<string, ResolvedPrompt>;
   private errors: ValidationError[] = [];
-
-  constructor(blocks: BlockInstance[], edges: FlowEdge[], variables: FlowVariable[] = []) {
+  private runFrom?: RunFromOptions;
+  private partialRun: PartialRun | null = null;
+  private debug: boolean;
+
+  constructor(
+    blocks: BlockInstance[],
+    edges: FlowEdge[],
+    variables: FlowVariable[] = [],
+    subflows: Record<string, ResolvedSubflow> = {},
+    prompts: Record<string, ResolvedPrompt> = {},
+    runFrom?: RunFromOptions,
+    debug = false // Let the run pause before nodes for a debugger
+  ) {
     this.blocks = blocks;
     this.edges = edges;
     this.variables = variables;
+    this.subflows = subflows;
+    this.prompts = prompts;
+    this.runFrom = runFrom;
+    this.debug = debug;
     this.errors = [];
   }
 
@@ -45,34 +90,34 @@ export class CodeGeneratorService {
         dependencies: new Set(),
         plugins: new Set(),
         variables: this.variables,
-        attachments: this.buildAttachmentsMap()
+        attachments: this.buildAttachmentsMap(),
+        subflows: this.subflows,
+        prompts: this.prompts,
+        definitions: new Map()
       };
 
-      // Validate all blocks first
-      for (const block of this.blocks) {
-        const validation = serverBlockRegistry.validateBlockConfig(block.blockType, block.config);
-        if (!validation.isValid) {
-          this.errors.push(...validation.errors);
-        }
-      }
-
-      if (this.hasErrors()) {
+      const flowBody = this.generateValidatedFlowBody(context);
+      if (flowBody === null) {
         return this.createErrorResult();
       }
 
-      // Get execution order
-      const executionOrder = this.getExecutionOrder();
-      if (this.hasErrors()) {
-        return this.createErrorResult();
-      }
+      // Child flows are emitted after the parent body so their imports and plugins merge in
+      const subflowDefinitions = new Map<string, string>();
+      this.generateSubflowDefinitions(context, subflowDefinitions);
 
       // Generate code sections
-      const flowBody = this.generateFlowBody(executionOrder, context);
       const inputSchema = this.generateInputSchema();
       const imports = this.generateImports(context);
       const aiConfig = this.generateAIConfig(context);
       
-      const code = this.assembleCode(imports, aiConfig, inputSchema, flowBody);
+      const code = this.assembleCode(
+        imports,
+        aiConfig,
+        inputSchema,
+        flowBody,
+        Array.from(subflowDefinitions.values()),
+        Array.from(context.definitions!.values())
+      );
       
       return {
         code,
@@ -90,6 +135,73 @@ export class CodeGeneratorService {
     }
   }
 
+  /**
+   * Validate the blocks and generate the flow body, or null when the flow has errors
+   */
+  private generateValidatedFlowBody(context: CodeGenerationContext): string | null {
+    // Validate all blocks first
+    for (const block of this.blocks) {
+      const validation = serverBlockRegistry.validateBlockConfig(block.blockType, block.config);
+      if (!validation.isValid) {
+        this.errors.push(...validation.errors.map(error => ({ ...error, blockId: block.id })));
+      }
+    }
+
+    if (this.hasErrors()) {
+      return null;
+    }
+
+    // Get execution order
+    const executionOrder = this.getExecutionOrder();
+    if (this.hasErrors()) {
+      return null;
+    }
+
+    return this.generateFlowBody(executionOrder, context);
+  }
+
+  /**
+   * Generate a nested Genkit flow for every child flow called by a subflow block.
+   * A child version used by several blocks is defined once.
+   */
+  private generateSubflowDefinitions(context: CodeGenerationContext, definitions: Map<string, string>): void {
+    for (const [blockId, subflow] of Object.entries(this.subflows)) {
+      const name = getSubflowVariable(subflow.flowId, subflow.version);
+      if (definitions.has(name)) continue;
+
+      const child = new CodeGeneratorService(subflow.blocks, subflow.edges, [], subflow.subflows, subflow.prompts);
+      const childContext: CodeGenerationContext = {
+        ...context,
+        attachments: child.buildAttachmentsMap(),
+        subflows: subflow.subflows,
+        prompts: subflow.prompts,
+        currentBlockId: undefined
+      };
+      const childBody = child.generateValidatedFlowBody(childContext);
+      if (childBody !== null) {
+        child.generateSubflowDefinitions(childContext, definitions);
+      }
+      if (childContext.genkitEntry) {
+        context.genkitEntry = childContext.genkitEntry;
+      }
+
+      this.errors.push(...child.errors.map(error => ({
+        ...error,
+        blockId,
+        message: `Sub-flow "${subflow.alias}": ${error.message}`
+      })));
+      if (childBody === null) continue;
+
+      definitions.set(name, `const ${name} = ai.defineFlow({
+  name: '${name}',
+  inputSchema: z.any(),
+  outputSchema: z.any(),
+}, async (input, options) => {
+  ${childBody}
+});`);
+    }
+  }
+
   private createErrorResult(): CodeGenerationResult {
     return {
       code: '',
@@ -142,9 +254,7 @@ export const flows = [generatedFlow];`;
       return [];
     }
 
-    // Treat only execution edges: ignore edges used for attachments (e.g., tools)
-    const isExecutionEdge = (e: FlowEdge) => e.targetHandle !== 'tool' && e.sourceHandle !== 'tool';
-    const execEdges = this.edges.filter(isExecutionEdge);
+    const execEdges = this.getExecutionEdges();
     const visited = new Set<string>();
     const visiting = new Set<string>();
     const order: BlockInstance[] = [];
@@ -229,6 +339,11 @@ export const flows = [generatedFlow];`;
     return order;
   }
 
+  // Treat only execution edges: ignore edges used for attachments (e.g., tools)
+  private getExecutionEdges(): FlowEdge[] {
+    return this.edges.filter(e => e.targetHandle !== 'tool' && e.sourceHandle !== 'tool');
+  }
+
   // Build map of attachment edges (e.g., tools/interrupts connected to an agent's 'tool' handle)
   private buildAttachmentsMap(): Record<string, Array<{ id: string; blockType: string; config: any }>> {
     const map: Record<string, Array<{ id: string; blockType: string; config: any }>> = {};
@@ -247,90 +362,531 @@ export const flows = [generatedFlow];`;
 
   private generateFlowBody(executionOrder: BlockInstance[], context: CodeGenerationContext): string {
     const statements: string[] = [];
-    let currentVar = 'input';
 
     // Add context setup
     statements.push('// Flow execution context');
+    statements.push('const runtime = (options && options.context && options.context.flowshapr) || {};');
+    statements.push('const sendChunk = (options && options.sendChunk) || (() => {}); // reaches the caller when it streams');
     statements.push('const ctx = { input };');
     statements.push('');
+    statements.push('// Steps completed before an interrupt are restored instead of re-run on resume');
+    statements.push('const resumedOutputs = (runtime.resume && runtime.resume.outputs) || {};');
+    statements.push('');
+    statements.push('// Each node runs in its own span and is recorded for the execution trace');
+    statements.push(`const runNode = async (nodeId, stepVar, run, node = {}) => {
+    if (Object.prototype.hasOwnProperty.call(resumedOutputs, stepVar)) {
+      return resumedOutputs[stepVar];
+    }
+    const nodeTraces = runtime.record && runtime.record.nodes;
+    const started = Date.now();
+    const recordNode = (result) => nodeTraces && nodeTraces.push({
+      nodeId, nodeTitle: node.title, nodeType: node.type, input: node.input,
+      duration: Date.now() - started, timestamp: new Date(started).toISOString(), ...result
+    });
+    try {
+      const output = await ai.run('node:' + nodeId, run);
+      recordNode({ output });
+      return output;
+    } catch (error) {
+      if (error && error.flowInterrupt) {
+        error.flowInterrupt.outputs = { ...ctx };
+      } else {
+        recordNode({ output: null, error: error && error.message ? error.message : String(error) });
+      }
+      throw error;
+    }
+  };`);
+    statements.push('');
+    if (this.debug) {
+      statements.push(...this.generateDebugPause());
+    }
 
-    for (let i = 0; i < executionOrder.length; i++) {
-      const block = executionOrder[i];
-      const blockDefinition = serverBlockRegistry.get(block.blockType);
-      
-      if (!blockDefinition) {
-        this.errors.push({
-          message: `Unknown block type: ${block.blockType}`,
-          severity: 'error'
+    if (executionOrder.length === 0) {
+      statements.push('return input;');
+      return statements.join('\n  ');
+    }
+
+    const layout = this.buildFlowLayout(executionOrder);
+    this.partialRun = this.runFrom ? this.planPartialRun(layout, this.runFrom) : null;
+    const body = this.emitRegion(layout, new Set(layout.stepVars.keys()), context);
+
+    // Steps are declared up front so outputs assigned inside a branch or a
+    // concurrent group stay visible to the nodes that consume them
+    statements.push(`let ${this.getScopeVariables(layout, null).join(', ')};`);
+    statements.push('');
+    statements.push(...body.statements);
+
+    // Add return statement
+    statements.push(`return ${body.result || 'input'};`);
+
+    return statements.join('\n  ');
+  }
+
+  /**
+   * Work out step names, condition branches and the input each node receives
+   */
+  private buildFlowLayout(executionOrder: BlockInstance[]): FlowLayout {
+    // Step numbering follows traversal order
+    const stepVars = new Map(executionOrder.map((block, i) => [block.id, `step${i + 1}`]));
+    const edges = this.getExecutionEdges().filter(e => stepVars.has(e.source) && stepVars.has(e.target));
+    const layout: FlowLayout = {
+      stepVars,
+      edges,
+      topoIndex: this.getTopologicalIndex(executionOrder, edges),
+      branches: new Map(),
+      loops: new Map(),
+      enclosing: new Map(),
+      branchVars: new Map(),
+      inputs: new Map(),
+    };
+
+    this.assignBranches(layout, new Set(stepVars.keys()), []);
+
+    for (const id of this.sortTopologically(layout, stepVars.keys())) {
+      layout.inputs.set(id, this.resolveNodeInput(layout, id));
+    }
+    return layout;
+  }
+
+  /**
+   * The start node and everything after it run. Their upstream nodes are seeded
+   * from pinned data when they have it and run otherwise; unrelated nodes are left out.
+   */
+  private planPartialRun(layout: FlowLayout, runFrom: RunFromOptions): PartialRun {
+    const plan: PartialRun = { run: new Set(), pinned: new Set() };
+    const start = runFrom.nodeId;
+    const inLoop = (id: string) => (layout.enclosing.get(id) || []).some(c => layout.loops.has(c));
+
+    if (!layout.stepVars.has(start)) {
+      this.errors.push({ message: `Cannot run from node "${start}": it is not part of the flow`, severity: 'error' });
+      return plan;
+    }
+    if (inLoop(start)) {
+      this.errors.push({ blockId: start, message: 'Runs cannot start inside a ForEach body', severity: 'error' });
+      return plan;
+    }
+
+    const downstream = new Set<string>();
+    const queue = [start];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (downstream.has(id)) continue;
+      downstream.add(id);
+      layout.edges.filter(e => e.source === id).forEach(e => queue.push(e.target));
+    }
+
+    // Items differ per iteration, so nodes inside a loop body always run
+    const isPinned = (id: string) =>
+      id !== start && !inLoop(id) && Object.prototype.hasOwnProperty.call(runFrom.pinnedData, id);
+    const visit = (id: string) => {
+      if (plan.run.has(id) || plan.pinned.has(id)) return;
+      const predecessors = layout.edges.filter(e => e.target === id).map(e => e.source);
+      if (isPinned(id)) {
+        plan.pinned.add(id);
+        // Nodes in a branch receive the input of their condition, pinned or not
+        if (layout.branches.has(id)) predecessors.forEach(visit);
+        return;
+      }
+      plan.run.add(id);
+      layout.loops.get(id)?.forEach(visit);
+      predecessors.forEach(visit);
+    };
+    downstream.forEach(visit);
+    return plan;
+  }
+
+  /**
+   * Nodes only reachable through one handle of a condition belong to that branch.
+   * Nodes reachable from both handles are merge points and stay in the enclosing scope.
+   */
+  private assignBranches(layout: FlowLayout, members: Set<string>, enclosing: string[]): void {
+    const claimed = new Set<string>();
+    const reachable = (starts: string[]) => {
+      const seen = new Set<string>();
+      const queue = starts.filter(id => members.has(id) && !claimed.has(id));
+      while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        for (const edge of layout.edges) {
+          if (edge.source === id && members.has(edge.target) && !claimed.has(edge.target)) queue.push(edge.target);
+        }
+      }
+      return seen;
+    };
+
+    for (const id of this.sortTopologically(layout, members)) {
+      const blockType = this.blocks.find(b => b.id === id)?.blockType;
+      if (claimed.has(id) || (blockType !== 'condition' && blockType !== 'foreach')) continue;
+
+      const outgoing = layout.edges.filter(e => e.source === id);
+
+      // A loop body is everything reached from the item handle but not from done
+      if (blockType === 'foreach') {
+        const bodyReach = reachable(outgoing.filter(e => e.sourceHandle === 'item').map(e => e.target));
+        const doneReach = reachable(outgoing.filter(e => e.sourceHandle !== 'item').map(e => e.target));
+        const body = new Set(Array.from(bodyReach).filter(n => !doneReach.has(n)));
+        layout.loops.set(id, body);
+        body.forEach(n => {
+          claimed.add(n);
+          layout.enclosing.set(n, [...enclosing, id]);
         });
+        this.assignBranches(layout, body, [...enclosing, id]);
         continue;
       }
 
-      // Generate attachment blocks (tools, interrupts) before the current block if needed
-      const attachments = context.attachments && context.attachments[block.id] || [];
-      for (const attachment of attachments) {
-        const attachmentBlock = this.blocks.find(b => b.id === attachment.id);
-        if (attachmentBlock) {
-          const attachmentDefinition = serverBlockRegistry.get(attachmentBlock.blockType);
-          if (attachmentDefinition) {
-            try {
-              context.currentBlockId = attachmentBlock.id;
-              const attachmentCode = attachmentDefinition.generateCode(
-                attachmentBlock.config,
-                context,
-                'undefined', // attachment blocks don't use input
-                `attachment_${attachmentBlock.id.replace(/[^a-zA-Z0-9]/g, '_')}`
-              );
-              statements.push(`// ${attachmentDefinition.name} (${attachmentBlock.blockType}) - attachment`);
-              statements.push(attachmentCode);
-              statements.push('');
-            } catch (error) {
-              this.errors.push({
-                message: `Error generating attachment code for ${attachmentBlock.blockType}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-                severity: 'error'
-              });
-            }
-          }
-        }
+      const trueReach = reachable(outgoing.filter(e => e.sourceHandle === 'true').map(e => e.target));
+      const falseReach = reachable(outgoing.filter(e => e.sourceHandle === 'false').map(e => e.target));
+      const continuationReach = reachable(outgoing.filter(e => e.sourceHandle !== 'true' && e.sourceHandle !== 'false').map(e => e.target));
+
+      const whenTrue = new Set(Array.from(trueReach).filter(n => !falseReach.has(n) && !continuationReach.has(n)));
+      const whenFalse = new Set(Array.from(falseReach).filter(n => !trueReach.has(n) && !continuationReach.has(n)));
+      layout.branches.set(id, { whenTrue, whenFalse });
+      layout.branchVars.set(id, `branch${layout.branchVars.size + 1}`);
+
+      for (const branch of [whenTrue, whenFalse]) {
+        branch.forEach(n => {
+          claimed.add(n);
+          layout.enclosing.set(n, [...enclosing, id]);
+        });
+        this.assignBranches(layout, branch, [...enclosing, id]);
       }
+    }
+  }
+
+  /**
+   * Build the input expression for a node from its predecessors: a single value,
+   * or, when several feed into it, an object keyed by predecessor node id, e.g.
+   * `{ "summarize": ..., "lookup": ... }`. Node ids stay put when the graph is
+   * edited, unlike step variables. An if/else that rejoins counts as one
+   * predecessor keyed by its condition node's id.
+   */
+  private resolveNodeInput(layout: FlowLayout, id: string): string {
+    const enclosing = layout.enclosing.get(id) || [];
+    const sources = new Map<string, string>();
+
+    for (const edge of layout.edges.filter(e => e.target === id)) {
+      const predecessor = edge.source;
+      const closedBranch = (layout.enclosing.get(predecessor) || []).find(c => !enclosing.includes(c));
+
+      if (closedBranch) {
+        sources.set(closedBranch, this.getScopeResult(layout, closedBranch));
+      } else if (layout.branches.has(predecessor) || layout.loops.has(predecessor)) {
+        // Inside a branch the condition passes its own input through and a loop body
+        // receives the current item; after them, the branch result or collected results
+        const inner = layout.loops.has(predecessor)
+          ? this.getLoopItemVariable(layout, predecessor)
+          : layout.inputs.get(predecessor)!;
+        sources.set(predecessor, enclosing.includes(predecessor) ? inner : this.getScopeResult(layout, predecessor));
+      } else {
+        sources.set(predecessor, layout.stepVars.get(predecessor)!);
+      }
+    }
+
+    if (sources.size === 0) return 'input';
+    if (sources.size === 1) return Array.from(sources.values())[0];
+    return `{ ${Array.from(sources.entries()).map(([nodeId, value]) => `${JSON.stringify(nodeId)}: ${value}`).join(', ')} }`;
+  }
+
+  /**
+   * Emit the nodes of one scope. Nodes run as soon as their predecessors have,
+   * and nodes that become ready together run concurrently.
+   */
+  private emitRegion(layout: FlowLayout, scope: Set<string>, context: CodeGenerationContext): { statements: string[]; result: string | null } {
+    const statements: string[] = [];
+    const partialRun = this.partialRun;
+    const members = partialRun
+      ? new Set(Array.from(scope).filter(id => partialRun.run.has(id) || partialRun.pinned.has(id)))
+      : scope;
+
+    // Conditions own the nodes of their branches within this scope
+    const owner = new Map<string, string>();
+    for (const id of members) {
+      const outermost = (layout.enclosing.get(id) || []).find(c => members.has(c));
+      owner.set(id, outermost || id);
+    }
+    const topLevel = this.sortTopologically(layout, Array.from(members).filter(id => owner.get(id) === id));
+
+    const dependencies = new Map(topLevel.map(id => [id, new Set<string>()]));
+    for (const edge of layout.edges) {
+      if (!members.has(edge.source) || !members.has(edge.target)) continue;
+      const from = owner.get(edge.source)!;
+      const to = owner.get(edge.target)!;
+      if (from !== to) dependencies.get(to)!.add(from);
+    }
 
-      // Generate code using block's server-side generator
-      try {
-        const outputVar = `step${i + 1}`;
-        const sanitizedConfig = block.config;
-        
-        // Expose current block id to code generators
-        context.currentBlockId = block.id;
-        const blockCode = blockDefinition.generateCode(
-          sanitizedConfig,
-          context,
-          currentVar,
-          outputVar
-        );
-        
-        statements.push(`// ${blockDefinition.name} (${block.blockType})`);
-        statements.push(blockCode);
-        statements.push(`ctx['${outputVar}'] = ${outputVar};`);
-        
-        // Set up variable name mapping if this is an input block
-        if (block.blockType === 'input' && block.config.variableName) {
-          statements.push(`ctx['${block.config.variableName}'] = ${outputVar};`);
+    const done = new Set<string>();
+    while (done.size < topLevel.length) {
+      const ready = topLevel.filter(id => !done.has(id) && Array.from(dependencies.get(id)!).every(dep => done.has(dep)));
+      if (ready.length === 0) break;
+
+      if (ready.length === 1) {
+        statements.push(...this.emitNode(layout, ready[0], context));
+      } else {
+        statements.push(`// Independent steps run concurrently`);
+        statements.push('await Promise.all([');
+        for (const id of ready) {
+          statements.push('  (async () => {');
+          statements.push(...this.indentStatements(this.indentStatements(this.emitNode(layout, id, context))));
+          statements.push('  })(),');
         }
-        
+        statements.push(']);');
         statements.push('');
-        currentVar = outputVar;
-      } catch (error) {
-        this.errors.push({
-          message: `Error generating code for ${block.blockType}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          severity: 'error'
-        });
       }
+      ready.forEach(id => done.add(id));
     }
 
-    // Add return statement
-    statements.push(`return ${currentVar};`);
+    // The scope result is its topologically last sink
+    const sinks = topLevel.filter(id => !topLevel.some(other => dependencies.get(other)!.has(id)));
+    const last = sinks[sinks.length - 1];
+    const result = last ? this.getScopeResult(layout, last) : null;
+    return { statements, result };
+  }
 
-    return statements.join('\n  ');
+  // Value a condition or loop hands to nodes after it
+  private getScopeResult(layout: FlowLayout, id: string): string {
+    return layout.branchVars.get(id) || layout.stepVars.get(id)!;
+  }
+
+  private getLoopItemVariable(layout: FlowLayout, loopId: string): string {
+    return `${layout.stepVars.get(loopId)}Item`;
+  }
+
+  /**
+   * Variables owned by the flow body (loopId null) or by one loop iteration
+   */
+  private getScopeVariables(layout: FlowLayout, loopId: string | null): string[] {
+    const ownedBy = (id: string) => {
+      const loops = (layout.enclosing.get(id) || []).filter(c => layout.loops.has(c));
+      return loops.length > 0 ? loops[loops.length - 1] : null;
+    };
+    const ids = Array.from(layout.stepVars.keys()).filter(id => ownedBy(id) === loopId);
+    return [
+      ...ids.map(id => layout.stepVars.get(id)!),
+      ...ids.filter(id => layout.branchVars.has(id)).map(id => layout.branchVars.get(id)!),
+    ];
+  }
+
+  private emitNode(layout: FlowLayout, id: string, context: CodeGenerationContext): string[] {
+    const block = this.blocks.find(b => b.id === id);
+    if (!block) return [];
+
+    const inputVar = layout.inputs.get(id)!;
+    const outputVar = layout.stepVars.get(id)!;
+    const pinned = Boolean(this.partialRun?.pinned.has(id));
+
+    const loopBody = layout.loops.get(id);
+    if (loopBody && !pinned) {
+      // Each item runs the body with its own step variables and context
+      const itemVar = this.getLoopItemVariable(layout, id);
+      const body = this.emitRegion(layout, loopBody, context);
+      const locals = this.getScopeVariables(layout, id);
+      return [
+        `// Per-item sub-flow for ${outputVar}`,
+        `const ${getLoopBodyVariable(outputVar)} = async (${itemVar}, ${itemVar}Index, parentCtx) => {`,
+        `  const ctx = { ...parentCtx, item: ${itemVar}, index: ${itemVar}Index };`,
+        ...(locals.length > 0 ? [`  let ${locals.join(', ')};`] : []),
+        ...this.indentStatements(body.statements),
+        `  return ${body.result || itemVar};`,
+        '};',
+        ...this.generateNodeStatements(block, inputVar, outputVar, context),
+      ];
+    }
+
+    const statements = pinned
+      ? this.generatePinnedStatements(block, outputVar)
+      : this.generateNodeStatements(block, inputVar, outputVar, context);
+
+    const branches = layout.branches.get(id);
+    if (!branches) return statements;
+
+    // Only the taken branch runs; an empty branch passes the condition input through unchanged
+    const branchVar = layout.branchVars.get(id)!;
+    const whenTrue = this.emitRegion(layout, branches.whenTrue, context);
+    const whenFalse = this.emitRegion(layout, branches.whenFalse, context);
+    if (whenTrue.result) whenTrue.statements.push(`${branchVar} = ${whenTrue.result};`);
+    if (whenFalse.result) whenFalse.statements.push(`${branchVar} = ${whenFalse.result};`);
+
+    statements.push(`${branchVar} = ${inputVar};`);
+    statements.push(`if (${outputVar}) {`);
+    statements.push(...this.indentStatements(whenTrue.statements));
+    if (whenFalse.statements.length > 0) {
+      statements.push('} else {');
+      statements.push(...this.indentStatements(whenFalse.statements));
+    }
+    statements.push('}');
+    statements.push('');
+    return statements;
+  }
+
+  private sortTopologically(layout: FlowLayout, ids: Iterable<string>): string[] {
+    return Array.from(new Set(ids))
+      .filter(id => layout.topoIndex.has(id))
+      .sort((a, b) => layout.topoIndex.get(a)! - layout.topoIndex.get(b)!);
+  }
+
+  /**
+   * Generate the statements for a single node, including its attachments
+   */
+  private generateNodeStatements(block: BlockInstance, inputVar: string, outputVar: string, context: CodeGenerationContext): string[] {
+    const statements: string[] = [];
+    const blockDefinition = serverBlockRegistry.get(block.blockType);
+
+    if (!blockDefinition) {
+      this.errors.push({
+        message: `Unknown block type: ${block.blockType}`,
+        severity: 'error'
+      });
+      return statements;
+    }
+
+    // Generate attachment blocks (tools, interrupts) before the current block if needed
+    const attachments = context.attachments && context.attachments[block.id] || [];
+    for (const attachment of attachments) {
+      const attachmentBlock = this.blocks.find(b => b.id === attachment.id);
+      if (attachmentBlock) {
+        const attachmentDefinition = serverBlockRegistry.get(attachmentBlock.blockType);
+        if (attachmentDefinition) {
+          try {
+            context.currentBlockId = attachmentBlock.id;
+            const attachmentCode = attachmentDefinition.generateCode(
+              attachmentBlock.config,
+              context,
+              'undefined', // attachment blocks don't use input
+              getAttachmentVariable(attachmentBlock.id)
+            );
+            statements.push(`// ${attachmentDefinition.name} (${attachmentBlock.blockType}) - attachment`);
+            statements.push(attachmentCode);
+            statements.push('');
+          } catch (error) {
+            this.errors.push({
+              message: `Error generating attachment code for ${attachmentBlock.blockType}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              severity: 'error'
+            });
+          }
+        }
+      }
+    }
+
+    // Generate code using block's server-side generator
+    try {
+      const sanitizedConfig = block.config;
+      
+      // Debug runs may pause here and hand the node a different input
+      if (this.debug) {
+        statements.push(`const ${outputVar}Input = await debugPause(${JSON.stringify(block.id)}, '${outputVar}', ${inputVar}, ctx);`);
+        inputVar = `${outputVar}Input`;
+      }
+
+      // Expose current block id to code generators
+      context.currentBlockId = block.id;
+      const blockCode = blockDefinition.generateCode(
+        sanitizedConfig,
+        context,
+        inputVar,
+        outputVar
+      );
+      
+      statements.push(`// ${blockDefinition.name} (${block.blockType})`);
+      const node = `{ type: ${JSON.stringify(block.blockType)}, title: ${JSON.stringify(blockDefinition.name)}, input: ${inputVar} }`;
+      statements.push(`${outputVar} = await runNode(${JSON.stringify(block.id)}, '${outputVar}', async () => {
+    ${blockCode}
+    return ${outputVar};
+  }, ${node});`);
+      statements.push(`ctx['${outputVar}'] = ${outputVar};`);
+      
+      // Set up variable name mapping if this is an input block
+      if (block.blockType === 'input' && block.config.variableName) {
+        statements.push(`ctx['${block.config.variableName}'] = ${outputVar};`);
+      }
+      
+      statements.push('');
+    } catch (error) {
+      this.errors.push({
+        message: `Error generating code for ${block.blockType}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        severity: 'error'
+      });
+    }
+
+    return statements;
+  }
+
+  /**
+   * Pause hook of debug runs: stops before breakpoints, or before every node
+   * after a step, until the debugger says how to go on. Nodes of a parallel
+   * group pause one at a time, so the debugger only ever holds a single pause
+   */
+  private generateDebugPause(): string[] {
+    return [
+      '// Debug runs wait here for the debugger, which may replace the node\'s input',
+      `let debugQueue = Promise.resolve();
+  const debugPause = (nodeId, stepVar, nodeInput, nodeCtx) => {
+    const session = runtime.debug;
+    const stopsAt = () => session.stepping || (session.breakpoints || []).includes(nodeId);
+    if (!session || !session.pause || Object.prototype.hasOwnProperty.call(resumedOutputs, stepVar) || !stopsAt()) {
+      return Promise.resolve(nodeInput);
+    }
+    const paused = debugQueue.then(async () => {
+      // A continue given while this node waited its turn may have ended stepping
+      if (!stopsAt()) {
+        return nodeInput;
+      }
+      const command = (await session.pause({ nodeId, input: nodeInput, ctx: nodeCtx })) || {};
+      session.stepping = command.action === 'step';
+      return Object.prototype.hasOwnProperty.call(command, 'input') ? command.input : nodeInput;
+    });
+    debugQueue = paused.catch(() => {});
+    return paused;
+  };`,
+      '',
+    ];
+  }
+
+  /**
+   * Seed a node's step with its pinned output instead of running it
+   */
+  private generatePinnedStatements(block: BlockInstance, outputVar: string): string[] {
+    const name = serverBlockRegistry.get(block.blockType)?.name || block.blockType;
+    const statements = [
+      `// ${name} (${block.blockType}) - pinned`,
+      `${outputVar} = ${JSON.stringify(this.runFrom!.pinnedData[block.id]) ?? 'undefined'};`,
+      `ctx['${outputVar}'] = ${outputVar};`,
+    ];
+    if (block.blockType === 'input' && block.config.variableName) {
+      statements.push(`ctx['${block.config.variableName}'] = ${outputVar};`);
+    }
+    statements.push('');
+    return statements;
+  }
+
+  private indentStatements(statements: string[]): string[] {
+    return statements.map(statement => statement ? `  ${statement.replace(/\n/g, '\n  ')}` : statement);
+  }
+
+  /**
+   * Topological position of each node, breaking ties by traversal order
+   */
+  private getTopologicalIndex(executionOrder: BlockInstance[], execEdges: FlowEdge[]): Map<string, number> {
+    const traversalIndex = new Map(executionOrder.map((block, i) => [block.id, i]));
+    const inDegree = new Map(executionOrder.map(block => [block.id, 0]));
+    for (const edge of execEdges) {
+      inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1);
+    }
+
+    const index = new Map<string, number>();
+    const ready = executionOrder.filter(block => inDegree.get(block.id) === 0).map(block => block.id);
+    while (ready.length > 0) {
+      ready.sort((a, b) => traversalIndex.get(a)! - traversalIndex.get(b)!);
+      const id = ready.shift()!;
+      index.set(id, index.size);
+      for (const edge of execEdges) {
+        if (edge.source !== id) continue;
+        const remaining = inDegree.get(edge.target)! - 1;
+        inDegree.set(edge.target, remaining);
+        if (remaining === 0) ready.push(edge.target);
+      }
+    }
+    return index;
   }
 
   private generateInputSchema(): string {
@@ -362,7 +918,7 @@ export const flows = [generatedFlow];`;
 
   private generateImports(context: CodeGenerationContext): string {
     const imports: string[] = [
-      "import { genkit } from 'genkit';",
+      `import { genkit } from '${context.genkitEntry || 'genkit'}';`,
       "import { z } from 'zod';",
     ];
 
@@ -379,6 +935,9 @@ export const flows = [generatedFlow];`;
     if (context.plugins.has('mcp()')) {
       imports.push("import { mcp } from '@genkit-ai/mcp';");
     }
+    if (context.plugins.has(MOCK_PLUGIN)) {
+      imports.push("import { genkitPlugin } from 'genkit/plugin';");
+    }
 
     // Add custom imports
     context.imports.forEach(imp => imports.push(imp));
@@ -402,24 +961,42 @@ export const flows = [generatedFlow];`;
     if (context.plugins.has('mcp()')) {
       plugins.push('mcp()'); // MCP might not need API keys in the same way
     }
+    // The mock provider runs offline, so its plugin is defined in the module itself
+    const mockPlugin = context.plugins.has(MOCK_PLUGIN) ? `${generateMockModelsPlugin()}\n\n` : '';
+    if (mockPlugin) {
+      plugins.push(MOCK_PLUGIN);
+    }
     
-    return `const ai = genkit({
+    return `${mockPlugin}const ai = genkit({
   plugins: [${plugins.join(', ')}]
 });`;
   }
 
 
-  private assembleCode(imports: string, aiConfig: string, inputSchema: string, flowBody: string): string {
+  private assembleCode(
+    imports: string,
+    aiConfig: string,
+    inputSchema: string,
+    flowBody: string,
+    subflowDefinitions: string[] = [],
+    sharedDefinitions: string[] = []
+  ): string {
+    const shared = sharedDefinitions.length > 0
+      ? `// Shared definitions used by blocks\n${sharedDefinitions.join('\n\n')}\n\n`
+      : '';
+    const subflows = subflowDefinitions.length > 0
+      ? `// Child flows called by subflow blocks\n${subflowDefinitions.join('\n\n')}\n\n`
+      : '';
     return `${imports}
 
 ${aiConfig}
 
-// Define and export the flow for container execution
+${shared}${subflows}// Define and export the flow for container execution
 export default ai.defineFlow({
   name: 'generatedFlow',
   inputSchema: ${inputSchema},
   outputSchema: z.any(),
-}, async (input) => {
+}, async (input, options) => {
   ${flowBody}
 });`;
   }
@@ -0,0 +1,875 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import * as vm from 'vm';
+import { z } from 'zod';
+import { genkit } from 'genkit';
+import { genkitPlugin } from 'genkit/plugin';
+import { CodeGeneratorService } from '../CodeGeneratorService';
+import { LocalExecutorBackend } from '../../../../infrastructure/container-pool/LocalExecutorBackend';
+import { initializeServerBlocks } from '../../index';
+import { BlockInstance, FlowEdge, ResolvedPrompt, ResolvedSubflow } from '../../types';
+
+function block(id: string, blockType: string, config: Record<string, any>): BlockInstance {
+  return {
+    id,
+    blockType,
+    config,
+    position: { x: 0, y: 0 },
+    selected: false,
+    inputs: [],
+    outputs: [],
+    state: 'idle',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: 1,
+  } as BlockInstance;
+}
+
+function edge(source: string, target: string, sourceHandle?: string): FlowEdge {
+  return { id: `${source}-${target}`, source, target, sourceHandle };
+}
+
+const input = () => block('in', 'input', { inputType: 'variable', variableName: 'input' });
+const condition = (id: string, expression: string) => block(id, 'condition', { conditionType: 'expression', condition: expression });
+const transform = (id: string, code: string) => block(id, 'transform', { language: 'javascript', code });
+
+// Load the generated module with a stand-in Genkit instance whose flows and spans are plain functions
+function loadFlow(code: string): (input: any, options?: any) => Promise<any> {
+  const body = code
+    .replace(/^import .*;$/gm, '')
+    .replace('export default ai.defineFlow', 'return ai.defineFlow');
+  const factory = new Function('genkit', 'z', 'vm', body);
+  const flow = factory(() => ({ defineFlow: (_config: any, fn: any) => fn, run: (_name: string, fn: any) => fn() }), z, vm);
+  return (flowInput: any, options: any = {}) => flow(flowInput, options);
+}
+
+// Stand-in for the Google AI plugin whose models answer with the messages they were sent,
+// streaming the answer word by word
+const echoGoogleAI = Object.assign(
+  () => genkitPlugin('googleai', async (ai) => {
+    ai.defineModel({ name: 'googleai/gemini-2.5-flash', supports: { multiturn: true } }, async (request, streamingCallback) => {
+      const text = request.messages.map(m => `${m.role}: ${m.content.map(part => part.text).join('')}`).join('\n');
+      text.split(/(?<= )/).forEach(word => streamingCallback?.({ content: [{ text: word }] }));
+      return { message: { role: 'model', content: [{ text }] }, finishReason: 'stop' };
+    });
+  }),
+  { model: (name: string) => `googleai/${name}` }
+);
+
+// Load the generated module with real Genkit, for blocks that call models, embedders, indexers and retrievers
+function loadGenkitFlow(code: string): (input: any, options?: any) => Promise<any> {
+  const body = code
+    .replace(/^import .*;$/gm, '')
+    .replace('export default ai.defineFlow', 'return ai.defineFlow');
+  return new Function('genkit', 'z', 'vm', 'googleAI', 'genkitPlugin', body)(genkit, z, vm, echoGoogleAI, genkitPlugin);
+}
+
+function generate(
+  blocks: BlockInstance[],
+  edges: FlowEdge[],
+  subflows: Record<string, ResolvedSubflow> = {},
+  prompts: Record<string, ResolvedPrompt> = {}
+) {
+  const result = new CodeGeneratorService(blocks, edges, [], subflows, prompts).generate();
+  expect(result.errors.filter(e => e.severity === 'error')).toEqual([]);
+  return result;
+}
+
+describe('CodeGeneratorService', () => {
+  beforeAll(() => {
+    initializeServerBlocks();
+  });
+
+  describe('condition branching', () => {
+    const blocks = [
+      input(),
+      condition('check', 'data.score > 0.5'),
+      transform('approve', 'return { decision: "approved", score: data.score };'),
+      transform('reject', 'return { decision: "rejected", score: data.score };'),
+      transform('notify', 'return `${data.decision}:${data.score}`;'),
+    ];
+    const edges = [
+      edge('in', 'check'),
+      edge('check', 'approve', 'true'),
+      edge('check', 'reject', 'false'),
+      edge('approve', 'notify'),
+      edge('reject', 'notify'),
+    ];
+
+    it('should emit if/else control flow keyed on the condition handles', () => {
+      const { code } = generate(blocks, edges);
+
+      expect(code).toContain('if (step2) {');
+      expect(code).toContain('} else {');
+    });
+
+    it('should only run the taken branch', async () => {
+      const { code } = generate(blocks, edges);
+      const flow = loadFlow(code);
+
+      await expect(flow({ score: 0.9 })).resolves.toBe('approved:0.9');
+      await expect(flow({ score: 0.1 })).resolves.toBe('rejected:0.1');
+    });
+
+    it('should run the merge node once after the branches rejoin', () => {
+      const { code } = generate(blocks, edges);
+      const notifyRuns = code.match(/await runNode\("notify"/g) || [];
+
+      expect(notifyRuns).toHaveLength(1);
+      expect(code.indexOf('await runNode("notify"')).toBeGreaterThan(code.indexOf('await runNode("reject"'));
+      expect(code).toMatch(/step4 = await runNode\("notify"[\s\S]*?__data = JSON\.stringify\(branch1 \?\? null\)/);
+    });
+
+    it('should pass the condition input through an empty branch', async () => {
+      const { code } = generate(
+        [input(), condition('check', 'data.flagged'), transform('review', 'return "reviewed";')],
+        [edge('in', 'check'), edge('check', 'review', 'true')]
+      );
+      const flow = loadFlow(code);
+
+      await expect(flow({ flagged: true })).resolves.toBe('reviewed');
+      await expect(flow({ flagged: false })).resolves.toEqual({ flagged: false });
+    });
+
+    it('should support nested conditions', async () => {
+      const { code } = generate(
+        [
+          input(),
+          condition('outer', 'data.n > 0'),
+          condition('inner', 'data.n > 10'),
+          transform('big', 'return "big";'),
+          transform('small', 'return "small";'),
+          transform('negative', 'return "negative";'),
+        ],
+        [
+          edge('in', 'outer'),
+          edge('outer', 'inner', 'true'),
+          edge('outer', 'negative', 'false'),
+          edge('inner', 'big', 'true'),
+          edge('inner', 'small', 'false'),
+        ]
+      );
+      const flow = loadFlow(code);
+
+      await expect(flow({ n: 50 })).resolves.toBe('big');
+      await expect(flow({ n: 5 })).resolves.toBe('small');
+      await expect(flow({ n: -1 })).resolves.toBe('negative');
+    });
+  });
+
+  describe('DAG inputs', () => {
+    it('should pass each node the output of its own predecessor', async () => {
+      const { code } = generate(
+        [
+          input(),
+          transform('double', 'return data * 2;'),
+          transform('label', 'return `n=${data}`;'),
+          transform('square', 'return data * data;'),
+        ],
+        [edge('in', 'double'), edge('double', 'label'), edge('in', 'square')]
+      );
+
+      expect(code).toMatch(/runNode\("square"[\s\S]*?__data = JSON\.stringify\(step1 \?\? null\)/);
+      await expect(loadFlow(code)(3)).resolves.toBe(9);
+    });
+
+    it('should key multi-input joins by predecessor node id', async () => {
+      const { code } = generate(
+        [
+          input(),
+          transform('upper', 'return data.toUpperCase();'),
+          transform('length', 'return data.length;'),
+          transform('join', 'return `${data.upper}/${data.length}`;'),
+        ],
+        [edge('in', 'upper'), edge('in', 'length'), edge('upper', 'join'), edge('length', 'join')]
+      );
+
+      expect(code).toContain('{ "upper": step2, "length": step4 }');
+      await expect(loadFlow(code)('abc')).resolves.toBe('ABC/3');
+    });
+
+    it('should keep join keys when the graph around them changes', async () => {
+      const join = transform('join', "return `${data['name-a']}+${data['name-b']}`;");
+      const original = generate(
+        [input(), transform('name-a', 'return "a";'), transform('name-b', 'return "b";'), join],
+        [edge('in', 'name-a'), edge('in', 'name-b'), edge('name-a', 'join'), edge('name-b', 'join')]
+      );
+      // A node added up front shifts every step variable
+      const edited = generate(
+        [input(), transform('trim', 'return data;'), transform('name-a', 'return "a";'), transform('name-b', 'return "b";'), join],
+        [edge('in', 'trim'), edge('trim', 'name-a'), edge('trim', 'name-b'), edge('name-a', 'join'), edge('name-b', 'join')]
+      );
+
+      await expect(loadFlow(original.code)(null)).resolves.toBe('a+b');
+      await expect(loadFlow(edited.code)(null)).resolves.toBe('a+b');
+    });
+
+    it('should run independent branches concurrently', async () => {
+      const { code } = generate(
+        [input(), transform('a', 'return 1;'), transform('b', 'return 2;'), transform('sum', 'return data.a + data.b;')],
+        [edge('in', 'a'), edge('in', 'b'), edge('a', 'sum'), edge('b', 'sum')]
+      );
+
+      const parallel = code.slice(code.indexOf('await Promise.all(['), code.indexOf(']);'));
+      expect(parallel).toContain('await runNode("a"');
+      expect(parallel).toContain('await runNode("b"');
+      expect(parallel).not.toContain('await runNode("sum"');
+      await expect(loadFlow(code)(null)).resolves.toBe(3);
+    });
+
+    it('should wait for an if/else to finish before joining it with other inputs', async () => {
+      const { code } = generate(
+        [
+          input(),
+          condition('check', 'data.n > 0'),
+          transform('positive', 'return "positive";'),
+          transform('negative', 'return "negative";'),
+          transform('magnitude', 'return Math.abs(data.n);'),
+          transform('report', 'return `${data.check}:${data.magnitude}`;'),
+        ],
+        [
+          edge('in', 'check'),
+          edge('check', 'positive', 'true'),
+          edge('check', 'negative', 'false'),
+          edge('positive', 'report'),
+          edge('negative', 'report'),
+          edge('in', 'magnitude'),
+          edge('magnitude', 'report'),
+        ]
+      );
+      const flow = loadFlow(code);
+
+      expect(code).toContain('{ "check": branch1, "magnitude": step6 }');
+      await expect(flow({ n: 4 })).resolves.toBe('positive:4');
+      await expect(flow({ n: -2 })).resolves.toBe('negative:2');
+    });
+  });
+
+  describe('foreach loops', () => {
+    it('should run the item sub-graph per item and continue with the results', async () => {
+      const { code } = generate(
+        [
+          input(),
+          block('loop', 'foreach', { itemsPath: 'rows', concurrency: 2 }),
+          transform('double', 'return data * 2;'),
+          transform('label', 'return `${ctx.index}:${data}`;'),
+          transform('summary', 'return data.join(",");'),
+        ],
+        [
+          edge('in', 'loop'),
+          edge('loop', 'double', 'item'),
+          edge('double', 'label'),
+          edge('loop', 'summary', 'done'),
+        ]
+      );
+
+      expect(code).toContain('const step2Body = async (step2Item, step2ItemIndex, parentCtx) => {');
+      await expect(loadFlow(code)({ rows: [1, 2, 3] })).resolves.toBe('0:2,1:4,2:6');
+    });
+
+    it('should branch inside the loop body', async () => {
+      const { code } = generate(
+        [
+          input(),
+          block('loop', 'foreach', {}),
+          condition('even', 'data.n % 2 === 0'),
+          transform('even-label', 'return "even";'),
+          transform('odd-label', 'return "odd";'),
+        ],
+        [
+          edge('in', 'loop'),
+          edge('loop', 'even', 'item'),
+          edge('even', 'even-label', 'true'),
+          edge('even', 'odd-label', 'false'),
+        ]
+      );
+
+      await expect(loadFlow(code)([{ n: 1 }, { n: 2 }])).resolves.toEqual(['odd', 'even']);
+    });
+  });
+
+  describe('subflows', () => {
+    const child = (overrides: Partial<ResolvedSubflow> = {}): ResolvedSubflow => ({
+      flowId: 'child-flow',
+      alias: 'double',
+      version: '1.0.0',
+      blocks: [input(), transform('double', 'return { doubled: data.n * 2 };')],
+      edges: [edge('in', 'double')],
+      subflows: {},
+      prompts: {},
+      ...overrides,
+    });
+
+    it('should call the child as a nested flow with mapped inputs', async () => {
+      const { code } = generate(
+        [input(), block('call', 'subflow', { flowId: 'child-flow', inputMapping: { n: 'order.quantity' } })],
+        [edge('in', 'call')],
+        { call: child() }
+      );
+
+      expect(code).toContain("const subflow_child_flow_v1_0_0 = ai.defineFlow({");
+      await expect(loadFlow(code)({ order: { quantity: 4 } })).resolves.toEqual({ doubled: 8 });
+    });
+
+    it('should record child calls for trace linking', async () => {
+      const { code } = generate(
+        [input(), block('call', 'subflow', { flowId: 'child-flow' })],
+        [edge('in', 'call')],
+        { call: child() }
+      );
+      const runtime = { record: { subflows: [] as any[] } };
+
+      await loadFlow(code)({ n: 2 }, { context: { flowshapr: runtime } });
+
+      expect(runtime.record.subflows).toEqual([expect.objectContaining({
+        nodeId: 'call', flowId: 'child-flow', alias: 'double', version: '1.0.0',
+        input: { n: 2 }, output: { doubled: 4 }, status: 'completed',
+      })]);
+    });
+
+    it('should define a child used by several blocks once and nest grandchildren', async () => {
+      const middle = child({
+        flowId: 'middle-flow',
+        alias: 'middle',
+        blocks: [input(), block('inner', 'subflow', { flowId: 'child-flow' })],
+        edges: [edge('in', 'inner')],
+        subflows: { inner: child() },
+      });
+      const { code } = generate(
+        [
+          input(),
+          block('first', 'subflow', { flowId: 'child-flow' }),
+          block('second', 'subflow', { flowId: 'middle-flow' }),
+          transform('sum', 'return data.first.doubled + data.second.doubled;'),
+        ],
+        [edge('in', 'first'), edge('in', 'second'), edge('first', 'sum'), edge('second', 'sum')],
+        { first: child(), second: middle }
+      );
+
+      expect(code.match(/const subflow_child_flow_v1_0_0 = /g)).toHaveLength(1);
+      await expect(loadFlow(code)({ n: 3 })).resolves.toBe(12);
+    });
+
+    it('should report child generation errors against the subflow block', () => {
+      const result = new CodeGeneratorService(
+        [input(), block('call', 'subflow', { flowId: 'child-flow' })],
+        [edge('in', 'call')],
+        [],
+        { call: child({ blocks: [input(), transform('broken', ' ')] }) }
+      ).generate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContainEqual(expect.objectContaining({
+        blockId: 'call',
+        message: 'Sub-flow "double": Transform code is required',
+      }));
+    });
+  });
+
+  describe('document store', () => {
+    const embedder = 'flowshapr/fake-embedder';
+    const documents = [
+      'Rockets launch from Florida when the weather allows.',
+      { text: 'The cat slept on the warm mat all afternoon.', metadata: { source: 'pets' } },
+    ];
+
+    it('should index chunks and retrieve the closest ones in the same run', async () => {
+      const { code } = generate(
+        [
+          input(),
+          transform('docs', 'return data.documents;'),
+          block('idx', 'index', { embedder, chunkSize: 0 }),
+          block('ret', 'retrieve', { embedder, query: '{{input.question}}', topK: 1 }),
+        ],
+        [edge('in', 'docs'), edge('docs', 'idx'), edge('idx', 'ret')]
+      );
+      const runtime: any = { record: { subflows: [], documents: [] } };
+
+      const result = await loadGenkitFlow(code)(
+        { documents, question: 'where do rockets launch' },
+        { context: { flowshapr: runtime } }
+      );
+
+      expect(result).toEqual([{
+        text: 'Rockets launch from Florida when the weather allows.',
+        metadata: { nodeId: 'idx', sourceIndex: 0, chunkIndex: 0 },
+        score: expect.any(Number),
+      }]);
+      expect(runtime.record.documents).toHaveLength(2);
+      expect(runtime.record.documents[1]).toMatchObject({
+        content: 'The cat slept on the warm mat all afternoon.',
+        metadata: { source: 'pets' },
+        embedder,
+      });
+      expect(runtime.record.documents[1].embedding).toHaveLength(64);
+    });
+
+    it('should split documents into overlapping chunks', async () => {
+      const { code } = generate(
+        [input(), block('idx', 'index', { embedder, chunkSize: 20, chunkOverlap: 5 })],
+        [edge('in', 'idx')]
+      );
+      const runtime: any = { record: { subflows: [], documents: [] } };
+
+      const result = await loadGenkitFlow(code)('alpha beta gamma delta epsilon zeta eta theta', { context: { flowshapr: runtime } });
+
+      expect(result).toEqual({ documents: 1, chunks: 4 });
+      expect(runtime.record.documents.map((d: any) => d.content)).toEqual([
+        'alpha beta gamma',
+        'gamma delta epsilon',
+        'epsilon zeta eta',
+        'zeta eta theta',
+      ]);
+    });
+
+    it('should search the stored documents of earlier runs with the same embedder', async () => {
+      const indexCode = generate([input(), block('idx', 'index', { embedder })], [edge('in', 'idx')]).code;
+      const indexRuntime: any = { record: { subflows: [], documents: [] } };
+      await loadGenkitFlow(indexCode)(documents, { context: { flowshapr: indexRuntime } });
+
+      const { code } = generate([input(), block('ret', 'retrieve', { embedder, topK: 5 })], [edge('in', 'ret')]);
+      const stored = [
+        ...indexRuntime.record.documents,
+        { content: 'Indexed by another embedder', metadata: {}, embedding: new Array(768).fill(1), embedder: 'googleai/text-embedding-004' },
+      ];
+
+      const result = await loadGenkitFlow(code)('warm cat', { context: { flowshapr: { flowId: 'flow-1', documents: { 'flow-1': stored } } } });
+
+      expect(result.map((d: any) => d.text)).toEqual([
+        'The cat slept on the warm mat all afternoon.',
+        'Rockets launch from Florida when the weather allows.',
+      ]);
+      expect(result[0].score).toBeGreaterThan(result[1].score);
+    });
+
+    it('should index into and retrieve from the sub-flow\'s own store', async () => {
+      const chunk = (content: string) => ({ content, metadata: {}, embedding: [1], embedder });
+      const searcher: ResolvedSubflow = {
+        flowId: 'child-flow',
+        alias: 'search',
+        version: '1.0.0',
+        blocks: [input(), block('idx', 'index', { embedder }), block('ret', 'retrieve', { embedder, topK: 5 })],
+        edges: [edge('in', 'idx'), edge('idx', 'ret')],
+        subflows: {},
+        prompts: {},
+      };
+      const { code } = generate(
+        [input(), block('call', 'subflow', { flowId: 'child-flow' })],
+        [edge('in', 'call')],
+        { call: searcher }
+      );
+      const runtime: any = {
+        flowId: 'parent-flow',
+        documents: { 'parent-flow': [chunk('Parent chunk')], 'child-flow': [chunk('Child chunk')] },
+        record: { subflows: [], documents: [] },
+      };
+
+      const result = await loadGenkitFlow(code)('Indexed by the child', { context: { flowshapr: runtime } });
+
+      expect(result.map((d: any) => d.text).sort()).toEqual(['Child chunk', 'Indexed by the child']);
+      expect(runtime.record.documents).toEqual([expect.objectContaining({ content: 'Indexed by the child', flowId: 'child-flow' })]);
+      expect(runtime.documents['parent-flow']).toHaveLength(1);
+    });
+
+    it('should embed text and configure the provider plugin for hosted embedders', async () => {
+      const fake = generate([input(), block('emb', 'embed', { embedder, text: 'Question: {{input}}' })], [edge('in', 'emb')]);
+      const hosted = generate([input(), block('emb', 'embed', { embedder: 'googleai/text-embedding-004' })], [edge('in', 'emb')]);
+
+      const vector = await loadGenkitFlow(fake.code)('hello', { context: { flowshapr: {} } });
+
+      expect(vector).toHaveLength(64);
+      expect(hosted.code).toContain('googleAI({ apiKey: process.env.GEMINI_API_KEY })');
+      expect(hosted.code).not.toContain('flowshapr/fake-embedder');
+    });
+  });
+
+  describe('prompt library', () => {
+    const agent = (id: string, config: Record<string, any> = {}) =>
+      block(id, 'agent', { provider: 'googleai', model: 'gemini-2.5-flash', promptType: 'library', promptLibraryId: 'prm_1', ...config });
+    const greeting = (overrides: Partial<ResolvedPrompt> = {}): ResolvedPrompt => ({
+      promptId: 'prm_1',
+      name: 'greeting',
+      version: 2,
+      template: '{{role "system"}}You greet people.{{role "user"}}Say hello to {{name}} from {{city}}.',
+      variables: ['name', 'city'],
+      ...overrides,
+    });
+
+    it('should compile the resolved prompt and render it with the block input', async () => {
+      const { code } = generate([input(), agent('ask')], [edge('in', 'ask')], {}, { ask: greeting() });
+
+      expect(code).toContain("const prompt_prm_1_v2 = ai.definePrompt({");
+      expect(code).not.toContain('getPromptFromLibrary');
+      await expect(loadGenkitFlow(code)({ name: 'Ada', city: 'London' }, { context: { flowshapr: {} } })).resolves.toBe(
+        'system: You greet people.\nuser: Say hello to Ada from London.'
+      );
+    });
+
+    it('should fall back to earlier step outputs and the variables the template references', async () => {
+      const { code } = generate(
+        [input(), transform('topic', 'return "tides";'), agent('ask')],
+        [edge('in', 'topic'), edge('topic', 'ask')],
+        {},
+        { ask: greeting({ template: 'Write about {{step2}} for {{input.audience}}.', variables: [] }) }
+      );
+
+      await expect(loadGenkitFlow(code)({ audience: 'kids' }, { context: { flowshapr: {} } })).resolves.toBe(
+        'user: Write about tides for kids.'
+      );
+    });
+
+    it('should define a prompt version once when several blocks share it', () => {
+      const { code } = generate(
+        [input(), agent('first'), agent('second')],
+        [edge('in', 'first'), edge('first', 'second')],
+        {},
+        { first: greeting(), second: greeting() }
+      );
+
+      expect(code.match(/ai\.definePrompt\(/g)).toHaveLength(1);
+    });
+
+    it('should fail the node when the prompt was not resolved', async () => {
+      const { code } = generate([input(), agent('ask')], [edge('in', 'ask')]);
+
+      const error: any = await loadGenkitFlow(code)({}, { context: { flowshapr: {} } }).catch((e: any) => e);
+
+      expect(error.message).toBe('Agent node "ask" could not resolve library prompt "prm_1"');
+      expect(error.nodeId).toBe('ask');
+    });
+  });
+
+  describe('streaming', () => {
+    const agent = (id: string, userPrompt: string) =>
+      block(id, 'agent', { provider: 'googleai', model: 'gemini-2.5-flash', promptType: 'static', userPrompt });
+
+    it('should stream agent tokens to the caller tagged with the node', async () => {
+      const { code } = generate([input(), agent('ask', 'Say hi to {{input}}')], [edge('in', 'ask')]);
+      const chunks: any[] = [];
+
+      const result = await loadGenkitFlow(code)('Ada', { context: { flowshapr: {} }, onChunk: (chunk: any) => chunks.push(chunk) });
+
+      expect(result).toBe('user: Say hi to Ada');
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every(chunk => chunk.nodeId === 'ask')).toBe(true);
+      expect(chunks.map(chunk => chunk.text).join('')).toBe(result);
+    });
+
+    it('should forward tokens streamed by child flows', async () => {
+      const child: ResolvedSubflow = {
+        flowId: 'child-flow',
+        alias: 'greeter',
+        version: null,
+        blocks: [input(), agent('greet', 'Greet {{input}}')],
+        edges: [edge('in', 'greet')],
+        subflows: {},
+        prompts: {},
+      };
+      const { code } = generate([input(), block('call', 'subflow', { flowId: 'child-flow' })], [edge('in', 'call')], { call: child });
+      const chunks: any[] = [];
+
+      await loadGenkitFlow(code)('Ada', { context: { flowshapr: {} }, onChunk: (chunk: any) => chunks.push(chunk) });
+
+      expect(chunks.map(chunk => chunk.text).join('')).toBe('user: Greet Ada');
+      expect(chunks[0].nodeId).toBe('greet');
+    });
+  });
+
+  describe('mock provider', () => {
+    const mockAgent = (id: string, config: Record<string, any> = {}) =>
+      block(id, 'agent', { provider: 'mock', model: 'scripted', promptType: 'static', userPrompt: '{{input}}', ...config });
+
+    it('should reply with the first matching rule and echo unmatched prompts', async () => {
+      const responses = JSON.stringify([{ match: '^weather', text: 'Sunny' }, { match: 'weather', text: 'Cloudy' }]);
+      const { code } = generate([input(), mockAgent('ask', { mockResponses: responses })], [edge('in', 'ask')]);
+      const flow = loadGenkitFlow(code);
+
+      expect(code).toContain("import { genkitPlugin } from 'genkit/plugin';");
+      await expect(flow('weather in Oslo', { context: { flowshapr: {} } })).resolves.toBe('Sunny');
+      await expect(flow('Oslo weather', { context: { flowshapr: {} } })).resolves.toBe('Cloudy');
+      await expect(flow('hello', { context: { flowshapr: {} } })).resolves.toBe('hello');
+    });
+
+    it('should return scripted JSON as structured output', async () => {
+      const responses = JSON.stringify([{ output: { sentiment: 'positive', score: 0.9 } }]);
+      const { code } = generate(
+        [input(), mockAgent('classify', { mockResponses: responses, responseFormat: 'json', jsonSchema: '{"type": "object"}' })],
+        [edge('in', 'classify')]
+      );
+
+      await expect(loadGenkitFlow(code)('Great!', { context: { flowshapr: {} } })).resolves.toEqual({ sentiment: 'positive', score: 0.9 });
+    });
+
+    it('should fall back to the rules of its fixture', async () => {
+      const responses = JSON.stringify([{ match: 'refund', text: 'Refund approved' }]);
+      const { code } = generate([input(), mockAgent('support', { mockResponses: responses, mockFixture: 'support' })], [edge('in', 'support')]);
+      const runtime = { mockFixtures: { support: [{ match: 'refund|order', text: 'Order shipped' }] } };
+      const flow = loadGenkitFlow(code);
+
+      await expect(flow('refund please', { context: { flowshapr: runtime } })).resolves.toBe('Refund approved');
+      await expect(flow('where is my order', { context: { flowshapr: runtime } })).resolves.toBe('Order shipped');
+    });
+
+    it('should stream the echo model reply', async () => {
+      const { code } = generate([input(), mockAgent('ask', { model: 'echo' })], [edge('in', 'ask')]);
+      const chunks: any[] = [];
+
+      const result = await loadGenkitFlow(code)('Ada', { context: { flowshapr: {} }, onChunk: (chunk: any) => chunks.push(chunk) });
+
+      expect(result).toBe('Ada');
+      expect(chunks).toEqual([{ nodeId: 'ask', text: 'Ada' }]);
+    });
+
+    it('should run end to end on the local executor, requesting tools', async () => {
+      const responses = JSON.stringify([{ match: 'deploy', toolRequest: { input: { question: 'Ship it?' } } }]);
+      const { code } = generate(
+        [input(), mockAgent('agent', { mockResponses: responses }), block('approval', 'interrupt', { message: 'Approve the deploy?' })],
+        [edge('in', 'agent'), { id: 'approval-agent', source: 'approval', target: 'agent', targetHandle: 'tool' }]
+      );
+      const backend = new LocalExecutorBackend();
+      const run = (flowInput: string, runtime: any = {}) => backend.execute(
+        { executionId: `exec_mock_${Math.random().toString(36).slice(2, 10)}`, code, input: flowInput, config: { runtime } },
+        new AbortController()
+      );
+
+      const paused = await run('deploy v2');
+      expect(paused.interrupt).toMatchObject({
+        nodeId: 'agent',
+        interrupts: [{ toolRequest: { name: 'interrupt_approval', input: { question: 'Ship it?' } } }],
+      });
+
+      // Once the tool answers, the model echoes its output
+      const resumed = await run('deploy v2', {
+        resume: { nodeId: 'agent', interrupts: paused.interrupt!.interrupts, messages: paused.interrupt!.messages, outputs: {}, response: 'approved' },
+      });
+      expect(resumed).toMatchObject({ result: 'approved' });
+      await expect(run('hello')).resolves.toMatchObject({ result: 'hello' });
+    }, 30000);
+  });
+
+  describe('model call recording', () => {
+    const responses = JSON.stringify([{ match: 'weather', text: 'Sunny' }]);
+    const agentFlow = () => generate(
+      [input(), block('ask', 'agent', { provider: 'mock', model: 'scripted', promptType: 'static', userPrompt: '{{input}}', mockResponses: responses })],
+      [edge('in', 'ask')]
+    ).code;
+    const recordRun = async (code: string, flowInput: string, modelCalls: any = {}, onChunk?: (chunk: any) => void) => {
+      const runtime = { modelCalls, record: { subflows: [], nodes: [], modelCalls: [] as any[] } };
+      const result = await loadGenkitFlow(code)(flowInput, { context: { flowshapr: runtime }, onChunk });
+      return { result, calls: runtime.record.modelCalls };
+    };
+
+    it('should record each model request and response', async () => {
+      const { result, calls } = await recordRun(agentFlow(), 'weather in Oslo');
+
+      expect(result).toBe('Sunny');
+      expect(calls).toEqual([expect.objectContaining({
+        nodeId: 'ask',
+        model: 'mock/scripted',
+        request: expect.objectContaining({ messages: [expect.objectContaining({ role: 'user', content: [{ text: 'weather in Oslo' }] })] }),
+        response: expect.objectContaining({ message: { role: 'model', content: [{ text: 'Sunny' }] } }),
+        duration: expect.any(Number),
+      })]);
+    });
+
+    it('should not record runs that did not ask for it', async () => {
+      const runtime = { record: { subflows: [], nodes: [], modelCalls: [] as any[] } };
+
+      await loadGenkitFlow(agentFlow())('weather in Oslo', { context: { flowshapr: runtime } });
+
+      expect(runtime.record.modelCalls).toEqual([]);
+    });
+
+    it('should answer matching calls from the recording', async () => {
+      const code = agentFlow();
+      const { calls } = await recordRun(code, 'weather in Oslo');
+      calls[0].response.message.content = [{ text: 'Recorded rain' }];
+      const chunks: any[] = [];
+
+      const replayed = await recordRun(code, 'weather in Oslo', { replay: calls }, (chunk) => chunks.push(chunk));
+
+      expect(replayed.result).toBe('Recorded rain');
+      expect(chunks).toEqual([{ nodeId: 'ask', text: 'Recorded rain' }]);
+      expect(replayed.calls).toEqual([expect.objectContaining({ nodeId: 'ask', replayed: true })]);
+    });
+
+    it('should fail unmatched calls unless they may go live', async () => {
+      const code = agentFlow();
+      const { calls } = await recordRun(code, 'weather in Oslo');
+
+      await expect(recordRun(code, 'weather in Bergen', { replay: calls })).rejects.toMatchObject({
+        message: 'No recorded model call matches this request of node "ask"',
+        nodeId: 'ask',
+      });
+      const live = await recordRun(code, 'weather in Bergen', { replay: calls, onUnmatched: 'live' });
+      expect(live.result).toBe('Sunny');
+      expect(live.calls).toEqual([expect.objectContaining({ nodeId: 'ask', replayed: false })]);
+    });
+  });
+
+  describe('run from a node', () => {
+    const chain = [
+      input(),
+      transform('double', 'return data.n * 2;'),
+      transform('add-one', 'return data + 1;'),
+      transform('triple', 'return data * 3;'),
+    ];
+    const chainEdges = [edge('in', 'double'), edge('double', 'add-one'), edge('add-one', 'triple')];
+    const runFrom = (blocks: BlockInstance[], edges: FlowEdge[], nodeId: string, pinnedData: Record<string, unknown> = {}) =>
+      new CodeGeneratorService(blocks, edges, [], {}, {}, { nodeId, pinnedData }).generate();
+    const ranNodes = async (code: string, flowInput: any) => {
+      const runtime = { record: { subflows: [], nodes: [] as any[] } };
+      const result = await loadFlow(code)(flowInput, { context: { flowshapr: runtime } });
+      return { result, nodes: runtime.record.nodes.map((node: any) => node.nodeId) };
+    };
+
+    it('should seed pinned upstream nodes and run from the chosen node', async () => {
+      const { code, isValid } = runFrom(chain, chainEdges, 'add-one', { double: 10, in: { n: 1 } });
+
+      expect(isValid).toBe(true);
+      expect(code).toContain("step2 = 10;\n  ctx['step2'] = step2;");
+      await expect(ranNodes(code, { n: 1 })).resolves.toEqual({ result: 33, nodes: ['add-one', 'triple'] });
+    });
+
+    it('should run upstream nodes that have no pinned data', async () => {
+      const { code } = runFrom(chain, chainEdges, 'add-one');
+
+      await expect(ranNodes(code, { n: 4 })).resolves.toEqual({ result: 27, nodes: ['in', 'double', 'add-one', 'triple'] });
+    });
+
+    it('should leave out branches the chosen node does not depend on', async () => {
+      const { code } = runFrom(
+        [input(), condition('big', 'data.n > 5'), transform('shout', 'return "big " + data.n;'), transform('whisper', 'return "small " + data.n;'), transform('other', 'return "other";')],
+        [edge('in', 'big'), edge('big', 'shout', 'true'), edge('big', 'whisper', 'false'), edge('in', 'other')],
+        'shout',
+        { in: { n: 9 }, big: true }
+      );
+
+      // The pinned condition still selects the branch
+      await expect(ranNodes(code, { n: 1 })).resolves.toEqual({ result: 'big 9', nodes: ['shout'] });
+    });
+
+    it('should reject start nodes outside the flow or inside a loop body', () => {
+      const loop = [input(), block('loop', 'foreach', {}), transform('double', 'return data * 2;')];
+      const loopEdges = [edge('in', 'loop'), edge('loop', 'double', 'item')];
+
+      expect(runFrom(chain, chainEdges, 'missing').errors).toEqual([
+        { message: 'Cannot run from node "missing": it is not part of the flow', severity: 'error' },
+      ]);
+      expect(runFrom(loop, loopEdges, 'double').errors).toEqual([
+        { blockId: 'double', message: 'Runs cannot start inside a ForEach body', severity: 'error' },
+      ]);
+    });
+  });
+
+  describe('debugging', () => {
+    const chain = [input(), transform('double', 'return data.n * 2;'), transform('add-one', 'return data + 1;')];
+    const chainEdges = [edge('in', 'double'), edge('double', 'add-one')];
+    // Answers each pause with the next command, copying where the run paused as the executors do
+    const debugRun = async (breakpoints: string[], commands: any[], flowInput: any) => {
+      const pauses: any[] = [];
+      const debug = { breakpoints, pause: async (state: any) => { pauses.push(JSON.parse(JSON.stringify(state))); return commands.shift(); } };
+      const { code } = new CodeGeneratorService(chain, chainEdges, [], {}, {}, undefined, true).generate();
+      const result = await loadFlow(code)(flowInput, { context: { flowshapr: { debug } } });
+      return { result, pauses };
+    };
+
+    it('should pause before breakpoints and run the node on the input the debugger gives it', async () => {
+      const { result, pauses } = await debugRun(['double'], [{ action: 'continue', input: { n: 10 } }], { n: 1 });
+
+      expect(pauses).toEqual([{ nodeId: 'double', input: { n: 1 }, ctx: { input: { n: 1 }, step1: { n: 1 } } }]);
+      expect(result).toBe(21);
+    });
+
+    it('should pause before every following node after a step', async () => {
+      const { result, pauses } = await debugRun(['in'], [{ action: 'step' }, { action: 'step' }, { action: 'continue' }], { n: 2 });
+
+      expect(pauses.map(pause => [pause.nodeId, pause.input])).toEqual([['in', { n: 2 }], ['double', { n: 2 }], ['add-one', 4]]);
+      expect(result).toBe(5);
+    });
+
+    it('should pause parallel breakpoints one at a time', async () => {
+      const blocks = [input(), transform('upper', 'return data.toUpperCase();'), transform('length', 'return data.length;')];
+      const { code } = new CodeGeneratorService(blocks, [edge('in', 'upper'), edge('in', 'length')], [], {}, {}, undefined, true).generate();
+      expect(code).toContain('await Promise.all([');
+
+      // Holds each pause open for a while, like a debugger waiting on its user
+      let open = 0;
+      const pauses: string[] = [];
+      const debug = {
+        breakpoints: ['upper', 'length'],
+        pause: async (state: any) => {
+          expect(open).toBe(0);
+          open++;
+          pauses.push(state.nodeId);
+          await new Promise(resolve => setTimeout(resolve, 10));
+          open--;
+          return { action: 'continue' };
+        },
+      };
+      const result = await loadFlow(code)('abc', { context: { flowshapr: { debug } } });
+
+      expect(pauses.sort()).toEqual(['length', 'upper']);
+      expect(result).toBe(3);
+    });
+
+    it('should leave pause hooks out of runs that are not debugged', () => {
+      const { code } = generate(chain, chainEdges);
+
+      expect(code).not.toContain('debugPause');
+    });
+  });
+
+  describe('node traces', () => {
+    it('should record each node with its input, output and timing', async () => {
+      const { code } = generate([input(), transform('double', 'return data.n * 2;')], [edge('in', 'double')]);
+      const runtime = { record: { subflows: [], nodes: [] as any[] } };
+
+      await loadFlow(code)({ n: 3 }, { context: { flowshapr: runtime } });
+
+      expect(runtime.record.nodes).toEqual([
+        expect.objectContaining({ nodeId: 'in', nodeType: 'input', nodeTitle: 'Input', input: { n: 3 }, output: { n: 3 } }),
+        expect.objectContaining({ nodeId: 'double', nodeType: 'transform', input: { n: 3 }, output: 6 }),
+      ]);
+      expect(runtime.record.nodes[1]).toEqual(expect.objectContaining({ duration: expect.any(Number), timestamp: expect.any(String) }));
+      expect(runtime.record.nodes[1].error).toBeUndefined();
+    });
+
+    it('should record the error of a failing node', async () => {
+      const { code } = generate([input(), transform('boom', 'throw new Error("bad data");')], [edge('in', 'boom')]);
+      const runtime = { record: { subflows: [], nodes: [] as any[] } };
+
+      await expect(loadFlow(code)({}, { context: { flowshapr: runtime } })).rejects.toThrow('bad data');
+
+      expect(runtime.record.nodes[1]).toMatchObject({ nodeId: 'boom', output: null, error: expect.stringContaining('bad data') });
+    });
+
+    it('should keep child flow nodes on the child call', async () => {
+      const child: ResolvedSubflow = {
+        flowId: 'child-flow',
+        alias: 'double',
+        version: null,
+        blocks: [input(), transform('double', 'return data.n * 2;')],
+        edges: [edge('in', 'double')],
+        subflows: {},
+        prompts: {},
+      };
+      const { code } = generate([input(), block('call', 'subflow', { flowId: 'child-flow' })], [edge('in', 'call')], { call: child });
+      const runtime = { record: { subflows: [] as any[], nodes: [] as any[] } };
+
+      await loadFlow(code)({ n: 2 }, { context: { flowshapr: runtime } });
+
+      expect(runtime.record.nodes.map(node => node.nodeId)).toEqual(['in', 'call']);
+      expect(runtime.record.subflows[0].nodes.map((node: any) => node.nodeId)).toEqual(['in', 'double']);
+    });
+
+    it('should run each node in a Genkit span', async () => {
+      const { code } = generate([input(), transform('double', 'return data.n * 2;')], [edge('in', 'double')]);
+      const runtime = { record: { subflows: [], nodes: [] as any[] } };
+
+      await expect(loadGenkitFlow(code)({ n: 4 }, { context: { flowshapr: runtime } })).resolves.toBe(8);
+
+      expect(code).toContain("ai.run('node:' + nodeId, run)");
+      expect(runtime.record.nodes.map(node => node.output)).toEqual([{ n: 4 }, 8]);
+    });
+  });
+});
@@ -52,7 +52,8 @@ export enum SubBlockType {
   SCHEMA = 'schema',
   MODEL_SELECTOR = 'model_selector',
   PROVIDER_SELECTOR = 'provider_selector',
-  CONNECTION_SELECTOR = 'connection_selector'
+  CONNECTION_SELECTOR = 'connection_selector',
+  FLOW_SELECTOR = 'flow_selector'
 }
 
 export type BlockCategory = 'input' | 'genai' | 'output' | 'logic' | 'data' | 'control';
@@ -64,6 +65,7 @@ export interface ValidationResult {
 
 export interface ValidationError {
   field?: string;
+  blockId?: string;
   message: string;
   severity: 'error' | 'warning' | 'info';
 }
@@ -75,6 +77,34 @@ export interface CodeGenerationContext {
   variables: Array<{ name: string; type: string; description?: string }>;
   attachments?: Record<string, Array<{ id: string; blockType: string; config: any }>>;
   currentBlockId?: string;
+  genkitEntry?: 'genkit' | 'genkit/beta'; // Module the generated code imports genkit from
+  subflows?: Record<string, ResolvedSubflow>; // Child flows resolved for each subflow block
+  definitions?: Map<string, string>; // Module-level code shared by blocks, emitted once per name
+  prompts?: Record<string, ResolvedPrompt>; // Library prompts resolved for each agent block
+}
+
+/**
+ * Library prompt resolved for an agent block before code generation
+ */
+export interface ResolvedPrompt {
+  promptId: string;
+  name: string;
+  version: number;
+  template: string;
+  variables: string[];
+}
+
+/**
+ * Child flow definition resolved for a subflow block before code generation
+ */
+export interface ResolvedSubflow {
+  flowId: string;
+  alias: string;
+  version: string | null;
+  blocks: BlockInstance[];
+  edges: FlowEdge[];
+  subflows: Record<string, ResolvedSubflow>;
+  prompts: Record<string, ResolvedPrompt>;
 }
 
 /**
@@ -0,0 +1,13 @@
+/**
+ * Safety checks for user-authored JavaScript embedded in blocks
+ */
+
+// Patterns that give user code access to the host runtime
+export const UNSAFE_CODE_PATTERNS = ['eval(', 'Function(', 'require(', 'import(', 'process.', 'global.'];
+
+/**
+ * Check whether a code snippet contains any potentially unsafe pattern
+ */
+export function containsUnsafeCode(code: string): boolean {
+  return UNSAFE_CODE_PATTERNS.some(pattern => code.includes(pattern));
+}
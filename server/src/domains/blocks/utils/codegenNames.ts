@@ -0,0 +1,32 @@
+/**
+ * Naming rules for identifiers emitted into generated flow code
+ */
+
+export function toIdentifier(id: string): string {
+  return id.replace(/[^a-zA-Z0-9]/g, '_');
+}
+
+export function getAttachmentVariable(blockId: string): string {
+  return `attachment_${toIdentifier(blockId)}`;
+}
+
+/**
+ * Function holding the per-item sub-graph of a ForEach step
+ */
+export function getLoopBodyVariable(stepVar: string): string {
+  return `${stepVar}Body`;
+}
+
+/**
+ * Nested Genkit flow generated for a child flow version
+ */
+export function getSubflowVariable(flowId: string, version: string | null): string {
+  return `subflow_${toIdentifier(flowId)}${version ? `_v${toIdentifier(version)}` : ''}`;
+}
+
+/**
+ * Genkit prompt compiled from a prompt library entry at a given version
+ */
+export function getPromptVariable(promptId: string, version: number): string {
+  return `prompt_${toIdentifier(promptId)}_v${version}`;
+}
@@ -0,0 +1,167 @@
+import { CodeGenerationContext, SubBlockOption } from '../types';
+
+/**
+ * Flow-scoped document store shared by the embed, index and retrieve blocks.
+ *
+ * The server loads the stored documents of the flow and of the sub-flows that
+ * retrieve into the runtime context before a run (`flowshapr.documents`, keyed
+ * by flow id; `flowshapr.flowId` names the flow the code belongs to). The
+ * generated indexer appends to its flow's list and to `flowshapr.record.documents`,
+ * tagged with the flow id, which the server persists once the run ends.
+ */
+
+export const FAKE_EMBEDDER = 'flowshapr/fake-embedder';
+export const FAKE_EMBEDDING_DIMENSIONS = 64;
+export const DOCUMENT_STORE = 'flowshapr/flow-documents';
+
+export const EMBEDDER_OPTIONS: SubBlockOption[] = [
+  { value: 'googleai/text-embedding-004', label: 'Google text-embedding-004' },
+  { value: 'openai/text-embedding-3-small', label: 'OpenAI text-embedding-3-small' },
+  { value: FAKE_EMBEDDER, label: 'Fake embedder', description: 'Deterministic offline embeddings for testing' }
+];
+
+const EMBEDDER_PLUGINS: Record<string, string> = {
+  googleai: 'googleAI()',
+  openai: 'openAI()'
+};
+
+export function validateEmbedder(embedder: unknown): string | null {
+  if (!embedder || typeof embedder !== 'string') {
+    return 'Embedder is required';
+  }
+  if (!EMBEDDER_OPTIONS.some(option => option.value === embedder)) {
+    return `Unsupported embedder: ${embedder}`;
+  }
+  return null;
+}
+
+export function getEmbedderPlugins(embedder: string): string[] {
+  const plugin = EMBEDDER_PLUGINS[(embedder || '').split('/')[0]];
+  return plugin ? [plugin] : [];
+}
+
+/**
+ * Register what the generated code needs to call an embedder
+ */
+export function useEmbedder(embedder: string, context: CodeGenerationContext): void {
+  if (embedder === FAKE_EMBEDDER) {
+    addDefinition(context, 'fakeEmbedder', generateFakeEmbedder());
+  }
+  getEmbedderPlugins(embedder).forEach(plugin => context.plugins.add(plugin));
+}
+
+/**
+ * Register the indexer and retriever backed by the flow's document store
+ */
+export function useDocumentStore(embedder: string, context: CodeGenerationContext): void {
+  useEmbedder(embedder, context);
+  addDefinition(context, 'documentStore', generateDocumentStore());
+}
+
+function addDefinition(context: CodeGenerationContext, name: string, code: string): void {
+  if (!context.definitions) {
+    context.definitions = new Map();
+  }
+  if (!context.definitions.has(name)) {
+    context.definitions.set(name, code);
+  }
+}
+
+// Hashed bag-of-words vectors: similar wording gives similar vectors without any provider
+function generateFakeEmbedder(): string {
+  return `ai.defineEmbedder({
+  name: '${FAKE_EMBEDDER}',
+  info: { label: 'Fake embedder', dimensions: ${FAKE_EMBEDDING_DIMENSIONS} },
+}, async (documents) => ({
+  embeddings: documents.map((document) => {
+    const vector = new Array(${FAKE_EMBEDDING_DIMENSIONS}).fill(0);
+    for (const word of document.text.toLowerCase().match(/[\\p{L}\\p{N}]+/gu) || []) {
+      let hash = 2166136261;
+      for (let i = 0; i < word.length; i++) {
+        hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+      }
+      vector[(hash >>> 0) % ${FAKE_EMBEDDING_DIMENSIONS}] += 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return { embedding: vector.map((value) => value / norm) };
+  }),
+}));`;
+}
+
+function generateDocumentStore(): string {
+  return `const flowDocuments = () => {
+  const runtime = (ai.currentContext() || {}).flowshapr || {};
+  if (!runtime.documents) runtime.documents = {};
+  const key = runtime.flowId || '';
+  if (!runtime.documents[key]) runtime.documents[key] = [];
+  return { runtime, documents: runtime.documents[key] };
+};
+
+const chunkDocumentText = (text, size, overlap) => {
+  if (!size || text.length <= size) return text.trim() ? [text.trim()] : [];
+  const chunks = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    // Prefer to break on whitespace in the second half of the chunk
+    const space = end < text.length ? text.lastIndexOf(' ', end) : -1;
+    if (space > start + size / 2) end = space;
+    const chunk = text.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= text.length) break;
+    // Overlap from the start of the word it would otherwise cut
+    const overlapStart = Math.max(end - overlap, start + 1);
+    const wordStart = text.lastIndexOf(' ', overlapStart) + 1;
+    start = wordStart > start ? wordStart : overlapStart;
+  }
+  return chunks;
+};
+
+const cosineSimilarity = (a, b) => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+ai.defineIndexer({
+  name: '${DOCUMENT_STORE}',
+  configSchema: z.object({ embedder: z.string() }),
+}, async (documents, options) => {
+  const { runtime, documents: stored } = flowDocuments();
+  const embeddings = await ai.embedMany({ embedder: options.embedder, content: documents.map((document) => document.text) });
+  const indexed = documents.map((document, i) => ({
+    content: document.text,
+    metadata: document.metadata || {},
+    embedding: embeddings[i].embedding,
+    embedder: options.embedder,
+  }));
+  stored.push(...indexed);
+  if (runtime.record) {
+    if (!runtime.record.documents) runtime.record.documents = [];
+    runtime.record.documents.push(...indexed.map((document) => ({ ...document, flowId: runtime.flowId })));
+  }
+});
+
+ai.defineRetriever({
+  name: '${DOCUMENT_STORE}',
+  configSchema: z.object({ embedder: z.string(), k: z.number() }),
+}, async (query, options) => {
+  const [{ embedding }] = await ai.embed({ embedder: options.embedder, content: query.text });
+  // Vectors from different embedders are not comparable
+  const ranked = flowDocuments().documents
+    .filter((document) => document.embedder === options.embedder)
+    .map((document) => ({ document, score: cosineSimilarity(embedding, document.embedding) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.k);
+  return {
+    documents: ranked.map(({ document, score }) => ({
+      content: [{ text: document.content }],
+      metadata: { ...document.metadata, score },
+    })),
+  };
+});`;
+}
@@ -0,0 +1,169 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SubBlockOption } from '../types';
+
+/**
+ * Deterministic `mock` model provider for offline flow runs.
+ *
+ * Agent blocks using it generate code against the `mockModels()` Genkit plugin
+ * emitted into the flow module. Its models reply from scripted rules: the first
+ * rule whose `match` regex matches the last user message wins, and messages no
+ * rule matches are echoed back. Rules come from the block config and from
+ * fixture files the server loads into the runtime context (`flowshapr.mockFixtures`).
+ */
+
+export const MOCK_PLUGIN = 'mockModels()';
+
+export const MOCK_MODEL_OPTIONS: SubBlockOption[] = [
+  { value: 'scripted', label: 'Mock (scripted)', description: 'Scripted responses for offline testing' },
+  { value: 'echo', label: 'Mock (echo)', description: 'Echoes the prompt back' }
+];
+
+export interface MockResponseRule {
+  match?: string; // Regex tested against the last user message; rules without one always match
+  text?: string;
+  output?: unknown; // Structured output, returned as JSON
+  toolRequest?: { name?: string; input?: unknown }; // Defaults to the first tool offered to the model
+}
+
+const FIXTURE_NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Parse scripted rules from block config (a JSON string) or a fixture file.
+ * Fixture files may also wrap the rules as `{ "responses": [...] }`.
+ */
+export function parseMockResponses(value: unknown): { rules: MockResponseRule[]; error?: string } {
+  if (value === undefined || value === null) return { rules: [] };
+  let parsed = value;
+  if (typeof value === 'string') {
+    if (!value.trim()) return { rules: [] };
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return { rules: [], error: 'Mock responses must be valid JSON' };
+    }
+  }
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && Array.isArray((parsed as any).responses)) {
+    parsed = (parsed as any).responses;
+  }
+  if (!Array.isArray(parsed)) {
+    return { rules: [], error: 'Mock responses must be an array of rules' };
+  }
+
+  for (const [index, rule] of parsed.entries()) {
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      return { rules: [], error: `Mock response ${index + 1} must be an object` };
+    }
+    if (rule.match !== undefined) {
+      try {
+        new RegExp(rule.match);
+      } catch {
+        return { rules: [], error: `Mock response ${index + 1} has an invalid match pattern` };
+      }
+    }
+    const replies = ['text', 'output', 'toolRequest'].filter(key => rule[key] !== undefined);
+    if (replies.length > 1) {
+      return { rules: [], error: `Mock response ${index + 1} must set only one of text, output or toolRequest` };
+    }
+    if (rule.toolRequest !== undefined && (typeof rule.toolRequest !== 'object' || rule.toolRequest === null)) {
+      return { rules: [], error: `Mock response ${index + 1} has an invalid toolRequest` };
+    }
+  }
+  return { rules: parsed };
+}
+
+export function validateMockFixtureName(name: unknown): string | null {
+  if (name === undefined || name === null || name === '') return null;
+  return typeof name === 'string' && FIXTURE_NAME.test(name)
+    ? null
+    : 'Mock fixture names may only contain letters, numbers, dashes and underscores';
+}
+
+/**
+ * Directory holding mock fixture files, `<name>.json`
+ */
+export function getMockFixturesDir(): string {
+  return process.env.MOCK_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'mock-models');
+}
+
+/**
+ * Read and validate the rules of a fixture file
+ */
+export async function readMockFixture(name: string, dir: string = getMockFixturesDir()): Promise<MockResponseRule[]> {
+  const nameError = validateMockFixtureName(name);
+  if (nameError) {
+    throw new Error(nameError);
+  }
+
+  let contents: string;
+  try {
+    contents = await fs.readFile(path.join(dir, `${name}.json`), 'utf8');
+  } catch {
+    throw new Error(`Mock fixture "${name}" was not found`);
+  }
+
+  const { rules, error } = parseMockResponses(contents);
+  if (error) {
+    throw new Error(`Mock fixture "${name}": ${error}`);
+  }
+  return rules;
+}
+
+/**
+ * Expression for the rules a mock agent passes to its model: the block's own
+ * rules first, then those of its fixture
+ */
+export function generateMockResponses(rules: MockResponseRule[], fixture?: string): string {
+  const inline = JSON.stringify(rules);
+  return fixture
+    ? `${inline}.concat((runtime.mockFixtures || {})[${JSON.stringify(fixture)}] || [])`
+    : inline;
+}
+
+/**
+ * Genkit plugin defining the mock models, emitted before the Genkit instance is created
+ */
+export function generateMockModelsPlugin(): string {
+  return `// Scripted models for offline runs: the first rule matching the last user message
+// replies with text, JSON output or a tool request; anything else is echoed back
+function mockModels() {
+  return genkitPlugin('mock', async (ai) => {
+    const textOf = (message) => ((message && message.content) || []).map((part) => part.text || '').join('');
+    const toolOutputOf = (part) => typeof part.toolResponse.output === 'string' ? part.toolResponse.output : JSON.stringify(part.toolResponse.output);
+    for (const name of ${JSON.stringify(MOCK_MODEL_OPTIONS.map(option => option.value))}) {
+      ai.defineModel({
+        name: 'mock/' + name,
+        label: 'Mock ' + name,
+        supports: { multiturn: true, tools: true, systemRole: true, output: ['text', 'json'] },
+      }, async (request, streamingCallback) => {
+        const prompt = textOf([...request.messages].reverse().find((message) => message.role === 'user'));
+        const last = request.messages[request.messages.length - 1];
+        // Once tools have answered, only rules that do not request a tool apply
+        const toolTurn = Boolean(last && last.role === 'tool');
+        const rules = name === 'scripted' ? ((request.config && request.config.responses) || []) : [];
+        const rule = rules.find((candidate) =>
+          !(toolTurn && candidate.toolRequest) && (!candidate.match || new RegExp(candidate.match).test(prompt)));
+
+        let content;
+        if (rule && rule.toolRequest) {
+          const tool = rule.toolRequest.name || (request.tools && request.tools[0] && request.tools[0].name);
+          content = [{ toolRequest: { name: tool, ref: '0', input: rule.toolRequest.input || {} } }];
+        } else if (rule && rule.output !== undefined) {
+          content = [{ text: JSON.stringify(rule.output) }];
+        } else if (rule && typeof rule.text === 'string') {
+          content = [{ text: rule.text }];
+        } else if (toolTurn) {
+          content = [{ text: last.content.filter((part) => part.toolResponse).map(toolOutputOf).join('\\n') }];
+        } else {
+          content = [{ text: prompt }];
+        }
+
+        if (streamingCallback && content[0].text) {
+          streamingCallback({ index: 0, role: 'model', content });
+        }
+        return { message: { role: 'model', content }, finishReason: 'stop' };
+      });
+    }
+  });
+}`;
+}
@@ -0,0 +1,79 @@
+import { CodeGenerationContext } from '../types';
+
+/**
+ * Record and replay of the model calls agent blocks make.
+ *
+ * Runs started with `flowshapr.modelCalls` set push every model request and
+ * response onto `flowshapr.record.modelCalls`. When `modelCalls.replay` holds the
+ * calls of an earlier run, calls with the same node, model and request are
+ * answered from it, in recorded order, instead of reaching the provider. Calls
+ * without a recording go live or fail the node, as `modelCalls.onUnmatched` says.
+ */
+
+const MIDDLEWARE_NAME = 'modelCallMiddleware';
+
+/**
+ * Register the model call middleware and return the `use` option for an agent's generate call
+ */
+export function useModelCalls(context: CodeGenerationContext, nodeId: string, model: string): string {
+  if (!context.definitions) {
+    context.definitions = new Map();
+  }
+  if (!context.definitions.has(MIDDLEWARE_NAME)) {
+    context.definitions.set(MIDDLEWARE_NAME, generateModelCallMiddleware());
+  }
+  return `use: ${MIDDLEWARE_NAME}(runtime, ${JSON.stringify(nodeId)}, ${JSON.stringify(model)}, sendChunk)`;
+}
+
+// Requests are compared in canonical JSON so stored recordings match regardless of key order
+function generateModelCallMiddleware(): string {
+  return `const modelCallKey = (nodeId, model, request) => {
+  const canonical = (value) => Array.isArray(value)
+    ? value.map(canonical)
+    : value && typeof value === 'object'
+      ? Object.keys(value).sort().reduce((sorted, key) => ({ ...sorted, [key]: canonical(value[key]) }), {})
+      : value;
+  const { messages, tools, config, output } = request;
+  return JSON.stringify(canonical({ nodeId, model, messages, tools, config, output }));
+};
+
+function ${MIDDLEWARE_NAME}(runtime, nodeId, model, sendChunk) {
+  const modelCalls = runtime.modelCalls;
+  if (!modelCalls) return [];
+  if (modelCalls.replay && !modelCalls.pending) {
+    // Recorded calls still to be served, by request
+    modelCalls.pending = new Map();
+    for (const call of modelCalls.replay) {
+      const key = modelCallKey(call.nodeId, call.model, call.request);
+      modelCalls.pending.set(key, [...(modelCalls.pending.get(key) || []), call]);
+    }
+  }
+
+  return [async (liveRequest, next) => {
+    const request = JSON.parse(JSON.stringify(liveRequest));
+    const start = Date.now();
+    let response;
+    let replayed = false;
+    if (modelCalls.pending) {
+      const recorded = (modelCalls.pending.get(modelCallKey(nodeId, model, request)) || []).shift();
+      if (recorded) {
+        response = recorded.response;
+        replayed = true;
+        const text = ((response.message && response.message.content) || []).map((part) => part.text || '').join('');
+        if (text) sendChunk({ nodeId, text });
+      } else if (modelCalls.onUnmatched !== 'live') {
+        const unmatchedError = new Error('No recorded model call matches this request of node "' + nodeId + '"');
+        unmatchedError.nodeId = nodeId;
+        throw unmatchedError;
+      }
+    }
+    if (!replayed) {
+      response = JSON.parse(JSON.stringify(await next(liveRequest)));
+    }
+    if (runtime.record && runtime.record.modelCalls) {
+      runtime.record.modelCalls.push({ nodeId, model, request, response, duration: Date.now() - start, ...(modelCalls.pending ? { replayed } : {}) });
+    }
+    return response;
+  }];
+}`;
+}
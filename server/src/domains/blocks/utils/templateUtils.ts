@@ -75,11 +75,13 @@ export function generateTemplateCode(
  * This creates a more robust template system similar to Genkit's approach
  * @param template The template string
  * @param availableVars Variables available in the current scope
+ * @param formatValue Optional wrapper applied to each resolved value expression (e.g. URL encoding)
  * @returns JavaScript code that handles template replacement
  */
 export function generateContextualTemplateCode(
   template: string, 
-  availableVars: string[] = []
+  availableVars: string[] = [],
+  formatValue?: (expression: string) => string
 ): string {
   const templateVars = extractTemplateVariables(template);
   
@@ -88,26 +90,42 @@ export function generateContextualTemplateCode(
     return JSON.stringify(template);
   }
   
-  // Build template replacement using template literal with context
-  let code = template;
-  
-  for (const varName of templateVars) {
-    // Create a regex that matches the variable with optional whitespace
-    const varRegex = new RegExp(`\\{\\{\\s*${varName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\}\\}`, 'g');
-    
-    // Choose the replacement strategy
-    if (availableVars.includes(varName)) {
-      // Direct variable access if in scope
-      code = code.replace(varRegex, `\${${varName}}`);
-    } else {
-      // Context-based access for step variables
-      code = code.replace(varRegex, `\${ctx['${varName}']}`);
-    }
+  // Build template replacement using template literal with context.
+  // Literal text is escaped so backticks and `${` in the template stay text.
+  const regex = /\{\{\s*([^}]+)\s*\}\}/g;
+  let code = '';
+  let lastIndex = 0;
+  let match;
+
+  while ((match = regex.exec(template)) !== null) {
+    code += escapeTemplateLiteral(template.slice(lastIndex, match.index));
+    const expression = getTemplateValueExpression(match[1].trim(), availableVars);
+    code += `\${${formatValue ? formatValue(expression) : expression}}`;
+    lastIndex = regex.lastIndex;
   }
+  code += escapeTemplateLiteral(template.slice(lastIndex));
   
   return `\`${code}\``;
 }
 
+/**
+ * Resolve a template variable to an expression: direct access when it is in
+ * scope, otherwise a lookup on the context. Dotted names walk into the value
+ * (e.g. {{step1.user.id}}).
+ */
+function getTemplateValueExpression(varName: string, availableVars: string[]): string {
+  if (availableVars.includes(varName)) {
+    return varName;
+  }
+  const [root, ...path] = varName.split('.');
+  const base = availableVars.includes(root) ? root : `ctx[${JSON.stringify(root)}]`;
+  return path.reduce((expression, key) => `${expression}?.[${JSON.stringify(key)}]`, base);
+}
+
+function escapeTemplateLiteral(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+}
+
 /**
  * Validate that all template variables can be resolved
  * @param template The template string
@@ -7,6 +7,7 @@ export interface ConnectionInput {
   provider: string;
   apiKey: string;
   isActive?: boolean;
+  environment?: string | null;
 }
 
 export class ConnectionsService {
@@ -17,6 +18,7 @@ export class ConnectionsService {
       provider: (schema as any).connection.provider,
       apiKey: (schema as any).connection.apiKey,
       isActive: (schema as any).connection.isActive,
+      environment: (schema as any).connection.environment,
       createdAt: (schema as any).connection.createdAt,
     }).from((schema as any).connection).where(eq((schema as any).connection.flowId, flowId));
     return rows;
@@ -30,6 +32,7 @@ export class ConnectionsService {
       provider: input.provider,
       apiKey: input.apiKey,
       isActive: input.isActive ?? true,
+      environment: input.environment || null,
       flowId,
       createdBy: userId,
     }).returning();
@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { ENVIRONMENTS } from '../../environments/types';
+
+// Environment a connection serves; connections without one serve the editor and runs outside environments
+const environmentSchema = z.enum(ENVIRONMENTS).nullable();
 
 export const connectionIdParamsSchema = z.object({
   id: z.string().min(1, 'Invalid flow ID'),
@@ -10,6 +14,7 @@ export const createConnectionSchema = z.object({
   provider: z.string().min(1, 'Provider is required').max(50),
   apiKey: z.string().min(1, 'API key is required'),
   isActive: z.boolean().optional(),
+  environment: environmentSchema.optional(),
 });
 
 export const updateConnectionSchema = z.object({
@@ -17,5 +22,6 @@ export const updateConnectionSchema = z.object({
   provider: z.string().min(1).max(50).optional(),
   apiKey: z.string().min(1).optional(),
   isActive: z.boolean().optional(),
+  environment: environmentSchema.optional(),
 });
 
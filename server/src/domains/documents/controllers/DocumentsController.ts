@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import { documentsService } from '../services/DocumentsService';
+import { flowService } from '../../flows/services/FlowService';
+import { logError } from '../../../shared/utils/logger';
+
+export class DocumentsController {
+  async listByFlow(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any;
+      const flow = await flowService.getFlowById(id, req.user!.id);
+      if (!flow) { res.status(404).json({ success: false, error: { message: 'Flow not found' } }); return; }
+      const rows = await documentsService.listByFlow(id);
+      res.json({ success: true, data: rows });
+    } catch (e) {
+      res.status(500).json({ success: false, error: { message: 'Failed to list documents' } });
+    }
+  }
+
+  async deleteByFlow(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any;
+      const flow = await flowService.getFlowById(id, req.user!.id);
+      if (!flow) { res.status(404).json({ success: false, error: { message: 'Flow not found' } }); return; }
+      const deleted = await documentsService.deleteByFlow(id);
+      res.json({ success: true, data: { deleted } });
+    } catch (e) {
+      logError('Delete documents error:', (e as any)?.message || e);
+      res.status(500).json({ success: false, error: { message: 'Failed to delete documents' } });
+    }
+  }
+}
+
+export const documentsController = new DocumentsController();
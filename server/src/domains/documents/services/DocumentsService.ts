@@ -0,0 +1,85 @@
+import { and, eq, desc, inArray } from 'drizzle-orm';
+import { db } from '../../../infrastructure/database/connection';
+import * as schema from '../../../infrastructure/database/schema';
+import { FlowDocument } from '../../../infrastructure/container-pool/ContainerPoolService';
+import { logWarn } from '../../../shared/utils/logger';
+
+export class DocumentsService {
+  /**
+   * Documents stored for a flow, without their embeddings
+   */
+  async listByFlow(flowId: string) {
+    const doc = (schema as any).flowDocument;
+    const rows = await (db as any)
+      .select({
+        id: doc.id,
+        content: doc.content,
+        metadata: doc.metadata,
+        embedder: doc.embedder,
+        executionId: doc.executionId,
+        createdAt: doc.createdAt,
+      })
+      .from(doc)
+      .where(eq(doc.flowId, flowId))
+      .orderBy(desc(doc.createdAt));
+    return rows;
+  }
+
+  /**
+   * The flow's document store as handed to a run for retrieval: only chunks of
+   * the given embedders, newest first, up to `maxBytes` of JSON
+   */
+  async loadStore(flowId: string, embedders: string[], maxBytes: number): Promise<FlowDocument[]> {
+    if (embedders.length === 0) return [];
+    const doc = (schema as any).flowDocument;
+    const rows = await (db as any)
+      .select({
+        content: doc.content,
+        metadata: doc.metadata,
+        embedding: doc.embedding,
+        embedder: doc.embedder,
+      })
+      .from(doc)
+      .where(and(eq(doc.flowId, flowId), inArray(doc.embedder, embedders)))
+      .orderBy(desc(doc.createdAt));
+
+    const documents: FlowDocument[] = [];
+    let bytes = 0;
+    for (const row of rows) {
+      const document = { ...row, metadata: row.metadata || {} };
+      bytes += JSON.stringify(document).length;
+      if (bytes > maxBytes) {
+        logWarn(`Document store of flow ${flowId} exceeds what a run can carry; searching the newest ${documents.length} of ${rows.length} chunks`);
+        break;
+      }
+      documents.push(document);
+    }
+    return documents;
+  }
+
+  async addDocuments(flowId: string, executionId: string | null, documents: FlowDocument[]) {
+    if (documents.length === 0) return 0;
+    const values = documents.map(document => ({
+      id: `doc_${Date.now()}_${Math.random().toString(36).slice(2,10)}`,
+      content: document.content,
+      metadata: document.metadata || {},
+      embedding: document.embedding,
+      embedder: document.embedder,
+      executionId,
+      flowId,
+    }));
+    await (db as any).insert((schema as any).flowDocument).values(values);
+    return values.length;
+  }
+
+  async deleteByFlow(flowId: string) {
+    const doc = (schema as any).flowDocument;
+    const rows = await (db as any)
+      .delete(doc)
+      .where(eq(doc.flowId, flowId))
+      .returning({ id: doc.id });
+    return rows?.length || 0;
+  }
+}
+
+export const documentsService = new DocumentsService();
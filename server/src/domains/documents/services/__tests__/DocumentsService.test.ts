@@ -0,0 +1,101 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Create mock database object first
+const mockDb = {
+  select: jest.fn(),
+  insert: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  transaction: jest.fn(),
+};
+
+// Mock the database connection before importing DocumentsService
+jest.mock('../../../../infrastructure/database/connection', () => ({
+  db: mockDb,
+}));
+
+// Now import after mocking
+import { DocumentsService } from '../DocumentsService';
+import { resetDbMocks } from '../../../../test-utils';
+
+describe('DocumentsService', () => {
+  let documentsService: DocumentsService;
+  const flowId = 'flow-123';
+  const document = {
+    content: 'Rockets launch from Florida.',
+    metadata: { source: 'space' },
+    embedding: [0.6, 0.8],
+    embedder: 'flowshapr/fake-embedder',
+  };
+
+  beforeEach(() => {
+    resetDbMocks();
+    documentsService = new DocumentsService();
+  });
+
+  describe('loadStore', () => {
+    const mockRows = (rows: any[]) => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ orderBy: jest.fn().mockResolvedValue(rows as never) }),
+        }),
+      });
+    };
+
+    it('should return stored chunks with their embeddings', async () => {
+      mockRows([document, { ...document, metadata: null }]);
+
+      const result = await documentsService.loadStore(flowId, [document.embedder], 1024);
+
+      expect(result).toEqual([document, { ...document, metadata: {} }]);
+    });
+
+    it('should stop at the size a run can carry', async () => {
+      mockRows([document, document, document]);
+      const size = JSON.stringify(document).length;
+
+      const result = await documentsService.loadStore(flowId, [document.embedder], size * 2 + 1);
+
+      expect(result).toHaveLength(2);
+    });
+
+    it('should not query without embedders to search', async () => {
+      await expect(documentsService.loadStore(flowId, [], 1024)).resolves.toEqual([]);
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addDocuments', () => {
+    it('should insert indexed chunks for the flow and execution', async () => {
+      const values = jest.fn().mockResolvedValue(undefined as never);
+      mockDb.insert.mockReturnValue({ values });
+
+      const count = await documentsService.addDocuments(flowId, 'exec-1', [document, document]);
+
+      expect(count).toBe(2);
+      const rows = values.mock.calls[0][0] as any[];
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({ ...document, flowId, executionId: 'exec-1', id: expect.stringMatching(/^doc_/) });
+      expect(rows[0].id).not.toBe(rows[1].id);
+    });
+
+    it('should skip the insert when nothing was indexed', async () => {
+      const count = await documentsService.addDocuments(flowId, 'exec-1', []);
+
+      expect(count).toBe(0);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteByFlow', () => {
+    it('should report how many chunks were removed', async () => {
+      mockDb.delete.mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          returning: jest.fn().mockResolvedValue([{ id: 'doc_1' }, { id: 'doc_2' }] as never),
+        }),
+      });
+
+      await expect(documentsService.deleteByFlow(flowId)).resolves.toBe(2);
+    });
+  });
+});
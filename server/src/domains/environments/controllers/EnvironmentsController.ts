@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { environmentsService } from '../services/EnvironmentsService';
+import { trafficSplitService } from '../services/TrafficSplitService';
+import { EnvironmentName } from '../types';
+import { AppError, ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../../shared/utils/errors';
+import { AuthorizationError } from '../../../shared/authorization/service-guard';
+import { logError } from '../../../shared/utils/logger';
+
+export class EnvironmentsController {
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any; // flowId
+      const environments = await environmentsService.list(id, req.user!.id);
+      res.json({ success: true, data: environments });
+    } catch (e) {
+      logError('List environments error:', e);
+      this.sendError(res, e, 'Failed to list environments');
+    }
+  }
+
+  async deploy(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, environment } = req.params as any; // flowId, environment
+      const deployed = await environmentsService.deploy(id, environment as EnvironmentName, req.body, req.user!.id);
+      res.json({ success: true, data: deployed, message: `Version ${deployed.version} deployed to ${environment}` });
+    } catch (e) {
+      logError('Deploy environment error:', e);
+      this.sendError(res, e, 'Failed to deploy environment');
+    }
+  }
+
+  async promote(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any; // flowId
+      const promoted = await environmentsService.promote(id, req.body, req.user!.id);
+      res.json({ success: true, data: promoted, message: `Version ${promoted.version} promoted to ${promoted.name}` });
+    } catch (e) {
+      logError('Promote environment error:', e);
+      this.sendError(res, e, 'Failed to promote environment');
+    }
+  }
+
+  async listPromotions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any; // flowId
+      const promotions = await environmentsService.listPromotions(id, req.user!.id);
+      res.json({ success: true, data: promotions });
+    } catch (e) {
+      logError('List promotions error:', e);
+      this.sendError(res, e, 'Failed to list promotions');
+    }
+  }
+
+  async getTrafficSplit(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any; // flowId
+      const split = await trafficSplitService.get(id, req.user!.id);
+      res.json({ success: true, data: split });
+    } catch (e) {
+      logError('Get traffic split error:', e);
+      this.sendError(res, e, 'Failed to get traffic split');
+    }
+  }
+
+  async setTrafficSplit(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any; // flowId
+      const split = await trafficSplitService.set(id, req.body, req.user!.id);
+      res.json({ success: true, data: split, message: 'Traffic split updated' });
+    } catch (e) {
+      logError('Set traffic split error:', e);
+      this.sendError(res, e, 'Failed to update traffic split');
+    }
+  }
+
+  async clearTrafficSplit(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any; // flowId
+      await trafficSplitService.clear(id, req.user!.id);
+      res.json({ success: true, message: 'Traffic split removed' });
+    } catch (e) {
+      logError('Clear traffic split error:', e);
+      this.sendError(res, e, 'Failed to remove traffic split');
+    }
+  }
+
+  async summarizeTrafficSplit(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any; // flowId
+      const since = typeof req.query.since === 'string' ? new Date(req.query.since) : undefined;
+      const summary = await trafficSplitService.summarize(id, req.user!.id, since);
+      res.json({ success: true, data: summary });
+    } catch (e) {
+      logError('Summarize traffic split error:', e);
+      this.sendError(res, e, 'Failed to summarize traffic split');
+    }
+  }
+
+  private sendError(res: Response, error: unknown, fallbackMessage: string): void {
+    if (error instanceof AuthorizationError) {
+      res.status(403).json({ success: false, error: { message: error.message, code: 'FORBIDDEN' } });
+      return;
+    }
+    if (error instanceof AppError) {
+      const code = error instanceof NotFoundError ? 'NOT_FOUND'
+        : error instanceof ForbiddenError ? 'FORBIDDEN'
+        : error instanceof ConflictError ? 'CONFLICT'
+        : error instanceof ValidationError ? 'VALIDATION_ERROR'
+        : 'INTERNAL_ERROR';
+      res.status(error.statusCode).json({ success: false, error: { message: error.message, code } });
+      return;
+    }
+    res.status(500).json({ success: false, error: { message: fallbackMessage, code: 'INTERNAL_ERROR' } });
+  }
+}
+
+export const environmentsController = new EnvironmentsController();
@@ -0,0 +1,156 @@
+import { desc, eq } from 'drizzle-orm';
+import { db } from '../../../infrastructure/database/connection';
+import * as schema from '../../../infrastructure/database/schema';
+import { flowService } from '../../flows/services/FlowService';
+import { Flow } from '../../flows/types';
+import { DeploymentSettings, ENVIRONMENTS, EnvironmentName, FlowEnvironment, FlowPromotion } from '../types';
+import { generateId } from '../../../shared/utils/crypto';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../../shared/utils/errors';
+
+export class EnvironmentsService {
+  async list(flowId: string, userId: string): Promise<FlowEnvironment[]> {
+    await this.getAccessibleFlow(flowId, userId);
+    const settings = await this.getDeploymentSettings(flowId);
+    return ENVIRONMENTS.map(name => this.describe(name, settings));
+  }
+
+  /**
+   * Point an environment at a published version directly, typically dev
+   */
+  async deploy(flowId: string, environment: EnvironmentName, data: { version: string; reason?: string }, userId: string): Promise<FlowEnvironment> {
+    await this.requireDeployableFlow(flowId, userId);
+
+    const snapshot = await flowService.getFlowVersion(flowId, data.version);
+    if (!snapshot) {
+      throw new NotFoundError('Flow version not found');
+    }
+    return this.recordDeployment(flowId, environment, data.version, null, data.reason, userId);
+  }
+
+  /**
+   * Move the version an environment runs to the next environment in line
+   */
+  async promote(flowId: string, data: { from: EnvironmentName; to: EnvironmentName; reason: string }, userId: string): Promise<FlowEnvironment> {
+    await this.requireDeployableFlow(flowId, userId);
+
+    if (ENVIRONMENTS.indexOf(data.to) !== ENVIRONMENTS.indexOf(data.from) + 1) {
+      throw new ValidationError(`${data.from} can only be promoted to ${ENVIRONMENTS[ENVIRONMENTS.indexOf(data.from) + 1] || 'no other environment'}`);
+    }
+
+    const settings = await this.getDeploymentSettings(flowId);
+    const source = settings.environments?.[data.from];
+    if (!source) {
+      throw new ConflictError(`Nothing is deployed to ${data.from}`);
+    }
+    return this.recordDeployment(flowId, data.to, source.version, data.from, data.reason, userId);
+  }
+
+  async listPromotions(flowId: string, userId: string): Promise<FlowPromotion[]> {
+    await this.getAccessibleFlow(flowId, userId);
+    const rows = await (db as any)
+      .select({
+        id: schema.flowPromotion.id,
+        environment: schema.flowPromotion.environment,
+        fromEnvironment: schema.flowPromotion.fromEnvironment,
+        version: schema.flowPromotion.version,
+        previousVersion: schema.flowPromotion.previousVersion,
+        reason: schema.flowPromotion.reason,
+        promotedBy: schema.flowPromotion.promotedBy,
+        promotedByName: schema.user.name,
+        createdAt: schema.flowPromotion.createdAt,
+      })
+      .from(schema.flowPromotion)
+      .leftJoin(schema.user, eq(schema.flowPromotion.promotedBy, schema.user.id))
+      .where(eq(schema.flowPromotion.flowId, flowId))
+      .orderBy(desc(schema.flowPromotion.createdAt));
+    return rows;
+  }
+
+  /**
+   * Version an environment runs. Callers are expected to have checked access to the flow.
+   */
+  async getDeployedVersion(flowId: string, environment: EnvironmentName): Promise<string | null> {
+    const settings = await this.getDeploymentSettings(flowId);
+    return settings.environments?.[environment]?.version || null;
+  }
+
+  /**
+   * Environments and traffic split stored on a flow. Callers are expected to have checked access to it.
+   */
+  async getDeploymentSettings(flowId: string): Promise<DeploymentSettings> {
+    const rows = await (db as any)
+      .select({ deploymentSettings: schema.flow.deploymentSettings })
+      .from(schema.flow)
+      .where(eq(schema.flow.id, flowId))
+      .limit(1);
+    const settings = rows?.[0]?.deploymentSettings;
+    return settings && typeof settings === 'object' ? settings : {};
+  }
+
+  async saveDeploymentSettings(flowId: string, settings: DeploymentSettings): Promise<void> {
+    await (db as any)
+      .update(schema.flow)
+      .set({ deploymentSettings: settings, updatedAt: new Date() })
+      .where(eq(schema.flow.id, flowId));
+  }
+
+  async getAccessibleFlow(flowId: string, userId: string): Promise<Flow> {
+    const flow = await flowService.getFlowById(flowId, userId);
+    if (!flow) throw new NotFoundError('Flow not found or access denied');
+    return flow;
+  }
+
+  // Deploying changes what API consumers run, so it takes the same role as publishing
+  async requireDeployableFlow(flowId: string, userId: string): Promise<Flow> {
+    const flow = await this.getAccessibleFlow(flowId, userId);
+    if (!['owner', 'admin'].includes(flow.memberRole)) {
+      throw new ForbiddenError("You don't have permission to deploy this flow");
+    }
+    return flow;
+  }
+
+  private async recordDeployment(
+    flowId: string,
+    environment: EnvironmentName,
+    version: string,
+    fromEnvironment: EnvironmentName | null,
+    reason: string | undefined,
+    userId: string
+  ): Promise<FlowEnvironment> {
+    const settings = await this.getDeploymentSettings(flowId);
+    const previousVersion = settings.environments?.[environment]?.version || null;
+    const next: DeploymentSettings = {
+      ...settings,
+      environments: {
+        ...settings.environments,
+        [environment]: { version, deployedAt: new Date().toISOString(), deployedBy: userId },
+      },
+    };
+
+    await this.saveDeploymentSettings(flowId, next);
+    await (db as any).insert(schema.flowPromotion).values({
+      id: generateId(),
+      environment,
+      fromEnvironment,
+      version,
+      previousVersion,
+      reason: reason || null,
+      flowId,
+      promotedBy: userId,
+    });
+
+    return this.describe(environment, next);
+  }
+
+  private describe(name: EnvironmentName, settings: DeploymentSettings): FlowEnvironment {
+    const deployment = settings.environments?.[name];
+    return {
+      name,
+      version: deployment?.version || null,
+      deployedAt: deployment?.deployedAt || null,
+      deployedBy: deployment?.deployedBy || null,
+    };
+  }
+}
+
+export const environmentsService = new EnvironmentsService();
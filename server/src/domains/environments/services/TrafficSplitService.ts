@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import { environmentsService } from './EnvironmentsService';
+import { flowService } from '../../flows/services/FlowService';
+import { tracesService } from '../../traces/services/TracesService';
+import { TrafficSplit, TrafficVariant, TrafficVariantSummary } from '../types';
+import { NotFoundError } from '../../../shared/utils/errors';
+
+/**
+ * Weighted routing of a flow's `by-alias` traffic between published versions,
+ * for canary releases. Runs pinned to a version or environment are not split.
+ */
+export class TrafficSplitService {
+  async get(flowId: string, userId: string): Promise<TrafficSplit | null> {
+    await environmentsService.getAccessibleFlow(flowId, userId);
+    const settings = await environmentsService.getDeploymentSettings(flowId);
+    return settings.trafficSplit || null;
+  }
+
+  async set(flowId: string, data: { variants: TrafficVariant[] }, userId: string): Promise<TrafficSplit> {
+    await environmentsService.requireDeployableFlow(flowId, userId);
+
+    for (const variant of data.variants) {
+      if (!(await flowService.getFlowVersion(flowId, variant.version))) {
+        throw new NotFoundError(`Flow version ${variant.version} not found`);
+      }
+    }
+
+    const trafficSplit: TrafficSplit = { variants: data.variants, updatedAt: new Date().toISOString(), updatedBy: userId };
+    const settings = await environmentsService.getDeploymentSettings(flowId);
+    await environmentsService.saveDeploymentSettings(flowId, { ...settings, trafficSplit });
+    return trafficSplit;
+  }
+
+  // Removing the split sends all traffic back to the latest published version
+  async clear(flowId: string, userId: string): Promise<void> {
+    await environmentsService.requireDeployableFlow(flowId, userId);
+    const settings = await environmentsService.getDeploymentSettings(flowId);
+    await environmentsService.saveDeploymentSettings(flowId, { ...settings, trafficSplit: null });
+  }
+
+  /**
+   * Variant a run is served by, null when the flow has no split. Runs sharing a
+   * routing key land on the same variant for as long as the weights stay put.
+   */
+  async pickVariant(flowId: string, routingKey?: string): Promise<TrafficVariant | null> {
+    const settings = await environmentsService.getDeploymentSettings(flowId);
+    const variants = settings.trafficSplit?.variants || [];
+    if (variants.length === 0) {
+      return null;
+    }
+
+    const bucket = routingKey
+      ? createHash('sha256').update(`${flowId}:${routingKey}`).digest().readUInt32BE(0) % 100
+      : Math.floor(Math.random() * 100);
+    let threshold = 0;
+    for (const variant of variants) {
+      threshold += variant.weight;
+      if (bucket < threshold) {
+        return variant;
+      }
+    }
+    return variants[variants.length - 1];
+  }
+
+  /**
+   * Error rate and latency of the runs each variant served, from their traces
+   */
+  async summarize(flowId: string, userId: string, since?: Date): Promise<TrafficVariantSummary[]> {
+    await environmentsService.getAccessibleFlow(flowId, userId);
+    const settings = await environmentsService.getDeploymentSettings(flowId);
+    const variants = settings.trafficSplit?.variants || [];
+    const rows = await tracesService.summarizeVariants(flowId, since);
+
+    const summaries = rows.map(row => {
+      const current = variants.find(variant => variant.name === row.variant);
+      return {
+        variant: row.variant,
+        version: current?.version || row.version,
+        weight: current ? current.weight : null,
+        runs: row.runs,
+        failed: row.failed,
+        errorRate: row.runs > 0 ? row.failed / row.runs : 0,
+        avgDuration: row.avgDuration,
+        p95Duration: row.p95Duration,
+      };
+    });
+
+    // Variants that have not served a run yet are listed too, so the comparison shows every arm
+    for (const variant of variants) {
+      if (!summaries.some(summary => summary.variant === variant.name)) {
+        summaries.push({ variant: variant.name, version: variant.version, weight: variant.weight, runs: 0, failed: 0, errorRate: 0, avgDuration: null, p95Duration: null });
+      }
+    }
+    return summaries;
+  }
+}
+
+export const trafficSplitService = new TrafficSplitService();
@@ -0,0 +1,147 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock dependencies
+const mockFlowService = {
+  getFlowById: jest.fn(),
+  getFlowVersion: jest.fn(),
+};
+
+const mockDb = {
+  select: jest.fn(),
+  insert: jest.fn(),
+  update: jest.fn(),
+};
+
+jest.mock('../../../../infrastructure/database/connection', () => ({
+  db: mockDb,
+}));
+
+jest.mock('../../../flows/services/FlowService', () => ({
+  flowService: mockFlowService,
+}));
+
+// Import after mocks
+import { EnvironmentsService } from '../EnvironmentsService';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../../../shared/utils/errors';
+import { createMockFlow, createMockUser } from '../../../../test-utils';
+
+describe('EnvironmentsService', () => {
+  let environmentsService: EnvironmentsService;
+  let mockUser: any;
+  let mockFlow: any;
+  let updateSet: jest.Mock;
+  let insertValues: jest.Mock;
+
+  // Deployment settings stored on the flow row
+  const givenSettings = (deploymentSettings: any) => {
+    mockDb.select.mockReturnValue({
+      from: jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          limit: jest.fn().mockResolvedValue([{ deploymentSettings }] as never),
+        }),
+      }),
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    environmentsService = new EnvironmentsService();
+    mockUser = createMockUser();
+    mockFlow = { ...createMockFlow(), memberRole: 'owner' };
+    mockFlowService.getFlowById.mockResolvedValue(mockFlow as never);
+
+    updateSet = jest.fn().mockReturnValue({ where: jest.fn().mockResolvedValue(undefined as never) });
+    mockDb.update.mockReturnValue({ set: updateSet });
+    insertValues = jest.fn().mockResolvedValue(undefined as never);
+    mockDb.insert.mockReturnValue({ values: insertValues });
+  });
+
+  describe('list', () => {
+    it('should list every environment with the version it runs', async () => {
+      givenSettings({ environments: { staging: { version: '1.1.0', deployedAt: '2026-01-01T00:00:00.000Z', deployedBy: mockUser.id } } });
+
+      const result = await environmentsService.list(mockFlow.id, mockUser.id);
+
+      expect(result).toEqual([
+        { name: 'dev', version: null, deployedAt: null, deployedBy: null },
+        { name: 'staging', version: '1.1.0', deployedAt: '2026-01-01T00:00:00.000Z', deployedBy: mockUser.id },
+        { name: 'prod', version: null, deployedAt: null, deployedBy: null },
+      ]);
+    });
+
+    it('should throw NotFoundError when the flow is not accessible', async () => {
+      mockFlowService.getFlowById.mockResolvedValue(null as never);
+
+      await expect(environmentsService.list(mockFlow.id, mockUser.id)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('deploy', () => {
+    it('should point the environment at a published version and record the deployment', async () => {
+      givenSettings({ environments: { dev: { version: '1.0.0', deployedAt: '2026-01-01T00:00:00.000Z', deployedBy: mockUser.id } } });
+      mockFlowService.getFlowVersion.mockResolvedValue({ version: '1.1.0' } as never);
+
+      const result = await environmentsService.deploy(mockFlow.id, 'dev', { version: '1.1.0' }, mockUser.id);
+
+      expect(result).toMatchObject({ name: 'dev', version: '1.1.0', deployedBy: mockUser.id });
+      expect(updateSet).toHaveBeenCalledWith(expect.objectContaining({
+        deploymentSettings: { environments: { dev: expect.objectContaining({ version: '1.1.0' }) } },
+      }));
+      expect(insertValues).toHaveBeenCalledWith(expect.objectContaining({
+        environment: 'dev',
+        fromEnvironment: null,
+        version: '1.1.0',
+        previousVersion: '1.0.0',
+        promotedBy: mockUser.id,
+      }));
+    });
+
+    it('should refuse versions that were never published', async () => {
+      mockFlowService.getFlowVersion.mockResolvedValue(null as never);
+
+      await expect(environmentsService.deploy(mockFlow.id, 'dev', { version: '9.9.9' }, mockUser.id)).rejects.toThrow('Flow version not found');
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should require a role that may publish', async () => {
+      mockFlowService.getFlowById.mockResolvedValue({ ...mockFlow, memberRole: 'viewer' } as never);
+
+      await expect(environmentsService.deploy(mockFlow.id, 'dev', { version: '1.1.0' }, mockUser.id)).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('promote', () => {
+    it('should move the version staging runs to prod, recording who, what and why', async () => {
+      givenSettings({
+        environments: {
+          staging: { version: '1.1.0', deployedAt: '2026-01-01T00:00:00.000Z', deployedBy: 'someone-else' },
+          prod: { version: '1.0.0', deployedAt: '2026-01-01T00:00:00.000Z', deployedBy: 'someone-else' },
+        },
+      });
+
+      const result = await environmentsService.promote(mockFlow.id, { from: 'staging', to: 'prod', reason: 'QA signed off' }, mockUser.id);
+
+      expect(result).toMatchObject({ name: 'prod', version: '1.1.0', deployedBy: mockUser.id });
+      expect(insertValues).toHaveBeenCalledWith(expect.objectContaining({
+        environment: 'prod',
+        fromEnvironment: 'staging',
+        version: '1.1.0',
+        previousVersion: '1.0.0',
+        reason: 'QA signed off',
+        promotedBy: mockUser.id,
+      }));
+    });
+
+    it('should only promote to the next environment', async () => {
+      await expect(environmentsService.promote(mockFlow.id, { from: 'dev', to: 'prod', reason: 'Hotfix' }, mockUser.id)).rejects.toThrow(ValidationError);
+      await expect(environmentsService.promote(mockFlow.id, { from: 'prod', to: 'staging', reason: 'Rollback' }, mockUser.id)).rejects.toThrow(ValidationError);
+    });
+
+    it('should refuse to promote an environment nothing is deployed to', async () => {
+      givenSettings(null);
+
+      await expect(environmentsService.promote(mockFlow.id, { from: 'dev', to: 'staging', reason: 'Ready' }, mockUser.id)).rejects.toThrow(ConflictError);
+      expect(insertValues).not.toHaveBeenCalled();
+    });
+  });
+});
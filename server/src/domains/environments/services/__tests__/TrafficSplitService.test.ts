@@ -0,0 +1,114 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock dependencies
+const mockEnvironmentsService = {
+  getAccessibleFlow: jest.fn(),
+  requireDeployableFlow: jest.fn(),
+  getDeploymentSettings: jest.fn(),
+  saveDeploymentSettings: jest.fn(),
+};
+
+const mockFlowService = {
+  getFlowVersion: jest.fn(),
+};
+
+const mockTracesService = {
+  summarizeVariants: jest.fn(),
+};
+
+jest.mock('../EnvironmentsService', () => ({
+  environmentsService: mockEnvironmentsService,
+}));
+
+jest.mock('../../../flows/services/FlowService', () => ({
+  flowService: mockFlowService,
+}));
+
+jest.mock('../../../traces/services/TracesService', () => ({
+  tracesService: mockTracesService,
+}));
+
+// Import after mocks
+import { TrafficSplitService } from '../TrafficSplitService';
+import { NotFoundError } from '../../../../shared/utils/errors';
+
+describe('TrafficSplitService', () => {
+  let trafficSplitService: TrafficSplitService;
+  const flowId = 'flow-123';
+  const userId = 'user-123';
+  const variants = [
+    { name: 'stable', version: '1.2.0', weight: 90 },
+    { name: 'canary', version: '1.3.0', weight: 10 },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    trafficSplitService = new TrafficSplitService();
+    mockEnvironmentsService.getDeploymentSettings.mockResolvedValue({ trafficSplit: { variants } } as never);
+  });
+
+  describe('pickVariant', () => {
+    it('should keep runs with the same routing key on the same variant', async () => {
+      const first = await trafficSplitService.pickVariant(flowId, 'customer-42');
+
+      for (let i = 0; i < 5; i++) {
+        expect(await trafficSplitService.pickVariant(flowId, 'customer-42')).toEqual(first);
+      }
+    });
+
+    it('should spread routing keys across variants by weight', async () => {
+      const served: Record<string, number> = {};
+      for (let i = 0; i < 1000; i++) {
+        const variant = await trafficSplitService.pickVariant(flowId, `customer-${i}`);
+        served[variant!.name] = (served[variant!.name] || 0) + 1;
+      }
+
+      expect(served.canary).toBeGreaterThan(50);
+      expect(served.canary).toBeLessThan(150);
+      expect(served.stable).toBe(1000 - served.canary);
+    });
+
+    it('should not route flows without a split', async () => {
+      mockEnvironmentsService.getDeploymentSettings.mockResolvedValue({} as never);
+
+      expect(await trafficSplitService.pickVariant(flowId)).toBeNull();
+    });
+  });
+
+  describe('set', () => {
+    it('should store the split with the deployment settings', async () => {
+      mockEnvironmentsService.getDeploymentSettings.mockResolvedValue({ environments: { prod: { version: '1.2.0' } } } as never);
+      mockFlowService.getFlowVersion.mockResolvedValue({ version: '1.2.0' } as never);
+
+      const result = await trafficSplitService.set(flowId, { variants }, userId);
+
+      expect(result).toMatchObject({ variants, updatedBy: userId });
+      expect(mockEnvironmentsService.saveDeploymentSettings).toHaveBeenCalledWith(flowId, {
+        environments: { prod: { version: '1.2.0' } },
+        trafficSplit: result,
+      });
+    });
+
+    it('should refuse versions that were never published', async () => {
+      mockFlowService.getFlowVersion.mockResolvedValueOnce({ version: '1.2.0' } as never).mockResolvedValueOnce(null as never);
+
+      await expect(trafficSplitService.set(flowId, { variants }, userId)).rejects.toThrow(NotFoundError);
+      expect(mockEnvironmentsService.saveDeploymentSettings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('summarize', () => {
+    it('should compare error rates and latency per variant, including variants without runs', async () => {
+      mockTracesService.summarizeVariants.mockResolvedValue([
+        { variant: 'stable', version: '1.2.0', runs: 200, failed: 4, avgDuration: 800, p95Duration: 1500 },
+      ] as never);
+
+      const result = await trafficSplitService.summarize(flowId, userId);
+
+      expect(result).toEqual([
+        { variant: 'stable', version: '1.2.0', weight: 90, runs: 200, failed: 4, errorRate: 0.02, avgDuration: 800, p95Duration: 1500 },
+        { variant: 'canary', version: '1.3.0', weight: 10, runs: 0, failed: 0, errorRate: 0, avgDuration: null, p95Duration: null },
+      ]);
+    });
+  });
+});
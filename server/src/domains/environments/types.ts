@@ -0,0 +1,54 @@
+// Deployment environments in promotion order: a version moves dev → staging → prod
+export const ENVIRONMENTS = ['dev', 'staging', 'prod'] as const;
+
+export type EnvironmentName = typeof ENVIRONMENTS[number];
+
+export interface FlowEnvironment {
+  name: EnvironmentName;
+  version: string | null; // Published version the environment runs, null until one is deployed
+  deployedAt: string | null;
+  deployedBy: string | null;
+}
+
+export interface FlowPromotion {
+  id: string;
+  environment: string;
+  fromEnvironment: string | null;
+  version: string;
+  previousVersion: string | null;
+  reason: string | null;
+  promotedBy: string;
+  promotedByName: string | null;
+  createdAt: Date;
+}
+
+// Weighted share of `by-alias` traffic served by a published version
+export interface TrafficVariant {
+  name: string;
+  version: string;
+  weight: number; // Percent of traffic; the weights of a split add up to 100
+}
+
+export interface TrafficSplit {
+  variants: TrafficVariant[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Trace metrics of the runs a variant served
+export interface TrafficVariantSummary {
+  variant: string;
+  version: string | null;
+  weight: number | null; // Current weight, null once the variant left the split
+  runs: number;
+  failed: number;
+  errorRate: number;
+  avgDuration: number | null;
+  p95Duration: number | null;
+}
+
+// Shape of `flow.deploymentSettings`
+export type DeploymentSettings = {
+  environments?: Partial<Record<EnvironmentName, { version: string; deployedAt: string; deployedBy: string }>>;
+  trafficSplit?: TrafficSplit | null;
+};
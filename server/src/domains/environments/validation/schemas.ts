@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { ENVIRONMENTS } from '../types';
+
+export const environmentNameSchema = z.enum(ENVIRONMENTS);
+
+const versionSchema = z
+  .string()
+  .regex(/^\d+\.\d+\.\d+$/, "Version must follow semantic versioning (e.g., 1.0.0)");
+
+const reasonSchema = z
+  .string()
+  .max(1000, "Reason must be less than 1000 characters")
+  .transform(reason => reason.trim());
+
+export const environmentParamsSchema = z.object({
+  id: z.string().min(1, 'Invalid flow ID'),
+  environment: environmentNameSchema,
+});
+
+// Deploy a published version straight to an environment
+export const deployEnvironmentSchema = z.object({
+  version: versionSchema,
+  reason: reasonSchema.optional(),
+});
+
+// Promote what one environment runs to the next; the reason is kept in the promotion history
+export const promoteEnvironmentSchema = z.object({
+  from: environmentNameSchema,
+  to: environmentNameSchema,
+  reason: reasonSchema.pipe(z.string().min(1, "A reason is required to promote")),
+});
+
+// Traffic split: named variants serving a percentage of `by-alias` traffic each
+export const trafficSplitSchema = z.object({
+  variants: z.array(z.object({
+    name: z.string()
+      .min(1, "Variant name is required")
+      .max(50, "Variant name must be less than 50 characters")
+      .regex(/^[a-z0-9-_]+$/, "Variant name can only contain lowercase letters, numbers, hyphens, and underscores"),
+    version: versionSchema,
+    weight: z.number().int("Weight must be a whole percentage").min(0).max(100),
+  })).min(1, "A split needs at least one variant").max(10, "A split can have at most 10 variants"),
+})
+  .refine(split => new Set(split.variants.map(variant => variant.name)).size === split.variants.length, { message: "Variant names must be unique", path: ['variants'] })
+  .refine(split => split.variants.reduce((total, variant) => total + variant.weight, 0) === 100, { message: "Variant weights must add up to 100", path: ['variants'] });
+
+// Traffic split summary query: only count runs since this time
+export const trafficSummaryQuerySchema = z.object({
+  since: z.string().datetime({ message: "Since must be an ISO date-time" }).optional(),
+});
+
+export type DeployEnvironmentRequest = z.infer<typeof deployEnvironmentSchema>;
+export type PromoteEnvironmentRequest = z.infer<typeof promoteEnvironmentSchema>;
+export type TrafficSplitRequest = z.infer<typeof trafficSplitSchema>;
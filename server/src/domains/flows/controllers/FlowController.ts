@@ -1,7 +1,11 @@
 import { Request, Response } from "express";
 import { flowService } from "../services/FlowService";
-import { ConflictError, NotFoundError } from "../../../shared/utils/errors";
+import { ConflictError, ForbiddenError, NotFoundError } from "../../../shared/utils/errors";
 import { logError } from "../../../shared/utils/logger";
+import type { FlowStreamEvent } from "../services/FlowRunService";
+import type { ExecutionPriority, NodeTraceRecord } from "../../../infrastructure/container-pool/ContainerPoolService";
+import type { EnvironmentName } from "../../environments/types";
+import { trafficSplitService } from "../../environments/services/TrafficSplitService";
 
 export class FlowController {
   async createFlow(req: Request, res: Response): Promise<void> {
@@ -348,15 +352,18 @@ export class FlowController {
   }
 
   async executeFlow(req: Request, res: Response): Promise<void> {
+    // Node traces of the finished run, when the caller asked for them
+    let traces: { executionId: string; nodeTraces: NodeTraceRecord[] } | undefined;
+
     try {
       const { id } = req.params as any;
 
       // Accept direct input (Genkit format) or wrapped input (FlowShapr format)
-      let input, nodes, edges, metadata, connections;
+      let input, nodes, edges, metadata, connections, includeTraces, executionId, recordModelCalls, runFromNodeId, breakpoints, version;
 
       if (req.body && typeof req.body === 'object' && ('input' in req.body || 'nodes' in req.body || 'edges' in req.body)) {
         // FlowShapr wrapped format (for internal use)
-        ({ input, nodes, edges, metadata, connections } = req.body);
+        ({ input, nodes, edges, metadata, connections, includeTraces, executionId, recordModelCalls, runFromNodeId, breakpoints, version } = req.body);
       } else {
         // Genkit direct format
         input = req.body;
@@ -366,8 +373,44 @@ export class FlowController {
         connections = undefined;
       }
 
+      const published = !this.isEditorSession(req);
+      if (published && (nodes || edges)) {
+        res.status(403).json({ error: 'Draft definitions can only be run from the editor' });
+        return;
+      }
+      // Published runs use the connections stored for the flow and the token's environment
+      if (published && connections) {
+        res.status(403).json({ error: 'Connections can only be passed from the editor' });
+        return;
+      }
+
       const { flowRunService } = await import('../services/FlowRunService.js');
 
+      if (req.query.async === 'true') {
+        const queued = await flowRunService.enqueue({
+          flowId: id,
+          userId: req.user!.id,
+          input,
+          nodes,
+          edges,
+          metadata,
+          connections,
+          userAgent: (req.headers['user-agent'] as string) || null,
+          ipAddress: ((req.headers['x-forwarded-for'] as string) || req.socket.remoteAddress || null) as any,
+          priority: this.executionPriority(req),
+          recordModelCalls,
+          runFromNodeId,
+          published,
+          version,
+          trigger: published ? 'api' : 'editor',
+          environment: this.deploymentEnvironment(req),
+          callbackUrl: (req.query.callbackUrl as string) || null,
+        });
+        this.sendQueuedExecution(res, queued);
+        return;
+      }
+
+      const stream = this.acceptsEventStream(req);
       const result = await flowRunService.execute({
         flowId: id,
         userId: req.user!.id,
@@ -378,36 +421,53 @@ export class FlowController {
         connections,
         userAgent: (req.headers['user-agent'] as string) || null,
         ipAddress: ((req.headers['x-forwarded-for'] as string) || req.socket.remoteAddress || null) as any,
+        stream,
+        executionId,
+        recordModelCalls,
+        runFromNodeId,
+        breakpoints,
+        published,
+        version,
+        trigger: published ? 'api' : 'editor',
+        environment: this.deploymentEnvironment(req),
+        priority: this.executionPriority(req),
+        onNodeTraces: includeTraces ? (executionId, nodeTraces) => { traces = { executionId, nodeTraces }; } : undefined,
       });
 
+      if (stream) {
+        await this.sendEventStream(res, result);
+        return;
+      }
+
+      if (traces) {
+        // FlowShapr wrapped format, for the builder's test panel
+        res.json({ success: true, result, executionId: traces.executionId, traces: traces.nodeTraces });
+        return;
+      }
+
       // Return direct result (Genkit format)
       res.json(result);
     } catch (error: any) {
       logError('🎯 FlowController: Execute flow error:', error);
 
-      // Handle specific error types with appropriate HTTP status codes
-      if (error.message === 'Flow not found') {
-        res.status(404).json({ error: 'Flow not found' });
-      } else if (error.message === 'Flow validation failed') {
-        res.status(400).json({ error: 'Flow validation failed', issues: error.issues });
-      } else if (error.message === 'Code generation failed') {
-        res.status(400).json({ error: 'Code generation failed', errors: error.errors });
-      } else {
-        res.status(500).json({ error: error?.message || 'Execution failed' });
+      if (traces) {
+        res.status(500).json({ success: false, error: error?.message || 'Execution failed', nodeId: error?.nodeId, executionId: traces.executionId, traces: traces.nodeTraces });
+        return;
       }
+      this.sendExecutionError(res, error);
     }
   }
 
   async executeFlowByAlias(req: Request, res: Response): Promise<void> {
     try {
-      const { alias } = req.params as any;
+      const { alias, version: pinnedVersion } = req.params as any;
 
       // Accept direct input (Genkit format) or wrapped input (FlowShapr format)
-      let input, nodes, edges, metadata, connections;
+      let input, nodes, edges, metadata, connections, executionId, recordModelCalls, version;
 
       if (req.body && typeof req.body === 'object' && ('input' in req.body || 'nodes' in req.body || 'edges' in req.body)) {
         // FlowShapr wrapped format (for internal use)
-        ({ input, nodes, edges, metadata, connections } = req.body);
+        ({ input, nodes, edges, metadata, connections, executionId, recordModelCalls, version } = req.body);
       } else {
         // Genkit direct format
         input = req.body;
@@ -416,6 +476,18 @@ export class FlowController {
         metadata = undefined;
         connections = undefined;
       }
+      version = pinnedVersion || version;
+
+      const published = !this.isEditorSession(req);
+      if (published && (nodes || edges)) {
+        res.status(403).json({ error: 'Draft definitions can only be run from the editor' });
+        return;
+      }
+      // Published runs use the connections stored for the flow and the token's environment
+      if (published && connections) {
+        res.status(403).json({ error: 'Connections can only be passed from the editor' });
+        return;
+      }
 
       // Resolve flow by alias
       const flow = await flowService.getFlowByAlias(alias, req.user!.id);
@@ -431,7 +503,44 @@ export class FlowController {
         return;
       }
 
+      // Published runs that pin neither a version nor an environment follow the flow's traffic split
+      const environment = this.deploymentEnvironment(req);
+      let variant: string | undefined;
+      if (published && !version && !environment) {
+        const routed = await trafficSplitService.pickVariant(flow.id, req.get('x-routing-key') || undefined);
+        if (routed) {
+          version = routed.version;
+          variant = routed.name;
+        }
+      }
+
       const { flowRunService } = await import('../services/FlowRunService.js');
+
+      if (req.query.async === 'true') {
+        const queued = await flowRunService.enqueue({
+          flowId: flow.id,
+          userId: req.user!.id,
+          input,
+          nodes,
+          edges,
+          metadata,
+          connections,
+          userAgent: (req.headers['user-agent'] as string) || null,
+          ipAddress: ((req.headers['x-forwarded-for'] as string) || req.socket.remoteAddress || null) as any,
+          priority: this.executionPriority(req),
+          recordModelCalls,
+          published,
+          version,
+          trigger: published ? 'api' : 'editor',
+          environment,
+          variant,
+          callbackUrl: (req.query.callbackUrl as string) || null,
+        });
+        this.sendQueuedExecution(res, queued);
+        return;
+      }
+
+      const stream = this.acceptsEventStream(req);
       const result = await flowRunService.execute({
         flowId: flow.id,
         userId: req.user!.id,
@@ -442,23 +551,119 @@ export class FlowController {
         connections,
         userAgent: (req.headers['user-agent'] as string) || null,
         ipAddress: ((req.headers['x-forwarded-for'] as string) || req.socket.remoteAddress || null) as any,
+        stream,
+        executionId,
+        recordModelCalls,
+        published,
+        version,
+        trigger: published ? 'api' : 'editor',
+        environment,
+        variant,
+        priority: this.executionPriority(req),
       });
 
+      if (stream) {
+        await this.sendEventStream(res, result);
+        return;
+      }
+
       // Return direct result (Genkit format)
       res.json(result);
     } catch (error: any) {
       logError('Execute flow by alias error:', error);
 
-      // Handle specific error types with appropriate HTTP status codes
-      if (error.message === 'Flow not found') {
-        res.status(404).json({ error: 'Flow not found' });
-      } else if (error.message === 'Flow validation failed') {
-        res.status(400).json({ error: 'Flow validation failed', issues: error.issues });
-      } else if (error.message === 'Code generation failed') {
-        res.status(400).json({ error: 'Code generation failed', errors: error.errors });
-      } else {
-        res.status(500).json({ error: error?.message || 'Execution failed' });
-      }
+      this.sendExecutionError(res, error);
+    }
+  }
+
+  async getExecution(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, executionId } = req.params as any;
+
+      const { flowRunService } = await import('../services/FlowRunService.js');
+      const execution = await flowRunService.getExecution(id, executionId, req.user!.id);
+
+      res.json(execution);
+    } catch (error: any) {
+      logError('Get execution error:', error);
+      this.sendExecutionError(res, error);
+    }
+  }
+
+  async cancelExecution(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, executionId } = req.params as any;
+
+      const { flowRunService } = await import('../services/FlowRunService.js');
+      const cancelled = await flowRunService.cancel(id, executionId, req.user!.id);
+
+      res.json(cancelled);
+    } catch (error: any) {
+      logError('Cancel execution error:', error);
+      this.sendExecutionError(res, error);
+    }
+  }
+
+  async getPendingInterrupt(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, executionId } = req.params as any;
+
+      const { flowRunService } = await import('../services/FlowRunService.js');
+      const interrupt = await flowRunService.getPendingInterrupt(id, executionId, req.user!.id);
+
+      res.json({ status: 'interrupted', executionId, interrupt });
+    } catch (error: any) {
+      logError('Get pending interrupt error:', error);
+      this.sendExecutionError(res, error);
+    }
+  }
+
+  async resumeExecution(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, executionId } = req.params as any;
+
+      const { flowRunService } = await import('../services/FlowRunService.js');
+      const result = await flowRunService.resume({
+        flowId: id,
+        executionId,
+        userId: req.user!.id,
+        response: req.body.response,
+        priority: this.executionPriority(req),
+      });
+
+      // Return direct result (Genkit format)
+      res.json(result);
+    } catch (error: any) {
+      logError('Resume execution error:', error);
+      this.sendExecutionError(res, error);
+    }
+  }
+
+  async getDebugState(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, executionId } = req.params as any;
+
+      const { flowRunService } = await import('../services/FlowRunService.js');
+      const state = await flowRunService.getDebugState(id, executionId, req.user!.id, Number(req.query.wait || 0));
+
+      res.json(state);
+    } catch (error: any) {
+      logError('Get debug state error:', error);
+      this.sendExecutionError(res, error);
+    }
+  }
+
+  async sendDebugCommand(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, executionId } = req.params as any;
+
+      const { flowRunService } = await import('../services/FlowRunService.js');
+      const state = await flowRunService.sendDebugCommand(id, executionId, req.user!.id, req.body);
+
+      res.json(state);
+    } catch (error: any) {
+      logError('Debug command error:', error);
+      this.sendExecutionError(res, error);
     }
   }
 
@@ -500,6 +705,230 @@ export class FlowController {
       }
     }
   }
+
+  async listFlowVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const versions = await flowService.listFlowVersions(req.params.id, req.user!.id);
+
+      res.json({
+        success: true,
+        data: versions
+      });
+    } catch (error: any) {
+      logError("List flow versions error:", error);
+      this.sendVersionError(res, error, "Failed to list flow versions");
+    }
+  }
+
+  async getFlowVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, version } = req.params;
+      const snapshot = await flowService.getVersionSnapshot(id, version, req.user!.id);
+
+      res.json({
+        success: true,
+        data: snapshot
+      });
+    } catch (error: any) {
+      logError("Get flow version error:", error);
+      this.sendVersionError(res, error, "Failed to get flow version");
+    }
+  }
+
+  async diffFlowVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to } = req.query as { from: string; to?: string };
+      const diff = await flowService.diffFlowVersions(req.params.id, from, to || "current", req.user!.id);
+
+      res.json({
+        success: true,
+        data: { from, to: to || "current", ...diff }
+      });
+    } catch (error: any) {
+      logError("Diff flow versions error:", error);
+      this.sendVersionError(res, error, "Failed to diff flow versions");
+    }
+  }
+
+  async restoreFlowVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, version } = req.params;
+      const flow = await flowService.restoreFlowVersion(id, version, req.user!.id);
+
+      res.json({
+        success: true,
+        data: flow,
+        message: `Version ${version} restored successfully`
+      });
+    } catch (error: any) {
+      logError("Restore flow version error:", error);
+      this.sendVersionError(res, error, "Failed to restore flow version");
+    }
+  }
+
+  private sendVersionError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof NotFoundError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: {
+          message: error.message,
+          code: error.message === "Flow version not found" ? "VERSION_NOT_FOUND" : "FLOW_NOT_FOUND"
+        }
+      });
+    } else if (error instanceof ForbiddenError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: {
+          message: error.message,
+          code: "FORBIDDEN"
+        }
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: {
+          message: fallbackMessage,
+          code: "INTERNAL_ERROR"
+        }
+      });
+    }
+  }
+
+  // Whether the caller asked for the run as Server-Sent Events
+  private acceptsEventStream(req: Request): boolean {
+    return (req.headers.accept || '').includes('text/event-stream');
+  }
+
+  /**
+   * Write a streamed run as Server-Sent Events, one `data:` line per event,
+   * ending with `data: [DONE]`
+   */
+  private async sendEventStream(res: Response, events: AsyncGenerator<FlowStreamEvent>): Promise<void> {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    // Stop reading the run when the client disconnects
+    let closed = false;
+    res.on('close', () => { closed = true; });
+
+    for await (const event of events) {
+      if (closed) {
+        await events.return(undefined);
+        return;
+      }
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+    res.write('data: [DONE]\n\n');
+    res.end();
+  }
+
+  /**
+   * Answer an asynchronous execute with where to poll for the run
+   */
+  private sendQueuedExecution(res: Response, queued: { executionId: string; flowId: string }): void {
+    res.status(202).json({
+      status: 'running',
+      executionId: queued.executionId,
+      flowId: queued.flowId,
+      statusUrl: `/api/flows/${queued.flowId}/executions/${queued.executionId}`,
+    });
+  }
+
+  // API-key calls are production traffic; session calls come from the editor
+  private executionPriority(req: Request): ExecutionPriority {
+    return (req as any).token ? 'production' : 'interactive';
+  }
+
+  /**
+   * Cookie sessions are the editor, which runs the draft unless it pins a
+   * version. API keys and bearer sessions only run published versions.
+   */
+  private isEditorSession(req: Request): boolean {
+    return req.authMethod === 'session';
+  }
+
+  // API keys bound to an environment run the version deployed there
+  private deploymentEnvironment(req: Request): EnvironmentName | undefined {
+    return (req as any).token?.environment;
+  }
+
+  async replayExecution(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, executionId } = req.params as any;
+
+      const { flowRunService } = await import('../services/FlowRunService.js');
+      const replayed = await flowRunService.replay({
+        flowId: id,
+        executionId,
+        userId: req.user!.id,
+        onUnmatched: req.body.onUnmatched,
+        published: !this.isEditorSession(req),
+        environment: this.deploymentEnvironment(req),
+        priority: this.executionPriority(req),
+      });
+
+      res.json(replayed);
+    } catch (error: any) {
+      logError('Replay execution error:', error);
+      this.sendExecutionError(res, error);
+    }
+  }
+
+  /**
+   * Map flow execution errors to HTTP responses
+   */
+  private sendExecutionError(res: Response, error: any): void {
+    // Handle specific error types with appropriate HTTP status codes
+    if (error.retryAfter) {
+      res.set('Retry-After', String(error.retryAfter));
+      res.status(503).json({ error: error.message, retryAfter: error.retryAfter });
+    } else if (error.message === 'Flow interrupted') {
+      res.status(202).json({ status: 'interrupted', executionId: error.executionId, interrupt: error.interrupt });
+    } else if (error.message === 'Flow not found') {
+      res.status(404).json({ error: 'Flow not found' });
+    } else if (error.message === 'Flow version not found') {
+      res.status(404).json({ error: 'Flow version not found' });
+    } else if (error.message === 'Flow has no published version') {
+      res.status(409).json({ error: 'Flow has no published version' });
+    } else if (error.message === 'Environment has no deployed version') {
+      res.status(409).json({ error: 'Environment has no deployed version' });
+    } else if (error.message?.startsWith('Callback URL')) {
+      res.status(422).json({ error: error.message });
+    } else if (error.message === 'Execution not found') {
+      res.status(404).json({ error: 'Execution not found' });
+    } else if (error.message === 'Execution is not awaiting input') {
+      res.status(409).json({ error: 'Execution is not awaiting input' });
+    } else if (error.message === 'Execution ID already in use') {
+      res.status(409).json({ error: 'Execution ID already in use' });
+    } else if (error.message === 'Execution is not running') {
+      res.status(409).json({ error: 'Execution is not running' });
+    } else if (error.message === 'Execution is not paused') {
+      res.status(409).json({ error: 'Execution is not paused' });
+    } else if (error.message === 'Execution has no recorded model calls') {
+      res.status(409).json({ error: 'Execution has no recorded model calls' });
+    } else if (error.message === 'Execution cancelled') {
+      res.status(409).json({ error: 'Execution cancelled' });
+    } else if (error.message === 'Interrupt expired') {
+      res.status(410).json({ error: 'Interrupt expired' });
+    } else if (error.message === 'Invalid interrupt response') {
+      res.status(400).json({ error: 'Invalid interrupt response', errors: error.errors });
+    } else if (error.message === 'Flow validation failed') {
+      res.status(400).json({ error: 'Flow validation failed', issues: error.issues });
+    } else if (error.message === 'Code generation failed') {
+      res.status(400).json({ error: 'Code generation failed', errors: error.errors });
+    } else {
+      res.status(500).json({
+        error: error?.message || 'Execution failed',
+        ...(error?.nodeId ? { nodeId: error.nodeId } : {}),
+        ...(error?.executionId ? { executionId: error.executionId } : {}),
+      });
+    }
+  }
 }
 
 export const flowController = new FlowController();
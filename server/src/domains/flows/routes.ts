@@ -1,13 +1,19 @@
 import { Router } from "express";
 import { flowController } from "./controllers/FlowController";
-import { validateBody, validateParams } from "../../shared/middleware/validation";
+import { validateBody, validateParams, validateQuery } from "../../shared/middleware/validation";
 import { requireScope, rateLimitToken } from "../../shared/middleware/scope";
 import { tracesController } from "../traces/controllers/TracesController";
 import { connectionsController } from "../connections/controllers/ConnectionsController";
 import { connectionIdParamsSchema, createConnectionSchema, updateConnectionSchema } from "../connections/validation/schemas";
+import { documentsController } from "../documents/controllers/DocumentsController";
 import { promptsController } from "../prompts/controllers/PromptsController";
 import { createPromptSchema, updatePromptSchema, flowPromptParamsSchema } from "../prompts/validation/schemas";
 import { flowApiKeysController } from "../api-keys/controllers/FlowApiKeysController";
+import { environmentsController } from "../environments/controllers/EnvironmentsController";
+import { createApiKeySchema } from "../api-keys/validation/schemas";
+import { schedulesController } from "../schedules/controllers/SchedulesController";
+import { createScheduleSchema, scheduleParamsSchema, updateScheduleSchema } from "../schedules/validation/schemas";
+import { deployEnvironmentSchema, environmentParamsSchema, promoteEnvironmentSchema, trafficSplitSchema, trafficSummaryQuerySchema } from "../environments/validation/schemas";
 import {
   createFlowSchema,
   updateFlowSchema,
@@ -19,7 +25,15 @@ import {
   flowAliasSchema,
   flowMemberParamsSchema,
   flowListQuerySchema,
-  executeFlowSchema
+  executeFlowSchema,
+  executeFlowQuerySchema,
+  resumeExecutionSchema,
+  replayExecutionSchema,
+  debugStateQuerySchema,
+  debugCommandSchema,
+  flowExecutionParamsSchema,
+  flowVersionParamsSchema,
+  flowVersionDiffQuerySchema
 } from "./validation/schemas";
 
 const router = Router();
@@ -77,6 +91,35 @@ router.post(
   (req, res) => flowController.publishFlow(req, res)
 );
 
+// GET /flows/:id/versions - List stored versions, newest first
+router.get(
+  "/:id/versions",
+  validateParams(flowIdSchema),
+  (req, res) => flowController.listFlowVersions(req, res)
+);
+
+// GET /flows/:id/versions/diff - Node and edge changes between two versions
+router.get(
+  "/:id/versions/diff",
+  validateParams(flowIdSchema),
+  validateQuery(flowVersionDiffQuerySchema),
+  (req, res) => flowController.diffFlowVersions(req, res)
+);
+
+// GET /flows/:id/versions/:version - Get a stored version's definition
+router.get(
+  "/:id/versions/:version",
+  validateParams(flowVersionParamsSchema),
+  (req, res) => flowController.getFlowVersion(req, res)
+);
+
+// POST /flows/:id/versions/:version/restore - Restore a stored version into the working definition
+router.post(
+  "/:id/versions/:version/restore",
+  validateParams(flowVersionParamsSchema),
+  (req, res) => flowController.restoreFlowVersion(req, res)
+);
+
 // POST /flows/:id/members - Add flow member
 router.post(
   "/:id/members",
@@ -105,16 +148,85 @@ router.post(
   "/:id/execute",
   validateParams(flowIdSchema),
   validateBody(executeFlowSchema),
+  validateQuery(executeFlowQuerySchema),
   rateLimitToken(),
   requireScope('execute_flow'),
   (req, res) => flowController.executeFlow(req, res)
 );
 
+// GET /flows/:id/executions/:executionId - Status of an execution, e.g. a queued one
+router.get(
+  "/:id/executions/:executionId",
+  validateParams(flowExecutionParamsSchema),
+  rateLimitToken(),
+  requireScope('execute_flow'),
+  (req, res) => flowController.getExecution(req, res)
+);
+
+// DELETE /flows/:id/executions/:executionId - Cancel a queued, running or paused execution
+router.delete(
+  "/:id/executions/:executionId",
+  validateParams(flowExecutionParamsSchema),
+  rateLimitToken(),
+  requireScope('execute_flow'),
+  (req, res) => flowController.cancelExecution(req, res)
+);
+
+// GET /flows/:id/executions/:executionId/resume - Describe the pending interrupt
+router.get(
+  "/:id/executions/:executionId/resume",
+  validateParams(flowExecutionParamsSchema),
+  rateLimitToken(),
+  requireScope('execute_flow'),
+  (req, res) => flowController.getPendingInterrupt(req, res)
+);
+
+// POST /flows/:id/executions/:executionId/resume - Resume an interrupted execution
+router.post(
+  "/:id/executions/:executionId/resume",
+  validateParams(flowExecutionParamsSchema),
+  validateBody(resumeExecutionSchema),
+  rateLimitToken(),
+  requireScope('execute_flow'),
+  (req, res) => flowController.resumeExecution(req, res)
+);
+
+// POST /flows/:id/executions/:executionId/replay - Re-run the current flow against an execution's recorded model calls
+router.post(
+  "/:id/executions/:executionId/replay",
+  validateParams(flowExecutionParamsSchema),
+  validateBody(replayExecutionSchema),
+  rateLimitToken(),
+  requireScope('execute_flow'),
+  (req, res) => flowController.replayExecution(req, res)
+);
+
+// GET /flows/:id/executions/:executionId/debug - Where a debug run is paused; `wait` long-polls for the next pause
+router.get(
+  "/:id/executions/:executionId/debug",
+  validateParams(flowExecutionParamsSchema),
+  validateQuery(debugStateQuerySchema),
+  rateLimitToken(),
+  requireScope('execute_flow'),
+  (req, res) => flowController.getDebugState(req, res)
+);
+
+// POST /flows/:id/executions/:executionId/debug - Step, continue or edit the input of a paused debug run
+router.post(
+  "/:id/executions/:executionId/debug",
+  validateParams(flowExecutionParamsSchema),
+  validateBody(debugCommandSchema),
+  rateLimitToken(),
+  requireScope('execute_flow'),
+  (req, res) => flowController.sendDebugCommand(req, res)
+);
+
 // POST /flows/by-alias/:alias/execute - Execute flow by alias
 router.post(
   "/by-alias/:alias/execute",
   validateParams(flowAliasSchema),
   validateBody(executeFlowSchema),
+  validateQuery(executeFlowQuerySchema),
   rateLimitToken(),
   requireScope('execute_flow'),
   (req, res) => flowController.executeFlowByAlias(req, res)
@@ -193,6 +305,19 @@ router.delete(
   (req, res) => connectionsController.deleteForFlow(req, res)
 );
 
+// Documents (flow-scoped store used by index/retrieve blocks)
+router.get(
+  "/:id/documents",
+  validateParams(flowIdSchema),
+  (req, res) => documentsController.listByFlow(req, res)
+);
+
+router.delete(
+  "/:id/documents",
+  validateParams(flowIdSchema),
+  (req, res) => documentsController.deleteByFlow(req, res)
+);
+
 // API Keys (flow-scoped)
 router.get(
   "/:id/api-keys",
@@ -203,6 +328,7 @@ router.get(
 router.post(
   "/:id/api-keys",
   validateParams(flowIdSchema),
+  validateBody(createApiKeySchema),
   (req, res) => flowApiKeysController.create(req, res)
 );
 
@@ -212,4 +338,98 @@ router.delete(
   (req, res) => flowApiKeysController.revoke(req, res)
 );
 
+// Secret completion webhooks are signed with (flow-scoped)
+router.get(
+  "/:id/webhook-secret",
+  validateParams(flowIdSchema),
+  (req, res) => flowApiKeysController.getWebhookSecret(req, res)
+);
+
+// Deployment environments (flow-scoped)
+router.get(
+  "/:id/environments",
+  validateParams(flowIdSchema),
+  (req, res) => environmentsController.list(req, res)
+);
+
+router.get(
+  "/:id/environments/promotions",
+  validateParams(flowIdSchema),
+  (req, res) => environmentsController.listPromotions(req, res)
+);
+
+router.post(
+  "/:id/environments/promote",
+  validateParams(flowIdSchema),
+  validateBody(promoteEnvironmentSchema),
+  (req, res) => environmentsController.promote(req, res)
+);
+
+router.put(
+  "/:id/environments/:environment",
+  validateParams(environmentParamsSchema),
+  validateBody(deployEnvironmentSchema),
+  (req, res) => environmentsController.deploy(req, res)
+);
+
+// Traffic split between published versions for `by-alias` runs
+router.get(
+  "/:id/traffic-split",
+  validateParams(flowIdSchema),
+  (req, res) => environmentsController.getTrafficSplit(req, res)
+);
+
+router.put(
+  "/:id/traffic-split",
+  validateParams(flowIdSchema),
+  validateBody(trafficSplitSchema),
+  (req, res) => environmentsController.setTrafficSplit(req, res)
+);
+
+router.delete(
+  "/:id/traffic-split",
+  validateParams(flowIdSchema),
+  (req, res) => environmentsController.clearTrafficSplit(req, res)
+);
+
+router.get(
+  "/:id/traffic-split/summary",
+  validateParams(flowIdSchema),
+  validateQuery(trafficSummaryQuerySchema),
+  (req, res) => environmentsController.summarizeTrafficSplit(req, res)
+);
+
+// Cron schedules (flow-scoped)
+router.get(
+  "/:id/schedules",
+  validateParams(flowIdSchema),
+  (req, res) => schedulesController.list(req, res)
+);
+
+router.post(
+  "/:id/schedules",
+  validateParams(flowIdSchema),
+  validateBody(createScheduleSchema),
+  (req, res) => schedulesController.create(req, res)
+);
+
+router.get(
+  "/:id/schedules/runs",
+  validateParams(flowIdSchema),
+  (req, res) => schedulesController.listRuns(req, res)
+);
+
+router.put(
+  "/:id/schedules/:scheduleId",
+  validateParams(scheduleParamsSchema),
+  validateBody(updateScheduleSchema),
+  (req, res) => schedulesController.update(req, res)
+);
+
+router.delete(
+  "/:id/schedules/:scheduleId",
+  validateParams(scheduleParamsSchema),
+  (req, res) => schedulesController.delete(req, res)
+);
+
 export { router as flowRoutes };
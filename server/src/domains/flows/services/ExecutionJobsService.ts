@@ -0,0 +1,126 @@
+import { and, eq, inArray, lt, sql } from 'drizzle-orm';
+import { db } from '../../../infrastructure/database/connection';
+import * as schema from '../../../infrastructure/database/schema';
+import type { ExecutionPriority } from '../../../infrastructure/container-pool/ContainerPoolService';
+import { EnvironmentName } from '../../environments/types';
+import type { TraceTrigger } from '../../traces/services/TracesService';
+
+/**
+ * What the worker needs to run a queued execution
+ */
+export interface ExecutionJobRequest {
+  flowId: string;
+  userId: string;
+  input: any;
+  nodes?: any[];
+  edges?: any[];
+  metadata?: any;
+  connections?: any[];
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  priority?: ExecutionPriority;
+  recordModelCalls?: boolean;
+  runFromNodeId?: string;
+  published?: boolean;
+  version?: string;
+  environment?: EnvironmentName;
+  variant?: string;
+  trigger?: TraceTrigger;
+  scheduleId?: string;
+}
+
+export interface ExecutionJob {
+  id: string;
+  executionId: string;
+  flowId: string;
+  request: ExecutionJobRequest;
+  callbackUrl: string | null;
+  attempts: number;
+}
+
+export interface EnqueueJobInput {
+  executionId: string;
+  flowId: string;
+  request: ExecutionJobRequest;
+  callbackUrl?: string | null;
+}
+
+export class ExecutionJobsService {
+  async enqueue(input: EnqueueJobInput) {
+    const record = {
+      id: `job_${Date.now()}_${Math.random().toString(36).slice(2,10)}`,
+      executionId: input.executionId,
+      flowId: input.flowId,
+      request: input.request,
+      callbackUrl: input.callbackUrl ?? null,
+      status: 'queued',
+    };
+    await (db as any).insert((schema as any).executionJob).values(record);
+    return record;
+  }
+
+  /**
+   * Take the oldest queued job. Workers skip rows another worker is claiming,
+   * so each job is handed out once.
+   */
+  async claimNext(): Promise<ExecutionJob | null> {
+    const job = (schema as any).executionJob;
+    const next = (db as any)
+      .select({ id: job.id })
+      .from(job)
+      .where(eq(job.status, 'queued'))
+      .orderBy(job.createdAt)
+      .limit(1)
+      .for('update', { skipLocked: true });
+    const rows = await (db as any)
+      .update(job)
+      .set({ status: 'running', attempts: sql`${job.attempts} + 1`, lockedAt: new Date() })
+      .where(inArray(job.id, next))
+      .returning();
+    return rows?.[0] || null;
+  }
+
+  async finish(jobId: string) {
+    const job = (schema as any).executionJob;
+    await (db as any)
+      .update(job)
+      .set({ status: 'finished', lockedAt: null })
+      .where(eq(job.id, jobId));
+  }
+
+  /**
+   * Finish the job for an execution if no worker has claimed it yet. Returns
+   * the job when it was still queued.
+   */
+  async cancelQueued(executionId: string): Promise<ExecutionJob | null> {
+    const job = (schema as any).executionJob;
+    const rows = await (db as any)
+      .update(job)
+      .set({ status: 'finished', lockedAt: null })
+      .where(and(eq(job.executionId, executionId), eq(job.status, 'queued')))
+      .returning();
+    return rows?.[0] || null;
+  }
+
+  /**
+   * Jobs whose worker went away mid-run. They are queued again until they run
+   * out of attempts; the exhausted ones are finished and returned so their runs
+   * can be failed.
+   */
+  async recoverStale(lockedBefore: Date, maxAttempts: number): Promise<ExecutionJob[]> {
+    const job = (schema as any).executionJob;
+    const stale = and(eq(job.status, 'running'), lt(job.lockedAt, lockedBefore));
+    await (db as any)
+      .update(job)
+      .set({ status: 'queued', lockedAt: null })
+      .where(and(stale, lt(job.attempts, maxAttempts)));
+    const rows = await (db as any)
+      .update(job)
+      .set({ status: 'finished', lockedAt: null })
+      .where(stale)
+      .returning();
+    return rows || [];
+  }
+}
+
+export const executionJobsService = new ExecutionJobsService();
@@ -0,0 +1,119 @@
+/**
+ * Structural diff between two flow definitions, as compared in the version
+ * history. Nodes are matched by id and edges by the handles they connect; node
+ * positions are layout and left out.
+ */
+
+export interface FieldChange {
+  field: string; // `type`, `label` or a config path such as `config.model`
+  before: unknown;
+  after: unknown;
+}
+
+export interface NodeSummary {
+  id: string;
+  type: string;
+  label?: string;
+}
+
+export interface NodeChange extends NodeSummary {
+  changes: FieldChange[];
+}
+
+export interface EdgeSummary {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+export interface FlowDiff {
+  nodes: { added: NodeSummary[]; removed: NodeSummary[]; changed: NodeChange[] };
+  edges: { added: EdgeSummary[]; removed: EdgeSummary[] };
+}
+
+type FlowDefinition = { nodes?: any[]; edges?: any[] };
+
+export function diffFlowDefinitions(before: FlowDefinition, after: FlowDefinition): FlowDiff {
+  const beforeNodes = new Map(asArray(before.nodes).map(node => [node.id, node]));
+  const afterNodes = new Map(asArray(after.nodes).map(node => [node.id, node]));
+
+  const changed: NodeChange[] = [];
+  for (const [id, node] of afterNodes) {
+    const previous = beforeNodes.get(id);
+    if (!previous) continue;
+    const changes = [
+      ...diffValues('type', nodeType(previous), nodeType(node)),
+      ...diffValues('label', previous.data?.label, node.data?.label),
+      ...diffValues('config', previous.data?.config || {}, node.data?.config || {}),
+    ];
+    if (changes.length > 0) {
+      changed.push({ ...summarizeNode(node), changes });
+    }
+  }
+
+  const beforeEdges = new Map(asArray(before.edges).map(edge => [edgeKey(edge), edge]));
+  const afterEdges = new Map(asArray(after.edges).map(edge => [edgeKey(edge), edge]));
+
+  return {
+    nodes: {
+      added: [...afterNodes.values()].filter(node => !beforeNodes.has(node.id)).map(summarizeNode),
+      removed: [...beforeNodes.values()].filter(node => !afterNodes.has(node.id)).map(summarizeNode),
+      changed,
+    },
+    edges: {
+      added: [...afterEdges.entries()].filter(([key]) => !beforeEdges.has(key)).map(([, edge]) => summarizeEdge(edge)),
+      removed: [...beforeEdges.entries()].filter(([key]) => !afterEdges.has(key)).map(([, edge]) => summarizeEdge(edge)),
+    },
+  };
+}
+
+// Plain objects are compared field by field; anything else, arrays included, as a whole
+function diffValues(field: string, before: unknown, after: unknown): FieldChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return keys.flatMap(key => diffValues(`${field}.${key}`, before[key], after[key]));
+  }
+  return canonicalJson(before) === canonicalJson(after) ? [] : [{ field, before, after }];
+}
+
+function canonicalJson(value: unknown): string | undefined {
+  const canonical = (item: any): any => Array.isArray(item)
+    ? item.map(canonical)
+    : isPlainObject(item)
+      ? Object.keys(item).sort().reduce((sorted, key) => ({ ...sorted, [key]: canonical(item[key]) }), {})
+      : item;
+  return JSON.stringify(canonical(value));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asArray(value: unknown): any[] {
+  return Array.isArray(value) ? value.filter(item => item && item.id) : [];
+}
+
+function nodeType(node: any): string {
+  return node.data?.type || node.type || 'unknown';
+}
+
+function summarizeNode(node: any): NodeSummary {
+  return { id: node.id, type: nodeType(node), ...(node.data?.label ? { label: node.data.label } : {}) };
+}
+
+// Edge ids are regenerated when edges are redrawn, so edges are matched by what they connect
+function edgeKey(edge: any): string {
+  return JSON.stringify([edge.source, edge.sourceHandle || null, edge.target, edge.targetHandle || null]);
+}
+
+function summarizeEdge(edge: any): EdgeSummary {
+  return {
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    ...(edge.sourceHandle ? { sourceHandle: edge.sourceHandle } : {}),
+    ...(edge.targetHandle ? { targetHandle: edge.targetHandle } : {}),
+  };
+}
@@ -1,12 +1,25 @@
 import { flowService } from './FlowService';
-import { tracesService } from '../../traces/services/TracesService';
+import { CreateTraceInput, TraceTrigger, tracesService } from '../../traces/services/TracesService';
 import { ContainerPoolService } from '../../../infrastructure/container-pool/ContainerPoolService';
-import { ExecutionConfig } from '../../../infrastructure/container-pool/ContainerPoolService';
+import { DebugCommand, ExecutionConfig, ExecutionPriority, FlowDocument, FlowExecutionRecord, FlowInterruptState, ModelCallOptions, ModelCallRecord, NodeTraceRecord } from '../../../infrastructure/container-pool/ContainerPoolService';
 import { CodeGeneratorService } from '../../blocks/services/CodeGeneratorService';
-import { BlockInstance, FlowEdge, FlowVariable } from '../../blocks/types';
+import { BlockInstance, FlowEdge, FlowVariable, ResolvedPrompt, ResolvedSubflow } from '../../blocks/types';
+import { getInterruptToolName } from '../../blocks/definitions/InterruptBlock';
+import { getPinnedPromptVersion } from '../../blocks/definitions/AgentBlock';
+import { readMockFixture } from '../../blocks/utils/mockModels';
 import { flowValidator } from './FlowValidator';
 import { connectionsService } from '../../connections/services/ConnectionsService';
+import { documentsService } from '../../documents/services/DocumentsService';
+import { promptsService } from '../../prompts/services/PromptsService';
+import { environmentsService } from '../../environments/services/EnvironmentsService';
+import { EnvironmentName } from '../../environments/types';
+import { ExecutionJob, ExecutionJobRequest, executionJobsService } from './ExecutionJobsService';
+import { DebugState, ExecutionStatus, Flow, InterruptCheckpoint, PendingInterrupt } from '../types';
+import { AuthorizationError } from '../../../shared/authorization/service-guard';
+import { validateSchema } from 'genkit/schema';
 import { logWarn } from '../../../shared/utils/logger';
+import { assertPublicUrl, deliverWebhook, deriveWebhookSecret } from '../../../shared/utils/webhooks';
+import { ENV } from '../../../config/env';
 
 type ExecuteInput = {
   flowId: string;
@@ -19,11 +32,91 @@ type ExecuteInput = {
   userAgent?: string | null;
   ipAddress?: string | null;
   stream?: boolean;
+  priority?: ExecutionPriority;
+  onNodeTraces?: NodeTracesListener;
+  executionId?: string; // Chosen by the caller so the run can be cancelled while it runs
+  queued?: boolean; // The running trace was created when the run was queued
+  recordModelCalls?: boolean; // Store the run's model requests and responses with its trace
+  replay?: ModelCallOptions; // Answer model calls from the recording of an earlier run
+  runFromNodeId?: string; // Start at this node, seeding upstream nodes from the pinned data in the flow metadata
+  breakpoints?: string[]; // Debug the run, pausing before these nodes
+  published?: boolean; // Run a published snapshot instead of the working definition
+  version?: string; // Published version to run, the latest when unset
+  environment?: EnvironmentName; // Run the version deployed to this environment, with its connections
+  variant?: string; // Traffic split variant that picked the version, recorded on the trace
+  trigger?: TraceTrigger; // What started the run, recorded on the trace
+  scheduleId?: string; // Schedule that started the run
 };
 
+type EnqueueInput = ExecutionJobRequest & {
+  callbackUrl?: string | null;
+};
+
+// Told which nodes a finished run executed, before its output is returned or its failure thrown
+type NodeTracesListener = (executionId: string, nodeTraces: NodeTraceRecord[]) => void;
+
+type ResumeInput = {
+  flowId: string;
+  executionId: string;
+  userId: string;
+  response: any;
+  priority?: ExecutionPriority;
+};
+
+type ReplayInput = {
+  flowId: string;
+  executionId: string;
+  userId: string;
+  onUnmatched?: 'live' | 'fail';
+  published?: boolean; // Replay on the latest published version rather than the working definition
+  environment?: EnvironmentName;
+  priority?: ExecutionPriority;
+};
+
+// A run that reached the container, with what is needed to record its outcome
+type CompletedRun = {
+  flow: Flow | null;
+  flowDef: any;
+  executionId: string;
+  input: any;
+  userId: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  onNodeTraces?: NodeTracesListener;
+  queued: boolean;
+  modelCalls?: ModelCallOptions; // Set when the run records its model calls
+  runFromNodeId?: string;
+  version: string; // Published version the run used, or `draft`
+  environment?: EnvironmentName;
+  variant?: string;
+  trigger?: TraceTrigger;
+  scheduleId?: string;
+};
+
+// Events of a streamed run, shaped like the Genkit streaming protocol
+export type FlowStreamEvent =
+  | { message: any }
+  | { result: any }
+  | { status: 'interrupted'; executionId: string; interrupt: PendingInterrupt }
+  | { error: { message: string; nodeId?: string; retryAfter?: number } };
+
+const INTERRUPT_SWEEP_INTERVAL_MS = 60000;
+const JOB_POLL_INTERVAL_MS = 1000;
+const JOB_CONCURRENCY = 2;
+const JOB_STALE_AFTER_MS = 600000; // Well past the container work timeout
+const JOB_MAX_ATTEMPTS = 3;
+const DEBUG_MAX_WAIT_MS = 25000; // Below common proxy timeouts, so long polls answer before they are cut
+const DEBUG_POLL_INTERVAL_MS = 250;
+const DOCUMENT_STORE_MAX_BYTES = 8 * 1024 * 1024; // Below the execution daemon's 10 MB request body limit
+const DRAFT_VERSION = 'draft'; // Recorded on traces of runs of the working definition
+
 export class FlowRunService {
   private containerPool: ContainerPoolService;
   private isInitialized = false;
+  private interruptSweep: NodeJS.Timeout | null = null;
+  private jobPoll: NodeJS.Timeout | null = null;
+  private activeJobs = 0;
+  private runningExecutions = new Map<string, string>(); // executionId -> flowId of runs dispatched here
 
   constructor() {
     this.containerPool = new ContainerPoolService({
@@ -38,9 +131,31 @@ export class FlowRunService {
 
     await this.containerPool.initialize();
     this.isInitialized = true;
+
+    // Fail paused executions nobody answered in time, and pick up queued runs whose worker went away
+    this.interruptSweep = setInterval(() => {
+      tracesService.expireInterrupts().catch(e => {
+        logWarn('Interrupt expiry sweep failed:', (e as any)?.message || e);
+      });
+      this.recoverStaleJobs().catch(e => {
+        logWarn('Stale job recovery failed:', (e as any)?.message || e);
+      });
+    }, INTERRUPT_SWEEP_INTERVAL_MS);
+    this.interruptSweep.unref();
+
+    this.jobPoll = setInterval(() => this.pollJobs(), JOB_POLL_INTERVAL_MS);
+    this.jobPoll.unref();
   }
 
   async shutdown(): Promise<void> {
+    if (this.interruptSweep) {
+      clearInterval(this.interruptSweep);
+      this.interruptSweep = null;
+    }
+    if (this.jobPoll) {
+      clearInterval(this.jobPoll);
+      this.jobPoll = null;
+    }
     await this.containerPool.shutdown();
     this.isInitialized = false;
   }
@@ -53,34 +168,28 @@ export class FlowRunService {
   }
 
   async execute(params: ExecuteInput): Promise<any> {
-    const { flowId, userId, input, nodes, edges, metadata, connections, userAgent, ipAddress, stream } = params;
+    const { flowId, userId, input, nodes, edges, metadata, connections, userAgent, ipAddress, stream, onNodeTraces } = params;
 
     // Get flow definition
     const flow = await flowService.getFlowById(flowId, userId);
     if (!flow && (!nodes || !edges)) {
       throw new Error('Flow not found');
     }
-    
-    const flowDef: any = (!nodes || !edges)
-      ? { nodes: (flow as any)!.nodes, edges: (flow as any)!.edges, metadata: (flow as any)!.metadata }
-      : { nodes, edges, metadata };
+
+    let flowDef: any;
+    let version = DRAFT_VERSION;
+    if (flow && (params.published || params.version || params.environment)) {
+      const snapshot = await this.getPublishedVersion(flow.id, await this.resolveVersion(flow.id, params));
+      flowDef = { nodes: snapshot.nodes, edges: snapshot.edges, metadata: snapshot.metadata };
+      version = snapshot.version;
+    } else {
+      flowDef = (!nodes || !edges)
+        ? { nodes: (flow as any)!.nodes, edges: (flow as any)!.edges, metadata: (flow as any)!.metadata }
+        : { nodes, edges, metadata };
+    }
     
     // Get connections (API keys)
-    let flowConnections = connections;
-    if (!flowConnections && flow) {
-      try {
-        const list = await connectionsService.listByFlow(flow.id);
-        flowConnections = list.map((c: any) => ({
-          id: c.id,
-          name: c.name,
-          provider: c.provider,
-          apiKey: c.apiKey,
-          isActive: c.isActive
-        }));
-      } catch {
-        flowConnections = [];
-      }
-    }
+    const flowConnections = connections || (flow ? await this.loadConnections(flow.id, params.environment) : undefined);
 
     // Validate flow definition
     try {
@@ -97,49 +206,41 @@ export class FlowRunService {
       throw new Error(`Validator error: ${e?.message || String(e)}`);
     }
 
-    // Convert frontend flow format to server block format
-    const blocks = this.convertNodesToBlocks(flowDef.nodes);
-    const flowEdges = this.convertEdgesToFlowEdges(flowDef.edges);
-    const variables: FlowVariable[] = []; // TODO: Extract from flow metadata if needed
-    
-    // Generate TypeScript code using new server-side code generator
-    const codeGeneratorService = new CodeGeneratorService(blocks, flowEdges, variables);
-    const generatedCode = codeGeneratorService.generate();
-    
-    if (!generatedCode.isValid) {
-      const error = new Error('Code generation failed');
-      (error as any).errors = generatedCode.errors;
-      throw error;
+    const subflows = await this.resolveSubflows(flowDef.nodes, flow, userId, version !== DRAFT_VERSION);
+    const prompts = await this.resolvePrompts(flowDef.nodes, flow);
+    const generatedCode = this.generateFlowCode(flowDef, subflows, prompts, params.runFromNodeId, Boolean(params.breakpoints));
+    const executionConfig = this.buildExecutionConfig(flowId, flowConnections);
+    const executionId = params.executionId || this.createExecutionId();
+    // Queued runs bring the id of the trace created when they were queued; callers' own ids must be new
+    if (params.executionId && !params.queued && (this.runningExecutions.has(executionId) || await tracesService.getByExecutionId(executionId))) {
+      throw new Error('Execution ID already in use');
     }
-
-    // Prepare API keys configuration
-    const executionConfig: ExecutionConfig = {
-      flowId: flowId // Pass the flowId for telemetry
-    };
-    if (flowConnections && Array.isArray(flowConnections)) {
-      for (const conn of flowConnections) {
-        if (conn.isActive === false) {
-          continue;
-        }
-        
-        switch (conn.provider) {
-          case 'googleai':
-            executionConfig.googleApiKey = conn.apiKey;
-            break;
-          case 'openai':
-            executionConfig.openaiApiKey = conn.apiKey;
-            break;
-          case 'anthropic':
-            executionConfig.anthropicApiKey = conn.apiKey;
-            break;
-        }
-      }
+    executionConfig.executionId = executionId;
+    executionConfig.priority = params.priority;
+    if (flow) {
+      await this.loadDocumentStore(executionConfig, flow.id, flowDef.nodes, subflows);
+    }
+    await this.loadMockFixtures(executionConfig, flowDef.nodes, subflows);
+    const modelCalls = params.replay || (params.recordModelCalls ? {} : undefined);
+    if (modelCalls) {
+      executionConfig.runtime = { ...executionConfig.runtime, modelCalls };
     }
+    if (params.breakpoints) {
+      executionConfig.runtime = { ...executionConfig.runtime, debug: { breakpoints: params.breakpoints } };
+    }
+    await this.recordPromptUsage(prompts, subflows);
 
     // Execute in container pool
     const execStart = Date.now();
     let result: any;
 
+    const run: CompletedRun = { flow, flowDef, executionId, input, userId, userAgent, ipAddress, onNodeTraces, queued: Boolean(params.queued), modelCalls, runFromNodeId: params.runFromNodeId, version, environment: params.environment, variant: params.variant, trigger: params.trigger, scheduleId: params.scheduleId };
+
+    // Checked again now that nothing awaits before the id is taken
+    if (this.runningExecutions.has(executionId)) {
+      throw new Error('Execution ID already in use');
+    }
+    this.runningExecutions.set(executionId, flowId);
     try {
       if (!this.isInitialized) {
         await this.initialize();
@@ -147,17 +248,23 @@ export class FlowRunService {
 
       if (stream) {
         // Return async generator for streaming
-        return this.executeStream(generatedCode.code, input, executionConfig, flow, userId, userAgent, ipAddress);
+        return this.executeStream(generatedCode.code, executionConfig, run);
       } else {
         // Regular execution
-        result = await this.containerPool.executeFlow(generatedCode.code, input, executionConfig);
+        try {
+          result = await this.containerPool.executeFlow(generatedCode.code, input, executionConfig);
+        } finally {
+          this.runningExecutions.delete(executionId);
+        }
       }
     } catch (error: any) {
+      if (!stream) {
+        this.runningExecutions.delete(executionId);
+      }
       // Store execution trace for failed execution
       if (flow) {
         const duration = Date.now() - execStart;
-        const executionId = `exec_${Date.now()}_${Math.random().toString(36).slice(2,8)}`;
-        const tracePromise = tracesService.createTrace({
+        const tracePromise = this.saveTrace(run, {
           executionId,
           input,
           output: null,
@@ -165,7 +272,10 @@ export class FlowRunService {
           duration,
           status: 'failed',
           errorMessage: error.message,
-          version: (flow as any)?.version || null,
+          version: run.version,
+          variant: run.variant,
+          trigger: run.trigger,
+          scheduleId: run.scheduleId,
           userAgent: userAgent || null,
           ipAddress: ipAddress || null,
           flowId: (flow as any).id,
@@ -185,29 +295,103 @@ export class FlowRunService {
       throw error; // Re-throw the original error
     }
 
-    const duration = Date.now() - execStart;
+    return this.completeExecution(result, run, Date.now() - execStart);
+  }
+
+  /**
+   * Persist what a finished container run produced and return its output. Throws
+   * when the run paused for input or failed.
+   */
+  private async completeExecution(result: any, run: CompletedRun, duration: number): Promise<any> {
+    const { flow, flowDef, executionId, input, userId, userAgent, ipAddress, onNodeTraces } = run;
+    if (result.retryAfter) {
+      // Turned away before reaching a container, so nothing ran and there is nothing to record
+      throw this.createBusyError(result);
+    }
+
+    if (flow) {
+      await this.persistIndexedDocuments(flow.id, executionId, result.record);
+    }
+
+    if (result.cancelled) {
+      if (flow) {
+        await this.saveTrace(run, {
+          executionId,
+          input,
+          output: null,
+          nodeTraces: result.record?.nodes || [],
+          duration,
+          status: 'cancelled',
+          errorMessage: 'Execution cancelled',
+          modelCalls: this.recordedModelCalls(run, result),
+          version: run.version,
+          variant: run.variant,
+          trigger: run.trigger,
+          scheduleId: run.scheduleId,
+          userAgent: userAgent || null,
+          ipAddress: ipAddress || null,
+          flowId: (flow as any).id,
+          executedBy: userId?.startsWith('token_') ? null : (userId || null),
+        }).catch(e => {
+          logWarn('Trace persist failed:', (e as any)?.message || e);
+        });
+      }
+      throw new Error('Execution cancelled');
+    }
+
+    if (result.success && result.interrupt) {
+      if (!flow) {
+        throw new Error('Interrupts require a saved flow');
+      }
+      const checkpoint = this.buildCheckpoint(result.interrupt, flowDef, { modelCalls: run.modelCalls, runFromNodeId: run.runFromNodeId, environment: run.environment });
+      await this.saveTrace(run, {
+        executionId,
+        input,
+        output: null,
+        nodeTraces: result.record?.nodes || [],
+        duration,
+        status: 'interrupted',
+        checkpoint,
+        modelCalls: this.recordedModelCalls(run, result),
+        version: run.version,
+        variant: run.variant,
+        trigger: run.trigger,
+        scheduleId: run.scheduleId,
+        userAgent: userAgent || null,
+        ipAddress: ipAddress || null,
+        flowId: (flow as any).id,
+        executedBy: userId?.startsWith('token_') ? null : (userId || null),
+      });
+      await this.persistSubflowTraces(executionId, result.record, userId);
+      throw this.createInterruptedError(executionId, checkpoint);
+    }
+
+    onNodeTraces?.(executionId, result.record?.nodes || []);
 
     // Store execution trace with timeout to prevent hanging
     if (flow) {
       // Run trace persistence in background with timeout - don't block response
-      const executionId = `exec_${Date.now()}_${Math.random().toString(36).slice(2,8)}`;
-      const tracePromise = tracesService.createTrace({
+      const tracePromise = this.saveTrace(run, {
         executionId,
         input,
         output: result.success ? result.result : null,
-        nodeTraces: [], // Container execution doesn't provide detailed node traces yet
+        nodeTraces: result.record?.nodes || [],
         duration,
         status: result.success ? 'completed' : 'failed',
         errorMessage: result.success ? null : (result.error || 'Unknown error'),
-        version: (flow as any)?.version || null,
+        modelCalls: this.recordedModelCalls(run, result),
+        version: run.version,
+        variant: run.variant,
+        trigger: run.trigger,
+        scheduleId: run.scheduleId,
         userAgent: userAgent || null,
         ipAddress: ipAddress || null,
         flowId: (flow as any).id,
         executedBy: userId?.startsWith('token_') ? null : (userId || null),
-      });
+      }).then(() => this.persistSubflowTraces(executionId, result.record, userId));
 
       // Run with 5 second timeout, don't await - let it run in background
-      Promise.race([
+      const persisted = Promise.race([
         tracePromise,
         new Promise((_, reject) => 
           setTimeout(() => reject(new Error('Trace persistence timeout')), 5000)
@@ -215,92 +399,905 @@ export class FlowRunService {
       ]).catch(e => {
         logWarn('Trace persist failed:', (e as any)?.message || e);
       });
+      // Queued runs have no response to hold up, and their trace must be final before the callback
+      if (run.queued) {
+        await persisted;
+      }
     }
 
     // Return direct result for Genkit compatibility
     if (!result.success) {
-      throw new Error(result.error || 'Flow execution failed');
+      const executionError = new Error(result.error || 'Flow execution failed');
+      (executionError as any).nodeId = result.nodeId;
+      throw executionError;
     }
 
     return result.result;
   }
 
-  private async *executeStream(
-    code: string, 
-    input: any, 
-    config: ExecutionConfig, 
-    flow: any, 
-    userId: string,
-    userAgent?: string | null,
-    ipAddress?: string | null
-  ): AsyncGenerator<any, void, unknown> {
+  /**
+   * Queue a run for the background worker and return its execution id right
+   * away. The run is visible as a running trace until the worker finishes it.
+   */
+  async enqueue(params: EnqueueInput): Promise<{ executionId: string; flowId: string }> {
+    const { callbackUrl, ...request } = params;
+    if (callbackUrl && !ENV.WEBHOOK_ALLOW_PRIVATE_NETWORKS) {
+      await assertPublicUrl(callbackUrl);
+    }
+
+    const flow = await flowService.getFlowById(request.flowId, request.userId);
+    if (!flow) {
+      throw new Error('Flow not found');
+    }
+
+    // Pin published runs to the version current when they were queued
+    let version = DRAFT_VERSION;
+    if (request.published || request.version || request.environment) {
+      version = request.version = (await this.getPublishedVersion(flow.id, await this.resolveVersion(flow.id, request))).version;
+    }
+
+    const executionId = this.createExecutionId();
+    await tracesService.createTrace({
+      executionId,
+      input: request.input,
+      status: 'running',
+      version,
+      variant: request.variant,
+      trigger: request.trigger,
+      scheduleId: request.scheduleId,
+      userAgent: request.userAgent || null,
+      ipAddress: request.ipAddress || null,
+      flowId: flow.id,
+      executedBy: request.userId?.startsWith('token_') ? null : (request.userId || null),
+    });
+    await executionJobsService.enqueue({ executionId, flowId: flow.id, request: { ...request, flowId: flow.id }, callbackUrl });
+
+    this.pollJobs();
+    return { executionId, flowId: flow.id };
+  }
+
+  /**
+   * Current status of an execution, for polling asynchronous runs
+   */
+  async getExecution(flowId: string, executionId: string, userId: string): Promise<ExecutionStatus> {
+    const trace = await this.getFlowTrace(flowId, executionId, userId);
+    return this.describeExecution(trace);
+  }
+
+  /**
+   * Stop an execution of the flow. Queued runs are dropped before a worker takes
+   * them, running ones are stopped in their container, and paused ones stop
+   * waiting for input.
+   */
+  async cancel(flowId: string, executionId: string, userId: string): Promise<{ executionId: string; status: 'cancelled' }> {
+    const flow = await flowService.getFlowById(flowId, userId);
+    if (!flow) {
+      throw new Error('Flow not found');
+    }
+
+    if (this.runningExecutions.get(executionId) === flow.id && await this.containerPool.cancelExecution(executionId)) {
+      return { executionId, status: 'cancelled' };
+    }
+
+    const trace = await tracesService.getByExecutionId(executionId);
+    if (!trace || trace.flowId !== flow.id) {
+      throw new Error('Execution is not running');
+    }
+
+    const job = trace.status === 'running' ? await executionJobsService.cancelQueued(executionId) : null;
+    if (job) {
+      await tracesService.updateTrace(executionId, { status: 'cancelled', errorMessage: 'Execution cancelled' });
+      await this.finishJob(job);
+      return { executionId, status: 'cancelled' };
+    }
+
+    if (trace.status === 'interrupted' && await tracesService.claimInterrupted(executionId)) {
+      await tracesService.updateTrace(executionId, { status: 'cancelled', errorMessage: 'Execution cancelled', checkpoint: null });
+      return { executionId, status: 'cancelled' };
+    }
+
+    throw new Error('Execution is not running');
+  }
+
+  /**
+   * Where a debug run of the flow is paused. With `wait`, waits up to that many
+   * milliseconds for the run to pause or stop, so debuggers can long-poll.
+   */
+  async getDebugState(flowId: string, executionId: string, userId: string, wait = 0): Promise<DebugState> {
+    const flow = await flowService.getFlowById(flowId, userId);
+    if (!flow) {
+      throw new Error('Flow not found');
+    }
+
+    const deadline = Date.now() + Math.min(wait, DEBUG_MAX_WAIT_MS);
+    while (true) {
+      if (this.runningExecutions.get(executionId) !== flow.id) {
+        return { executionId, status: 'stopped' };
+      }
+      const pause = await this.containerPool.getDebugPause(executionId);
+      if (pause) {
+        return { executionId, status: 'paused', pause };
+      }
+      if (Date.now() >= deadline) {
+        return { executionId, status: 'running' };
+      }
+      await new Promise(resolve => setTimeout(resolve, DEBUG_POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Step, continue or replace the input of a paused debug run of the flow
+   */
+  async sendDebugCommand(flowId: string, executionId: string, userId: string, command: DebugCommand): Promise<DebugState> {
+    const flow = await flowService.getFlowById(flowId, userId);
+    if (!flow) {
+      throw new Error('Flow not found');
+    }
+    if (this.runningExecutions.get(executionId) !== flow.id) {
+      throw new Error('Execution is not running');
+    }
+
+    await this.containerPool.sendDebugCommand(executionId, command);
+    return { executionId, status: 'running' };
+  }
+
+  /**
+   * Describe the interrupt an execution is waiting on
+   */
+  async getPendingInterrupt(flowId: string, executionId: string, userId: string): Promise<PendingInterrupt> {
+    const trace = await this.getFlowTrace(flowId, executionId, userId);
+    if (trace.status !== 'interrupted' || !trace.checkpoint) {
+      throw new Error('Execution is not awaiting input');
+    }
+    return this.describeInterrupt(executionId, trace.checkpoint as InterruptCheckpoint);
+  }
+
+  /**
+   * Continue an interrupted execution with the human response
+   */
+  async resume(params: ResumeInput): Promise<any> {
+    const { flowId, executionId, userId, response, priority } = params;
+
+    const trace = await this.getFlowTrace(flowId, executionId, userId);
+    if (trace.status !== 'interrupted' || !trace.checkpoint) {
+      throw new Error('Execution is not awaiting input');
+    }
+
+    const checkpoint = trace.checkpoint as InterruptCheckpoint;
+    if (checkpoint.expiresAt && new Date(checkpoint.expiresAt).getTime() < Date.now()) {
+      await tracesService.updateTrace(executionId, {
+        status: 'failed',
+        errorMessage: 'Interrupt timed out waiting for a response',
+        checkpoint: null,
+      });
+      throw new Error('Interrupt expired');
+    }
+
+    const responseErrors = this.validateInterruptResponse(checkpoint, response);
+    if (responseErrors.length > 0) {
+      const error = new Error('Invalid interrupt response');
+      (error as any).errors = responseErrors;
+      throw error;
+    }
+
+    // Claim the execution so concurrent responses cannot resume it twice
+    const claimed = await tracesService.claimInterrupted(executionId);
+    if (!claimed) {
+      throw new Error('Execution is not awaiting input');
+    }
+
+    const previousDuration = trace.duration || 0;
+    // Runs that recorded their model calls keep recording after the interrupt
+    const recording = Array.isArray(trace.modelCalls);
     const execStart = Date.now();
-    let success = true;
-    let finalResult: any = null;
-    let error: string | null = null;
+    let result: any;
 
     try {
-      // Note: ContainerPoolService doesn't support streaming yet, so we'll execute normally
-      // and yield the result as a single chunk
-      const result = await this.containerPool.executeFlow(code, input, config);
-      
-      // Simulate streaming by yielding progress and then the result
-      yield {
-        event: 'progress',
-        data: { message: 'Executing flow in secure container...', instance: 'container' }
+      const flow = await flowService.getFlowById(flowId, userId);
+      const subflows = await this.resolveSubflows(checkpoint.definition.nodes, flow, userId, Boolean(trace.version) && trace.version !== DRAFT_VERSION);
+      const prompts = await this.resolvePrompts(checkpoint.definition.nodes, flow);
+      const generatedCode = this.generateFlowCode(checkpoint.definition, subflows, prompts, checkpoint.runFromNodeId);
+      const executionConfig = this.buildExecutionConfig(trace.flowId, await this.loadConnections(trace.flowId, checkpoint.environment as EnvironmentName | undefined));
+      await this.loadDocumentStore(executionConfig, trace.flowId, checkpoint.definition.nodes, subflows);
+      await this.loadMockFixtures(executionConfig, checkpoint.definition.nodes, subflows);
+      executionConfig.runtime = {
+        ...executionConfig.runtime,
+        ...(recording ? { modelCalls: checkpoint.modelCalls || {} } : {}),
+        resume: {
+          nodeId: checkpoint.nodeId,
+          interrupts: checkpoint.interrupts,
+          messages: checkpoint.messages,
+          outputs: checkpoint.outputs,
+          response,
+        }
       };
-      
-      if (result.success) {
-        yield {
-          event: 'complete',
-          data: {
-            result: result.result,
-            instance: result.meta?.instance || 'container',
-            duration: result.meta?.duration || 0
-          }
-        };
-        finalResult = result.result;
+
+      executionConfig.executionId = executionId;
+      executionConfig.priority = priority;
+
+      if (!this.isInitialized) {
+        await this.initialize();
+      }
+
+      this.runningExecutions.set(executionId, trace.flowId);
+      try {
+        result = await this.containerPool.executeFlow(generatedCode.code, trace.input, executionConfig);
+      } finally {
+        this.runningExecutions.delete(executionId);
+      }
+    } catch (error: any) {
+      await tracesService.updateTrace(executionId, {
+        status: 'failed',
+        errorMessage: error.message,
+        duration: previousDuration + (Date.now() - execStart),
+        checkpoint: null,
+      });
+      throw error;
+    }
+
+    if (result.retryAfter) {
+      // Nothing ran, so the execution keeps waiting for its response
+      await tracesService.updateTrace(executionId, { status: 'interrupted' });
+      throw this.createBusyError(result);
+    }
+
+    const duration = previousDuration + (Date.now() - execStart);
+    // Restored nodes are not re-run, so the resumed run only adds the nodes after the interrupt
+    const nodeTraces = [...((trace.nodeTraces as NodeTraceRecord[]) || []), ...(result.record?.nodes || [])];
+    const modelCalls = recording ? [...trace.modelCalls, ...(result.record?.modelCalls || [])] : undefined;
+    await this.persistIndexedDocuments(trace.flowId, executionId, result.record);
+    await this.persistSubflowTraces(executionId, result.record, userId);
+
+    if (result.cancelled) {
+      await tracesService.updateTrace(executionId, { status: 'cancelled', errorMessage: 'Execution cancelled', duration, nodeTraces, modelCalls, checkpoint: null });
+      throw new Error('Execution cancelled');
+    }
+
+    if (result.success && result.interrupt) {
+      const nextCheckpoint = this.buildCheckpoint(result.interrupt, checkpoint.definition, { modelCalls: checkpoint.modelCalls, runFromNodeId: checkpoint.runFromNodeId, environment: checkpoint.environment });
+      await tracesService.updateTrace(executionId, { status: 'interrupted', duration, nodeTraces, modelCalls, checkpoint: nextCheckpoint });
+      throw this.createInterruptedError(executionId, nextCheckpoint);
+    }
+
+    await tracesService.updateTrace(executionId, {
+      output: result.success ? result.result : null,
+      nodeTraces,
+      modelCalls,
+      duration,
+      status: result.success ? 'completed' : 'failed',
+      errorMessage: result.success ? null : (result.error || 'Unknown error'),
+      checkpoint: null,
+    });
+
+    if (!result.success) {
+      const executionError = new Error(result.error || 'Flow execution failed');
+      (executionError as any).nodeId = result.nodeId;
+      throw executionError;
+    }
+
+    return result.result;
+  }
+
+  /**
+   * Re-run the current definition of a flow on the input of a recorded execution,
+   * answering model calls from its recording. The replay is a new execution that
+   * records its own calls, marking which were served from the recording.
+   */
+  async replay(params: ReplayInput): Promise<{ executionId: string; replayOf: string; result: any }> {
+    const { flowId, executionId, userId, onUnmatched = 'fail', published, environment, priority } = params;
+
+    const trace = await this.getFlowTrace(flowId, executionId, userId);
+    if (!Array.isArray(trace.modelCalls) || trace.modelCalls.length === 0) {
+      throw new Error('Execution has no recorded model calls');
+    }
+
+    const replayId = this.createExecutionId();
+    try {
+      const result = await this.execute({
+        flowId,
+        userId,
+        input: trace.input,
+        priority,
+        executionId: replayId,
+        published,
+        environment,
+        trigger: 'replay',
+        replay: { replay: trace.modelCalls as ModelCallRecord[], onUnmatched },
+      });
+      return { executionId: replayId, replayOf: executionId, result };
+    } catch (error: any) {
+      // Failed replays keep their trace, so point the caller at it
+      error.executionId = error.executionId || replayId;
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a run: `{ message }` events for the chunks the flow sends while it
+   * runs, then one `{ result }`, `{ error }` or interrupted event
+   */
+  private async *executeStream(code: string, config: ExecutionConfig, run: CompletedRun): AsyncGenerator<FlowStreamEvent, void, unknown> {
+    const execStart = Date.now();
+    const stream = this.containerPool.streamFlow(code, run.input, config);
+
+    try {
+      let next = await stream.next();
+      while (!next.done) {
+        yield { message: next.value };
+        next = await stream.next();
+      }
+
+      const output = await this.completeExecution(next.value, run, Date.now() - execStart);
+      yield { result: output };
+    } catch (error: any) {
+      if (error.message === 'Flow interrupted') {
+        yield { status: 'interrupted', executionId: error.executionId, interrupt: error.interrupt };
       } else {
-        yield {
-          event: 'error',
-          data: {
-            error: result.error,
-            instance: result.meta?.instance || 'container',
-            duration: result.meta?.duration || 0
-          }
-        };
-        error = result.error || 'Container execution failed';
-        success = false;
-      }
-    } catch (streamError: any) {
-      success = false;
-      error = streamError.message;
-      yield { error: streamError.message, type: 'error' };
-    }
-
-    // Store execution trace for streaming
-    if (flow) {
+        yield { error: { message: error.message, ...(error.nodeId ? { nodeId: error.nodeId } : {}), ...(error.retryAfter ? { retryAfter: error.retryAfter } : {}) } };
+      }
+    } finally {
+      // Releases the container when the client goes away mid-stream
+      await stream.return(undefined as any);
+      this.runningExecutions.delete(run.executionId);
+    }
+  }
+
+  /**
+   * Published snapshot a run executes: the given version, or the latest one
+   */
+  private async getPublishedVersion(flowId: string, version?: string) {
+    const snapshot = await flowService.getFlowVersion(flowId, version);
+    if (!snapshot) {
+      throw new Error(version ? 'Flow version not found' : 'Flow has no published version');
+    }
+    return snapshot;
+  }
+
+  /**
+   * Version a published run asked for: the pinned one, else what its environment runs
+   */
+  private async resolveVersion(flowId: string, params: { version?: string; environment?: EnvironmentName }): Promise<string | undefined> {
+    if (params.version || !params.environment) {
+      return params.version;
+    }
+    const deployed = await environmentsService.getDeployedVersion(flowId, params.environment);
+    if (!deployed) {
+      throw new Error('Environment has no deployed version');
+    }
+    return deployed;
+  }
+
+  private createBusyError(result: any): Error {
+    const error = new Error(result.error || 'Execution queue full');
+    (error as any).retryAfter = result.retryAfter;
+    return error;
+  }
+
+  private createExecutionId(): string {
+    return `exec_${Date.now()}_${Math.random().toString(36).slice(2,8)}`;
+  }
+
+  /**
+   * Load the active provider connections stored for a flow: the shared ones,
+   * then those of the run's environment, which win over shared connections of
+   * the same name or provider
+   */
+  private async loadConnections(flowId: string, environment?: EnvironmentName): Promise<any[]> {
+    try {
+      const list = await connectionsService.listByFlow(flowId);
+      const shared = list.filter((c: any) => !c.environment);
+      const own = environment ? list.filter((c: any) => c.environment === environment) : [];
+      return [...shared, ...own].map((c: any) => ({
+        id: c.id,
+        name: c.name,
+        provider: c.provider,
+        apiKey: c.apiKey,
+        isActive: c.isActive
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Generate executable code for a frontend flow definition
+   */
+  private generateFlowCode(
+    flowDef: { nodes: any[]; edges: any[]; metadata?: any },
+    subflows: Record<string, ResolvedSubflow> = {},
+    prompts: Record<string, ResolvedPrompt> = {},
+    runFromNodeId?: string,
+    debug = false
+  ) {
+    // Convert frontend flow format to server block format
+    const blocks = this.convertNodesToBlocks(flowDef.nodes);
+    const flowEdges = this.convertEdgesToFlowEdges(flowDef.edges);
+    const variables: FlowVariable[] = []; // TODO: Extract from flow metadata if needed
+    
+    // Generate TypeScript code using new server-side code generator
+    const runFrom = runFromNodeId ? { nodeId: runFromNodeId, pinnedData: flowDef.metadata?.pinnedData || {} } : undefined;
+    const codeGeneratorService = new CodeGeneratorService(blocks, flowEdges, variables, subflows, prompts, runFrom, debug);
+    const generatedCode = codeGeneratorService.generate();
+    
+    if (!generatedCode.isValid) {
+      const error = new Error('Code generation failed');
+      (error as any).errors = generatedCode.errors;
+      throw error;
+    }
+
+    return generatedCode;
+  }
+
+  /**
+   * Resolve the child flow behind every subflow node, recursively. Children must
+   * belong to the caller's organization and may not call back into a flow that
+   * is already on the call stack. Published runs only ever execute published
+   * children; the working draft of an unpinned child is for editor runs.
+   */
+  private async resolveSubflows(
+    nodes: any[],
+    parent: Flow | null,
+    userId: string,
+    published: boolean,
+    stack: Flow[] = parent ? [parent] : []
+  ): Promise<Record<string, ResolvedSubflow>> {
+    const subflowNodes = (nodes || []).filter((node: any) => (node.type || node.data?.type) === 'subflow');
+    const resolved: Record<string, ResolvedSubflow> = {};
+    if (subflowNodes.length === 0) return resolved;
+    if (!parent) {
+      throw this.createGenerationError(subflowNodes[0].id, 'Subflow blocks require a saved flow');
+    }
+
+    for (const node of subflowNodes) {
+      const config = node.data?.config || {};
+      const child = await this.findSubflow(config, userId);
+      if (!child || child.organizationId !== parent.organizationId) {
+        throw this.createGenerationError(node.id, `Sub-flow "${config.flowAlias || config.flowId}" was not found in this organization`);
+      }
+      if (stack.some(caller => caller.id === child.id)) {
+        throw this.createGenerationError(node.id, `Sub-flow cycle detected: ${[...stack, child].map(f => f.alias).join(' → ')}`);
+      }
+
+      // Pinned versions and every child of a published run come from the version history
+      const definition: { version: string; nodes: unknown; edges: unknown } | null =
+        published || (config.version && config.version !== child.version)
+          ? await flowService.getFlowVersion(child.id, config.version || undefined)
+          : child;
+      if (!definition) {
+        throw this.createGenerationError(node.id, config.version
+          ? `Sub-flow "${child.alias}" has no version "${config.version}"`
+          : `Sub-flow "${child.alias}" has no published version`);
+      }
+
+      const childNodes = (definition.nodes as any[]) || [];
+      if (childNodes.some((n: any) => (n.type || n.data?.type) === 'interrupt')) {
+        throw this.createGenerationError(node.id, `Sub-flow "${child.alias}" contains an Interrupt block; only the top-level flow can pause for input`);
+      }
+
+      resolved[node.id] = {
+        flowId: child.id,
+        alias: child.alias,
+        version: definition.version || null,
+        blocks: this.convertNodesToBlocks(childNodes),
+        edges: this.convertEdgesToFlowEdges(definition.edges as any[]),
+        subflows: await this.resolveSubflows(childNodes, child, userId, published, [...stack, child]),
+        prompts: await this.resolvePrompts(childNodes, child),
+      };
+    }
+    return resolved;
+  }
+
+  /**
+   * Resolve the library prompt behind every agent node that uses one, at its
+   * pinned version when set. Prompts must belong to the flow running them.
+   */
+  private async resolvePrompts(nodes: any[], flow: Flow | null): Promise<Record<string, ResolvedPrompt>> {
+    const libraryNodes = (nodes || []).filter((node: any) =>
+      (node.type || node.data?.type) === 'agent' && node.data?.config?.promptType === 'library'
+    );
+    const resolved: Record<string, ResolvedPrompt> = {};
+    if (libraryNodes.length === 0) return resolved;
+    if (!flow) {
+      throw this.createGenerationError(libraryNodes[0].id, 'Library prompts require a saved flow');
+    }
+
+    for (const node of libraryNodes) {
+      const config = node.data.config;
+      const current = config.promptLibraryId ? await promptsService.getById(config.promptLibraryId) : null;
+      if (!current || (current.flowId && current.flowId !== flow.id)) {
+        throw this.createGenerationError(node.id, `Prompt "${config.promptLibraryId}" was not found in this flow`);
+      }
+
+      const pinned = getPinnedPromptVersion(config);
+      const prompt = pinned && pinned !== current.version
+        ? await promptsService.getById(current.id, pinned)
+        : current;
+      if (!prompt) {
+        throw this.createGenerationError(node.id, `Prompt "${current.name}" has no version ${pinned}`);
+      }
+
+      resolved[node.id] = {
+        promptId: prompt.id,
+        name: prompt.name,
+        version: prompt.version,
+        template: prompt.template,
+        variables: Array.isArray(prompt.variables)
+          ? (prompt.variables as unknown[]).filter((name): name is string => typeof name === 'string')
+          : [],
+      };
+    }
+    return resolved;
+  }
+
+  /**
+   * Count a run against every library prompt it uses, including in sub-flows
+   */
+  private async recordPromptUsage(prompts: Record<string, ResolvedPrompt>, subflows: Record<string, ResolvedSubflow>): Promise<void> {
+    const promptIds = new Set<string>();
+    const collect = (resolved: Record<string, ResolvedPrompt>, children: Record<string, ResolvedSubflow>) => {
+      Object.values(resolved).forEach(prompt => promptIds.add(prompt.promptId));
+      Object.values(children).forEach(child => collect(child.prompts, child.subflows));
+    };
+    collect(prompts, subflows);
+    if (promptIds.size === 0) return;
+
+    try {
+      await promptsService.incrementUsage(Array.from(promptIds));
+    } catch (e) {
+      logWarn('Prompt usage update failed:', (e as any)?.message || e);
+    }
+  }
+
+  private async findSubflow(config: { flowId?: string; flowAlias?: string }, userId: string): Promise<Flow | null> {
+    try {
+      if (config.flowId) return await flowService.getFlowById(config.flowId, userId);
+      if (config.flowAlias) return await flowService.getFlowByAlias(config.flowAlias, userId);
+      return null;
+    } catch (error) {
+      // Flows the user cannot read are reported the same way as missing ones
+      if (error instanceof AuthorizationError) return null;
+      throw error;
+    }
+  }
+
+  private createGenerationError(nodeId: string, message: string): Error {
+    const error = new Error('Code generation failed');
+    (error as any).errors = [{ blockId: nodeId, message, severity: 'error' }];
+    return error;
+  }
+
+  /**
+   * Record a run's outcome. Queued runs update the running trace created when
+   * they were enqueued; other runs create their trace here.
+   */
+  private async saveTrace(run: CompletedRun, trace: CreateTraceInput): Promise<void> {
+    if (!run.queued) {
+      await tracesService.createTrace(trace);
+      return;
+    }
+    const { executionId, output, nodeTraces, duration, status, errorMessage, checkpoint, modelCalls } = trace;
+    await tracesService.updateTrace(executionId, { output, nodeTraces, duration, status, errorMessage, checkpoint, modelCalls });
+  }
+
+  /**
+   * Model calls to store with a run's trace, when it records them
+   */
+  private recordedModelCalls(run: CompletedRun, result: any): ModelCallRecord[] | undefined {
+    return run.modelCalls ? (result.record?.modelCalls || []) : undefined;
+  }
+
+  /**
+   * Start queued runs while this worker has capacity
+   */
+  private async pollJobs(): Promise<void> {
+    while (this.activeJobs < JOB_CONCURRENCY) {
+      // Hold the slot while claiming so overlapping polls cannot exceed the limit
+      this.activeJobs++;
+      let job: ExecutionJob | null = null;
       try {
-        const duration = Date.now() - execStart;
-        const executionId = `stream_${Date.now()}_${Math.random().toString(36).slice(2,8)}`;
-        await tracesService.createTrace({
-          executionId,
-          input,
-          output: success ? finalResult : null,
-          nodeTraces: [],
-          duration,
-          status: success ? 'completed' : 'failed',
-          errorMessage: error,
-          version: (flow as any)?.version || null,
-          userAgent: userAgent || null,
-          ipAddress: ipAddress || null,
-          flowId: (flow as any).id,
-          executedBy: userId?.startsWith('token_') ? null : (userId || null),
+        job = await executionJobsService.claimNext();
+      } catch (e) {
+        logWarn('Claiming queued execution failed:', (e as any)?.message || e);
+      }
+      if (!job) {
+        this.activeJobs--;
+        return;
+      }
+
+      this.runJob(job).finally(() => {
+        this.activeJobs--;
+        this.pollJobs();
+      });
+    }
+  }
+
+  private async runJob(job: ExecutionJob): Promise<void> {
+    try {
+      await this.execute({ ...job.request, executionId: job.executionId, queued: true });
+    } catch (error: any) {
+      // Paused runs wait for their response and cancelled ones are already recorded;
+      // anything else fails the run, including errors raised before it reached a container
+      if (error.message !== 'Flow interrupted' && error.message !== 'Execution cancelled') {
+        await tracesService.updateTrace(job.executionId, { status: 'failed', errorMessage: error.message }).catch(e => {
+          logWarn('Failing queued execution failed:', (e as any)?.message || e);
         });
+      }
+    }
+    await this.finishJob(job);
+  }
+
+  /**
+   * Release the job and tell its callback URL how the run ended
+   */
+  private async finishJob(job: ExecutionJob): Promise<void> {
+    try {
+      await executionJobsService.finish(job.id);
+      if (!job.callbackUrl) return;
+      const trace = await tracesService.getByExecutionId(job.executionId);
+      await deliverWebhook(job.callbackUrl, this.describeExecution(trace), deriveWebhookSecret(ENV.WEBHOOK_SIGNING_SECRET, job.flowId), {
+        allowPrivateNetworks: ENV.WEBHOOK_ALLOW_PRIVATE_NETWORKS,
+      });
+    } catch (e) {
+      logWarn(`Finishing queued execution ${job.executionId} failed:`, (e as any)?.message || e);
+    }
+  }
+
+  private async recoverStaleJobs(): Promise<void> {
+    const exhausted = await executionJobsService.recoverStale(new Date(Date.now() - JOB_STALE_AFTER_MS), JOB_MAX_ATTEMPTS);
+    for (const job of exhausted) {
+      await tracesService.updateTrace(job.executionId, { status: 'failed', errorMessage: 'Execution did not finish after repeated attempts' });
+      await this.finishJob(job);
+    }
+  }
+
+  private describeExecution(trace: any): ExecutionStatus {
+    return {
+      executionId: trace.executionId,
+      flowId: trace.flowId,
+      status: trace.status,
+      output: trace.status === 'completed' ? trace.output : null,
+      error: trace.status === 'failed' ? (trace.errorMessage || 'Unknown error') : null,
+      duration: trace.duration ?? null,
+      createdAt: new Date(trace.createdAt).toISOString(),
+      ...(trace.status === 'interrupted' && trace.checkpoint
+        ? { interrupt: this.describeInterrupt(trace.executionId, trace.checkpoint as InterruptCheckpoint) }
+        : {}),
+    };
+  }
+
+  /**
+   * Store a trace for every sub-flow call, linked to the calling execution
+   */
+  private async persistSubflowTraces(parentExecutionId: string, record: FlowExecutionRecord | undefined, userId: string): Promise<void> {
+    for (const call of record?.subflows || []) {
+      await tracesService.createTrace({
+        executionId: this.createExecutionId(),
+        parentExecutionId,
+        input: call.input,
+        output: call.output,
+        nodeTraces: call.nodes || [],
+        duration: call.duration,
+        status: call.status,
+        errorMessage: call.errorMessage || null,
+        version: call.version,
+        flowId: call.flowId,
+        executedBy: userId?.startsWith('token_') ? null : (userId || null),
+      });
+    }
+  }
+
+  /**
+   * Hand the stored documents of the flow and its sub-flows to runs that
+   * retrieve from them, only for the embedders their retrieve blocks search
+   */
+  private async loadDocumentStore(
+    executionConfig: ExecutionConfig,
+    flowId: string,
+    nodes: any[],
+    subflows: Record<string, ResolvedSubflow>
+  ): Promise<void> {
+    const embedders = new Map<string, Set<string>>(); // flow id → embedders its retrieve blocks use
+    const collect = (id: string, blocks: BlockInstance[], children: Record<string, ResolvedSubflow>) => {
+      for (const block of blocks) {
+        if (block.blockType !== 'retrieve' || !block.config?.embedder) continue;
+        if (!embedders.has(id)) embedders.set(id, new Set());
+        embedders.get(id)!.add(block.config.embedder);
+      }
+      Object.values(children).forEach(child => collect(child.flowId, child.blocks, child.subflows));
+    };
+    collect(flowId, this.convertNodesToBlocks(nodes), subflows);
+    if (embedders.size === 0) return;
+
+    // The stores share what is left of the execution payload once code and input are in
+    const maxBytes = Math.floor(DOCUMENT_STORE_MAX_BYTES / embedders.size);
+    const documents: Record<string, FlowDocument[]> = {};
+    for (const [id, used] of embedders) {
+      documents[id] = await documentsService.loadStore(id, [...used], maxBytes);
+    }
+    executionConfig.runtime = { ...executionConfig.runtime, flowId, documents };
+  }
+
+  /**
+   * Hand runs the fixture files their mock agents read scripted responses from
+   */
+  private async loadMockFixtures(
+    executionConfig: ExecutionConfig,
+    nodes: any[],
+    subflows: Record<string, ResolvedSubflow>
+  ): Promise<void> {
+    const fixtures = new Map<string, string>(); // fixture name → first node using it
+    const collect = (blocks: BlockInstance[], children: Record<string, ResolvedSubflow>) => {
+      for (const block of blocks) {
+        const name = block.blockType === 'agent' && block.config?.provider === 'mock' ? block.config.mockFixture : undefined;
+        if (name && !fixtures.has(name)) fixtures.set(name, block.id);
+      }
+      Object.values(children).forEach(child => collect(child.blocks, child.subflows));
+    };
+    collect(this.convertNodesToBlocks(nodes), subflows);
+    if (fixtures.size === 0) return;
+
+    const mockFixtures: Record<string, unknown[]> = {};
+    for (const [name, nodeId] of fixtures) {
+      try {
+        mockFixtures[name] = await readMockFixture(name);
+      } catch (e: any) {
+        throw this.createGenerationError(nodeId, e.message);
+      }
+    }
+    executionConfig.runtime = { ...executionConfig.runtime, mockFixtures };
+  }
+
+  /**
+   * Add the chunks index blocks produced during a run to the document store of
+   * the flow, or sub-flow, that indexed them
+   */
+  private async persistIndexedDocuments(flowId: string, executionId: string, record: FlowExecutionRecord | undefined): Promise<void> {
+    const byFlow = new Map<string, FlowDocument[]>();
+    for (const { flowId: indexedBy, ...document } of record?.documents || []) {
+      const id = indexedBy || flowId;
+      byFlow.set(id, [...(byFlow.get(id) || []), document]);
+    }
+    for (const [id, documents] of byFlow) {
+      try {
+        await documentsService.addDocuments(id, executionId, documents);
       } catch (e) {
-        console.warn('Stream trace persist failed:', (e as any)?.message || e);
+        logWarn('Indexed document persist failed:', (e as any)?.message || e);
+      }
+    }
+  }
+
+  /**
+   * Map flow connections onto the API keys the execution container expects
+   */
+  private buildExecutionConfig(flowId: string, flowConnections?: any[]): ExecutionConfig {
+    const executionConfig: ExecutionConfig = {
+      flowId: flowId // Pass the flowId for telemetry
+    };
+    if (flowConnections && Array.isArray(flowConnections)) {
+      const secrets: Record<string, string> = {};
+      for (const conn of flowConnections) {
+        if (conn.isActive === false) {
+          continue;
+        }
+        if (conn.name && conn.apiKey) {
+          secrets[conn.name] = conn.apiKey;
+        }
+        
+        switch (conn.provider) {
+          case 'googleai':
+            executionConfig.googleApiKey = conn.apiKey;
+            break;
+          case 'openai':
+            executionConfig.openaiApiKey = conn.apiKey;
+            break;
+          case 'anthropic':
+            executionConfig.anthropicApiKey = conn.apiKey;
+            break;
+        }
+      }
+      if (Object.keys(secrets).length > 0) {
+        executionConfig.runtime = { secrets };
+      }
+    }
+    return executionConfig;
+  }
+
+  /**
+   * Load a trace and make sure it belongs to a flow the user can access
+   */
+  private async getFlowTrace(flowId: string, executionId: string, userId: string) {
+    const flow = await flowService.getFlowById(flowId, userId);
+    if (!flow) {
+      throw new Error('Flow not found');
+    }
+
+    const trace = await tracesService.getByExecutionId(executionId);
+    if (!trace || trace.flowId !== (flow as any).id) {
+      throw new Error('Execution not found');
+    }
+    return trace;
+  }
+
+  /**
+   * Capture everything needed to continue a paused run, resolving the
+   * interrupted tool request back to the Interrupt block that defined it
+   */
+  private buildCheckpoint(
+    state: FlowInterruptState,
+    flowDef: { nodes: any[]; edges: any[]; metadata?: any },
+    options: { modelCalls?: ModelCallOptions; runFromNodeId?: string; environment?: string } = {}
+  ): InterruptCheckpoint {
+    const { modelCalls, runFromNodeId, environment } = options;
+    const request = state.interrupts?.[0]?.toolRequest;
+    const interruptNode = (flowDef.nodes || []).find((node: any) =>
+      (node.type || node.data?.type) === 'interrupt' && getInterruptToolName(node.id) === request?.name
+    );
+    const config = interruptNode?.data?.config || {};
+
+    let responseSchema: Record<string, any> | null = null;
+    if (typeof config.responseSchema === 'string' && config.responseSchema.trim()) {
+      responseSchema = JSON.parse(config.responseSchema);
+    }
+
+    const pausedAt = new Date();
+    return {
+      nodeId: state.nodeId,
+      interruptNodeId: interruptNode?.id || null,
+      interruptType: config.interruptType === 'restartable' ? 'restartable' : 'manual-response',
+      message: config.message || '',
+      question: typeof request?.input?.question === 'string' ? request.input.question : null,
+      responseSchema,
+      allowedResponses: Array.isArray(config.allowedResponses) ? config.allowedResponses : [],
+      pausedAt: pausedAt.toISOString(),
+      expiresAt: config.timeout ? new Date(pausedAt.getTime() + config.timeout).toISOString() : null,
+      interrupts: state.interrupts || [],
+      messages: state.messages || [],
+      outputs: state.outputs || {},
+      definition: { nodes: flowDef.nodes, edges: flowDef.edges, metadata: flowDef.metadata },
+      ...(modelCalls?.replay ? { modelCalls: { replay: modelCalls.replay, onUnmatched: modelCalls.onUnmatched } } : {}),
+      ...(runFromNodeId ? { runFromNodeId } : {}),
+      ...(environment ? { environment } : {}),
+    };
+  }
+
+  private describeInterrupt(executionId: string, checkpoint: InterruptCheckpoint): PendingInterrupt {
+    return {
+      executionId,
+      nodeId: checkpoint.nodeId,
+      interruptNodeId: checkpoint.interruptNodeId,
+      interruptType: checkpoint.interruptType,
+      message: checkpoint.message,
+      question: checkpoint.question,
+      responseSchema: checkpoint.responseSchema,
+      allowedResponses: checkpoint.allowedResponses,
+      pausedAt: checkpoint.pausedAt,
+      expiresAt: checkpoint.expiresAt,
+    };
+  }
+
+  private createInterruptedError(executionId: string, checkpoint: InterruptCheckpoint): Error {
+    const error = new Error('Flow interrupted');
+    (error as any).executionId = executionId;
+    (error as any).interrupt = this.describeInterrupt(executionId, checkpoint);
+    return error;
+  }
+
+  private validateInterruptResponse(checkpoint: InterruptCheckpoint, response: any): string[] {
+    if (response === undefined) {
+      return ['Response is required'];
+    }
+
+    const errors: string[] = [];
+    if (checkpoint.allowedResponses.length > 0 && !checkpoint.allowedResponses.includes(response)) {
+      errors.push(`Response must be one of: ${checkpoint.allowedResponses.join(', ')}`);
+    }
+    if (checkpoint.responseSchema) {
+      const validation = validateSchema(response, { jsonSchema: checkpoint.responseSchema });
+      for (const error of validation.errors || []) {
+        errors.push(error.path ? `${error.path}: ${error.message}` : error.message);
       }
     }
+    return errors;
   }
 
   /**
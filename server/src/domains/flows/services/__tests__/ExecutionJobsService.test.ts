@@ -0,0 +1,127 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Create mock database object first
+const mockDb = {
+  select: jest.fn(),
+  insert: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  transaction: jest.fn(),
+};
+
+// Mock the database connection before importing ExecutionJobsService
+jest.mock('../../../../infrastructure/database/connection', () => ({
+  db: mockDb,
+}));
+
+// Now import after mocking
+import { ExecutionJobsService } from '../ExecutionJobsService';
+import { resetDbMocks } from '../../../../test-utils';
+
+describe('ExecutionJobsService', () => {
+  let executionJobsService: ExecutionJobsService;
+  const request = { flowId: 'flow-123', userId: 'user-1', input: { topic: 'tides' } };
+
+  beforeEach(() => {
+    resetDbMocks();
+    executionJobsService = new ExecutionJobsService();
+  });
+
+  describe('enqueue', () => {
+    it('should queue the run with its callback URL', async () => {
+      const values = jest.fn().mockResolvedValue(undefined as never);
+      mockDb.insert.mockReturnValue({ values });
+
+      const job = await executionJobsService.enqueue({
+        executionId: 'exec-1',
+        flowId: 'flow-123',
+        request,
+        callbackUrl: 'https://example.com/hook',
+      });
+
+      expect(job).toMatchObject({ id: expect.stringMatching(/^job_/), status: 'queued', callbackUrl: 'https://example.com/hook' });
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({ executionId: 'exec-1', flowId: 'flow-123', request }));
+    });
+  });
+
+  describe('claimNext', () => {
+    let forUpdate: jest.Mock;
+    let set: jest.Mock;
+    let returning: jest.Mock;
+
+    beforeEach(() => {
+      forUpdate = jest.fn().mockReturnValue('next-queued-job');
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            orderBy: jest.fn().mockReturnValue({
+              limit: jest.fn().mockReturnValue({ for: forUpdate }),
+            }),
+          }),
+        }),
+      });
+      returning = jest.fn();
+      set = jest.fn().mockReturnValue({ where: jest.fn().mockReturnValue({ returning }) });
+      mockDb.update.mockReturnValue({ set });
+    });
+
+    it('should lock the oldest queued job without waiting on other workers', async () => {
+      returning.mockResolvedValue([{ id: 'job_1', executionId: 'exec-1', status: 'running', attempts: 1 }] as never);
+
+      const job = await executionJobsService.claimNext();
+
+      expect(job).toMatchObject({ id: 'job_1', status: 'running' });
+      expect(forUpdate).toHaveBeenCalledWith('update', { skipLocked: true });
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: 'running', lockedAt: expect.any(Date) }));
+    });
+
+    it('should return null when nothing is queued', async () => {
+      returning.mockResolvedValue([] as never);
+
+      await expect(executionJobsService.claimNext()).resolves.toBeNull();
+    });
+  });
+
+  describe('cancelQueued', () => {
+    it('should finish a job that has not been claimed yet', async () => {
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          returning: jest.fn().mockResolvedValue([{ id: 'job_3', executionId: 'exec-3' }] as never),
+        }),
+      });
+      mockDb.update.mockReturnValue({ set });
+
+      const job = await executionJobsService.cancelQueued('exec-3');
+
+      expect(set).toHaveBeenCalledWith({ status: 'finished', lockedAt: null });
+      expect(job).toMatchObject({ id: 'job_3' });
+    });
+
+    it('should return null once a worker owns the job', async () => {
+      mockDb.update.mockReturnValue({
+        set: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ returning: jest.fn().mockResolvedValue([] as never) }),
+        }),
+      });
+
+      await expect(executionJobsService.cancelQueued('exec-4')).resolves.toBeNull();
+    });
+  });
+
+  describe('recoverStale', () => {
+    it('should queue stale jobs again and return the ones out of attempts', async () => {
+      const requeue = jest.fn().mockResolvedValue(undefined as never);
+      const exhausted = [{ id: 'job_2', executionId: 'exec-2', attempts: 3 }];
+      const set = jest.fn()
+        .mockReturnValueOnce({ where: requeue })
+        .mockReturnValueOnce({ where: jest.fn().mockReturnValue({ returning: jest.fn().mockResolvedValue(exhausted as never) }) });
+      mockDb.update.mockReturnValue({ set });
+
+      const result = await executionJobsService.recoverStale(new Date(), 3);
+
+      expect(set).toHaveBeenNthCalledWith(1, { status: 'queued', lockedAt: null });
+      expect(set).toHaveBeenNthCalledWith(2, { status: 'finished', lockedAt: null });
+      expect(result).toEqual(exhausted);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { diffFlowDefinitions } from '../FlowDiff';
+
+const node = (id: string, config: Record<string, any> = {}, extra: Record<string, any> = {}) => ({
+  id,
+  type: 'custom',
+  position: { x: 0, y: 0 },
+  data: { type: 'agent', label: id, config, ...extra },
+});
+
+describe('diffFlowDefinitions', () => {
+  it('should report added, removed and changed nodes', () => {
+    const diff = diffFlowDefinitions(
+      { nodes: [node('a'), node('b', { model: 'gemini-2.5-flash', tools: ['x'] })], edges: [] },
+      { nodes: [node('b', { model: 'gemini-2.5-pro', tools: ['x'] }), node('c')], edges: [] }
+    );
+
+    expect(diff.nodes.added).toEqual([{ id: 'c', type: 'agent', label: 'c' }]);
+    expect(diff.nodes.removed).toEqual([{ id: 'a', type: 'agent', label: 'a' }]);
+    expect(diff.nodes.changed).toEqual([{
+      id: 'b',
+      type: 'agent',
+      label: 'b',
+      changes: [{ field: 'config.model', before: 'gemini-2.5-flash', after: 'gemini-2.5-pro' }],
+    }]);
+  });
+
+  it('should compare nested config by path and ignore positions and key order', () => {
+    const before = node('a', { options: { temperature: 0.2, topK: 3 }, schema: { b: 1, a: 2 } });
+    const after = {
+      ...node('a', { options: { temperature: 0.7, topK: 3 }, schema: { a: 2, b: 1 } }, { label: 'Writer' }),
+      position: { x: 100, y: 40 },
+    };
+
+    const diff = diffFlowDefinitions({ nodes: [before] }, { nodes: [after] });
+
+    expect(diff.nodes.changed[0].changes).toEqual([
+      { field: 'label', before: 'a', after: 'Writer' },
+      { field: 'config.options.temperature', before: 0.2, after: 0.7 },
+    ]);
+  });
+
+  it('should match edges by the handles they connect rather than their ids', () => {
+    const diff = diffFlowDefinitions(
+      { nodes: [], edges: [{ id: 'e1', source: 'a', target: 'b' }, { id: 'e2', source: 'b', target: 'c' }] },
+      { nodes: [], edges: [{ id: 'e9', source: 'a', target: 'b' }, { id: 'e3', source: 'a', target: 'c', sourceHandle: 'tool' }] }
+    );
+
+    expect(diff.edges.added).toEqual([{ id: 'e3', source: 'a', target: 'c', sourceHandle: 'tool' }]);
+    expect(diff.edges.removed).toEqual([{ id: 'e2', source: 'b', target: 'c' }]);
+  });
+});
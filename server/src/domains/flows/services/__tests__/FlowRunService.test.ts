@@ -1,12 +1,21 @@
-import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock all dependencies before importing the service
 const mockFlowService = {
   getFlowById: jest.fn(),
+  getFlowByAlias: jest.fn(),
+  getFlowVersion: jest.fn(),
 };
 
 const mockTracesService = {
   createTrace: jest.fn(),
+  updateTrace: jest.fn(),
+  getByExecutionId: jest.fn(),
+  claimInterrupted: jest.fn(),
+  expireInterrupts: jest.fn(),
 };
 
 const mockContainerPoolInstance = {
@@ -14,6 +23,10 @@ const mockContainerPoolInstance = {
   shutdown: jest.fn(),
   getStatus: jest.fn(() => ({ initialized: true, availableContainers: 3, activeExecutions: 0 })),
   executeFlow: jest.fn(),
+  streamFlow: jest.fn(),
+  cancelExecution: jest.fn(),
+  getDebugPause: jest.fn(),
+  sendDebugCommand: jest.fn(),
 };
 
 const mockCodeGeneratorInstance = {
@@ -53,12 +66,64 @@ jest.mock('../../../connections/services/ConnectionsService', () => ({
   },
 }));
 
+// Mock the flow document store
+jest.mock('../../../documents/services/DocumentsService', () => ({
+  __esModule: true,
+  documentsService: {
+    loadStore: jest.fn(),
+    addDocuments: jest.fn(),
+  },
+}));
+
+// Mock the prompt library
+jest.mock('../../../prompts/services/PromptsService', () => ({
+  __esModule: true,
+  promptsService: {
+    getById: jest.fn(),
+    incrementUsage: jest.fn(),
+  },
+}));
+
+// Mock deployment environments
+jest.mock('../../../environments/services/EnvironmentsService', () => ({
+  __esModule: true,
+  environmentsService: {
+    getDeployedVersion: jest.fn(),
+  },
+}));
+
+// Mock the execution job queue and webhook delivery
+jest.mock('../ExecutionJobsService', () => ({
+  __esModule: true,
+  executionJobsService: {
+    enqueue: jest.fn(),
+    claimNext: jest.fn(),
+    finish: jest.fn(),
+    cancelQueued: jest.fn(),
+    recoverStale: jest.fn(),
+  },
+}));
+
+jest.mock('../../../../shared/utils/webhooks', () => ({
+  __esModule: true,
+  assertPublicUrl: jest.fn(),
+  deliverWebhook: jest.fn(),
+  deriveWebhookSecret: jest.fn((secret: string, flowId: string) => `whsec_${flowId}`),
+}));
+
 // Get the mocked modules for use in tests
 const mockFlowValidator = require('../FlowValidator').flowValidator;
 const mockConnectionsService = require('../../../connections/services/ConnectionsService').connectionsService;
+const mockDocumentsService = require('../../../documents/services/DocumentsService').documentsService;
+const mockPromptsService = require('../../../prompts/services/PromptsService').promptsService;
+const mockEnvironmentsService = require('../../../environments/services/EnvironmentsService').environmentsService;
+const mockExecutionJobsService = require('../ExecutionJobsService').executionJobsService;
+const mockDeliverWebhook = require('../../../../shared/utils/webhooks').deliverWebhook;
+const mockAssertPublicUrl = require('../../../../shared/utils/webhooks').assertPublicUrl;
 
 // Import after mocks
 import { FlowRunService } from '../FlowRunService';
+import { CodeGeneratorService } from '../../../blocks/services/CodeGeneratorService';
 import {
   createMockFlow,
   createMockExecutionData,
@@ -79,6 +144,7 @@ describe('FlowRunService', () => {
     // Reset dynamic import mocks
     mockConnectionsService.listByFlow.mockResolvedValue([]);
     mockFlowValidator.validate.mockResolvedValue([]);
+    mockTracesService.getByExecutionId.mockResolvedValue(null);
     
     flowRunService = new FlowRunService();
     mockUser = createMockUser();
@@ -180,6 +246,85 @@ describe('FlowRunService', () => {
       expect(result).toEqual({ output: 'test output' });
     });
 
+    it('should run the latest published snapshot and record its version on the trace', async () => {
+      const snapshot = { version: '1.2.0', ...createMockFlowDefinition() };
+      mockFlowService.getFlowVersion.mockResolvedValue(snapshot);
+
+      await flowRunService.execute({ ...executeParams, published: true });
+
+      expect(mockFlowService.getFlowVersion).toHaveBeenCalledWith(mockFlow.id, undefined);
+      expect(mockFlowValidator.validate).toHaveBeenCalledWith(expect.objectContaining({ nodes: snapshot.nodes, edges: snapshot.edges }));
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({ version: '1.2.0' }));
+    });
+
+    it('should refuse published runs of flows without a published version', async () => {
+      mockFlowService.getFlowVersion.mockResolvedValue(null);
+
+      await expect(flowRunService.execute({ ...executeParams, published: true })).rejects.toThrow('Flow has no published version');
+      await expect(flowRunService.execute({ ...executeParams, version: '9.9.9' })).rejects.toThrow('Flow version not found');
+      expect(mockContainerPoolInstance.executeFlow).not.toHaveBeenCalled();
+    });
+
+    it("should run the version deployed to the caller's environment with that environment's connections", async () => {
+      mockEnvironmentsService.getDeployedVersion.mockResolvedValue('1.1.0');
+      mockFlowService.getFlowVersion.mockResolvedValue({ version: '1.1.0', ...createMockFlowDefinition() });
+      mockConnectionsService.listByFlow.mockResolvedValue([
+        { name: 'orders-api', provider: 'http', apiKey: 'sk-prod-orders', isActive: true, environment: 'prod' },
+        { name: 'orders-api', provider: 'http', apiKey: 'sk-shared-orders', isActive: true, environment: null },
+        { name: 'search-api', provider: 'http', apiKey: 'sk-shared-search', isActive: true, environment: null },
+        { name: 'staging-only', provider: 'http', apiKey: 'sk-staging', isActive: true, environment: 'staging' },
+      ]);
+
+      await flowRunService.execute({ ...executeParams, published: true, environment: 'prod' });
+
+      expect(mockEnvironmentsService.getDeployedVersion).toHaveBeenCalledWith(mockFlow.id, 'prod');
+      expect(mockFlowService.getFlowVersion).toHaveBeenCalledWith(mockFlow.id, '1.1.0');
+      const executionConfig = mockContainerPoolInstance.executeFlow.mock.calls[0][2] as any;
+      expect(executionConfig.runtime).toEqual({ secrets: { 'orders-api': 'sk-prod-orders', 'search-api': 'sk-shared-search' } });
+    });
+
+    it('should tag the trace with the traffic split variant that served the run', async () => {
+      mockFlowService.getFlowVersion.mockResolvedValue({ version: '1.3.0', ...createMockFlowDefinition() });
+
+      await flowRunService.execute({ ...executeParams, published: true, version: '1.3.0', variant: 'canary' });
+
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({ version: '1.3.0', variant: 'canary' }));
+    });
+
+    it('should refuse runs in an environment nothing is deployed to', async () => {
+      mockEnvironmentsService.getDeployedVersion.mockResolvedValue(null);
+
+      await expect(flowRunService.execute({ ...executeParams, published: true, environment: 'staging' })).rejects.toThrow('Environment has no deployed version');
+      expect(mockContainerPoolInstance.executeFlow).not.toHaveBeenCalled();
+    });
+
+    it('should expose active connection keys to request templates by connection name', async () => {
+      await flowRunService.execute({
+        ...executeParams,
+        connections: [
+          { name: 'orders-api', provider: 'http', apiKey: 'sk-orders', isActive: true },
+          { name: 'old-key', provider: 'http', apiKey: 'sk-old', isActive: false },
+        ],
+      });
+
+      const executionConfig = mockContainerPoolInstance.executeFlow.mock.calls[0][2] as any;
+      expect(executionConfig.runtime).toEqual({ secrets: { 'orders-api': 'sk-orders' } });
+    });
+
+    it('should queue the run at the priority it was given', async () => {
+      await flowRunService.execute({ ...executeParams, priority: 'interactive' });
+
+      const executionConfig = mockContainerPoolInstance.executeFlow.mock.calls[0][2] as any;
+      expect(executionConfig.priority).toBe('interactive');
+    });
+
+    it('should pass on the retry hint when every container stayed busy, without a trace', async () => {
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: false, error: 'Execution queue full', retryAfter: 30 });
+
+      await expect(flowRunService.execute(executeParams)).rejects.toMatchObject({ message: 'Execution queue full', retryAfter: 30 });
+      expect(mockTracesService.createTrace).not.toHaveBeenCalled();
+    });
+
     it('should return 404 when flow not found and no nodes/edges provided', async () => {
       mockFlowService.getFlowById.mockResolvedValue(null);
 
@@ -210,6 +355,22 @@ describe('FlowRunService', () => {
 
       await expect(flowRunService.execute(executeParams)).rejects.toThrow('Code generation failed');
     });
+
+    it('should store the node traces recorded by the run', async () => {
+      const nodes = [
+        { nodeId: 'in', nodeTitle: 'Input', nodeType: 'input', input: 'hi', output: 'hi', duration: 1, timestamp: '2024-01-01T00:00:00.000Z' },
+        { nodeId: 'agent', nodeTitle: 'Agent', nodeType: 'agent', input: 'hi', output: 'hello', duration: 8, timestamp: '2024-01-01T00:00:00.001Z' },
+      ];
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: 'hello', record: { subflows: [], nodes } });
+
+      const onNodeTraces = jest.fn();
+
+      await flowRunService.execute({ ...executeParams, onNodeTraces });
+
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed', nodeTraces: nodes }));
+      const executionId = (mockTracesService.createTrace.mock.calls[0][0] as any).executionId;
+      expect(onNodeTraces).toHaveBeenCalledWith(executionId, nodes);
+    });
   });
 
   describe('streaming execution', () => {
@@ -237,5 +398,1004 @@ describe('FlowRunService', () => {
       // Streaming execution returns an async generator, not a direct result
       expect(typeof result[Symbol.asyncIterator]).toBe('function');
     });
+
+    // Stand-in for the pool's stream: yields the chunks, then returns the execution result
+    const streamOf = (chunks: any[], result: any) => async function* () {
+      for (const chunk of chunks) yield chunk;
+      return result;
+    };
+
+    const collect = async (events: AsyncIterable<any>) => {
+      const collected: any[] = [];
+      for await (const event of events) collected.push(event);
+      return collected;
+    };
+
+    it('should yield chunks as they arrive and then the result', async () => {
+      mockTracesService.createTrace.mockResolvedValue(createMockTrace());
+      mockContainerPoolInstance.streamFlow.mockImplementation(streamOf(
+        [{ nodeId: 'agent', text: 'Hel' }, { nodeId: 'agent', text: 'lo' }],
+        { success: true, result: 'Hello', meta: { duration: 1, instance: 'c' } }
+      ));
+
+      const events = await collect(await flowRunService.execute(streamParams));
+
+      expect(events).toEqual([
+        { message: { nodeId: 'agent', text: 'Hel' } },
+        { message: { nodeId: 'agent', text: 'lo' } },
+        { result: 'Hello' },
+      ]);
+      expect(mockContainerPoolInstance.executeFlow).not.toHaveBeenCalled();
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed', output: 'Hello' }));
+    });
+
+    it('should end with an error event when the run fails', async () => {
+      mockTracesService.createTrace.mockResolvedValue(createMockTrace());
+      mockContainerPoolInstance.streamFlow.mockImplementation(streamOf(
+        [],
+        { success: false, error: 'Model quota exceeded', nodeId: 'agent', meta: { duration: 1, instance: 'c' } }
+      ));
+
+      const events = await collect(await flowRunService.execute(streamParams));
+
+      expect(events).toEqual([{ error: { message: 'Model quota exceeded', nodeId: 'agent' } }]);
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed', errorMessage: 'Model quota exceeded' }));
+    });
+
+    it('should stop the container stream when the client stops reading', async () => {
+      let finished = false;
+      mockContainerPoolInstance.streamFlow.mockImplementation(async function* () {
+        try {
+          yield { text: 'first' };
+          yield { text: 'second' };
+          return { success: true, result: null, meta: { duration: 1, instance: 'c' } };
+        } finally {
+          finished = true;
+        }
+      });
+
+      const events = await flowRunService.execute(streamParams);
+      await events.next();
+      await events.return(undefined);
+
+      expect(finished).toBe(true);
+      expect(mockTracesService.createTrace).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('interrupts', () => {
+    const interruptNodes = [
+      { id: 'agent-1', type: 'agent', position: { x: 0, y: 0 }, data: { config: {} } },
+      {
+        id: 'approval-1',
+        type: 'interrupt',
+        position: { x: 0, y: 100 },
+        data: { config: { message: 'Approve the draft?', allowedResponses: ['approve', 'reject'], timeout: 60000 } },
+      },
+    ];
+
+    const interruptState = {
+      nodeId: 'agent-1',
+      interrupts: [{ toolRequest: { name: 'interrupt_approval_1', ref: '0', input: { question: 'Ship it?' } } }],
+      messages: [{ role: 'user', content: [{ text: 'Draft' }] }],
+      outputs: { input: 'Draft', step1: 'Draft' },
+    };
+
+    const createCheckpoint = (overrides: any = {}) => ({
+      nodeId: 'agent-1',
+      interruptNodeId: 'approval-1',
+      interruptType: 'manual-response',
+      message: 'Approve the draft?',
+      question: 'Ship it?',
+      responseSchema: null,
+      allowedResponses: ['approve', 'reject'],
+      pausedAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60000).toISOString(),
+      interrupts: interruptState.interrupts,
+      messages: interruptState.messages,
+      outputs: interruptState.outputs,
+      definition: { nodes: interruptNodes, edges: [] },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockFlowService.getFlowById.mockResolvedValue(mockFlow);
+      mockCodeGeneratorInstance.generate.mockReturnValue({
+        isValid: true,
+        code: '// generated code',
+        errors: []
+      });
+      mockTracesService.createTrace.mockResolvedValue(createMockTrace());
+      mockTracesService.updateTrace.mockResolvedValue(createMockTrace());
+    });
+
+    it('should persist an interrupted trace with a checkpoint when the run pauses', async () => {
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: null, interrupt: interruptState });
+
+      const error: any = await flowRunService.execute({
+        flowId: mockFlow.id,
+        userId: mockUser.id,
+        input: 'Draft',
+        nodes: interruptNodes,
+        edges: [],
+      }).catch(e => e);
+
+      expect(error.message).toBe('Flow interrupted');
+      expect(error.executionId).toMatch(/^exec_/);
+      expect(error.interrupt).toMatchObject({
+        executionId: error.executionId,
+        nodeId: 'agent-1',
+        interruptNodeId: 'approval-1',
+        message: 'Approve the draft?',
+        question: 'Ship it?',
+        allowedResponses: ['approve', 'reject'],
+      });
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({
+        executionId: error.executionId,
+        status: 'interrupted',
+        checkpoint: expect.objectContaining({ outputs: interruptState.outputs, interrupts: interruptState.interrupts }),
+      }));
+    });
+
+    it('should run from a node with the pinned data and keep starting there once resumed', async () => {
+      const metadata = { pinnedData: { 'draft-1': 'Pinned draft' } };
+      mockContainerPoolInstance.executeFlow.mockResolvedValueOnce({ success: true, result: null, interrupt: interruptState });
+
+      const error: any = await flowRunService.execute({
+        flowId: mockFlow.id,
+        userId: mockUser.id,
+        input: 'Draft',
+        nodes: interruptNodes,
+        edges: [],
+        metadata,
+        runFromNodeId: 'agent-1',
+      }).catch(e => e);
+
+      const runFrom = { nodeId: 'agent-1', pinnedData: metadata.pinnedData };
+      expect(CodeGeneratorService).toHaveBeenLastCalledWith(expect.any(Array), [], [], {}, {}, runFrom, false);
+      const checkpoint = (mockTracesService.createTrace.mock.calls[0][0] as any).checkpoint;
+      expect(checkpoint).toMatchObject({ runFromNodeId: 'agent-1', definition: { metadata } });
+
+      const trace = { executionId: error.executionId, flowId: mockFlow.id, status: 'interrupted', input: 'Draft', checkpoint };
+      mockTracesService.getByExecutionId.mockResolvedValue(trace);
+      mockTracesService.claimInterrupted.mockResolvedValue({ ...trace, status: 'running' });
+      mockContainerPoolInstance.executeFlow.mockResolvedValueOnce({ success: true, result: 'Shipped' });
+
+      await flowRunService.resume({ flowId: mockFlow.id, executionId: error.executionId, userId: mockUser.id, response: 'approve' });
+
+      expect(CodeGeneratorService).toHaveBeenLastCalledWith(expect.any(Array), [], [], {}, {}, runFrom, false);
+    });
+
+    it('should end a streamed run that pauses with the pending interrupt', async () => {
+      mockContainerPoolInstance.streamFlow.mockImplementation(async function* () {
+        yield { nodeId: 'agent-1', text: 'Draft' };
+        return { success: true, result: null, interrupt: interruptState, meta: { duration: 1, instance: 'c' } };
+      });
+
+      const events: any[] = [];
+      const stream = await flowRunService.execute({
+        flowId: mockFlow.id,
+        userId: mockUser.id,
+        input: 'Draft',
+        nodes: interruptNodes,
+        edges: [],
+        stream: true,
+      });
+      for await (const event of stream) events.push(event);
+
+      expect(events[0]).toEqual({ message: { nodeId: 'agent-1', text: 'Draft' } });
+      expect(events[1]).toMatchObject({
+        status: 'interrupted',
+        executionId: expect.stringMatching(/^exec_/),
+        interrupt: { nodeId: 'agent-1', question: 'Ship it?' },
+      });
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({
+        executionId: events[1].executionId,
+        status: 'interrupted',
+      }));
+    });
+
+    it('should resume an interrupted execution with the human response', async () => {
+      const checkpoint = createCheckpoint();
+      const trace = { executionId: 'exec_1', flowId: mockFlow.id, status: 'interrupted', input: 'Draft', duration: 40, checkpoint };
+      mockTracesService.getByExecutionId.mockResolvedValue(trace);
+      mockTracesService.claimInterrupted.mockResolvedValue({ ...trace, status: 'running' });
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: 'Shipped' });
+
+      const result = await flowRunService.resume({
+        flowId: mockFlow.id,
+        executionId: 'exec_1',
+        userId: mockUser.id,
+        response: 'approve',
+      });
+
+      expect(result).toBe('Shipped');
+      expect(mockContainerPoolInstance.executeFlow).toHaveBeenCalledWith('// generated code', 'Draft', expect.objectContaining({
+        runtime: {
+          resume: {
+            nodeId: 'agent-1',
+            interrupts: checkpoint.interrupts,
+            messages: checkpoint.messages,
+            outputs: checkpoint.outputs,
+            response: 'approve',
+          }
+        }
+      }));
+      expect(mockTracesService.updateTrace).toHaveBeenCalledWith('exec_1', expect.objectContaining({
+        status: 'completed',
+        output: 'Shipped',
+        checkpoint: null,
+      }));
+    });
+
+    it('should add the nodes run after the interrupt to the node traces', async () => {
+      const before = { nodeId: 'input', nodeType: 'input', input: 'Draft', output: 'Draft', duration: 1, timestamp: '2024-01-01T00:00:00.000Z' };
+      const after = { nodeId: 'agent-1', nodeType: 'agent', input: 'Draft', output: 'Shipped', duration: 9, timestamp: '2024-01-01T00:01:00.000Z' };
+      const trace = { executionId: 'exec_1', flowId: mockFlow.id, status: 'interrupted', input: 'Draft', nodeTraces: [before], checkpoint: createCheckpoint() };
+      mockTracesService.getByExecutionId.mockResolvedValue(trace);
+      mockTracesService.claimInterrupted.mockResolvedValue({ ...trace, status: 'running' });
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: 'Shipped', record: { subflows: [], nodes: [after] } });
+
+      await flowRunService.resume({ flowId: mockFlow.id, executionId: 'exec_1', userId: mockUser.id, response: 'approve' });
+
+      expect(mockTracesService.updateTrace).toHaveBeenCalledWith('exec_1', expect.objectContaining({
+        status: 'completed',
+        nodeTraces: [before, after],
+      }));
+    });
+
+    it('should reject responses outside the allowed list', async () => {
+      mockTracesService.getByExecutionId.mockResolvedValue({
+        executionId: 'exec_1', flowId: mockFlow.id, status: 'interrupted', checkpoint: createCheckpoint(),
+      });
+
+      const error: any = await flowRunService.resume({
+        flowId: mockFlow.id, executionId: 'exec_1', userId: mockUser.id, response: 'maybe',
+      }).catch(e => e);
+
+      expect(error.message).toBe('Invalid interrupt response');
+      expect(error.errors).toEqual(['Response must be one of: approve, reject']);
+      expect(mockTracesService.claimInterrupted).not.toHaveBeenCalled();
+    });
+
+    it('should validate responses against the response schema', async () => {
+      mockTracesService.getByExecutionId.mockResolvedValue({
+        executionId: 'exec_1',
+        flowId: mockFlow.id,
+        status: 'interrupted',
+        checkpoint: createCheckpoint({
+          allowedResponses: [],
+          responseSchema: { type: 'object', properties: { approved: { type: 'boolean' } }, required: ['approved'] },
+        }),
+      });
+
+      const error: any = await flowRunService.resume({
+        flowId: mockFlow.id, executionId: 'exec_1', userId: mockUser.id, response: { approved: 'yes' },
+      }).catch(e => e);
+
+      expect(error.message).toBe('Invalid interrupt response');
+      expect(error.errors).toHaveLength(1);
+      expect(error.errors[0]).toContain('approved');
+    });
+
+    it('should fail executions whose interrupt has expired', async () => {
+      mockTracesService.getByExecutionId.mockResolvedValue({
+        executionId: 'exec_1',
+        flowId: mockFlow.id,
+        status: 'interrupted',
+        checkpoint: createCheckpoint({ expiresAt: new Date(Date.now() - 1000).toISOString() }),
+      });
+
+      await expect(flowRunService.resume({
+        flowId: mockFlow.id, executionId: 'exec_1', userId: mockUser.id, response: 'approve',
+      })).rejects.toThrow('Interrupt expired');
+
+      expect(mockTracesService.updateTrace).toHaveBeenCalledWith('exec_1', expect.objectContaining({ status: 'failed', checkpoint: null }));
+      expect(mockContainerPoolInstance.executeFlow).not.toHaveBeenCalled();
+    });
+
+    it('should not resume executions that are not waiting for input', async () => {
+      mockTracesService.getByExecutionId.mockResolvedValue({
+        executionId: 'exec_1', flowId: mockFlow.id, status: 'completed', checkpoint: null,
+      });
+
+      await expect(flowRunService.resume({
+        flowId: mockFlow.id, executionId: 'exec_1', userId: mockUser.id, response: 'approve',
+      })).rejects.toThrow('Execution is not awaiting input');
+    });
+
+    it('should not resume executions that belong to another flow', async () => {
+      mockTracesService.getByExecutionId.mockResolvedValue({
+        executionId: 'exec_1', flowId: 'other-flow', status: 'interrupted', checkpoint: createCheckpoint(),
+      });
+
+      await expect(flowRunService.resume({
+        flowId: mockFlow.id, executionId: 'exec_1', userId: mockUser.id, response: 'approve',
+      })).rejects.toThrow('Execution not found');
+    });
+  });
+
+  describe('subflows', () => {
+    const subflowNode = (id: string, config: any) => ({ id, type: 'subflow', position: { x: 0, y: 0 }, data: { config } });
+    let parent: any;
+    let child: any;
+
+    beforeEach(() => {
+      parent = createMockFlow({ alias: 'parent' });
+      child = createMockFlow({
+        alias: 'child',
+        organizationId: parent.organizationId,
+        nodes: [{ id: 'child-input', type: 'input', position: { x: 0, y: 0 }, data: { config: {} } }],
+      });
+      parent.nodes = [subflowNode('call-child', { flowId: child.id })];
+
+      const flows: Record<string, any> = { [parent.id]: parent, [child.id]: child };
+      mockFlowService.getFlowById.mockImplementation(async (id: any) => flows[id] || null);
+      mockCodeGeneratorInstance.generate.mockReturnValue({ isValid: true, code: '// generated code', errors: [] });
+      mockTracesService.createTrace.mockResolvedValue(createMockTrace());
+    });
+
+    it('should resolve child flows and link their traces to the parent execution', async () => {
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({
+        success: true,
+        result: { answer: 42 },
+        record: {
+          subflows: [{
+            nodeId: 'call-child', flowId: child.id, alias: 'child', version: '1.0.0',
+            input: { n: 21 }, output: { answer: 42 }, duration: 5, status: 'completed',
+            nodes: [{ nodeId: 'child-input', nodeType: 'input', input: { n: 21 }, output: { n: 21 }, duration: 1, timestamp: '2024-01-01T00:00:00.000Z' }],
+          }],
+        },
+        meta: { duration: 10, instance: 'container-123' },
+      });
+
+      await flowRunService.execute({ flowId: parent.id, userId: mockUser.id, input: { n: 21 } });
+      await new Promise(resolve => setImmediate(resolve));
+
+      const subflows = (CodeGeneratorService as any).mock.calls[0][3];
+      expect(subflows['call-child']).toMatchObject({ flowId: child.id, alias: 'child', version: '1.0.0', subflows: {} });
+      expect(subflows['call-child'].blocks).toEqual([expect.objectContaining({ id: 'child-input', blockType: 'input' })]);
+
+      const parentTrace = mockTracesService.createTrace.mock.calls[0][0] as any;
+      expect(mockTracesService.createTrace).toHaveBeenLastCalledWith(expect.objectContaining({
+        parentExecutionId: parentTrace.executionId,
+        flowId: child.id,
+        status: 'completed',
+        output: { answer: 42 },
+        nodeTraces: [expect.objectContaining({ nodeId: 'child-input' })],
+      }));
+    });
+
+    it('should load pinned versions from the version history', async () => {
+      parent.nodes = [subflowNode('call-child', { flowId: child.id, version: '0.9.0' })];
+      mockFlowService.getFlowVersion.mockResolvedValue({ version: '0.9.0', nodes: [], edges: [] });
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: null, meta: { duration: 1, instance: 'c' } });
+
+      await flowRunService.execute({ flowId: parent.id, userId: mockUser.id, input: {} });
+
+      expect(mockFlowService.getFlowVersion).toHaveBeenCalledWith(child.id, '0.9.0');
+      expect((CodeGeneratorService as any).mock.calls[0][3]['call-child']).toMatchObject({ version: '0.9.0', blocks: [] });
+    });
+
+    it('should run the latest published child, not its draft, in published runs', async () => {
+      child.nodes = [{ id: 'draft-only', type: 'input', position: { x: 0, y: 0 }, data: { config: {} } }];
+      const published = [{ id: 'child-input', type: 'input', position: { x: 0, y: 0 }, data: { config: {} } }];
+      mockFlowService.getFlowVersion.mockImplementation(async (id: any) =>
+        id === parent.id
+          ? { version: '2.0.0', nodes: parent.nodes, edges: [], metadata: {} }
+          : { version: '1.0.0', nodes: published, edges: [] }
+      );
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: null, meta: { duration: 1, instance: 'c' } });
+
+      await flowRunService.execute({ flowId: parent.id, userId: mockUser.id, input: {}, published: true });
+
+      expect(mockFlowService.getFlowVersion).toHaveBeenCalledWith(child.id, undefined);
+      const resolved = (CodeGeneratorService as any).mock.calls[0][3]['call-child'];
+      expect(resolved).toMatchObject({ version: '1.0.0' });
+      expect(resolved.blocks).toEqual([expect.objectContaining({ id: 'child-input' })]);
+    });
+
+    it('should refuse published runs of children that were never published', async () => {
+      mockFlowService.getFlowVersion.mockImplementation(async (id: any) =>
+        id === parent.id ? { version: '2.0.0', nodes: parent.nodes, edges: [], metadata: {} } : null
+      );
+
+      const error: any = await flowRunService.execute({ flowId: parent.id, userId: mockUser.id, input: {}, published: true }).catch(e => e);
+
+      expect(error.errors[0]).toMatchObject({ blockId: 'call-child', message: 'Sub-flow "child" has no published version' });
+    });
+
+    it('should reject cycles across flows', async () => {
+      child.nodes = [subflowNode('call-parent', { flowId: parent.id })];
+
+      const error: any = await flowRunService.execute({ flowId: parent.id, userId: mockUser.id, input: {} }).catch(e => e);
+
+      expect(error.message).toBe('Code generation failed');
+      expect(error.errors).toEqual([
+        { blockId: 'call-parent', message: 'Sub-flow cycle detected: parent → child → parent', severity: 'error' },
+      ]);
+      expect(mockContainerPoolInstance.executeFlow).not.toHaveBeenCalled();
+    });
+
+    it('should reject flows from another organization', async () => {
+      child.organizationId = 'other-org';
+
+      const error: any = await flowRunService.execute({ flowId: parent.id, userId: mockUser.id, input: {} }).catch(e => e);
+
+      expect(error.errors[0]).toMatchObject({ blockId: 'call-child', message: `Sub-flow "${child.id}" was not found in this organization` });
+    });
+
+    it('should reject child flows that can pause for input', async () => {
+      child.nodes = [{ id: 'approval', type: 'interrupt', position: { x: 0, y: 0 }, data: { config: { message: 'Ok?' } } }];
+
+      const error: any = await flowRunService.execute({ flowId: parent.id, userId: mockUser.id, input: {} }).catch(e => e);
+
+      expect(error.errors[0].message).toContain('contains an Interrupt block');
+    });
+  });
+
+  describe('document store', () => {
+    const node = (id: string, type: string, config: any = {}) => ({ id, type, position: { x: 0, y: 0 }, data: { config } });
+    const storedDocument = { content: 'Stored chunk', metadata: {}, embedding: [0.6, 0.8], embedder: 'flowshapr/fake-embedder' };
+
+    beforeEach(() => {
+      mockFlowService.getFlowById.mockResolvedValue(mockFlow);
+      mockCodeGeneratorInstance.generate.mockReturnValue({ isValid: true, code: '// generated code', errors: [] });
+      mockTracesService.createTrace.mockResolvedValue(createMockTrace());
+      mockDocumentsService.loadStore.mockResolvedValue([storedDocument]);
+      mockDocumentsService.addDocuments.mockResolvedValue(1);
+    });
+
+    it('should hand the stored documents to flows that retrieve', async () => {
+      mockFlow.nodes = [node('in', 'input'), node('search', 'retrieve', { embedder: 'flowshapr/fake-embedder' })];
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: [], meta: { duration: 1, instance: 'c' } });
+
+      await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: 'query' });
+
+      expect(mockDocumentsService.loadStore).toHaveBeenCalledWith(mockFlow.id, ['flowshapr/fake-embedder'], expect.any(Number));
+      const executionConfig = mockContainerPoolInstance.executeFlow.mock.calls[0][2] as any;
+      expect(executionConfig.runtime).toEqual({ flowId: mockFlow.id, documents: { [mockFlow.id]: [storedDocument] } });
+    });
+
+    it('should load the store of sub-flows that retrieve under their own flow id', async () => {
+      const child = { ...mockFlow, id: 'flow-child', alias: 'search', nodes: [node('in', 'input'), node('search', 'retrieve', { embedder: 'googleai/text-embedding-004' })], edges: [] };
+      mockFlow.nodes = [node('in', 'input'), node('call', 'subflow', { flowId: child.id })];
+      mockFlowService.getFlowById.mockImplementation(async (id: string) => (id === child.id ? child : mockFlow));
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: [], meta: { duration: 1, instance: 'c' } });
+
+      await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: 'query' });
+
+      expect(mockDocumentsService.loadStore).toHaveBeenCalledTimes(1);
+      expect(mockDocumentsService.loadStore).toHaveBeenCalledWith(child.id, ['googleai/text-embedding-004'], expect.any(Number));
+      const executionConfig = mockContainerPoolInstance.executeFlow.mock.calls[0][2] as any;
+      expect(executionConfig.runtime.documents).toEqual({ [child.id]: [storedDocument] });
+    });
+
+    it('should not load the store for flows without retrieve blocks', async () => {
+      mockFlow.nodes = [node('in', 'input'), node('store', 'index', { embedder: 'flowshapr/fake-embedder' })];
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: null, meta: { duration: 1, instance: 'c' } });
+
+      await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: 'text' });
+
+      expect(mockDocumentsService.loadStore).not.toHaveBeenCalled();
+    });
+
+    it('should persist the chunks indexed during the run', async () => {
+      mockFlow.nodes = [node('in', 'input'), node('store', 'index', { embedder: 'flowshapr/fake-embedder' })];
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({
+        success: true,
+        result: { documents: 1, chunks: 1 },
+        record: { subflows: [], documents: [storedDocument] },
+        meta: { duration: 1, instance: 'c' },
+      });
+
+      await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: 'Stored chunk' });
+
+      const traceInput = mockTracesService.createTrace.mock.calls[0][0] as any;
+      expect(mockDocumentsService.addDocuments).toHaveBeenCalledWith(mockFlow.id, traceInput.executionId, [storedDocument]);
+    });
+
+    it('should persist chunks a sub-flow indexed to that sub-flow', async () => {
+      mockFlow.nodes = [node('in', 'input'), node('store', 'index', { embedder: 'flowshapr/fake-embedder' })];
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({
+        success: true,
+        result: null,
+        record: { subflows: [], documents: [storedDocument, { ...storedDocument, flowId: 'flow-child' }] },
+        meta: { duration: 1, instance: 'c' },
+      });
+
+      await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: 'Stored chunk' });
+
+      const traceInput = mockTracesService.createTrace.mock.calls[0][0] as any;
+      expect(mockDocumentsService.addDocuments).toHaveBeenCalledWith(mockFlow.id, traceInput.executionId, [storedDocument]);
+      expect(mockDocumentsService.addDocuments).toHaveBeenCalledWith('flow-child', traceInput.executionId, [storedDocument]);
+    });
+  });
+
+  describe('mock fixtures', () => {
+    const mockAgent = (id: string, mockFixture?: string) => ({
+      id,
+      type: 'agent',
+      position: { x: 0, y: 0 },
+      data: { config: { provider: 'mock', model: 'scripted', promptType: 'static', userPrompt: '{{input}}', mockFixture } },
+    });
+    let fixturesDir: string;
+
+    beforeEach(async () => {
+      fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mock-fixtures-'));
+      process.env.MOCK_FIXTURES_DIR = fixturesDir;
+      mockFlowService.getFlowById.mockResolvedValue(mockFlow);
+      mockCodeGeneratorInstance.generate.mockReturnValue({ isValid: true, code: '// generated code', errors: [] });
+      mockTracesService.createTrace.mockResolvedValue(createMockTrace());
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: 'Sunny', meta: { duration: 1, instance: 'c' } });
+    });
+
+    afterEach(async () => {
+      delete process.env.MOCK_FIXTURES_DIR;
+      await fs.rm(fixturesDir, { recursive: true, force: true });
+    });
+
+    it('should hand mock agents the rules of their fixture files', async () => {
+      await fs.writeFile(path.join(fixturesDir, 'weather.json'), JSON.stringify({ responses: [{ match: 'weather', text: 'Sunny' }] }));
+      mockFlow.nodes = [mockAgent('forecast', 'weather'), mockAgent('chat')];
+
+      await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: 'weather?' });
+
+      const executionConfig = mockContainerPoolInstance.executeFlow.mock.calls[0][2] as any;
+      expect(executionConfig.runtime).toEqual({ mockFixtures: { weather: [{ match: 'weather', text: 'Sunny' }] } });
+    });
+
+    it('should fail generation for the node whose fixture is missing', async () => {
+      mockFlow.nodes = [mockAgent('forecast', 'missing')];
+
+      const error: any = await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: 'weather?' }).catch(e => e);
+
+      expect(error.errors).toEqual([{ blockId: 'forecast', message: 'Mock fixture "missing" was not found', severity: 'error' }]);
+      expect(mockContainerPoolInstance.executeFlow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('model call recording', () => {
+    const call = (text: string) => ({
+      nodeId: 'forecast',
+      model: 'mock/scripted',
+      request: { messages: [{ role: 'user', content: [{ text: 'weather?' }] }] },
+      response: { message: { role: 'model', content: [{ text }] } },
+      duration: 3,
+    });
+
+    beforeEach(() => {
+      mockFlowService.getFlowById.mockResolvedValue(mockFlow);
+      mockCodeGeneratorInstance.generate.mockReturnValue({ isValid: true, code: '// generated code', errors: [] });
+      mockTracesService.createTrace.mockResolvedValue(createMockTrace());
+      mockTracesService.updateTrace.mockResolvedValue(createMockTrace());
+    });
+
+    it('should store the model calls of runs that record them with the trace', async () => {
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: 'Sunny', record: { subflows: [], nodes: [], modelCalls: [call('Sunny')] } });
+
+      await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: 'weather?', recordModelCalls: true });
+
+      const executionConfig = mockContainerPoolInstance.executeFlow.mock.calls[0][2] as any;
+      expect(executionConfig.runtime).toEqual({ modelCalls: {} });
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed', modelCalls: [call('Sunny')] }));
+    });
+
+    it('should replay the current flow on the recorded input and calls', async () => {
+      // Only the replayed run exists; the replay gets an id of its own
+      mockTracesService.getByExecutionId.mockImplementation(async (id: any) =>
+        id === 'exec_1' ? { executionId: 'exec_1', flowId: mockFlow.id, status: 'completed', input: 'weather?', modelCalls: [call('Sunny')] } : null
+      );
+      const replayedCall = { ...call('Sunny'), replayed: true };
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: 'Sunny', record: { subflows: [], nodes: [], modelCalls: [replayedCall] } });
+
+      const replay = await flowRunService.replay({ flowId: mockFlow.id, executionId: 'exec_1', userId: mockUser.id, onUnmatched: 'live' });
+
+      expect(replay).toEqual({ executionId: expect.stringMatching(/^exec_/), replayOf: 'exec_1', result: 'Sunny' });
+      expect(replay.executionId).not.toBe('exec_1');
+      expect(mockContainerPoolInstance.executeFlow).toHaveBeenCalledWith('// generated code', 'weather?', expect.objectContaining({
+        executionId: replay.executionId,
+        runtime: { modelCalls: { replay: [call('Sunny')], onUnmatched: 'live' } },
+      }));
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({ executionId: replay.executionId, modelCalls: [replayedCall] }));
+    });
+
+    it('should point failed replays at their own execution', async () => {
+      // Only the replayed run exists; the replay gets an id of its own
+      mockTracesService.getByExecutionId.mockImplementation(async (id: any) =>
+        id === 'exec_1' ? { executionId: 'exec_1', flowId: mockFlow.id, status: 'completed', input: 'weather?', modelCalls: [call('Sunny')] } : null
+      );
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: false, error: 'No recorded model call matches this request of node "forecast"', nodeId: 'forecast' });
+
+      const error: any = await flowRunService.replay({ flowId: mockFlow.id, executionId: 'exec_1', userId: mockUser.id }).catch(e => e);
+
+      expect(error).toMatchObject({ nodeId: 'forecast', executionId: expect.stringMatching(/^exec_/) });
+      expect(error.executionId).not.toBe('exec_1');
+      const executionConfig = mockContainerPoolInstance.executeFlow.mock.calls[0][2] as any;
+      expect(executionConfig.runtime.modelCalls.onUnmatched).toBe('fail');
+    });
+
+    it('should refuse to replay executions without recorded calls', async () => {
+      mockTracesService.getByExecutionId.mockResolvedValue({ executionId: 'exec_1', flowId: mockFlow.id, status: 'completed', input: 'weather?', modelCalls: null });
+
+      await expect(flowRunService.replay({ flowId: mockFlow.id, executionId: 'exec_1', userId: mockUser.id })).rejects.toThrow('Execution has no recorded model calls');
+      expect(mockContainerPoolInstance.executeFlow).not.toHaveBeenCalled();
+    });
+
+    it('should keep recording when a recorded run resumes', async () => {
+      const checkpoint = {
+        nodeId: 'forecast',
+        interruptNodeId: null,
+        interruptType: 'manual-response',
+        message: 'Go on?',
+        question: null,
+        responseSchema: null,
+        allowedResponses: [],
+        pausedAt: new Date().toISOString(),
+        expiresAt: null,
+        interrupts: [],
+        messages: [],
+        outputs: {},
+        definition: { nodes: [], edges: [] },
+      };
+      const trace = { executionId: 'exec_1', flowId: mockFlow.id, status: 'interrupted', input: 'weather?', checkpoint, modelCalls: [call('Asking')] };
+      mockTracesService.getByExecutionId.mockResolvedValue(trace);
+      mockTracesService.claimInterrupted.mockResolvedValue({ ...trace, status: 'running' });
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: 'Sunny', record: { subflows: [], nodes: [], modelCalls: [call('Sunny')] } });
+
+      await flowRunService.resume({ flowId: mockFlow.id, executionId: 'exec_1', userId: mockUser.id, response: 'yes' });
+
+      const executionConfig = mockContainerPoolInstance.executeFlow.mock.calls[0][2] as any;
+      expect(executionConfig.runtime.modelCalls).toEqual({});
+      expect(mockTracesService.updateTrace).toHaveBeenCalledWith('exec_1', expect.objectContaining({
+        status: 'completed',
+        modelCalls: [call('Asking'), call('Sunny')],
+      }));
+    });
+  });
+
+  describe('prompt library', () => {
+    const agentNode = (id: string, config: any = {}) => ({
+      id,
+      type: 'agent',
+      position: { x: 0, y: 0 },
+      data: { config: { provider: 'googleai', model: 'gemini-2.5-flash', promptType: 'library', promptLibraryId: 'prm_1', ...config } },
+    });
+    let prompt: any;
+
+    beforeEach(() => {
+      prompt = {
+        id: 'prm_1',
+        name: 'greeting',
+        template: 'Say hello to {{name}}',
+        variables: ['name'],
+        version: 3,
+        flowId: mockFlow.id,
+      };
+      mockFlowService.getFlowById.mockResolvedValue(mockFlow);
+      mockCodeGeneratorInstance.generate.mockReturnValue({ isValid: true, code: '// generated code', errors: [] });
+      mockTracesService.createTrace.mockResolvedValue(createMockTrace());
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: 'hi', meta: { duration: 1, instance: 'c' } });
+      mockPromptsService.getById.mockImplementation(async (id: any, version?: any) =>
+        id !== prompt.id ? null : version === undefined ? prompt : version === 1 ? { ...prompt, version: 1, template: 'Hi {{name}}' } : null
+      );
+      mockPromptsService.incrementUsage.mockResolvedValue(undefined);
+    });
+
+    it('should resolve the latest prompt and count the run against it', async () => {
+      mockFlow.nodes = [agentNode('ask')];
+
+      await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: { name: 'Ada' } });
+
+      const prompts = (CodeGeneratorService as any).mock.calls[0][4];
+      expect(prompts).toEqual({
+        ask: { promptId: 'prm_1', name: 'greeting', version: 3, template: 'Say hello to {{name}}', variables: ['name'] },
+      });
+      expect(mockPromptsService.incrementUsage).toHaveBeenCalledWith(['prm_1']);
+    });
+
+    it('should resolve pinned versions', async () => {
+      mockFlow.nodes = [agentNode('ask', { promptVersion: 1 })];
+
+      await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: {} });
+
+      expect(mockPromptsService.getById).toHaveBeenLastCalledWith('prm_1', 1);
+      expect((CodeGeneratorService as any).mock.calls[0][4].ask).toMatchObject({ version: 1, template: 'Hi {{name}}' });
+    });
+
+    it('should reject prompts from another flow and missing versions', async () => {
+      mockFlow.nodes = [agentNode('ask', { promptVersion: 2 })];
+
+      const missingVersion: any = await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: {} }).catch(e => e);
+
+      prompt.flowId = 'other-flow';
+      const otherFlow: any = await flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: {} }).catch(e => e);
+
+      expect(missingVersion.errors).toEqual([{ blockId: 'ask', message: 'Prompt "greeting" has no version 2', severity: 'error' }]);
+      expect(otherFlow.errors[0]).toMatchObject({ blockId: 'ask', message: 'Prompt "prm_1" was not found in this flow' });
+      expect(mockContainerPoolInstance.executeFlow).not.toHaveBeenCalled();
+      expect(mockPromptsService.incrementUsage).not.toHaveBeenCalled();
+    });
+
+    it('should still run when the usage count cannot be updated', async () => {
+      mockFlow.nodes = [agentNode('ask')];
+      mockPromptsService.incrementUsage.mockRejectedValue(new Error('db down'));
+
+      await expect(flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: {} })).resolves.toBe('hi');
+    });
+  });
+
+  describe('async execution', () => {
+    const job = (overrides: any = {}) => ({
+      id: 'job_1',
+      executionId: 'exec_async',
+      flowId: mockFlow.id,
+      request: { flowId: mockFlow.id, userId: mockUser.id, input: { message: 'hi' } },
+      callbackUrl: 'https://example.com/hooks/flowshapr',
+      attempts: 1,
+      ...overrides,
+    });
+
+    // Let the background worker run the claimed job to the end
+    const waitForJob = async () => {
+      for (let i = 0; i < 50 && mockExecutionJobsService.finish.mock.calls.length === 0; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      await new Promise(resolve => setImmediate(resolve));
+    };
+
+    beforeEach(() => {
+      mockFlowService.getFlowById.mockResolvedValue(mockFlow);
+      mockCodeGeneratorInstance.generate.mockReturnValue({ isValid: true, code: '// generated code', errors: [] });
+      mockTracesService.createTrace.mockResolvedValue(createMockTrace());
+      mockTracesService.updateTrace.mockResolvedValue(createMockTrace());
+      mockExecutionJobsService.enqueue.mockResolvedValue({});
+      mockExecutionJobsService.claimNext.mockResolvedValue(null);
+      mockExecutionJobsService.finish.mockResolvedValue(undefined);
+      mockDeliverWebhook.mockResolvedValue(undefined);
+    });
+
+    it('should persist a running trace and queue the run', async () => {
+      const queued = await flowRunService.enqueue({
+        flowId: mockFlow.id,
+        userId: mockUser.id,
+        input: { message: 'hi' },
+        callbackUrl: 'https://example.com/hooks/flowshapr',
+      });
+
+      expect(queued).toEqual({ executionId: expect.stringMatching(/^exec_/), flowId: mockFlow.id });
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({
+        executionId: queued.executionId,
+        status: 'running',
+        input: { message: 'hi' },
+      }));
+      expect(mockExecutionJobsService.enqueue).toHaveBeenCalledWith({
+        executionId: queued.executionId,
+        flowId: mockFlow.id,
+        request: { flowId: mockFlow.id, userId: mockUser.id, input: { message: 'hi' } },
+        callbackUrl: 'https://example.com/hooks/flowshapr',
+      });
+      expect(mockContainerPoolInstance.executeFlow).not.toHaveBeenCalled();
+    });
+
+    it('should refuse callback URLs on private networks before queueing', async () => {
+      mockAssertPublicUrl.mockRejectedValueOnce(new Error('Callback URL must not point to a private or loopback address'));
+
+      await expect(flowRunService.enqueue({
+        flowId: mockFlow.id,
+        userId: mockUser.id,
+        input: {},
+        callbackUrl: 'http://169.254.169.254/latest/meta-data',
+      })).rejects.toThrow('Callback URL must not point to a private or loopback address');
+      expect(mockAssertPublicUrl).toHaveBeenCalledWith('http://169.254.169.254/latest/meta-data');
+      expect(mockExecutionJobsService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should pin queued published runs to the version published when they were queued', async () => {
+      mockFlowService.getFlowVersion.mockResolvedValue({ version: '1.2.0', nodes: [], edges: [] });
+
+      const queued = await flowRunService.enqueue({ flowId: mockFlow.id, userId: mockUser.id, input: {}, published: true });
+
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({ version: '1.2.0' }));
+      expect(mockExecutionJobsService.enqueue).toHaveBeenCalledWith(expect.objectContaining({
+        executionId: queued.executionId,
+        request: expect.objectContaining({ published: true, version: '1.2.0' }),
+      }));
+    });
+
+    it('should not queue runs of unknown flows', async () => {
+      mockFlowService.getFlowById.mockResolvedValue(null);
+
+      await expect(flowRunService.enqueue({ flowId: 'missing', userId: mockUser.id, input: {} })).rejects.toThrow('Flow not found');
+      expect(mockExecutionJobsService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should run claimed jobs on their running trace and post the outcome to the callback', async () => {
+      mockExecutionJobsService.claimNext.mockResolvedValueOnce(job()).mockResolvedValue(null);
+      mockContainerPoolInstance.executeFlow.mockResolvedValue({ success: true, result: 'done', record: { subflows: [], nodes: [] } });
+      mockTracesService.getByExecutionId.mockResolvedValue({
+        executionId: 'exec_async', flowId: mockFlow.id, status: 'completed', output: 'done', duration: 12, createdAt: new Date('2024-01-01T00:00:00Z'),
+      });
+
+      await flowRunService.enqueue({ flowId: mockFlow.id, userId: mockUser.id, input: { message: 'hi' } });
+      await waitForJob();
+
+      expect(mockTracesService.createTrace).toHaveBeenCalledTimes(1);
+      expect(mockTracesService.updateTrace).toHaveBeenCalledWith('exec_async', expect.objectContaining({ status: 'completed', output: 'done' }));
+      expect(mockExecutionJobsService.finish).toHaveBeenCalledWith('job_1');
+      expect(mockDeliverWebhook).toHaveBeenCalledWith(
+        'https://example.com/hooks/flowshapr',
+        {
+          executionId: 'exec_async',
+          flowId: mockFlow.id,
+          status: 'completed',
+          output: 'done',
+          error: null,
+          duration: 12,
+          createdAt: '2024-01-01T00:00:00.000Z',
+        },
+        `whsec_${mockFlow.id}`,
+        { allowPrivateNetworks: false }
+      );
+    });
+
+    it('should fail the run when it cannot start', async () => {
+      mockExecutionJobsService.claimNext.mockResolvedValueOnce(job({ callbackUrl: null })).mockResolvedValue(null);
+      mockCodeGeneratorInstance.generate.mockReturnValue({ isValid: false, code: '', errors: [] });
+
+      await flowRunService.enqueue({ flowId: mockFlow.id, userId: mockUser.id, input: {} });
+      await waitForJob();
+
+      expect(mockTracesService.updateTrace).toHaveBeenCalledWith('exec_async', { status: 'failed', errorMessage: 'Code generation failed' });
+      expect(mockExecutionJobsService.finish).toHaveBeenCalledWith('job_1');
+      expect(mockDeliverWebhook).not.toHaveBeenCalled();
+    });
+
+    it('should describe executions for polling', async () => {
+      mockTracesService.getByExecutionId.mockResolvedValue({
+        executionId: 'exec_async', flowId: mockFlow.id, status: 'failed', errorMessage: 'Model quota exceeded', output: null, duration: 40, createdAt: '2024-01-01T00:00:00Z',
+      });
+
+      await expect(flowRunService.getExecution(mockFlow.id, 'exec_async', mockUser.id)).resolves.toMatchObject({
+        executionId: 'exec_async',
+        status: 'failed',
+        output: null,
+        error: 'Model quota exceeded',
+      });
+
+      mockTracesService.getByExecutionId.mockResolvedValue({ executionId: 'exec_async', flowId: 'other-flow', status: 'running' });
+      await expect(flowRunService.getExecution(mockFlow.id, 'exec_async', mockUser.id)).rejects.toThrow('Execution not found');
+    });
+  });
+
+  describe('cancellation', () => {
+    beforeEach(() => {
+      mockFlowService.getFlowById.mockResolvedValue(mockFlow);
+      mockCodeGeneratorInstance.generate.mockReturnValue({ isValid: true, code: '// generated code', errors: [] });
+      mockTracesService.createTrace.mockResolvedValue(createMockTrace());
+      mockTracesService.updateTrace.mockResolvedValue(createMockTrace());
+      mockExecutionJobsService.finish.mockResolvedValue(undefined);
+      mockDeliverWebhook.mockResolvedValue(undefined);
+    });
+
+    it('should stop a running execution in its container and record it as cancelled', async () => {
+      let finishRun: (result: any) => void = () => {};
+      mockContainerPoolInstance.executeFlow.mockReturnValue(new Promise(resolve => { finishRun = resolve; }));
+      mockContainerPoolInstance.cancelExecution.mockImplementation(async () => {
+        finishRun({ success: false, cancelled: true, error: 'Execution cancelled' });
+        return true;
+      });
+
+      const running = flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: {}, executionId: 'exec_test_cancel' });
+      for (let i = 0; i < 20 && mockContainerPoolInstance.executeFlow.mock.calls.length === 0; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      await expect(flowRunService.cancel(mockFlow.id, 'exec_test_cancel', mockUser.id)).resolves.toEqual({ executionId: 'exec_test_cancel', status: 'cancelled' });
+      await expect(running).rejects.toThrow('Execution cancelled');
+
+      expect(mockContainerPoolInstance.executeFlow).toHaveBeenCalledWith('// generated code', {}, expect.objectContaining({ executionId: 'exec_test_cancel' }));
+      expect(mockContainerPoolInstance.cancelExecution).toHaveBeenCalledWith('exec_test_cancel');
+      expect(mockTracesService.createTrace).toHaveBeenCalledWith(expect.objectContaining({
+        executionId: 'exec_test_cancel',
+        status: 'cancelled',
+        errorMessage: 'Execution cancelled',
+      }));
+    });
+
+    it('should refuse execution ids that are already in use', async () => {
+      let finishRun: (result: any) => void = () => {};
+      mockContainerPoolInstance.executeFlow.mockReturnValue(new Promise(resolve => { finishRun = resolve; }));
+      mockTracesService.getByExecutionId.mockResolvedValue(null);
+
+      const running = flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: {}, executionId: 'exec_test_taken' });
+      for (let i = 0; i < 20 && mockContainerPoolInstance.executeFlow.mock.calls.length === 0; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      await expect(flowRunService.execute({ flowId: 'other-flow', userId: mockUser.id, input: {}, nodes: [], edges: [], executionId: 'exec_test_taken' }))
+        .rejects.toThrow('Execution ID already in use');
+      finishRun({ success: true, result: null });
+      await running;
+
+      mockTracesService.getByExecutionId.mockResolvedValue({ executionId: 'exec_test_taken', flowId: mockFlow.id, status: 'completed' });
+      await expect(flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: {}, executionId: 'exec_test_taken' }))
+        .rejects.toThrow('Execution ID already in use');
+      expect(mockContainerPoolInstance.executeFlow).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop a queued run before a worker claims it', async () => {
+      mockTracesService.getByExecutionId.mockResolvedValue({ executionId: 'exec_async', flowId: mockFlow.id, status: 'running', createdAt: new Date() });
+      mockExecutionJobsService.cancelQueued.mockResolvedValue({ id: 'job_1', executionId: 'exec_async', callbackUrl: 'https://example.com/hooks/flowshapr' });
+
+      await flowRunService.cancel(mockFlow.id, 'exec_async', mockUser.id);
+
+      expect(mockContainerPoolInstance.cancelExecution).not.toHaveBeenCalled();
+      expect(mockTracesService.updateTrace).toHaveBeenCalledWith('exec_async', { status: 'cancelled', errorMessage: 'Execution cancelled' });
+      expect(mockExecutionJobsService.finish).toHaveBeenCalledWith('job_1');
+      expect(mockDeliverWebhook).toHaveBeenCalledWith('https://example.com/hooks/flowshapr', expect.any(Object), expect.any(String), expect.any(Object));
+    });
+
+    it('should stop a paused execution from waiting for input', async () => {
+      mockTracesService.getByExecutionId.mockResolvedValue({ executionId: 'exec_paused', flowId: mockFlow.id, status: 'interrupted', checkpoint: {} });
+      mockTracesService.claimInterrupted.mockResolvedValue({ executionId: 'exec_paused' });
+
+      await flowRunService.cancel(mockFlow.id, 'exec_paused', mockUser.id);
+
+      expect(mockTracesService.updateTrace).toHaveBeenCalledWith('exec_paused', { status: 'cancelled', errorMessage: 'Execution cancelled', checkpoint: null });
+    });
+
+    it('should refuse executions that already finished or belong to another flow', async () => {
+      mockTracesService.getByExecutionId.mockResolvedValue({ executionId: 'exec_done', flowId: mockFlow.id, status: 'completed' });
+      await expect(flowRunService.cancel(mockFlow.id, 'exec_done', mockUser.id)).rejects.toThrow('Execution is not running');
+
+      mockTracesService.getByExecutionId.mockResolvedValue({ executionId: 'exec_done', flowId: 'other-flow', status: 'interrupted' });
+      await expect(flowRunService.cancel(mockFlow.id, 'exec_done', mockUser.id)).rejects.toThrow('Execution is not running');
+      expect(mockTracesService.updateTrace).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('debugging', () => {
+    beforeEach(() => {
+      mockFlowService.getFlowById.mockResolvedValue(mockFlow);
+      mockCodeGeneratorInstance.generate.mockReturnValue({ isValid: true, code: '// generated code', errors: [] });
+      mockTracesService.createTrace.mockResolvedValue(createMockTrace());
+    });
+
+    it('should run with pause hooks and report where the run paused until it is told to go on', async () => {
+      let finishRun: (result: any) => void = () => {};
+      mockContainerPoolInstance.executeFlow.mockReturnValue(new Promise(resolve => { finishRun = resolve; }));
+      const pause = { nodeId: 'agent', input: 'hello', ctx: { input: 'hello' } };
+      mockContainerPoolInstance.getDebugPause.mockResolvedValue(pause);
+      mockContainerPoolInstance.sendDebugCommand.mockImplementation(async () => {
+        finishRun({ success: true, result: 'HELLO', meta: { duration: 5 } });
+      });
+
+      const running = flowRunService.execute({ flowId: mockFlow.id, userId: mockUser.id, input: 'hello', executionId: 'exec_test_debug', breakpoints: ['agent'] });
+      for (let i = 0; i < 20 && mockContainerPoolInstance.executeFlow.mock.calls.length === 0; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      await expect(flowRunService.getDebugState(mockFlow.id, 'exec_test_debug', mockUser.id, 1000)).resolves.toEqual({
+        executionId: 'exec_test_debug',
+        status: 'paused',
+        pause,
+      });
+      await expect(flowRunService.sendDebugCommand(mockFlow.id, 'exec_test_debug', mockUser.id, { action: 'continue', input: 'HELLO' }))
+        .resolves.toEqual({ executionId: 'exec_test_debug', status: 'running' });
+      await expect(running).resolves.toBe('HELLO');
+
+      expect((CodeGeneratorService as any).mock.calls[0][6]).toBe(true);
+      expect(mockContainerPoolInstance.executeFlow).toHaveBeenCalledWith('// generated code', 'hello', expect.objectContaining({
+        runtime: expect.objectContaining({ debug: { breakpoints: ['agent'] } }),
+      }));
+      expect(mockContainerPoolInstance.sendDebugCommand).toHaveBeenCalledWith('exec_test_debug', { action: 'continue', input: 'HELLO' });
+      await expect(flowRunService.getDebugState(mockFlow.id, 'exec_test_debug', mockUser.id)).resolves.toEqual({ executionId: 'exec_test_debug', status: 'stopped' });
+    });
+
+    it('should refuse commands for runs that are not running here', async () => {
+      await expect(flowRunService.sendDebugCommand(mockFlow.id, 'exec_elsewhere', mockUser.id, { action: 'step' })).rejects.toThrow('Execution is not running');
+      expect(mockContainerPoolInstance.sendDebugCommand).not.toHaveBeenCalled();
+    });
   });
-});
\ No newline at end of file
+});
@@ -535,6 +535,27 @@ describe('FlowService', () => {
       ).resolves.not.toThrow();
     });
 
+    it('should snapshot the published definition under the published version', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue([{ ...mockFlow, createdBy: mockUser.id }]),
+          }),
+        }),
+      });
+      const values = jest.fn().mockResolvedValue(undefined);
+      mockDb.insert.mockReturnValue({ values });
+
+      await flowService.publishFlow(mockFlow.id, { version: '1.1.0', changelog: 'Better prompts' }, mockUser.id);
+
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({
+        version: '1.1.0',
+        changelog: 'Better prompts',
+        nodes: mockFlow.nodes,
+        edges: mockFlow.edges,
+      }));
+    });
+
     it('should throw NotFoundError when flow does not exist', async () => {
       mockDb.select.mockReturnValue({
         from: jest.fn().mockReturnValue({
@@ -549,4 +570,56 @@ describe('FlowService', () => {
       ).rejects.toThrow(NotFoundError);
     });
   });
+
+  describe('flow versions', () => {
+    const flowRow = () => ({
+      from: jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          limit: jest.fn().mockResolvedValue([{ ...mockFlow, createdBy: mockUser.id }]),
+        }),
+      }),
+    });
+    const versionRows = (rows: any[]) => ({
+      from: jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          orderBy: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue(rows),
+          }),
+        }),
+      }),
+    });
+
+    it('should throw NotFoundError for versions that were never stored', async () => {
+      mockDb.select
+        .mockReturnValueOnce(flowRow())
+        .mockReturnValueOnce(versionRows([]));
+
+      await expect(
+        flowService.getVersionSnapshot(mockFlow.id, '0.9.0', mockUser.id)
+      ).rejects.toThrow('Flow version not found');
+    });
+
+    it('should restore a stored version into the working definition', async () => {
+      const snapshot = {
+        version: '1.0.0',
+        nodes: [{ id: 'input-1', type: 'input', position: { x: 0, y: 0 }, data: { type: 'input' } }],
+        edges: [],
+        metadata: { description: 'old' },
+      };
+      const set = jest.fn().mockReturnValue({ where: jest.fn().mockResolvedValue(undefined) });
+      mockDb.update.mockReturnValue({ set });
+      mockDb.select
+        .mockReturnValueOnce(flowRow())
+        .mockReturnValueOnce(versionRows([snapshot]))
+        .mockReturnValue(flowRow());
+
+      await flowService.restoreFlowVersion(mockFlow.id, '1.0.0', mockUser.id);
+
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({
+        nodes: snapshot.nodes,
+        edges: [],
+        metadata: expect.objectContaining({ description: 'old', restoredFromVersion: '1.0.0' }),
+      }));
+    });
+  });
 });
\ No newline at end of file
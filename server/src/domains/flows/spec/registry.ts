@@ -3,12 +3,12 @@ import { z } from 'zod';
 export type HandleSpec = {
   id: string;
   type: 'source' | 'target';
-  role: 'data' | 'tool' | 'condition-true' | 'condition-false';
+  role: 'data' | 'tool' | 'condition-true' | 'condition-false' | 'loop-item';
 };
 
 export type NodeSpec = {
   type: string; // e.g. 'input', 'agent'
-  role: 'input' | 'agent' | 'transform' | 'output' | 'condition' | 'tool';
+  role: 'input' | 'agent' | 'transform' | 'output' | 'condition' | 'tool' | 'foreach' | 'subflow' | 'http' | 'embed' | 'index' | 'retrieve';
   handles: HandleSpec[];
   configSchema: z.ZodTypeAny;
 };
@@ -22,21 +22,26 @@ const inputConfig = z.object({
 });
 
 const agentConfig = z.object({
-  provider: z.enum(['googleai', 'openai', 'anthropic']),
+  provider: z.enum(['googleai', 'openai', 'anthropic', 'mock']),
   model: z.string(),
   promptType: z.enum(['static', 'library']).optional(),
   systemPrompt: z.string().optional(),
   userPrompt: z.string().optional(),
+  promptLibraryId: z.string().optional(),
+  promptVersion: z.number().int().min(1).optional(),
   temperature: z.number().optional(),
   maxTokens: z.number().optional(),
   topP: z.number().optional(),
   topK: z.number().optional(),
   candidateCount: z.number().optional(),
+  mockResponses: z.string().optional(),
+  mockFixture: z.string().optional(),
 });
 
 const transformConfig = z.object({
   code: z.string().optional(),
-  language: z.enum(['javascript', 'typescript', 'python']).optional(),
+  language: z.enum(['javascript']).optional(),
+  timeout: z.number().optional(),
 });
 
 const outputConfig = z.object({
@@ -50,6 +55,49 @@ const conditionConfig = z.object({
   falseLabel: z.string().optional(),
 });
 
+const foreachConfig = z.object({
+  itemsPath: z.string().optional(),
+  concurrency: z.number().int().min(1).max(50).optional(),
+  errorPolicy: z.enum(['fail-fast', 'skip', 'collect']).optional(),
+});
+
+const subflowConfig = z.object({
+  flowId: z.string().optional(),
+  flowAlias: z.string().optional(),
+  version: z.string().optional(),
+  inputMapping: z.union([z.record(z.string()), z.string()]).optional(),
+});
+
+const httpConfig = z.object({
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).optional(),
+  url: z.string(),
+  headers: z.union([z.record(z.string()), z.string()]).optional(),
+  body: z.string().optional(),
+  responseType: z.enum(['json', 'text']).optional(),
+  timeout: z.number().positive().max(120000).optional(),
+  retries: z.number().int().min(0).max(5).optional(),
+  retryDelay: z.number().min(0).max(30000).optional(),
+});
+
+const embedderConfig = z.string().min(1);
+
+const embedConfig = z.object({
+  embedder: embedderConfig,
+  text: z.string().optional(),
+});
+
+const indexConfig = z.object({
+  embedder: embedderConfig,
+  chunkSize: z.number().int().min(0).max(20000).optional(),
+  chunkOverlap: z.number().int().min(0).optional(),
+});
+
+const retrieveConfig = z.object({
+  embedder: embedderConfig,
+  query: z.string().optional(),
+  topK: z.number().int().min(1).max(50).optional(),
+});
+
 const mcpToolConfig = z.object({
   toolType: z.literal('mcp'),
   name: z.string().optional(),
@@ -105,6 +153,61 @@ export const NODE_REGISTRY: Record<string, NodeSpec> = {
     ],
     configSchema: conditionConfig,
   },
+  foreach: {
+    type: 'foreach',
+    role: 'foreach',
+    handles: [
+      { id: 'default', type: 'target', role: 'data' },
+      { id: 'item', type: 'source', role: 'loop-item' },
+      { id: 'done', type: 'source', role: 'data' },
+    ],
+    configSchema: foreachConfig,
+  },
+  subflow: {
+    type: 'subflow',
+    role: 'subflow',
+    handles: [
+      { id: 'default', type: 'target', role: 'data' },
+      { id: 'default', type: 'source', role: 'data' },
+    ],
+    configSchema: subflowConfig,
+  },
+  http: {
+    type: 'http',
+    role: 'http',
+    handles: [
+      { id: 'default', type: 'target', role: 'data' },
+      { id: 'default', type: 'source', role: 'data' },
+    ],
+    configSchema: httpConfig,
+  },
+  embed: {
+    type: 'embed',
+    role: 'embed',
+    handles: [
+      { id: 'default', type: 'target', role: 'data' },
+      { id: 'default', type: 'source', role: 'data' },
+    ],
+    configSchema: embedConfig,
+  },
+  index: {
+    type: 'index',
+    role: 'index',
+    handles: [
+      { id: 'default', type: 'target', role: 'data' },
+      { id: 'default', type: 'source', role: 'data' },
+    ],
+    configSchema: indexConfig,
+  },
+  retrieve: {
+    type: 'retrieve',
+    role: 'retrieve',
+    handles: [
+      { id: 'default', type: 'target', role: 'data' },
+      { id: 'default', type: 'source', role: 'data' },
+    ],
+    configSchema: retrieveConfig,
+  },
   tool: {
     type: 'tool',
     role: 'tool',
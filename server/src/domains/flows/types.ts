@@ -1,3 +1,5 @@
+import { DebugPause, ModelCallOptions } from '../../infrastructure/container-pool/ContainerPoolService';
+
 export interface Flow {
   id: string;
   name: string;
@@ -34,6 +36,16 @@ export interface FlowVersion {
   createdBy: string;
 }
 
+export interface FlowVersionSummary {
+  id: string;
+  version: string;
+  changelog?: string;
+  nodeCount: number;
+  edgeCount: number;
+  createdAt: Date;
+  createdBy: string;
+}
+
 export interface FlowMember {
   id: string;
   role: 'owner' | 'admin' | 'developer' | 'viewer';
@@ -75,3 +87,66 @@ export interface FlowQueryOptions {
   offset: number;
   includeArchived?: boolean;
 }
+
+/**
+ * Execution state persisted on a trace while a run waits for a human response
+ */
+export interface InterruptCheckpoint {
+  nodeId: string; // Agent node that raised the interrupt
+  interruptNodeId: string | null; // Interrupt block the model called
+  interruptType: 'manual-response' | 'restartable';
+  message: string;
+  question: string | null;
+  responseSchema: Record<string, any> | null;
+  allowedResponses: string[];
+  pausedAt: string;
+  expiresAt: string | null;
+  interrupts: any[];
+  messages: any[];
+  outputs: Record<string, any>;
+  definition: { nodes: any[]; edges: any[]; metadata?: any };
+  modelCalls?: ModelCallOptions; // Recording a replayed run keeps answering from once resumed
+  runFromNodeId?: string; // Node a partial run started at, so the resumed run leaves out the same nodes
+  environment?: string; // Deployment environment whose connections the resumed run uses
+}
+
+/**
+ * Client-facing description of a pending interrupt
+ */
+export interface PendingInterrupt {
+  executionId: string;
+  nodeId: string;
+  interruptNodeId: string | null;
+  interruptType: 'manual-response' | 'restartable';
+  message: string;
+  question: string | null;
+  responseSchema: Record<string, any> | null;
+  allowedResponses: string[];
+  pausedAt: string;
+  expiresAt: string | null;
+}
+
+/**
+ * Client-facing status of an execution, polled for asynchronous runs and
+ * posted to their callback URL when they finish
+ */
+export interface ExecutionStatus {
+  executionId: string;
+  flowId: string;
+  status: 'running' | 'completed' | 'failed' | 'interrupted' | 'cancelled';
+  output: any;
+  error: string | null;
+  duration: number | null;
+  createdAt: string;
+  interrupt?: PendingInterrupt; // Set while the run waits for a human response
+}
+
+/**
+ * A debug run as the debugger sees it: paused before a node, running between
+ * breakpoints, or stopped when it is not running on this server
+ */
+export interface DebugState {
+  executionId: string;
+  status: 'paused' | 'running' | 'stopped';
+  pause?: DebugPause;
+}
@@ -74,10 +74,44 @@ export const executeFlowSchema = z.object({
   edges: z.array(flowEdgeSchema).optional(),
   metadata: z.any().optional(),
   connections: z.array(z.object({ id: z.string(), name: z.string(), provider: z.string(), apiKey: z.string().optional() })).optional(),
+  includeTraces: z.boolean().optional(), // Answer with the run's node traces alongside the result
+  executionId: z.string().regex(/^exec_[A-Za-z0-9_-]{8,64}$/, 'Invalid execution ID').optional(), // Lets the caller cancel the run while it runs
+  recordModelCalls: z.boolean().optional(), // Store the run's model requests and responses for replay
+  runFromNodeId: z.string().min(1).optional(), // Start at this node, seeding upstream nodes from metadata.pinnedData
+  breakpoints: z.array(z.string().min(1)).optional(), // Debug the run, pausing before these nodes
+  version: versionSchema.optional(), // Run this published version instead of the latest (or, from the editor, the draft)
 });
 
 export type ExecuteFlowRequest = z.infer<typeof executeFlowSchema>;
 
+// Execute flow query: `async=true` queues the run and answers with its execution id
+export const executeFlowQuerySchema = z.object({
+  async: z.enum(['true', 'false']).optional(),
+  // Its host must resolve to public addresses, checked when the run is queued and before each delivery
+  callbackUrl: z.string().url('Invalid callback URL').refine(url => /^https?:\/\//i.test(url), 'Callback URL must use http or https').optional(),
+}).refine(query => !query.callbackUrl || query.async === 'true', { message: 'callbackUrl requires async=true', path: ['callbackUrl'] });
+
+// Resume interrupted execution schema (request body)
+export const resumeExecutionSchema = z.object({
+  response: z.any(),
+});
+
+// Replay execution schema (request body): unmatched model calls fail the replay unless they may go live
+export const replayExecutionSchema = z.object({
+  onUnmatched: z.enum(['live', 'fail']).optional(),
+});
+
+// Debug state query: `wait` long-polls up to that many milliseconds for the run to pause
+export const debugStateQuerySchema = z.object({
+  wait: z.string().regex(/^\d{1,5}$/, 'Wait must be a number of milliseconds').optional(),
+});
+
+// Debug command schema (request body): setting `input` replaces the paused node's input
+export const debugCommandSchema = z.object({
+  action: z.enum(['step', 'continue']),
+  input: z.any().optional(),
+});
+
 // Publish flow schema
 export const publishFlowSchema = z.object({
   version: versionSchema.optional(),
@@ -110,13 +144,37 @@ export const flowIdSchema = z.object({
   id: z.string().min(1, 'Invalid flow ID'),
 });
 
-// Flow alias param schema
-export const flowAliasSchema = z.object({
-  alias: z.string()
-    .min(2, "Alias must be at least 2 characters long")
-    .max(50, "Alias must be less than 50 characters")
-    .regex(/^[a-z0-9-_]+$/, "Alias can only contain lowercase letters, numbers, hyphens, and underscores")
-    .transform(alias => alias.toLowerCase().trim()),
+// Flow alias param schema: `my-flow@1.2.0` pins a published version
+export const flowAliasSchema = z.object({ alias: z.string() })
+  .transform(({ alias }) => {
+    const [name, ...version] = alias.split('@');
+    return version.length > 0 ? { alias: name, version: version.join('@') } : { alias: name };
+  })
+  .pipe(z.object({
+    alias: z.string()
+      .min(2, "Alias must be at least 2 characters long")
+      .max(50, "Alias must be less than 50 characters")
+      .regex(/^[a-z0-9-_]+$/, "Alias can only contain lowercase letters, numbers, hyphens, and underscores")
+      .transform(alias => alias.toLowerCase().trim()),
+    version: versionSchema.optional(),
+  }));
+
+// Flow execution param schema
+export const flowExecutionParamsSchema = z.object({
+  id: z.string().min(1, 'Invalid flow ID'),
+  executionId: z.string().min(1, 'Invalid execution ID'),
+});
+
+// Flow version param schema
+export const flowVersionParamsSchema = z.object({
+  id: z.string().min(1, 'Invalid flow ID'),
+  version: versionSchema,
+});
+
+// Version diff query: `current` stands for the working definition, which `to` defaults to
+export const flowVersionDiffQuerySchema = z.object({
+  from: z.union([versionSchema, z.literal('current')]),
+  to: z.union([versionSchema, z.literal('current')]).optional(),
 });
 
 // Member ID param schema
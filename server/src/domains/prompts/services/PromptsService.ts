@@ -1,9 +1,9 @@
-import { and, eq } from 'drizzle-orm';
+import { and, eq, inArray, sql } from 'drizzle-orm';
 import { db } from '../../../infrastructure/database/connection';
 import { requireUserAbility } from '../../../shared/authorization/service-guard';
 import { NotFoundError, ValidationError, ForbiddenError } from '../../../shared/utils/errors';
 import { logError, logInfo } from '../../../shared/utils/logger';
-import { prompt } from '../../../infrastructure/database/schema';
+import { prompt, promptVersion } from '../../../infrastructure/database/schema';
 
 export interface CreatePromptInput {
   name: string;
@@ -172,6 +172,23 @@ export class PromptsService {
           : {};
       }
 
+      // Keep the previous content when the template or variables change
+      const current = existingPrompt[0];
+      const templateChanged = updateData.template !== undefined && updateData.template !== current.template;
+      const variablesChanged = updateData.variables !== undefined &&
+        JSON.stringify(updateData.variables) !== JSON.stringify(current.variables || []);
+      if (templateChanged || variablesChanged) {
+        await db.insert(promptVersion).values({
+          id: `prv_${Date.now()}_${Math.random().toString(36).slice(2,8)}`,
+          promptId,
+          version: current.version,
+          template: current.template,
+          variables: current.variables || [],
+          createdBy: userId || current.createdBy,
+        });
+        updateData.version = current.version + 1;
+      }
+
       await db
         .update(prompt)
         .set(updateData)
@@ -275,12 +292,45 @@ export class PromptsService {
     }
   }
 
-  async getById(promptId: string) {
+  /**
+   * Fetch a prompt, optionally as it was at an earlier version
+   */
+  async getById(promptId: string, version?: number) {
     if (!db) {
       throw new Error('Database connection not available');
     }
     const rows = await db.select().from(prompt).where(eq(prompt.id, promptId)).limit(1);
-    return rows?.[0] || null;
+    const current = rows?.[0] || null;
+    if (!current || version === undefined || version === current.version) {
+      return current;
+    }
+
+    const versions = await db
+      .select()
+      .from(promptVersion)
+      .where(
+        and(
+          eq(promptVersion.promptId, promptId),
+          eq(promptVersion.version, version)
+        )
+      )
+      .limit(1);
+    const previous = versions?.[0];
+    if (!previous) {
+      return null;
+    }
+    return { ...current, version: previous.version, template: previous.template, variables: previous.variables };
+  }
+
+  async incrementUsage(promptIds: string[]) {
+    if (!db) {
+      throw new Error('Database connection not available');
+    }
+    if (promptIds.length === 0) return;
+    await db
+      .update(prompt)
+      .set({ usageCount: sql`${prompt.usageCount} + 1` })
+      .where(inArray(prompt.id, promptIds));
   }
 }
 
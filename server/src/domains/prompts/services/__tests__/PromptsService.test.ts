@@ -44,6 +44,8 @@ describe('PromptsService', () => {
       template: 'Hello {{name}}',
       variables: ['name'],
       metadata: {},
+      version: 1,
+      usageCount: 0,
       flowId: 'flow-123',
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -201,6 +203,9 @@ describe('PromptsService', () => {
       // Reset mocks for each test
       mockDb.select.mockClear();
       mockDb.update.mockClear();
+      mockDb.insert.mockReturnValue({
+        values: jest.fn().mockResolvedValue(undefined),
+      });
     });
 
     it('should update prompt successfully', async () => {
@@ -242,6 +247,49 @@ describe('PromptsService', () => {
       expect(result).toEqual(updatedPrompt);
     });
 
+    it('should archive the previous template and bump the version when the template changes', async () => {
+      const values = jest.fn().mockResolvedValue(undefined);
+      const set = jest.fn().mockReturnValue({ where: jest.fn().mockResolvedValue(undefined) });
+      mockDb.insert.mockReturnValue({ values });
+      mockDb.update.mockReturnValue({ set });
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue([mockPrompt]),
+          }),
+        }),
+      });
+
+      await promptsService.updateForFlow(flowId, promptId, { template: 'Hi {{name}}' }, mockUser.id);
+
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({
+        id: expect.stringMatching(/^prv_/),
+        promptId,
+        version: 1,
+        template: 'Hello {{name}}',
+        variables: ['name'],
+        createdBy: mockUser.id,
+      }));
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({ template: 'Hi {{name}}', version: 2 }));
+    });
+
+    it('should keep the version when only the name changes', async () => {
+      const set = jest.fn().mockReturnValue({ where: jest.fn().mockResolvedValue(undefined) });
+      mockDb.update.mockReturnValue({ set });
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue([mockPrompt]),
+          }),
+        }),
+      });
+
+      await promptsService.updateForFlow(flowId, promptId, { name: 'Renamed', template: mockPrompt.template }, mockUser.id);
+
+      expect(mockDb.insert).not.toHaveBeenCalled();
+      expect(set.mock.calls[0][0]).not.toHaveProperty('version');
+    });
+
     it('should throw ValidationError for empty name', async () => {
       const invalidData = { name: '' };
 
@@ -451,5 +499,83 @@ describe('PromptsService', () => {
 
       expect(result).toBeNull();
     });
+
+    it('should return an earlier version when pinned', async () => {
+      const current = { ...mockPrompt, version: 3, template: 'Hey {{name}}' };
+      mockDb.select
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              limit: jest.fn().mockResolvedValue([current]),
+            }),
+          }),
+        })
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              limit: jest.fn().mockResolvedValue([{ promptId, version: 1, template: 'Hello {{name}}', variables: ['name'] }]),
+            }),
+          }),
+        });
+
+      const result = await promptsService.getById(promptId, 1);
+
+      expect(result).toEqual({ ...current, version: 1, template: 'Hello {{name}}', variables: ['name'] });
+    });
+
+    it('should return the current prompt when pinned to its current version', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue([mockPrompt]),
+          }),
+        }),
+      });
+
+      const result = await promptsService.getById(promptId, 1);
+
+      expect(result).toEqual(mockPrompt);
+      expect(mockDb.select).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null when the pinned version does not exist', async () => {
+      mockDb.select
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              limit: jest.fn().mockResolvedValue([mockPrompt]),
+            }),
+          }),
+        })
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              limit: jest.fn().mockResolvedValue([]),
+            }),
+          }),
+        });
+
+      const result = await promptsService.getById(promptId, 7);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('incrementUsage', () => {
+    it('should bump the usage count of every prompt in one update', async () => {
+      const where = jest.fn().mockResolvedValue(undefined);
+      mockDb.update.mockReturnValue({ set: jest.fn().mockReturnValue({ where }) });
+
+      await promptsService.incrementUsage(['prompt-123', 'prompt-456']);
+
+      expect(mockDb.update).toHaveBeenCalledTimes(1);
+      expect(where).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the update when no prompts were used', async () => {
+      await promptsService.incrementUsage([]);
+
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+import { schedulesService } from '../services/SchedulesService';
+import { AppError, ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../../shared/utils/errors';
+import { AuthorizationError } from '../../../shared/authorization/service-guard';
+import { logError } from '../../../shared/utils/logger';
+
+export class SchedulesController {
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any; // flowId
+      const schedules = await schedulesService.list(id, req.user!.id);
+      res.json({ success: true, data: schedules });
+    } catch (e) {
+      logError('List schedules error:', e);
+      this.sendError(res, e, 'Failed to list schedules');
+    }
+  }
+
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any; // flowId
+      const schedule = await schedulesService.create(id, req.body, req.user!.id);
+      res.status(201).json({ success: true, data: schedule, message: 'Schedule created' });
+    } catch (e) {
+      logError('Create schedule error:', e);
+      this.sendError(res, e, 'Failed to create schedule');
+    }
+  }
+
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, scheduleId } = req.params as any; // flowId, scheduleId
+      const schedule = await schedulesService.update(id, scheduleId, req.body, req.user!.id);
+      res.json({ success: true, data: schedule, message: 'Schedule updated' });
+    } catch (e) {
+      logError('Update schedule error:', e);
+      this.sendError(res, e, 'Failed to update schedule');
+    }
+  }
+
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, scheduleId } = req.params as any; // flowId, scheduleId
+      await schedulesService.delete(id, scheduleId, req.user!.id);
+      res.json({ success: true, message: 'Schedule deleted' });
+    } catch (e) {
+      logError('Delete schedule error:', e);
+      this.sendError(res, e, 'Failed to delete schedule');
+    }
+  }
+
+  async listRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params as any; // flowId
+      const runs = await schedulesService.listRuns(id, req.user!.id);
+      res.json({ success: true, data: runs });
+    } catch (e) {
+      logError('List scheduled runs error:', e);
+      this.sendError(res, e, 'Failed to list scheduled runs');
+    }
+  }
+
+  private sendError(res: Response, error: unknown, fallbackMessage: string): void {
+    if (error instanceof AuthorizationError) {
+      res.status(403).json({ success: false, error: { message: error.message, code: 'FORBIDDEN' } });
+      return;
+    }
+    if (error instanceof AppError) {
+      const code = error instanceof NotFoundError ? 'NOT_FOUND'
+        : error instanceof ForbiddenError ? 'FORBIDDEN'
+        : error instanceof ConflictError ? 'CONFLICT'
+        : error instanceof ValidationError ? 'VALIDATION_ERROR'
+        : 'INTERNAL_ERROR';
+      res.status(error.statusCode).json({ success: false, error: { message: error.message, code } });
+      return;
+    }
+    res.status(500).json({ success: false, error: { message: fallbackMessage, code: 'INTERNAL_ERROR' } });
+  }
+}
+
+export const schedulesController = new SchedulesController();
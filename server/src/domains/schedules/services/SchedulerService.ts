@@ -0,0 +1,70 @@
+import { schedulesService } from './SchedulesService';
+import { flowRunService } from '../../flows/services/FlowRunService';
+import { logInfo, logWarn } from '../../../shared/utils/logger';
+
+// Schedules run at most this late; cron has minute resolution
+const SCHEDULE_POLL_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Starts the runs of due schedules. Every server replica runs a scheduler;
+ * claiming is serialized in the database so each run starts once. Runs are
+ * queued like asynchronous API runs of the published version, with traces
+ * tagged with the schedule that started them.
+ */
+export class SchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.tick().catch(e => {
+        logWarn('Schedule tick failed:', (e as any)?.message || e);
+      });
+    }, SCHEDULE_POLL_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<void> {
+    // A slow tick must not overlap the next one
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+    try {
+      const due = await schedulesService.claimDue(now);
+      for (const schedule of due) {
+        try {
+          const { executionId } = await flowRunService.enqueue({
+            flowId: schedule.flowId,
+            userId: schedule.createdBy,
+            input: schedule.input ?? {},
+            published: true,
+            priority: 'production',
+            trigger: 'schedule',
+            scheduleId: schedule.id,
+          });
+          logInfo(`Schedule ${schedule.id} started execution ${executionId}`);
+          await schedulesService.recordRun(schedule.id, { executionId });
+        } catch (e) {
+          const message = (e as any)?.message || String(e);
+          logWarn(`Schedule ${schedule.id} could not start a run:`, message);
+          await schedulesService.recordRun(schedule.id, { error: message });
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
+
+export const schedulerService = new SchedulerService();
@@ -0,0 +1,138 @@
+import { and, asc, eq, lte, sql } from 'drizzle-orm';
+import { db } from '../../../infrastructure/database/connection';
+import * as schema from '../../../infrastructure/database/schema';
+import { environmentsService } from '../../environments/services/EnvironmentsService';
+import { tracesService } from '../../traces/services/TracesService';
+import { FlowSchedule, ScheduledRun, ScheduleInput } from '../types';
+import { nextCronRun } from '../utils/cron';
+import { generateId } from '../../../shared/utils/crypto';
+import { NotFoundError, ValidationError } from '../../../shared/utils/errors';
+
+// Schedules claimed per scheduler tick; the rest are picked up on the next one
+const CLAIM_BATCH_SIZE = 50;
+
+export class SchedulesService {
+  async list(flowId: string, userId: string): Promise<FlowSchedule[]> {
+    await environmentsService.getAccessibleFlow(flowId, userId);
+    return (db as any)
+      .select()
+      .from(schema.flowSchedule)
+      .where(eq(schema.flowSchedule.flowId, flowId))
+      .orderBy(asc(schema.flowSchedule.createdAt));
+  }
+
+  /**
+   * Scheduled runs execute the published version as the schedule's creator, so
+   * managing schedules takes the same role as deploying
+   */
+  async create(flowId: string, data: ScheduleInput, userId: string): Promise<FlowSchedule> {
+    await environmentsService.requireDeployableFlow(flowId, userId);
+
+    const timezone = data.timezone || 'UTC';
+    const isActive = data.isActive ?? true;
+    const record = {
+      id: generateId(),
+      name: data.name,
+      cronExpression: data.cronExpression,
+      timezone,
+      input: data.input ?? null,
+      isActive,
+      nextRunAt: isActive ? this.nextRun(data.cronExpression, timezone) : null,
+      flowId,
+      createdBy: userId,
+    };
+    const [created] = await (db as any).insert(schema.flowSchedule).values(record).returning();
+    return created;
+  }
+
+  async update(flowId: string, scheduleId: string, data: Partial<ScheduleInput>, userId: string): Promise<FlowSchedule> {
+    await environmentsService.requireDeployableFlow(flowId, userId);
+    const existing = await this.getSchedule(flowId, scheduleId);
+
+    const cronExpression = data.cronExpression ?? existing.cronExpression;
+    const timezone = data.timezone ?? existing.timezone;
+    const isActive = data.isActive ?? existing.isActive;
+    const updates: Record<string, unknown> = { ...data, updatedAt: new Date() };
+    // Resuming or changing when a schedule fires starts counting from now, paused schedules never come due
+    if (data.cronExpression !== undefined || data.timezone !== undefined || data.isActive !== undefined) {
+      updates.nextRunAt = isActive ? this.nextRun(cronExpression, timezone) : null;
+    }
+
+    const [updated] = await (db as any)
+      .update(schema.flowSchedule)
+      .set(updates)
+      .where(eq(schema.flowSchedule.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  async delete(flowId: string, scheduleId: string, userId: string): Promise<void> {
+    await environmentsService.requireDeployableFlow(flowId, userId);
+    const existing = await this.getSchedule(flowId, scheduleId);
+    await (db as any).delete(schema.flowSchedule).where(eq(schema.flowSchedule.id, existing.id));
+  }
+
+  async listRuns(flowId: string, userId: string): Promise<ScheduledRun[]> {
+    await environmentsService.getAccessibleFlow(flowId, userId);
+    return tracesService.listScheduledRuns(flowId);
+  }
+
+  /**
+   * Take the schedules that are due and move them to their next run. Replicas
+   * serialize on a transaction-level advisory lock and one that cannot take it
+   * skips the tick, so each due run is handed out once. Runs missed while no
+   * server was up are not made up for; the schedule fires once and moves on.
+   */
+  async claimDue(now: Date = new Date()): Promise<FlowSchedule[]> {
+    return (db as any).transaction(async (tx: any) => {
+      const lock = await tx.execute(sql`select pg_try_advisory_xact_lock(hashtext('flow_schedule')) as locked`);
+      if (!lock.rows?.[0]?.locked) {
+        return [];
+      }
+
+      const due: FlowSchedule[] = await tx
+        .select()
+        .from(schema.flowSchedule)
+        .where(and(eq(schema.flowSchedule.isActive, true), lte(schema.flowSchedule.nextRunAt, now)))
+        .orderBy(asc(schema.flowSchedule.nextRunAt))
+        .limit(CLAIM_BATCH_SIZE);
+
+      for (const schedule of due) {
+        await tx
+          .update(schema.flowSchedule)
+          .set({ nextRunAt: nextCronRun(schedule.cronExpression, schedule.timezone, now), lastRunAt: now })
+          .where(eq(schema.flowSchedule.id, schedule.id));
+      }
+      return due;
+    });
+  }
+
+  async recordRun(scheduleId: string, result: { executionId?: string; error?: string }): Promise<void> {
+    await (db as any)
+      .update(schema.flowSchedule)
+      .set({ lastExecutionId: result.executionId ?? null, lastError: result.error ?? null })
+      .where(eq(schema.flowSchedule.id, scheduleId));
+  }
+
+  private async getSchedule(flowId: string, scheduleId: string): Promise<FlowSchedule> {
+    const [schedule] = await (db as any)
+      .select()
+      .from(schema.flowSchedule)
+      .where(and(eq(schema.flowSchedule.id, scheduleId), eq(schema.flowSchedule.flowId, flowId)))
+      .limit(1);
+    if (!schedule) {
+      throw new NotFoundError('Schedule not found');
+    }
+    return schedule;
+  }
+
+  private nextRun(cronExpression: string, timezone: string): Date {
+    const next = nextCronRun(cronExpression, timezone, new Date());
+    if (!next) {
+      throw new ValidationError('Cron expression never matches a date');
+    }
+    return next;
+  }
+}
+
+export const schedulesService = new SchedulesService();
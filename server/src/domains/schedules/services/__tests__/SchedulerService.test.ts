@@ -0,0 +1,64 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock dependencies
+const mockSchedulesService = {
+  claimDue: jest.fn(),
+  recordRun: jest.fn(),
+};
+
+const mockFlowRunService = {
+  enqueue: jest.fn(),
+};
+
+jest.mock('../SchedulesService', () => ({
+  schedulesService: mockSchedulesService,
+}));
+
+jest.mock('../../../flows/services/FlowRunService', () => ({
+  flowRunService: mockFlowRunService,
+}));
+
+// Import after mocks
+import { SchedulerService } from '../SchedulerService';
+
+describe('SchedulerService', () => {
+  let schedulerService: SchedulerService;
+  const schedules = [
+    { id: 'schedule-1', flowId: 'flow-1', createdBy: 'user-1', input: { topic: 'news' } },
+    { id: 'schedule-2', flowId: 'flow-2', createdBy: 'user-2', input: null },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    schedulerService = new SchedulerService();
+    mockSchedulesService.claimDue.mockResolvedValue(schedules as never);
+  });
+
+  it('should queue a production run of the published version for each due schedule', async () => {
+    mockFlowRunService.enqueue.mockResolvedValue({ executionId: 'exec-1' } as never);
+
+    await schedulerService.tick();
+
+    expect(mockFlowRunService.enqueue).toHaveBeenCalledWith({
+      flowId: 'flow-1',
+      userId: 'user-1',
+      input: { topic: 'news' },
+      published: true,
+      priority: 'production',
+      trigger: 'schedule',
+      scheduleId: 'schedule-1',
+    });
+    expect(mockSchedulesService.recordRun).toHaveBeenCalledWith('schedule-1', { executionId: 'exec-1' });
+  });
+
+  it('should record why a run could not start and carry on with the others', async () => {
+    mockFlowRunService.enqueue
+      .mockRejectedValueOnce(new Error('Flow has no published version') as never)
+      .mockResolvedValueOnce({ executionId: 'exec-2' } as never);
+
+    await schedulerService.tick();
+
+    expect(mockSchedulesService.recordRun).toHaveBeenCalledWith('schedule-1', { error: 'Flow has no published version' });
+    expect(mockSchedulesService.recordRun).toHaveBeenCalledWith('schedule-2', { executionId: 'exec-2' });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock dependencies
+const mockEnvironmentsService = {
+  getAccessibleFlow: jest.fn(),
+  requireDeployableFlow: jest.fn(),
+};
+
+const mockTracesService = {
+  listScheduledRuns: jest.fn(),
+};
+
+const mockTx = {
+  execute: jest.fn(),
+  select: jest.fn(),
+  update: jest.fn(),
+};
+
+const mockDb = {
+  select: jest.fn(),
+  insert: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  transaction: jest.fn((callback: any) => callback(mockTx)),
+};
+
+jest.mock('../../../../infrastructure/database/connection', () => ({
+  db: mockDb,
+}));
+
+jest.mock('../../../environments/services/EnvironmentsService', () => ({
+  environmentsService: mockEnvironmentsService,
+}));
+
+jest.mock('../../../traces/services/TracesService', () => ({
+  tracesService: mockTracesService,
+}));
+
+// Import after mocks
+import { SchedulesService } from '../SchedulesService';
+import { ForbiddenError, NotFoundError, ValidationError } from '../../../../shared/utils/errors';
+
+describe('SchedulesService', () => {
+  let schedulesService: SchedulesService;
+  let insertValues: jest.Mock;
+  let updateSet: jest.Mock;
+  const flowId = 'flow-123';
+  const userId = 'user-123';
+  const schedule = {
+    id: 'schedule-1',
+    name: 'Nightly digest',
+    cronExpression: '0 2 * * *',
+    timezone: 'UTC',
+    input: { topic: 'news' },
+    isActive: true,
+    nextRunAt: new Date('2026-03-02T02:00:00Z'),
+    flowId,
+    createdBy: userId,
+  };
+
+  // Rows a select resolves with, for both `.limit()` and transaction queries
+  const givenSchedules = (target: any, rows: any[]) => {
+    target.select.mockReturnValue({
+      from: jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          limit: jest.fn().mockResolvedValue(rows as never),
+          orderBy: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue(rows as never),
+          }),
+        }),
+      }),
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    schedulesService = new SchedulesService();
+    mockEnvironmentsService.getAccessibleFlow.mockResolvedValue({ id: flowId } as never);
+    mockEnvironmentsService.requireDeployableFlow.mockResolvedValue({ id: flowId } as never);
+
+    insertValues = jest.fn((record: any) => ({ returning: jest.fn().mockResolvedValue([record] as never) }));
+    mockDb.insert.mockReturnValue({ values: insertValues });
+    updateSet = jest.fn().mockReturnValue({
+      where: jest.fn().mockReturnValue({ returning: jest.fn().mockResolvedValue([schedule] as never) }),
+    });
+    mockDb.update.mockReturnValue({ set: updateSet });
+  });
+
+  describe('create', () => {
+    it('should store the schedule with its first run', async () => {
+      const result = await schedulesService.create(flowId, { name: 'Nightly digest', cronExpression: '0 2 * * *', timezone: 'Europe/Berlin' }, userId);
+
+      expect(result).toMatchObject({ name: 'Nightly digest', timezone: 'Europe/Berlin', isActive: true, flowId, createdBy: userId });
+      expect(result.nextRunAt).toBeInstanceOf(Date);
+      expect(result.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should not plan a run for a paused schedule', async () => {
+      const result = await schedulesService.create(flowId, { name: 'Later', cronExpression: '@hourly', isActive: false }, userId);
+
+      expect(result).toMatchObject({ timezone: 'UTC', isActive: false, nextRunAt: null });
+    });
+
+    it('should refuse expressions that never match', async () => {
+      await expect(schedulesService.create(flowId, { name: 'Never', cronExpression: '0 0 30 2 *' }, userId)).rejects.toThrow(ValidationError);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should require a role that may deploy', async () => {
+      mockEnvironmentsService.requireDeployableFlow.mockRejectedValue(new ForbiddenError("You don't have permission to deploy this flow") as never);
+
+      await expect(schedulesService.create(flowId, { name: 'Nightly', cronExpression: '@daily' }, userId)).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('update', () => {
+    it('should clear the next run when pausing', async () => {
+      givenSchedules(mockDb, [schedule]);
+
+      await schedulesService.update(flowId, schedule.id, { isActive: false }, userId);
+
+      expect(updateSet).toHaveBeenCalledWith(expect.objectContaining({ isActive: false, nextRunAt: null }));
+    });
+
+    it('should keep the planned run when only the input changes', async () => {
+      givenSchedules(mockDb, [schedule]);
+
+      await schedulesService.update(flowId, schedule.id, { input: { topic: 'sports' } }, userId);
+
+      expect(updateSet.mock.calls[0][0]).not.toHaveProperty('nextRunAt');
+    });
+
+    it('should throw NotFoundError for schedules of other flows', async () => {
+      givenSchedules(mockDb, []);
+
+      await expect(schedulesService.update(flowId, 'missing', { isActive: false }, userId)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('claimDue', () => {
+    it('should move due schedules to their next run', async () => {
+      const now = new Date('2026-03-02T02:00:10Z');
+      mockTx.execute.mockResolvedValue({ rows: [{ locked: true }] } as never);
+      givenSchedules(mockTx, [schedule]);
+      const txSet = jest.fn().mockReturnValue({ where: jest.fn().mockResolvedValue(undefined as never) });
+      mockTx.update.mockReturnValue({ set: txSet });
+
+      const claimed = await schedulesService.claimDue(now);
+
+      expect(claimed).toEqual([schedule]);
+      expect(txSet).toHaveBeenCalledWith({ nextRunAt: new Date('2026-03-03T02:00:00Z'), lastRunAt: now });
+    });
+
+    it('should claim nothing while another replica holds the lock', async () => {
+      mockTx.execute.mockResolvedValue({ rows: [{ locked: false }] } as never);
+
+      expect(await schedulesService.claimDue()).toEqual([]);
+      expect(mockTx.select).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,34 @@
+export interface FlowSchedule {
+  id: string;
+  name: string;
+  cronExpression: string;
+  timezone: string;
+  input: unknown;
+  isActive: boolean;
+  nextRunAt: Date | null; // Null while paused
+  lastRunAt: Date | null;
+  lastExecutionId: string | null;
+  lastError: string | null; // Why the last run could not be started
+  createdAt: Date;
+  updatedAt: Date;
+  flowId: string;
+  createdBy: string; // Scheduled runs execute as this user
+}
+
+export interface ScheduleInput {
+  name: string;
+  cronExpression: string;
+  timezone?: string;
+  input?: unknown;
+  isActive?: boolean;
+}
+
+export interface ScheduledRun {
+  executionId: string;
+  scheduleId: string | null; // Null once the schedule is deleted
+  version: string | null;
+  status: string;
+  duration: number | null;
+  errorMessage: string | null;
+  createdAt: Date;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { isValidTimeZone, nextCronRun, parseCron } from '../cron';
+
+describe('cron', () => {
+  describe('parseCron', () => {
+    it('should expand lists, ranges, steps and names', () => {
+      const cron = parseCron('*/15 9-17 * jan,jul mon-fri');
+
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+      expect([...cron.months]).toEqual([1, 7]);
+      expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat 7 as Sunday and accept macros', () => {
+      expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+      expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCron('* * * *')).toThrow('5 fields');
+      expect(() => parseCron('60 * * * *')).toThrow('minute');
+      expect(() => parseCron('* * * * 1-')).toThrow('day of week');
+      expect(() => parseCron('*/0 * * * *')).toThrow('step');
+    });
+  });
+
+  describe('nextCronRun', () => {
+    it('should find the next matching minute in UTC', () => {
+      const after = new Date('2026-03-02T10:07:30Z');
+
+      expect(nextCronRun('*/15 * * * *', 'UTC', after)).toEqual(new Date('2026-03-02T10:15:00Z'));
+      expect(nextCronRun('0 9 * * mon', 'UTC', after)).toEqual(new Date('2026-03-09T09:00:00Z'));
+    });
+
+    it('should evaluate the expression in the schedule timezone', () => {
+      const after = new Date('2026-07-01T00:00:00Z');
+
+      // 09:00 in Berlin is 07:00 UTC in summer
+      expect(nextCronRun('0 9 * * *', 'Europe/Berlin', after)).toEqual(new Date('2026-07-01T07:00:00Z'));
+    });
+
+    it('should skip a day whose local time falls in a DST gap', () => {
+      // New York jumps from 02:00 to 03:00 on 2026-03-08
+      const after = new Date('2026-03-07T12:00:00Z');
+
+      expect(nextCronRun('30 2 * * *', 'America/New_York', after)).toEqual(new Date('2026-03-09T06:30:00Z'));
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // The 1st of March 2026 is a Sunday, the 6th a Friday
+      const after = new Date('2026-03-02T00:00:00Z');
+
+      expect(nextCronRun('0 0 1 * fri', 'UTC', after)).toEqual(new Date('2026-03-06T00:00:00Z'));
+    });
+
+    it('should return null for dates that never occur', () => {
+      expect(nextCronRun('0 0 30 2 *', 'UTC', new Date('2026-01-01T00:00:00Z'))).toBeNull();
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('should only accept known IANA timezones', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+});
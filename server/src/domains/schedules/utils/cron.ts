@@ -0,0 +1,182 @@
+/**
+ * Five-field cron expressions (minute, hour, day of month, month, day of week)
+ * evaluated in an IANA timezone. Fields take `*`, lists, ranges and steps, and
+ * month and weekday names; `@hourly`, `@daily`, `@weekly`, `@monthly` and
+ * `@yearly` are shorthands. A local time skipped by a DST change has no run
+ * that day.
+ */
+
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Like classic cron, a run needs either day field to match when both are restricted
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, offset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, offset: 0 }, // 7 is Sunday too
+];
+
+// Schedules that match no date within this many years, like `0 0 30 2 *`, never run
+const SEARCH_YEARS = 8;
+
+export function parseCron(expression: string): CronExpression {
+  const source = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute, hour, day of month, month and day of week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*',
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First time after `after` the expression matches, in whole minutes, or null
+ * when it never does
+ */
+export function nextCronRun(expression: string | CronExpression, timeZone: string, after: Date): Date | null {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const format = zonedFormat(timeZone);
+  const limit = after.getTime() + SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  let time = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+  while (time <= limit) {
+    const local = zonedParts(format, time);
+    if (!cron.months.has(local.month) || !matchesDay(cron, local)) {
+      // Skip towards the next local day an hour at a time, so DST changes cannot skip past midnight
+      time += (Math.max(1, 23 - local.hour) * 60 - local.minute) * 60000;
+    } else if (!cron.hours.has(local.hour)) {
+      time += (60 - local.minute) * 60000;
+    } else if (!cron.minutes.has(local.minute)) {
+      time += 60000;
+    } else {
+      return new Date(time);
+    }
+  }
+  return null;
+}
+
+function parseField(text: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.toLowerCase().split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${field.name} field: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else {
+      const [from, to, ...extra] = range.split('-');
+      if (extra.length > 0) {
+        throw new Error(`Invalid range in ${field.name} field: ${part}`);
+      }
+      start = parseValue(from, field);
+      end = to === undefined ? (stepText === undefined ? start : field.max) : parseValue(to, field);
+    }
+    if (start > end) {
+      throw new Error(`Invalid range in ${field.name} field: ${part}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseValue(text: string, field: typeof FIELDS[number]): number {
+  const named = field.names ? field.names.indexOf(text) : -1;
+  const value = named >= 0 ? named + (field.offset || 0) : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (!Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new Error(`Invalid value in ${field.name} field: ${text}`);
+  }
+  return value;
+}
+
+function matchesDay(cron: CronExpression, local: { day: number; weekday: number }): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(local.day);
+  const dayOfWeek = cron.daysOfWeek.has(local.weekday);
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+const formats = new Map<string, Intl.DateTimeFormat>();
+
+function zonedFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = formats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formats.set(timeZone, format);
+  }
+  return format;
+}
+
+function zonedParts(format: Intl.DateTimeFormat, time: number) {
+  const parts: Record<string, string> = {};
+  for (const part of format.formatToParts(time)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
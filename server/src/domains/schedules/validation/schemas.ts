@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { isValidTimeZone, parseCron } from '../utils/cron';
+
+const cronExpressionSchema = z
+  .string()
+  .min(1, "Cron expression is required")
+  .max(100, "Cron expression must be less than 100 characters")
+  .superRefine((expression, ctx) => {
+    try {
+      parseCron(expression);
+    } catch (error: any) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+    }
+  });
+
+const timezoneSchema = z
+  .string()
+  .refine(isValidTimeZone, "Timezone must be an IANA timezone such as Europe/Berlin");
+
+export const scheduleParamsSchema = z.object({
+  id: z.string().min(1, 'Invalid flow ID'),
+  scheduleId: z.string().min(1, 'Invalid schedule ID'),
+});
+
+export const createScheduleSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100, "Name must be less than 100 characters").transform(name => name.trim()),
+  cronExpression: cronExpressionSchema,
+  timezone: timezoneSchema.optional(), // UTC when unset
+  input: z.any().optional(), // Input every scheduled run receives
+  isActive: z.boolean().optional(),
+});
+
+export const updateScheduleSchema = createScheduleSchema.partial();
+
+export type CreateScheduleRequest = z.infer<typeof createScheduleSchema>;
+export type UpdateScheduleRequest = z.infer<typeof updateScheduleSchema>;
@@ -17,7 +17,8 @@ export class TracesController {
       const { executionId } = req.params as any;
       const trace = await tracesService.getByExecutionId(executionId);
       if (!trace) { res.status(404).json({ success: false, error: { message: 'Trace not found' } }); return; }
-      res.json({ success: true, data: trace });
+      const children = await tracesService.listChildren(executionId);
+      res.json({ success: true, data: { ...trace, children } });
     } catch (e) {
       res.status(500).json({ success: false, error: { message: 'Failed to get trace' } });
     }
@@ -1,22 +1,42 @@
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, and, gte, sql } from 'drizzle-orm';
 import { db } from '../../../infrastructure/database/connection';
 import * as schema from '../../../infrastructure/database/schema';
 
+export type TraceStatus = 'running' | 'completed' | 'failed' | 'interrupted' | 'cancelled';
+
+export type TraceTrigger = 'editor' | 'api' | 'schedule' | 'replay';
+
 export interface CreateTraceInput {
   executionId: string;
   input?: unknown;
   output?: unknown;
   nodeTraces?: unknown[];
   duration?: number | null;
-  status: 'running' | 'completed' | 'failed';
+  status: TraceStatus;
   errorMessage?: string | null;
+  checkpoint?: unknown;
+  parentExecutionId?: string | null;
+  modelCalls?: unknown[] | null;
   version?: string | null;
+  variant?: string | null;
+  trigger?: TraceTrigger | null;
+  scheduleId?: string | null;
   userAgent?: string | null;
   ipAddress?: string | null;
   flowId: string;
   executedBy?: string | null;
 }
 
+export interface UpdateTraceInput {
+  output?: unknown;
+  nodeTraces?: unknown[];
+  duration?: number | null;
+  status?: TraceStatus;
+  errorMessage?: string | null;
+  checkpoint?: unknown;
+  modelCalls?: unknown[] | null;
+}
+
 export class TracesService {
   async listByFlow(flowId: string) {
     const rows = await (db as any)
@@ -25,6 +45,7 @@ export class TracesService {
         executionId: (schema as any).trace.executionId,
         status: (schema as any).trace.status,
         duration: (schema as any).trace.duration,
+        parentExecutionId: (schema as any).trace.parentExecutionId,
         createdAt: (schema as any).trace.createdAt,
       })
       .from((schema as any).trace)
@@ -42,6 +63,50 @@ export class TracesService {
     return rows?.[0] || null;
   }
 
+  /**
+   * Traces of the sub-flows an execution called
+   */
+  async listChildren(parentExecutionId: string) {
+    const trace = (schema as any).trace;
+    const rows = await (db as any)
+      .select({
+        id: trace.id,
+        executionId: trace.executionId,
+        flowId: trace.flowId,
+        version: trace.version,
+        status: trace.status,
+        duration: trace.duration,
+        errorMessage: trace.errorMessage,
+        createdAt: trace.createdAt,
+      })
+      .from(trace)
+      .where(eq(trace.parentExecutionId, parentExecutionId))
+      .orderBy(trace.createdAt);
+    return rows;
+  }
+
+  /**
+   * Latest runs of a flow that its schedules started
+   */
+  async listScheduledRuns(flowId: string, limit = 20) {
+    const trace = (schema as any).trace;
+    const rows = await (db as any)
+      .select({
+        executionId: trace.executionId,
+        scheduleId: trace.scheduleId,
+        version: trace.version,
+        status: trace.status,
+        duration: trace.duration,
+        errorMessage: trace.errorMessage,
+        createdAt: trace.createdAt,
+      })
+      .from(trace)
+      .where(and(eq(trace.flowId, flowId), eq(trace.trigger, 'schedule')))
+      .orderBy(desc(trace.createdAt))
+      .limit(limit);
+    return rows;
+  }
+
   async createTrace(input: CreateTraceInput) {
     const record = {
       id: input.executionId,
@@ -52,7 +117,13 @@ export class TracesService {
       duration: input.duration ?? null,
       status: input.status,
       errorMessage: input.errorMessage ?? null,
+      checkpoint: input.checkpoint ?? null,
+      parentExecutionId: input.parentExecutionId ?? null,
+      modelCalls: input.modelCalls ?? null,
       version: input.version ?? null,
+      variant: input.variant ?? null,
+      trigger: input.trigger ?? null,
+      scheduleId: input.scheduleId ?? null,
       userAgent: input.userAgent ?? null,
       ipAddress: input.ipAddress ?? null,
       flowId: input.flowId,
@@ -62,6 +133,71 @@ export class TracesService {
     await (db as any).insert((schema as any).trace).values(record);
     return record;
   }
+
+  /**
+   * Run counts, failures and latency of the finished runs each traffic split
+   * variant of a flow served
+   */
+  async summarizeVariants(flowId: string, since?: Date) {
+    const trace = (schema as any).trace;
+    const rows = await (db as any)
+      .select({
+        variant: trace.variant,
+        version: sql<string | null>`max(${trace.version})`,
+        runs: sql<number>`count(*)::int`,
+        failed: sql<number>`count(*) filter (where ${trace.status} = 'failed')::int`,
+        avgDuration: sql<number | null>`round(avg(${trace.duration}))::int`,
+        p95Duration: sql<number | null>`round(percentile_cont(0.95) within group (order by ${trace.duration}))::int`,
+      })
+      .from(trace)
+      .where(and(
+        eq(trace.flowId, flowId),
+        sql`${trace.variant} is not null`,
+        sql`${trace.status} in ('completed', 'failed')`,
+        ...(since ? [gte(trace.createdAt, since)] : [])
+      ))
+      .groupBy(trace.variant);
+    return rows as Array<{ variant: string; version: string | null; runs: number; failed: number; avgDuration: number | null; p95Duration: number | null }>;
+  }
+
+  async updateTrace(executionId: string, updates: UpdateTraceInput) {
+    const rows = await (db as any)
+      .update((schema as any).trace)
+      .set(updates)
+      .where(eq((schema as any).trace.executionId, executionId))
+      .returning();
+    return rows?.[0] || null;
+  }
+
+  /**
+   * Atomically move an interrupted execution back to running. Returns null when
+   * the execution is no longer waiting, so a response can only be applied once.
+   */
+  async claimInterrupted(executionId: string) {
+    const trace = (schema as any).trace;
+    const rows = await (db as any)
+      .update(trace)
+      .set({ status: 'running' })
+      .where(and(eq(trace.executionId, executionId), eq(trace.status, 'interrupted')))
+      .returning();
+    return rows?.[0] || null;
+  }
+
+  /**
+   * Fail interrupted executions whose checkpoint has passed its expiry
+   */
+  async expireInterrupts(now: Date = new Date()) {
+    const trace = (schema as any).trace;
+    const rows = await (db as any)
+      .update(trace)
+      .set({ status: 'failed', errorMessage: 'Interrupt timed out waiting for a response', checkpoint: null })
+      .where(and(
+        eq(trace.status, 'interrupted'),
+        sql`(${trace.checkpoint}->>'expiresAt')::timestamptz < ${now.toISOString()}::timestamptz`
+      ))
+      .returning({ executionId: trace.executionId });
+    return rows || [];
+  }
 }
 
 export const tracesService = new TracesService();
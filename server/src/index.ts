@@ -17,6 +17,7 @@ import { telemetryRoutes } from "./domains/telemetry/routes";
 import { errorHandler, notFoundHandler } from "./shared/middleware/errorHandler";
 import { globalAuth } from "./shared/middleware/global-auth";
 import { flowRunService } from "./domains/flows/services/FlowRunService";
+import { schedulerService } from "./domains/schedules/services/SchedulerService";
 import blocksRoutes from "./domains/blocks/routes";
 import { initializeServerBlocks } from "./domains/blocks";
 
@@ -69,7 +70,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'Cookie'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Cookie', 'X-Routing-Key'],
   optionsSuccessStatus: 200,
 }));
 
@@ -180,6 +181,10 @@ app.listen(PORT, async () => {
     logError('❌ Failed to initialize process executor:', error.message);
     console.log('⚠️  Flow execution will attempt to initialize on first use');
   }
+
+  // Start runs of due cron schedules
+  schedulerService.start();
+  console.log('⏰ Flow scheduler started');
   
   // Genkit telemetry server is running
   console.log('📊 Genkit telemetry server is active');
@@ -190,6 +195,7 @@ app.listen(PORT, async () => {
 process.on("SIGINT", async () => {
   console.log("\n👋 Shutting down gracefully...");
   try {
+    schedulerService.stop();
     console.log('🛑 Shutting down process executor...');
     await flowRunService.shutdown();
     console.log('✅ Process executor shut down');
@@ -203,6 +209,7 @@ process.on("SIGINT", async () => {
 process.on("SIGTERM", async () => {
   console.log("\n👋 Shutting down gracefully...");
   try {
+    schedulerService.stop();
     console.log('🛑 Shutting down process executor...');
     await flowRunService.shutdown();
     console.log('✅ Process executor shut down');
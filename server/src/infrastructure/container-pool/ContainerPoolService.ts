@@ -5,6 +5,9 @@ import { EventEmitter } from 'events';
 import { spawn } from 'child_process';
 import * as crypto from 'crypto';
 import { logInfo, logError, logWarn } from '../../shared/utils/logger';
+import { ExecutorBackend, ExecutorBackendKind } from './ExecutorBackend';
+import { HttpExecutorBackend } from './HttpExecutorBackend';
+import { LOCAL_SECURITY_POLICY, LocalExecutorBackend } from './LocalExecutorBackend';
 
 export interface ContainerPoolConfig {
   poolSize: number;
@@ -12,8 +15,16 @@ export interface ContainerPoolConfig {
   healthCheckInterval: number;
   volumeBasePath: string;
   workerUrls?: string[];
+  backend: ExecutorBackendKind; // 'local' runs flows on worker threads instead of execution daemons
+  queueSize: number; // Runs each priority may have waiting for a container
+  queueTimeout: number; // How long a run waits for a container before it is turned away
 }
 
+/**
+ * Production runs (API keys) take free containers before interactive editor test runs
+ */
+export type ExecutionPriority = 'production' | 'interactive';
+
 export interface ExecutionRequest {
   executionId: string;
   code: string;
@@ -30,12 +41,142 @@ export interface ExecutionConfig {
   userId?: string;
   organizationId?: string;
   maxTokens?: number;
+  runtime?: FlowRuntimeContext;
+  executionId?: string; // Names the run on the worker so it can be cancelled
+  priority?: ExecutionPriority; // Defaults to production
+  queueTimeout?: number; // Overrides the pool's wait deadline for this run
+}
+
+/**
+ * Runtime context handed to the generated flow as `context.flowshapr`
+ */
+export interface FlowRuntimeContext {
+  resume?: {
+    nodeId: string;
+    interrupts: any[];
+    messages: any[];
+    outputs: Record<string, any>;
+    response: any;
+  };
+  secrets?: Record<string, string>; // Connection API keys by connection name, for request templates
+  flowId?: string; // Flow whose document store index and retrieve blocks use; sub-flow calls set their own
+  documents?: Record<string, FlowDocument[]>; // Document stores searched by retrieve blocks, by flow id
+  mockFixtures?: Record<string, unknown[]>; // Scripted rules for mock agents, by fixture name
+  modelCalls?: ModelCallOptions; // Record the run's model calls, or replay recorded ones
+  debug?: { breakpoints: string[] }; // Pause before these nodes until a debugger command arrives
+  record?: FlowExecutionRecord;
+}
+
+/**
+ * Where a debug run is paused: the node about to run, the input it will get and
+ * the flow context so far
+ */
+export interface DebugPause {
+  nodeId: string;
+  input: any;
+  ctx: Record<string, any>;
+}
+
+/**
+ * How a paused debug run goes on. `step` pauses again before the next node,
+ * `continue` runs to the next breakpoint; `input` replaces the paused node's input.
+ */
+export interface DebugCommand {
+  action: 'step' | 'continue';
+  input?: any;
+}
+
+/**
+ * Calls a generated flow made to nested child flows
+ */
+export interface SubflowCallRecord {
+  nodeId: string;
+  flowId: string;
+  alias: string;
+  version: string | null;
+  input: any;
+  output: any;
+  duration: number;
+  status: 'completed' | 'failed';
+  errorMessage?: string;
+  nodes?: NodeTraceRecord[]; // The child flow's own node traces
+}
+
+/**
+ * A node run by a generated flow, stored in the execution trace
+ */
+export interface NodeTraceRecord {
+  nodeId: string;
+  nodeTitle?: string;
+  nodeType?: string;
+  input: any;
+  output: any;
+  duration: number;
+  error?: string;
+  timestamp: string;
+}
+
+/**
+ * What a generated flow records while it runs, returned alongside the result
+ */
+export interface FlowExecutionRecord {
+  subflows: SubflowCallRecord[];
+  documents?: FlowDocument[]; // Chunks indexed during the run, persisted afterwards
+  nodes?: NodeTraceRecord[]; // Nodes run by this flow, in completion order
+  modelCalls?: ModelCallRecord[]; // Model requests and responses, when the run records them
+}
+
+/**
+ * How a run records model calls. With `replay`, matching calls are answered from
+ * those recorded calls; calls without a recording go live or fail.
+ */
+export interface ModelCallOptions {
+  replay?: ModelCallRecord[];
+  onUnmatched?: 'live' | 'fail';
+}
+
+/**
+ * A model request an agent node made and the response it got
+ */
+export interface ModelCallRecord {
+  nodeId: string;
+  model: string;
+  request: any;
+  response: any;
+  duration: number;
+  replayed?: boolean; // Set on replays: whether the response came from the recording
+}
+
+/**
+ * Embedded document chunk in a flow's document store
+ */
+export interface FlowDocument {
+  content: string;
+  metadata: Record<string, any>;
+  embedding: number[];
+  embedder: string;
+  flowId?: string; // Flow a chunk indexed during the run belongs to
+}
+
+/**
+ * State reported by the generated flow when an agent raises a Genkit interrupt
+ */
+export interface FlowInterruptState {
+  nodeId: string;
+  interrupts: any[];
+  messages: any[];
+  outputs: Record<string, any>;
 }
 
 export interface ExecutionResult {
   success: boolean;
   result?: any;
   error?: string;
+  nodeId?: string; // Node the failure was attributed to, when known
+  interrupt?: FlowInterruptState; // Set when the run paused for human input
+  cancelled?: boolean; // Set when the run was stopped with cancelExecution
+  retryAfter?: number; // Seconds to wait before retrying, when every container stayed busy
+  record?: FlowExecutionRecord;
   meta: {
     instance: string;
     duration: number;
@@ -45,10 +186,26 @@ export interface ExecutionResult {
   traces?: any[];
 }
 
+// A dispatched run, so it can be cancelled before it finishes
+interface RunningExecution {
+  container: PoolContainer;
+  controller: AbortController;
+  cancelled: boolean;
+}
+
+// A run waiting for a container to free up
+interface QueuedExecution {
+  executionId: string;
+  queuedAt: number;
+  timer: NodeJS.Timeout;
+  resolve: (container: PoolContainer) => void;
+  reject: (error: Error) => void;
+}
+
 interface PoolContainer {
   id: string;
   name: string;
-  url: string;
+  backend: ExecutorBackend;
   isHealthy: boolean;
   isBusy: boolean;
   lastUsed: Date;
@@ -60,6 +217,9 @@ export class ContainerPoolService extends EventEmitter {
   private containers: PoolContainer[] = [];
   private healthCheckInterval?: NodeJS.Timeout;
   private isInitialized = false;
+  private runningExecutions = new Map<string, RunningExecution>();
+  private queues: Record<ExecutionPriority, QueuedExecution[]> = { production: [], interactive: [] };
+  private queueStats = { rejected: 0, timedOut: 0, dequeued: 0, totalWaitMs: 0 };
 
   constructor(config?: Partial<ContainerPoolConfig>) {
     super();
@@ -69,6 +229,9 @@ export class ContainerPoolService extends EventEmitter {
       healthCheckInterval: 30000, // 30 seconds
       volumeBasePath: '/tmp/flowshapr-pool',
       workerUrls: this.parseWorkerUrls(),
+      backend: process.env.EXECUTOR_BACKEND === 'local' ? 'local' : 'http',
+      queueSize: 50,
+      queueTimeout: 30000, // 30 seconds
       ...config
     };
   }
@@ -89,8 +252,10 @@ export class ContainerPoolService extends EventEmitter {
     logInfo(`   Pool Size: ${this.config.poolSize}`);
     logInfo(`   Work Timeout: ${this.config.workTimeout}ms`);
 
-    // Try environment variable configuration first
-    if (this.config.workerUrls && this.config.workerUrls.length > 0) {
+    if (this.config.backend === 'local') {
+      this.initializeLocal();
+    } else if (this.config.workerUrls && this.config.workerUrls.length > 0) {
+      // Try environment variable configuration first
       logInfo('🔗 Using worker URLs from environment variables');
       await this.initializeFromUrls(this.config.workerUrls);
     } else {
@@ -100,7 +265,8 @@ export class ContainerPoolService extends EventEmitter {
       if (!dockerAvailable) {
         logWarn('⚠️  Docker not available and no worker URLs configured');
         logInfo('⚠️  Container pool will be initialized but no workers will be available');
-        logInfo('💡 Set EXECUTOR_URLS or GENKIT_WORKER_URLS environment variable to configure workers');
+        logInfo('💡 Set EXECUTOR_URLS or GENKIT_WORKER_URLS environment variable to configure workers,');
+        logInfo('   or EXECUTOR_BACKEND=local to run flows on worker threads of this server');
         this.isInitialized = true;
         return;
       }
@@ -120,6 +286,12 @@ export class ContainerPoolService extends EventEmitter {
     if (this.healthCheckInterval) {
       clearInterval(this.healthCheckInterval);
     }
+
+    for (const waiter of [...this.queues.production, ...this.queues.interactive]) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Container pool shut down'));
+    }
+    this.queues = { production: [], interactive: [] };
     
     this.isInitialized = false;
     logInfo('🏊 Container Pool Service shut down');
@@ -132,6 +304,15 @@ export class ContainerPoolService extends EventEmitter {
       healthyContainers: this.containers.filter(c => c.isHealthy).length,
       busyContainers: this.containers.filter(c => c.isBusy).length,
       totalExecutions: this.containers.reduce((sum, c) => sum + c.executions, 0),
+      queue: {
+        depth: this.queues.production.length + this.queues.interactive.length,
+        production: this.queues.production.length,
+        interactive: this.queues.interactive.length,
+        capacity: this.config.queueSize,
+        rejected: this.queueStats.rejected,
+        timedOut: this.queueStats.timedOut,
+        averageWaitMs: this.queueStats.dequeued > 0 ? Math.round(this.queueStats.totalWaitMs / this.queueStats.dequeued) : 0
+      },
       containers: this.containers.map(c => ({
         id: c.id,
         name: c.name,
@@ -145,74 +326,323 @@ export class ContainerPoolService extends EventEmitter {
 
   async executeFlow(code: string, input: any, config: ExecutionConfig = {}): Promise<ExecutionResult> {
     const startTime = Date.now();
-    const executionId = `exec_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+    const executionId = config.executionId || `exec_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
 
     if (!this.isInitialized) {
       await this.initialize();
     }
 
-    // Find available container
-    const container = this.getAvailableContainer();
-    if (!container) {
-      return {
-        success: false,
-        error: 'No available containers in pool',
-        meta: {
-          instance: executionId,
-          duration: Date.now() - startTime
-        },
-        runtime: 'flowshapr'
-      };
+    // Wait for a container when all of them are busy
+    let container: PoolContainer;
+    try {
+      container = await this.acquireContainer(executionId, config);
+    } catch (error: any) {
+      return this.createUnavailableResult(executionId, startTime, error);
     }
 
     logInfo(`🏊 Executing flow in container: ${container.name} (${executionId})`);
     
-    // Mark container as busy
-    container.isBusy = true;
-    container.lastUsed = new Date();
+    const running = this.trackExecution(executionId, container);
 
     try {
-      const result = await this.executeInContainer(container, {
+      const result = await container.backend.execute({
         executionId,
         code,
         input,
         config,
         flowId: config.flowId
-      });
+      }, running.controller);
 
-      container.executions++;
-      const duration = Date.now() - startTime;
-      logInfo(`✅ Flow executed successfully in ${duration}ms`);
-
-      return {
-        success: true,
-        result: result.result,
-        meta: {
-          instance: executionId,
-          duration,
-          containerId: container.id
-        },
-        runtime: 'flowshapr'
-      };
+      return this.createSuccessResult(container, executionId, startTime, result);
+    } catch (error: any) {
+      if (running.cancelled) {
+        return this.createCancelledResult(container, executionId, startTime);
+      }
+      return this.createFailureResult(container, executionId, startTime, error);
+    } finally {
+      this.runningExecutions.delete(executionId);
+      this.releaseContainer(container);
+    }
+  }
+
+  /**
+   * Execute a flow and yield the chunks it streams while running. The generator
+   * returns the same result executeFlow resolves to.
+   */
+  async *streamFlow(code: string, input: any, config: ExecutionConfig = {}): AsyncGenerator<any, ExecutionResult, unknown> {
+    const startTime = Date.now();
+    const executionId = config.executionId || `exec_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
 
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    let container: PoolContainer;
+    try {
+      container = await this.acquireContainer(executionId, config);
     } catch (error: any) {
-      const duration = Date.now() - startTime;
-      logError(`❌ Container pool execution failed in ${duration}ms:`, error.message);
-
-      return {
-        success: false,
-        error: error.message,
-        meta: {
-          instance: executionId,
-          duration,
-          containerId: container.id
-        },
-        runtime: 'flowshapr'
-      };
+      return this.createUnavailableResult(executionId, startTime, error);
+    }
+
+    logInfo(`🏊 Streaming flow in container: ${container.name} (${executionId})`);
+
+    const running = this.trackExecution(executionId, container);
+
+    try {
+      const result = yield* container.backend.stream({
+        executionId,
+        code,
+        input,
+        config,
+        flowId: config.flowId
+      }, running.controller);
+
+      return this.createSuccessResult(container, executionId, startTime, result);
+    } catch (error: any) {
+      if (running.cancelled) {
+        return this.createCancelledResult(container, executionId, startTime);
+      }
+      return this.createFailureResult(container, executionId, startTime, error);
     } finally {
-      // Mark container as available
-      container.isBusy = false;
+      this.runningExecutions.delete(executionId);
+      this.releaseContainer(container);
+    }
+  }
+
+  /**
+   * Stop a run dispatched by this pool: a queued run leaves the queue, and for a
+   * running one the worker terminates the flow's thread and the request is
+   * aborted, which frees the container. Returns false when the execution is not
+   * queued or running here.
+   */
+  async cancelExecution(executionId: string): Promise<boolean> {
+    const waiter = this.removeQueued(executionId);
+    if (waiter) {
+      const error = new Error('Execution cancelled');
+      (error as any).cancelled = true;
+      waiter.reject(error);
+      logInfo(`🛑 Cancelled queued execution ${executionId}`);
+      return true;
     }
+
+    const running = this.runningExecutions.get(executionId);
+    if (!running) return false;
+
+    running.cancelled = true;
+    try {
+      await running.container.backend.cancel(executionId);
+    } catch (error: any) {
+      logWarn(`⚠️  Could not reach ${running.container.name} to cancel ${executionId}:`, error.message);
+    }
+    running.controller.abort();
+    logInfo(`🛑 Cancelled execution ${executionId} in container: ${running.container.name}`);
+    return true;
+  }
+
+  /**
+   * Where a debug run dispatched by this pool is paused, or null while it waits
+   * for a container or runs between breakpoints
+   */
+  async getDebugPause(executionId: string): Promise<DebugPause | null> {
+    const running = this.runningExecutions.get(executionId);
+    if (!running) return null;
+    return running.container.backend.getDebugPause(executionId);
+  }
+
+  /**
+   * Let a paused debug run go on
+   */
+  async sendDebugCommand(executionId: string, command: DebugCommand): Promise<void> {
+    const running = this.runningExecutions.get(executionId);
+    if (!running) {
+      throw new Error('Execution is not running');
+    }
+    await running.container.backend.sendDebugCommand(executionId, command);
+  }
+
+  /**
+   * Take a free container, or queue for one. Queued runs are handed containers
+   * as they are released, production runs first and each priority in arrival
+   * order. Rejects when no container is healthy, the run's queue is full or the
+   * run waited past its deadline.
+   */
+  private acquireContainer(executionId: string, config: ExecutionConfig): Promise<PoolContainer> {
+    const available = this.getAvailableContainer();
+    if (available) {
+      this.claimContainer(available);
+      return Promise.resolve(available);
+    }
+    if (!this.containers.some(c => c.isHealthy)) {
+      return Promise.reject(new Error('No available containers in pool'));
+    }
+
+    const priority = config.priority || 'production';
+    const queue = this.queues[priority];
+    if (queue.length >= this.config.queueSize) {
+      this.queueStats.rejected++;
+      logWarn(`⏳ Execution queue full, turning away ${executionId} (${priority})`);
+      return Promise.reject(this.createBusyError('Execution queue full'));
+    }
+
+    const timeout = config.queueTimeout ?? this.config.queueTimeout;
+    return new Promise<PoolContainer>((resolve, reject) => {
+      const waiter: QueuedExecution = {
+        executionId,
+        queuedAt: Date.now(),
+        timer: setTimeout(() => {
+          this.removeQueued(executionId);
+          this.queueStats.timedOut++;
+          reject(this.createBusyError('Timed out waiting for an available container'));
+        }, timeout),
+        resolve,
+        reject
+      };
+      queue.push(waiter);
+      logInfo(`⏳ Queued execution ${executionId} (${priority}, ${queue.length} waiting)`);
+    });
+  }
+
+  private claimContainer(container: PoolContainer): void {
+    container.isBusy = true;
+    container.lastUsed = new Date();
+  }
+
+  private releaseContainer(container: PoolContainer): void {
+    container.isBusy = false;
+    this.dispatchQueued();
+  }
+
+  /**
+   * Hand free containers to the runs that have waited longest, production first
+   */
+  private dispatchQueued(): void {
+    let container = this.getAvailableContainer();
+    while (container) {
+      const waiter = this.queues.production.shift() || this.queues.interactive.shift();
+      if (!waiter) return;
+
+      clearTimeout(waiter.timer);
+      this.queueStats.dequeued++;
+      this.queueStats.totalWaitMs += Date.now() - waiter.queuedAt;
+      this.claimContainer(container);
+      waiter.resolve(container);
+      container = this.getAvailableContainer();
+    }
+  }
+
+  private removeQueued(executionId: string): QueuedExecution | null {
+    for (const queue of Object.values(this.queues)) {
+      const index = queue.findIndex(waiter => waiter.executionId === executionId);
+      if (index !== -1) {
+        const [waiter] = queue.splice(index, 1);
+        clearTimeout(waiter.timer);
+        return waiter;
+      }
+    }
+    return null;
+  }
+
+  // Busy answers tell the caller to retry once queued runs have had time to drain
+  private createBusyError(message: string): Error {
+    const error = new Error(message);
+    (error as any).retryAfter = Math.max(1, Math.ceil(this.config.queueTimeout / 1000));
+    return error;
+  }
+
+  private trackExecution(executionId: string, container: PoolContainer): RunningExecution {
+    const running = { container, controller: new AbortController(), cancelled: false };
+    this.runningExecutions.set(executionId, running);
+    return running;
+  }
+
+  private createSuccessResult(
+    container: PoolContainer,
+    executionId: string,
+    startTime: number,
+    result: { result: any; interrupt?: FlowInterruptState; record?: FlowExecutionRecord }
+  ): ExecutionResult {
+    container.executions++;
+    const duration = Date.now() - startTime;
+    logInfo(`✅ Flow executed successfully in ${duration}ms`);
+
+    return {
+      success: true,
+      result: result.result,
+      interrupt: result.interrupt,
+      record: result.record,
+      meta: {
+        instance: executionId,
+        duration,
+        containerId: container.id
+      },
+      runtime: 'flowshapr'
+    };
+  }
+
+  private createUnavailableResult(executionId: string, startTime: number, error: any): ExecutionResult {
+    return {
+      success: false,
+      error: error.message,
+      ...(error.cancelled ? { cancelled: true } : {}),
+      ...(error.retryAfter ? { retryAfter: error.retryAfter } : {}),
+      meta: {
+        instance: executionId,
+        duration: Date.now() - startTime
+      },
+      runtime: 'flowshapr'
+    };
+  }
+
+  private createCancelledResult(container: PoolContainer, executionId: string, startTime: number): ExecutionResult {
+    return {
+      success: false,
+      cancelled: true,
+      error: 'Execution cancelled',
+      meta: {
+        instance: executionId,
+        duration: Date.now() - startTime,
+        containerId: container.id
+      },
+      runtime: 'flowshapr'
+    };
+  }
+
+  private createFailureResult(container: PoolContainer, executionId: string, startTime: number, error: any): ExecutionResult {
+    const duration = Date.now() - startTime;
+    logError(`❌ Container pool execution failed in ${duration}ms:`, error.message);
+
+    return {
+      success: false,
+      error: error.message,
+      nodeId: error.nodeId,
+      record: error.record,
+      meta: {
+        instance: executionId,
+        duration,
+        containerId: container.id
+      },
+      runtime: 'flowshapr'
+    };
+  }
+
+  /**
+   * Slots that run flows on worker threads of this process, for machines without
+   * Docker or execution daemons
+   */
+  private initializeLocal(): void {
+    logInfo(`🧵 Running flows on local worker threads (${this.config.poolSize} slots)`);
+    logWarn('⚠️  Local execution shares this server process; use execution daemons in production');
+
+    const backend = new LocalExecutorBackend({ ...LOCAL_SECURITY_POLICY, maxExecutionTime: this.config.workTimeout });
+    this.containers = Array.from({ length: this.config.poolSize }, (_, index) => ({
+      id: `local-${index + 1}`,
+      name: `local-${index + 1}`,
+      backend,
+      isHealthy: true,
+      isBusy: false,
+      lastUsed: new Date(),
+      executions: 0
+    }));
   }
 
   private async initializeFromUrls(urls: string[]): Promise<void> {
@@ -222,7 +652,7 @@ export class ContainerPoolService extends EventEmitter {
     this.containers = urls.map((url, index) => ({
       id: `worker-${index + 1}`,
       name: `worker-${index + 1}`,
-      url: url,
+      backend: new HttpExecutorBackend(url, this.config.workTimeout),
       isHealthy: false,
       isBusy: false,
       lastUsed: new Date(),
@@ -247,7 +677,7 @@ export class ContainerPoolService extends EventEmitter {
       this.containers = containers.map(container => ({
         id: container.id,
         name: container.name,
-        url: container.url,
+        backend: new HttpExecutorBackend(container.url, this.config.workTimeout),
         isHealthy: false,
         isBusy: false,
         lastUsed: new Date(),
@@ -346,60 +776,6 @@ export class ContainerPoolService extends EventEmitter {
     );
   }
 
-  private async executeInContainer(
-    container: PoolContainer, 
-    request: ExecutionRequest
-  ): Promise<{ result: any }> {
-    const { executionId, code, input, config } = request;
-
-    try {
-      // Make HTTP request to container's execution daemon
-      const result = await this.makeHttpRequest(container, {
-        code,
-        input,
-        config,
-        flowId: config.flowId
-      });
-      
-      return result;
-    } catch (error) {
-      throw error;
-    }
-  }
-
-  private async makeHttpRequest(container: PoolContainer, requestData: any): Promise<{ result: any }> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.config.workTimeout);
-    
-    try {
-      const response = await fetch(`${container.url}/execute`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestData),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-      const result = await response.json() as any;
-
-      if (!response.ok) {
-        throw new Error(result.error || `HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      if (!result.success) {
-        throw new Error(result.error || 'Flow execution failed');
-      }
-
-      return { result: result.result };
-      
-    } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
-    }
-  }
-
   private async getContainerPortFromId(containerId: string): Promise<number> {
     try {
       const result = await this.dockerCommand([
@@ -439,12 +815,15 @@ export class ContainerPoolService extends EventEmitter {
   private async checkAllContainerHealth(): Promise<void> {
     for (const container of this.containers) {
       try {
-        const isHealthy = await this.checkContainerHealth(container);
+        const isHealthy = await container.backend.checkHealth();
         
         if (container.isHealthy !== isHealthy) {
           container.isHealthy = isHealthy;
           logInfo(`💊 Container ${container.name} health changed: ${isHealthy ? 'healthy' : 'unhealthy'}`);
           this.emit('containerHealthChanged', container);
+          if (isHealthy) {
+            this.dispatchQueued();
+          }
         }
       } catch (error) {
         logWarn(`⚠️  Health check failed for ${container.name}:`, (error as Error).message);
@@ -453,30 +832,6 @@ export class ContainerPoolService extends EventEmitter {
     }
   }
 
-  private async checkContainerHealth(container: PoolContainer): Promise<boolean> {
-    try {
-      // Check container health via HTTP endpoint
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-      
-      const response = await fetch(`${container.url}/health`, {
-        method: 'GET',
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      
-      if (response.ok) {
-        const health = await response.json() as any;
-        return health.status === 'healthy';
-      }
-      
-      return false;
-    } catch {
-      return false;
-    }
-  }
-
   private async checkDockerAvailability(): Promise<boolean> {
     try {
       const result = await this.dockerCommand(['--version']);
@@ -0,0 +1,32 @@
+import type { DebugCommand, DebugPause, ExecutionRequest, FlowExecutionRecord, FlowInterruptState } from './ContainerPoolService';
+
+/**
+ * Which kind of executor the pool dispatches runs to
+ */
+export type ExecutorBackendKind = 'http' | 'local';
+
+/**
+ * What a run produced. Failed runs reject instead, with `nodeId` and `record`
+ * set on the error when they are known.
+ */
+export interface ExecutorOutcome {
+  result: any;
+  interrupt?: FlowInterruptState;
+  record?: FlowExecutionRecord;
+}
+
+/**
+ * Runs generated flow modules for one pool slot. Aborting the controller stops
+ * the run; backends abort it themselves when the run exceeds its time limit.
+ */
+export interface ExecutorBackend {
+  readonly kind: ExecutorBackendKind;
+  execute(request: ExecutionRequest, controller: AbortController): Promise<ExecutorOutcome>;
+  // Yields the chunks the flow streams and returns the same outcome execute resolves to
+  stream(request: ExecutionRequest, controller: AbortController): AsyncGenerator<any, ExecutorOutcome, unknown>;
+  cancel(executionId: string): Promise<void>;
+  // Debug runs wait where they paused until sendDebugCommand; runs that are not paused report null
+  getDebugPause(executionId: string): Promise<DebugPause | null>;
+  sendDebugCommand(executionId: string, command: DebugCommand): Promise<void>;
+  checkHealth(): Promise<boolean>;
+}
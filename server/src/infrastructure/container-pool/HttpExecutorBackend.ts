@@ -0,0 +1,171 @@
+import type { DebugCommand, DebugPause, ExecutionRequest } from './ContainerPoolService';
+import { ExecutorBackend, ExecutorOutcome } from './ExecutorBackend';
+
+/**
+ * Executor backend for an execution daemon (docker/execution) reached over HTTP
+ */
+export class HttpExecutorBackend implements ExecutorBackend {
+  readonly kind = 'http' as const;
+
+  constructor(readonly url: string, private workTimeout: number) {}
+
+  async execute(request: ExecutionRequest, controller: AbortController): Promise<ExecutorOutcome> {
+    const timeoutId = setTimeout(() => controller.abort(), this.workTimeout);
+
+    try {
+      const response = await fetch(`${this.url}/execute`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(this.toRequestBody(request)),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+      const result = await response.json() as any;
+
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      return this.readDaemonResult(result);
+
+    } catch (error) {
+      clearTimeout(timeoutId);
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the daemon for Server-Sent Events: `message` events carry the chunks the
+   * flow streams, and a final `result` event carries the execution result
+   */
+  async *stream(request: ExecutionRequest, controller: AbortController): AsyncGenerator<any, ExecutorOutcome, unknown> {
+    const timeoutId = setTimeout(() => controller.abort(), this.workTimeout);
+
+    try {
+      const response = await fetch(`${this.url}/execute`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+        },
+        body: JSON.stringify(this.toRequestBody(request)),
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        const result = await response.json().catch(() => ({})) as any;
+        throw new Error(result.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      let outcome: any;
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+        for (const event of events) {
+          const data = event.split('\n').filter(line => line.startsWith('data: ')).map(line => line.slice(6)).join('\n');
+          if (!data) continue;
+          const parsed = JSON.parse(data);
+          if ('message' in parsed) {
+            yield parsed.message;
+          } else if ('result' in parsed) {
+            outcome = parsed.result;
+          }
+        }
+      }
+
+      if (!outcome) {
+        throw new Error('Execution stream ended without a result');
+      }
+      return this.readDaemonResult(outcome);
+    } finally {
+      // Also stops the request when the consumer abandons the stream
+      clearTimeout(timeoutId);
+      controller.abort();
+    }
+  }
+
+  // Asks the daemon to terminate the run's worker thread
+  async cancel(executionId: string): Promise<void> {
+    await fetch(`${this.url}/executions/${encodeURIComponent(executionId)}`, {
+      method: 'DELETE',
+      signal: AbortSignal.timeout(5000)
+    });
+  }
+
+  async getDebugPause(executionId: string): Promise<DebugPause | null> {
+    const response = await fetch(`${this.url}/executions/${encodeURIComponent(executionId)}/debug`, {
+      signal: AbortSignal.timeout(5000)
+    });
+    const result = await response.json() as any;
+    if (!response.ok) {
+      throw new Error(result.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return result.paused || null;
+  }
+
+  // The daemon hands the command to the run's worker thread
+  async sendDebugCommand(executionId: string, command: DebugCommand): Promise<void> {
+    const response = await fetch(`${this.url}/executions/${encodeURIComponent(executionId)}/debug`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(command),
+      signal: AbortSignal.timeout(5000)
+    });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({})) as any;
+      throw new Error(result.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+  }
+
+  async checkHealth(): Promise<boolean> {
+    try {
+      // Check container health via HTTP endpoint
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
+
+      const response = await fetch(`${this.url}/health`, {
+        method: 'GET',
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (response.ok) {
+        const health = await response.json() as any;
+        return health.status === 'healthy';
+      }
+
+      return false;
+    } catch {
+      return false;
+    }
+  }
+
+  private toRequestBody(request: ExecutionRequest) {
+    const { executionId, code, input, config } = request;
+    return { executionId, code, input, config, flowId: config.flowId };
+  }
+
+  private readDaemonResult(result: any): ExecutorOutcome {
+    if (!result.success) {
+      const executionError = new Error(result.error || 'Flow execution failed');
+      (executionError as any).nodeId = result.nodeId;
+      (executionError as any).record = result.record;
+      throw executionError;
+    }
+
+    return { result: result.result, interrupt: result.interrupted ? result.interrupt : undefined, record: result.record };
+  }
+}
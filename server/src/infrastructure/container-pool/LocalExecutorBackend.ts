@@ -0,0 +1,352 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Worker } from 'worker_threads';
+import type { SecurityPolicy } from '../container-executor/types';
+import type { DebugCommand, DebugPause, ExecutionConfig, ExecutionRequest } from './ContainerPoolService';
+import { ExecutorBackend, ExecutorOutcome } from './ExecutorBackend';
+
+/**
+ * What the local executor lets generated flows do. Imports are limited to the
+ * packages code generation emits; the limits apply to each run's worker thread.
+ * CPU, network and file system access are not restricted for threads.
+ */
+export const LOCAL_SECURITY_POLICY: SecurityPolicy = {
+  allowedImports: [
+    'genkit',
+    'zod',
+    '@genkit-ai/google-genai',
+    '@genkit-ai/compat-oai',
+    '@genkit-ai/mcp',
+    'genkitx-anthropic',
+    'node:vm',
+  ],
+  blockedPatterns: [
+    /\bimport\s*\(/, // Dynamic imports would bypass the import check
+    /\bprocess\.(binding|dlopen|exit|kill|chdir)\s*\(/,
+  ],
+  maxExecutionTime: 120000,
+  memoryLimit: '256m',
+  cpuLimit: '1',
+  networkAccess: true, // Model providers are reached over the network
+  fileSystemAccess: 'limited',
+};
+
+// Runs one flow module on the worker thread, like docker/execution/flow-worker.js
+const FLOW_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+(async () => {
+  const { moduleUrl, input, runtime } = workerData;
+  const send = (message) => parentPort.postMessage(message);
+  if (runtime.debug) {
+    let resume = null;
+    runtime.debug.pause = (state) => new Promise((resolve) => {
+      resume = resolve;
+      send({ type: 'debug', pause: JSON.parse(JSON.stringify(state)) });
+    });
+    parentPort.on('message', (message) => {
+      if (message.type === 'debug' && resume) {
+        const next = resume;
+        resume = null;
+        next(message.command);
+      }
+    });
+  }
+  try {
+    const flowModule = await import(moduleUrl);
+    if (typeof flowModule.default !== 'function') {
+      throw new Error('Generated code must export a Genkit flow as default export');
+    }
+    const result = await flowModule.default(input, {
+      context: { flowshapr: runtime },
+      onChunk: (chunk) => send({ type: 'chunk', chunk })
+    });
+    send({ type: 'result', result, record: runtime.record });
+  } catch (error) {
+    send({
+      type: 'error',
+      error: {
+        message: error && error.message ? error.message : String(error),
+        nodeId: (error && (error.nodeId || (error.cause && error.cause.nodeId))) || undefined,
+        flowInterrupt: error && error.flowInterrupt
+      },
+      record: runtime.record
+    });
+  }
+})();
+`;
+
+// Characters after which a slash starts a regular expression rather than a division
+const REGEX_PRECEDERS = '(,=:[!&|?{};+-*%<>~^';
+
+/**
+ * The code of a module with the text of its string, template and regular
+ * expression literals and its comments left out, so blocked patterns only match
+ * code. Template literal expressions are kept, since they are code.
+ */
+function codeOutsideLiterals(code: string): string {
+  let out = '';
+  let prev = ''; // Last non-space character kept
+  let depth = 0; // Open braces
+  const templates: number[] = []; // Brace depth each open template expression closes at
+  let i = 0;
+  while (i < code.length) {
+    const ch = code[i];
+    const next = code[i + 1];
+    if (ch === '/' && next === '/') {
+      const end = code.indexOf('\n', i);
+      i = end === -1 ? code.length : end;
+    } else if (ch === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2);
+      i = end === -1 ? code.length : end + 2;
+      out += ' ';
+    } else if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < code.length && code[j] !== ch && code[j] !== '\n') j += code[j] === '\\' ? 2 : 1;
+      i = j + 1;
+      out += ch + ch;
+      prev = ch;
+    } else if (ch === '/' && (!prev || REGEX_PRECEDERS.includes(prev) || /\b(return|typeof|case|in|of|await|yield)$/.test(out.trimEnd()))) {
+      let j = i + 1;
+      let inClass = false;
+      while (j < code.length && code[j] !== '\n' && (inClass || code[j] !== '/')) {
+        if (code[j] === '[') inClass = true;
+        else if (code[j] === ']') inClass = false;
+        j += code[j] === '\\' ? 2 : 1;
+      }
+      i = j + 1;
+      out += '/ /';
+      prev = '/';
+    } else if (ch === '`' || (ch === '}' && templates.length > 0 && templates[templates.length - 1] === depth)) {
+      if (ch === '}') templates.pop();
+      let j = i + 1;
+      while (j < code.length && code[j] !== '`' && !(code[j] === '$' && code[j + 1] === '{')) j += code[j] === '\\' ? 2 : 1;
+      out += '``';
+      if (code[j] === '$') {
+        templates.push(depth);
+        i = j + 2;
+        prev = '{';
+      } else {
+        i = j + 1;
+        prev = '`';
+      }
+    } else {
+      if (ch === '{') depth++;
+      else if (ch === '}') depth--;
+      out += ch;
+      if (!/\s/.test(ch)) prev = ch;
+      i++;
+    }
+  }
+  return out;
+}
+
+/**
+ * Executor backend that runs generated flows on worker threads of this process,
+ * for development and CI machines without Docker. Each run gets its own thread
+ * with the policy's memory and time limits and only its own provider keys.
+ */
+export class LocalExecutorBackend implements ExecutorBackend {
+  readonly kind = 'local' as const;
+  private debugSessions = new Map<string, { paused: DebugPause | null; worker: Worker }>();
+
+  constructor(
+    private policy: SecurityPolicy = LOCAL_SECURITY_POLICY,
+    // Must sit below the server's node_modules so flows can import genkit. Resolved
+    // from this file rather than the working directory, so it always lands in the
+    // server's git-ignored temp/ folder.
+    private flowsDir: string = path.resolve(__dirname, '..', '..', '..', 'temp', 'flows')
+  ) {}
+
+  execute(request: ExecutionRequest, controller: AbortController): Promise<ExecutorOutcome> {
+    return this.run(request, controller);
+  }
+
+  async *stream(request: ExecutionRequest, controller: AbortController): AsyncGenerator<any, ExecutorOutcome, unknown> {
+    const chunks: any[] = [];
+    let finished = false;
+    let wake: (() => void) | null = null;
+
+    const outcome = this.run(request, controller, chunk => {
+      chunks.push(chunk);
+      wake?.();
+    });
+    outcome.then(() => { finished = true; wake?.(); }, () => { finished = true; wake?.(); });
+
+    try {
+      while (true) {
+        while (chunks.length > 0) {
+          yield chunks.shift();
+        }
+        if (finished) {
+          return await outcome;
+        }
+        await new Promise<void>(resolve => {
+          wake = resolve;
+          if (chunks.length > 0 || finished) resolve();
+        });
+        wake = null;
+      }
+    } finally {
+      // Also stops the worker when the consumer abandons the stream
+      controller.abort();
+    }
+  }
+
+  // Runs stop when the pool aborts their controller
+  async cancel(_executionId: string): Promise<void> {}
+
+  async getDebugPause(executionId: string): Promise<DebugPause | null> {
+    return this.debugSessions.get(executionId)?.paused || null;
+  }
+
+  async sendDebugCommand(executionId: string, command: DebugCommand): Promise<void> {
+    const session = this.debugSessions.get(executionId);
+    if (!session || !session.paused) {
+      throw new Error('Execution is not paused');
+    }
+    session.paused = null;
+    session.worker.postMessage({ type: 'debug', command });
+  }
+
+  async checkHealth(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Reject code the policy does not allow: imports outside the allowed packages
+   * (or their subpaths) and blocked patterns in code, outside literals and comments
+   */
+  checkPolicy(code: string): void {
+    const specifiers = [...code.matchAll(/^\s*(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]|^\s*import\s*['"]([^'"]+)['"]/gm)]
+      .map(match => match[1] || match[2]);
+    for (const specifier of specifiers) {
+      const allowed = this.policy.allowedImports.some(name => specifier === name || specifier.startsWith(`${name}/`));
+      if (!allowed) {
+        throw new Error(`Import of "${specifier}" is not allowed by the executor security policy`);
+      }
+    }
+
+    const source = codeOutsideLiterals(code);
+    const blocked = this.policy.blockedPatterns.find(pattern => pattern.test(source));
+    if (blocked) {
+      throw new Error(`Generated code matches ${blocked} blocked by the executor security policy`);
+    }
+  }
+
+  private async run(request: ExecutionRequest, controller: AbortController, onChunk?: (chunk: any) => void): Promise<ExecutorOutcome> {
+    this.checkPolicy(request.code);
+
+    await fs.mkdir(this.flowsDir, { recursive: true });
+    const codePath = path.join(this.flowsDir, `flow_${request.executionId}.mjs`);
+
+    try {
+      await fs.writeFile(codePath, request.code);
+      return await this.runWorker(codePath, request, controller, onChunk);
+    } finally {
+      await fs.unlink(codePath).catch(() => {});
+    }
+  }
+
+  private runWorker(codePath: string, request: ExecutionRequest, controller: AbortController, onChunk?: (chunk: any) => void): Promise<ExecutorOutcome> {
+    const { input, config } = request;
+    const memoryLimitMb = this.parseMemoryLimit(this.policy.memoryLimit);
+    // Collects what the flow records while running, as the execution daemon does
+    const runtime = { ...(config.runtime || {}), record: { subflows: [], documents: [], nodes: [], modelCalls: [] } };
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(FLOW_WORKER_SOURCE, {
+        eval: true,
+        workerData: { moduleUrl: pathToFileURL(codePath).href, input, runtime },
+        env: this.buildEnv(config),
+        resourceLimits: { maxOldGenerationSizeMb: memoryLimitMb }
+      });
+
+      if (runtime.debug) {
+        this.debugSessions.set(request.executionId, { paused: null, worker });
+      }
+
+      let settled = false;
+      const finish = (error: Error | null, outcome?: ExecutorOutcome) => {
+        if (settled) return;
+        settled = true;
+        this.debugSessions.delete(request.executionId);
+        clearTimeout(timeoutId);
+        controller.signal.removeEventListener('abort', onAbort);
+        worker.terminate();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(outcome!);
+        }
+      };
+
+      const timeoutId = setTimeout(() => {
+        finish(new Error(`Execution timed out after ${this.policy.maxExecutionTime}ms`));
+      }, this.policy.maxExecutionTime);
+      const onAbort = () => finish(new Error('Execution aborted'));
+      if (controller.signal.aborted) {
+        onAbort();
+        return;
+      }
+      controller.signal.addEventListener('abort', onAbort);
+
+      worker.on('message', message => {
+        if (message.type === 'chunk') {
+          onChunk?.(message.chunk);
+          return;
+        }
+        if (message.type === 'debug') {
+          const session = this.debugSessions.get(request.executionId);
+          if (session) session.paused = message.pause;
+          return;
+        }
+        if (message.type === 'result') {
+          finish(null, { result: message.result, record: message.record });
+          return;
+        }
+        // Interrupts pause the run rather than fail it
+        if (message.error.flowInterrupt) {
+          finish(null, { result: undefined, interrupt: message.error.flowInterrupt, record: message.record });
+          return;
+        }
+        const executionError = new Error(message.error.message);
+        (executionError as any).nodeId = message.error.nodeId;
+        (executionError as any).record = message.record;
+        finish(executionError);
+      });
+      worker.on('error', (error: any) => {
+        finish(error?.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? new Error(`Execution exceeded the ${memoryLimitMb}MB memory limit`)
+          : error);
+      });
+      worker.on('exit', code => finish(new Error(`Flow worker exited with code ${code}`)));
+    });
+  }
+
+  // Flows see only their own run's provider keys, never the server's environment
+  private buildEnv(config: ExecutionConfig): Record<string, string> {
+    const env: Record<string, string> = { NODE_ENV: 'production' };
+    if (config.googleApiKey) {
+      env.GEMINI_API_KEY = config.googleApiKey;
+      env.GOOGLE_API_KEY = config.googleApiKey;
+    }
+    if (config.openaiApiKey) {
+      env.OPENAI_API_KEY = config.openaiApiKey;
+    }
+    if (config.anthropicApiKey) {
+      env.ANTHROPIC_API_KEY = config.anthropicApiKey;
+    }
+    return env;
+  }
+
+  // Accepts Docker-style limits such as "256m" or "1g"
+  private parseMemoryLimit(limit: string): number {
+    const match = /^(\d+)\s*([mg])?b?$/i.exec(limit.trim());
+    if (!match) {
+      throw new Error(`Invalid memory limit: ${limit}`);
+    }
+    const amount = parseInt(match[1], 10);
+    return match[2]?.toLowerCase() === 'g' ? amount * 1024 : amount;
+  }
+}
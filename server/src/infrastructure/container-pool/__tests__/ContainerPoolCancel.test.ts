@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ContainerPoolService } from '../ContainerPoolService';
+
+// Worker that holds every execution open until the daemon's cancel route is called
+function startWorker(cancelled: string[]): Promise<http.Server> {
+  const pending = new Map<string, http.ServerResponse>();
+
+  const server = http.createServer((req, res) => {
+    if (req.method === 'GET' && req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'healthy' }));
+      return;
+    }
+
+    if (req.method === 'DELETE' && req.url?.startsWith('/executions/')) {
+      const executionId = decodeURIComponent(req.url.slice('/executions/'.length));
+      cancelled.push(executionId);
+      const execution = pending.get(executionId);
+      res.writeHead(execution ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(execution ? { success: true } : { error: 'Execution not running' }));
+      execution?.writeHead(500, { 'Content-Type': 'application/json' });
+      execution?.end(JSON.stringify({ success: false, cancelled: true, error: 'Execution cancelled' }));
+      return;
+    }
+
+    let raw = '';
+    req.on('data', data => { raw += data; });
+    req.on('end', () => {
+      pending.set(JSON.parse(raw).executionId, res);
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function waitFor(check: () => boolean, what: string): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (check()) return;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Timed out waiting for ${what}`);
+}
+
+describe('ContainerPoolService cancellation', () => {
+  let worker: http.Server;
+  let pool: ContainerPoolService;
+  const cancelled: string[] = [];
+
+  beforeAll(async () => {
+    worker = await startWorker(cancelled);
+    const { port } = worker.address() as AddressInfo;
+    pool = new ContainerPoolService({ workerUrls: [`http://127.0.0.1:${port}`], healthCheckInterval: 20 });
+    await pool.initialize();
+    await waitFor(() => pool.getStatus().healthyContainers > 0, 'a healthy worker');
+  });
+
+  afterAll(async () => {
+    await pool.shutdown();
+    worker.closeAllConnections();
+    await new Promise(resolve => worker.close(resolve));
+  });
+
+  it('should stop the run on its worker and free the container', async () => {
+    const running = pool.executeFlow('// code', {}, { flowId: 'flow-1', executionId: 'exec_cancel_me' });
+    await waitFor(() => pool.getStatus().busyContainers === 1, 'the run to start');
+
+    await expect(pool.cancelExecution('exec_cancel_me')).resolves.toBe(true);
+    const result = await running;
+
+    expect(cancelled).toEqual(['exec_cancel_me']);
+    expect(result).toMatchObject({ success: false, cancelled: true, error: 'Execution cancelled' });
+    expect(pool.getStatus().busyContainers).toBe(0);
+  });
+
+  it('should report runs it is not executing', async () => {
+    await expect(pool.cancelExecution('exec_unknown')).resolves.toBe(false);
+  });
+});
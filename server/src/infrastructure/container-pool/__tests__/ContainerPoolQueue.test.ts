@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ContainerPoolService, ExecutionConfig, ExecutionResult } from '../ContainerPoolService';
+
+// Single worker that holds each execution open until the test finishes it
+function startWorker(pending: Map<string, http.ServerResponse>): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    if (req.method === 'GET' && req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'healthy' }));
+      return;
+    }
+
+    let raw = '';
+    req.on('data', data => { raw += data; });
+    req.on('end', () => {
+      pending.set(JSON.parse(raw).executionId, res);
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function waitFor(check: () => boolean, what: string): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (check()) return;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Timed out waiting for ${what}`);
+}
+
+describe('ContainerPoolService queue', () => {
+  const pending = new Map<string, http.ServerResponse>();
+  let worker: http.Server;
+  let pool: ContainerPoolService;
+
+  const run = (executionId: string, config: ExecutionConfig = {}): Promise<ExecutionResult> =>
+    pool.executeFlow('// code', {}, { flowId: 'flow-1', executionId, ...config });
+
+  const finish = async (executionId: string) => {
+    await waitFor(() => pending.has(executionId), `${executionId} to reach the worker`);
+    const res = pending.get(executionId)!;
+    pending.delete(executionId);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true, result: executionId }));
+  };
+
+  beforeAll(async () => {
+    worker = await startWorker(pending);
+    const { port } = worker.address() as AddressInfo;
+    pool = new ContainerPoolService({ workerUrls: [`http://127.0.0.1:${port}`], healthCheckInterval: 20, queueSize: 1, queueTimeout: 5000 });
+    await pool.initialize();
+    await waitFor(() => pool.getStatus().healthyContainers > 0, 'a healthy worker');
+  });
+
+  beforeEach(() => {
+    pending.clear();
+  });
+
+  afterAll(async () => {
+    await pool.shutdown();
+    worker.closeAllConnections();
+    await new Promise(resolve => worker.close(resolve));
+  });
+
+  it('should hold runs until a container frees up', async () => {
+    const first = run('exec_first');
+    await waitFor(() => pending.has('exec_first'), 'the first run to start');
+    const second = run('exec_second');
+    await waitFor(() => pool.getStatus().queue.depth === 1, 'the second run to queue');
+
+    expect(pending.has('exec_second')).toBe(false);
+    await finish('exec_first');
+    await finish('exec_second');
+
+    await expect(first).resolves.toMatchObject({ success: true, result: 'exec_first' });
+    await expect(second).resolves.toMatchObject({ success: true, result: 'exec_second' });
+    expect(pool.getStatus().queue).toMatchObject({ depth: 0, capacity: 1 });
+  });
+
+  it('should hand free containers to production runs before interactive ones', async () => {
+    const first = run('exec_running');
+    await waitFor(() => pending.has('exec_running'), 'the first run to start');
+    const interactive = run('exec_interactive', { priority: 'interactive' });
+    const production = run('exec_production', { priority: 'production' });
+    await waitFor(() => pool.getStatus().queue.depth === 2, 'both runs to queue');
+
+    await finish('exec_running');
+    await waitFor(() => pending.size === 1, 'the next run to start');
+    expect([...pending.keys()]).toEqual(['exec_production']);
+
+    await finish('exec_production');
+    await finish('exec_interactive');
+    await Promise.all([first, interactive, production]);
+  });
+
+  it('should turn runs away with a retry hint when their queue is full', async () => {
+    const first = run('exec_busy');
+    await waitFor(() => pending.has('exec_busy'), 'the first run to start');
+    const queued = run('exec_waiting');
+    await waitFor(() => pool.getStatus().queue.depth === 1, 'the second run to queue');
+
+    const rejected = await run('exec_rejected');
+
+    expect(rejected).toMatchObject({ success: false, error: 'Execution queue full', retryAfter: 5 });
+    expect(pool.getStatus().queue.rejected).toBe(1);
+
+    await finish('exec_busy');
+    await finish('exec_waiting');
+    await Promise.all([first, queued]);
+  });
+
+  it('should give up on runs that wait past their deadline', async () => {
+    const first = run('exec_slow');
+    await waitFor(() => pending.has('exec_slow'), 'the first run to start');
+
+    const timedOut = await run('exec_impatient', { queueTimeout: 50 });
+
+    expect(timedOut).toMatchObject({ success: false, error: 'Timed out waiting for an available container', retryAfter: 5 });
+    expect(pool.getStatus().queue).toMatchObject({ depth: 0, timedOut: 1 });
+
+    await finish('exec_slow');
+    await first;
+  });
+
+  it('should cancel runs that are still queued', async () => {
+    const first = run('exec_holding');
+    await waitFor(() => pending.has('exec_holding'), 'the first run to start');
+    const queued = run('exec_dropped');
+    await waitFor(() => pool.getStatus().queue.depth === 1, 'the second run to queue');
+
+    await expect(pool.cancelExecution('exec_dropped')).resolves.toBe(true);
+
+    await expect(queued).resolves.toMatchObject({ success: false, cancelled: true, error: 'Execution cancelled' });
+    await finish('exec_holding');
+    await first;
+    expect(pending.has('exec_dropped')).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ContainerPoolService, ExecutionResult } from '../ContainerPoolService';
+
+// Worker that answers like the execution daemon: SSE chunks, then the execution result
+function startWorker(events: (body: any) => any[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    if (req.method === 'GET' && req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'healthy' }));
+      return;
+    }
+
+    let raw = '';
+    req.on('data', data => { raw += data; });
+    req.on('end', () => {
+      if (!(req.headers.accept || '').includes('text/event-stream')) {
+        res.writeHead(406);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const payload = events(JSON.parse(raw)).map(event => `data: ${JSON.stringify(event)}\n\n`).join('');
+      // Split mid-event so the client has to buffer partial frames
+      const middle = Math.floor(payload.length / 2);
+      res.write(payload.slice(0, middle));
+      setTimeout(() => res.end(payload.slice(middle)), 10);
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function waitForHealthyWorker(pool: ContainerPoolService): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (pool.getStatus().healthyContainers > 0) return;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error('Worker never became healthy');
+}
+
+async function drain(stream: AsyncGenerator<any, ExecutionResult>): Promise<{ chunks: any[]; result: ExecutionResult }> {
+  const chunks: any[] = [];
+  let next = await stream.next();
+  while (!next.done) {
+    chunks.push(next.value);
+    next = await stream.next();
+  }
+  return { chunks, result: next.value };
+}
+
+describe('ContainerPoolService streaming', () => {
+  let worker: http.Server;
+  let pool: ContainerPoolService;
+  let respond: (body: any) => any[];
+
+  beforeAll(async () => {
+    worker = await startWorker(body => respond(body));
+    const { port } = worker.address() as AddressInfo;
+    pool = new ContainerPoolService({ workerUrls: [`http://127.0.0.1:${port}`], healthCheckInterval: 20 });
+    await pool.initialize();
+    await waitForHealthyWorker(pool);
+  });
+
+  afterAll(async () => {
+    await pool.shutdown();
+    await new Promise(resolve => worker.close(resolve));
+  });
+
+  it('should yield streamed chunks and return the execution result', async () => {
+    respond = body => [
+      { message: { nodeId: 'agent', text: `Hello ${body.input.name}` } },
+      { message: { nodeId: 'agent', text: '!' } },
+      { result: { success: true, result: `Hello ${body.input.name}!`, record: { subflows: [] } } },
+    ];
+
+    const { chunks, result } = await drain(pool.streamFlow('// code', { name: 'Ada' }, { flowId: 'flow-1' }));
+
+    expect(chunks).toEqual([{ nodeId: 'agent', text: 'Hello Ada' }, { nodeId: 'agent', text: '!' }]);
+    expect(result).toMatchObject({ success: true, result: 'Hello Ada!', record: { subflows: [] }, runtime: 'flowshapr' });
+    expect(pool.getStatus().busyContainers).toBe(0);
+  });
+
+  it('should report failures from the final result with the failing node', async () => {
+    respond = () => [
+      { message: { nodeId: 'agent', text: 'partial' } },
+      { result: { success: false, error: 'Model quota exceeded', nodeId: 'agent' } },
+    ];
+
+    const { chunks, result } = await drain(pool.streamFlow('// code', {}));
+
+    expect(chunks).toHaveLength(1);
+    expect(result).toMatchObject({ success: false, error: 'Model quota exceeded', nodeId: 'agent' });
+  });
+
+  it('should fail when the stream ends without a result', async () => {
+    respond = () => [{ message: { text: 'cut off' } }];
+
+    const { result } = await drain(pool.streamFlow('// code', {}));
+
+    expect(result).toMatchObject({ success: false, error: 'Execution stream ended without a result' });
+  });
+});
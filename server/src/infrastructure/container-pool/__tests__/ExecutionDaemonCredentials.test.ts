@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Flow that reports the provider keys it can see, after giving a concurrent run time to start
+const keyReportingFlow = `
+export default async function () {
+  await new Promise(resolve => setTimeout(resolve, 100));
+  return {
+    google: process.env.GEMINI_API_KEY ?? null,
+    openai: process.env.OPENAI_API_KEY ?? null,
+    anthropic: process.env.ANTHROPIC_API_KEY ?? null,
+  };
+}
+`;
+
+describe('execution daemon credentials', () => {
+  let daemon: any;
+  let flowsDir: string;
+  const previousEnv = { ...process.env };
+
+  beforeAll(async () => {
+    flowsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'flowshapr-daemon-'));
+    process.env.FLOWS_DIR = flowsDir;
+    process.env.OPENAI_API_KEY = 'sk-daemon';
+    const { GenkitExecutionServer } = require(path.resolve(__dirname, '../../../../../docker/execution/execution-daemon.js'));
+    daemon = new GenkitExecutionServer();
+  });
+
+  afterAll(async () => {
+    process.env = previousEnv;
+    await fs.rm(flowsDir, { recursive: true, force: true });
+  });
+
+  it('should give concurrent runs only their own provider keys', async () => {
+    const [first, second] = await Promise.all([
+      daemon.executeFlow({ code: keyReportingFlow, input: {}, config: { openaiApiKey: 'sk-flow-a', googleApiKey: 'g-flow-a' }, executionId: 'exec_keys_a' }),
+      daemon.executeFlow({ code: keyReportingFlow, input: {}, config: { openaiApiKey: 'sk-flow-b', anthropicApiKey: 'ant-flow-b' }, executionId: 'exec_keys_b' }),
+    ]);
+
+    expect(first).toMatchObject({ success: true, result: { google: 'g-flow-a', openai: 'sk-flow-a', anthropic: null } });
+    expect(second).toMatchObject({ success: true, result: { google: null, openai: 'sk-flow-b', anthropic: 'ant-flow-b' } });
+  });
+
+  it('should not hand runs the keys of the daemon or of earlier runs', async () => {
+    const result = await daemon.executeFlow({ code: keyReportingFlow, input: {}, config: {}, executionId: 'exec_keys_none' });
+
+    expect(result).toMatchObject({ success: true, result: { google: null, openai: null, anthropic: null } });
+    expect(process.env.OPENAI_API_KEY).toBe('sk-daemon');
+    expect(process.env.GEMINI_API_KEY).toBe(previousEnv.GEMINI_API_KEY);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContainerPoolService, ExecutionConfig } from '../ContainerPoolService';
+import { LOCAL_SECURITY_POLICY, LocalExecutorBackend } from '../LocalExecutorBackend';
+
+const request = (code: string, input: any = {}, config: ExecutionConfig = {}) => ({
+  executionId: `exec_local_${Math.random().toString(36).slice(2, 10)}`,
+  code,
+  input,
+  config,
+});
+
+describe('LocalExecutorBackend', () => {
+  const backend = new LocalExecutorBackend();
+
+  it('should run a generated Genkit flow on a worker thread', async () => {
+    const code = `
+import { genkit } from 'genkit';
+import { z } from 'zod';
+const ai = genkit({});
+export default ai.defineFlow({ name: 'greet', inputSchema: z.object({ name: z.string() }) }, async (input) => 'Hello ' + input.name);
+`;
+
+    const outcome = await backend.execute(request(code, { name: 'Ada' }), new AbortController());
+
+    expect(outcome).toMatchObject({ result: 'Hello Ada', record: { subflows: [], nodes: [] } });
+  });
+
+  it('should remove the flow module once the run ends, also when it fails', async () => {
+    const flowsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'flowshapr-flows-'));
+    const scoped = new LocalExecutorBackend(LOCAL_SECURITY_POLICY, flowsDir);
+
+    await scoped.execute(request('export default async () => 1;'), new AbortController());
+    await expect(scoped.execute(request('export default async () => { throw new Error("boom"); };'), new AbortController())).rejects.toThrow('boom');
+
+    expect(await fs.readdir(flowsDir)).toEqual([]);
+    await fs.rm(flowsDir, { recursive: true, force: true });
+  });
+
+  it('should yield the chunks a flow streams before its result', async () => {
+    const code = `
+export default async function (input, { onChunk }) {
+  onChunk({ text: 'Hel' });
+  onChunk({ text: 'lo' });
+  return 'Hello';
+}
+`;
+    const stream = backend.stream(request(code), new AbortController());
+
+    const chunks: any[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      chunks.push(next.value);
+      next = await stream.next();
+    }
+
+    expect(chunks).toEqual([{ text: 'Hel' }, { text: 'lo' }]);
+    expect(next.value).toMatchObject({ result: 'Hello' });
+  });
+
+  it('should report the failing node with the record', async () => {
+    const code = `
+export default async function (input, { context }) {
+  context.flowshapr.record.nodes.push({ nodeId: 'input' });
+  const error = new Error('Model quota exceeded');
+  error.nodeId = 'agent';
+  throw error;
+}
+`;
+
+    await expect(backend.execute(request(code), new AbortController())).rejects.toMatchObject({
+      message: 'Model quota exceeded',
+      nodeId: 'agent',
+      record: { nodes: [{ nodeId: 'input' }] },
+    });
+  });
+
+  it('should only hand the run its own provider keys', async () => {
+    process.env.DATABASE_URL_FOR_TEST = 'postgres://secret';
+    const code = `
+export default async function () {
+  return { openai: process.env.OPENAI_API_KEY ?? null, database: process.env.DATABASE_URL_FOR_TEST ?? null };
+}
+`;
+
+    const outcome = await backend.execute(request(code, {}, { openaiApiKey: 'sk-local' }), new AbortController());
+    delete process.env.DATABASE_URL_FOR_TEST;
+
+    expect(outcome.result).toEqual({ openai: 'sk-local', database: null });
+  });
+
+  it('should reject imports the security policy does not allow', async () => {
+    const code = `
+import { readFileSync } from 'fs';
+export default async function () { return readFileSync('/etc/passwd', 'utf8'); }
+`;
+
+    await expect(backend.execute(request(code), new AbortController())).rejects.toThrow('Import of "fs" is not allowed by the executor security policy');
+    expect(() => backend.checkPolicy("import { genkit } from 'genkit/beta';\nimport vm from 'node:vm';")).not.toThrow();
+    expect(() => backend.checkPolicy("const fs = await import('fs');")).toThrow('blocked by the executor security policy');
+  });
+
+  it('should only match blocked patterns in code, not in literals or comments', () => {
+    const allowed = [
+      'const prompt = "Summarize the import (export) figures";',
+      "const note = 'Call process.exit() to stop';",
+      'const template = `Explain import (taxes) for ${country}`;',
+      '// import (legacy) loader',
+      'const pattern = /import\\s*\\(/g;',
+      'const half = total / 2; const rest = count / 2;',
+    ];
+    for (const code of allowed) {
+      expect(() => backend.checkPolicy(code)).not.toThrow();
+    }
+
+    const blocked = [
+      'const label = `${await import("fs")}`;',
+      'const text = "a" + (await import("fs"));',
+      'const ratio = a / b; import("fs");',
+    ];
+    for (const code of blocked) {
+      expect(() => backend.checkPolicy(code)).toThrow('blocked by the executor security policy');
+    }
+  });
+
+  it('should hold debug runs where they pause until a command arrives', async () => {
+    const code = `
+export default async function (input, { context }) {
+  const command = await context.flowshapr.debug.pause({ nodeId: 'agent', input, ctx: { input } });
+  return { action: command.action, input: command.input };
+}
+`;
+    const debugRequest = request(code, 'hello', { runtime: { debug: { breakpoints: ['agent'] } } });
+    const running = backend.execute(debugRequest, new AbortController());
+
+    let pause = await backend.getDebugPause(debugRequest.executionId);
+    for (let i = 0; i < 100 && !pause; i++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      pause = await backend.getDebugPause(debugRequest.executionId);
+    }
+    expect(pause).toEqual({ nodeId: 'agent', input: 'hello', ctx: { input: 'hello' } });
+
+    await backend.sendDebugCommand(debugRequest.executionId, { action: 'continue', input: 'HELLO' });
+    await expect(running).resolves.toMatchObject({ result: { action: 'continue', input: 'HELLO' } });
+    await expect(backend.sendDebugCommand(debugRequest.executionId, { action: 'step' })).rejects.toThrow('Execution is not paused');
+  });
+
+  it('should stop runs that exceed the time limit', async () => {
+    const limited = new LocalExecutorBackend({ ...LOCAL_SECURITY_POLICY, maxExecutionTime: 200 });
+    const code = `export default () => new Promise(() => setInterval(() => {}, 1000));`;
+
+    await expect(limited.execute(request(code), new AbortController())).rejects.toThrow('Execution timed out after 200ms');
+  });
+
+  it('should stop runs that exceed the memory limit', async () => {
+    const limited = new LocalExecutorBackend({ ...LOCAL_SECURITY_POLICY, memoryLimit: '32m' });
+    const code = `
+export default async function () {
+  const hoard = [];
+  while (true) hoard.push(new Array(100000).fill({ value: hoard.length }));
+}
+`;
+
+    await expect(limited.execute(request(code), new AbortController())).rejects.toThrow('Execution exceeded the 32MB memory limit');
+  }, 30000);
+
+  it('should stop the worker when the run is aborted', async () => {
+    const controller = new AbortController();
+    const code = `export default () => new Promise(() => setInterval(() => {}, 1000));`;
+
+    const running = backend.execute(request(code), controller);
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(running).rejects.toThrow('Execution aborted');
+  });
+
+  it('should back a pool when the local backend is selected', async () => {
+    const pool = new ContainerPoolService({ backend: 'local', poolSize: 1 });
+    await pool.initialize();
+
+    const result = await pool.executeFlow('export default async (input) => input.value * 2;', { value: 21 });
+    await pool.shutdown();
+
+    expect(result).toMatchObject({ success: true, result: 42, meta: { containerId: 'local-1' } });
+    expect(pool.getStatus()).toMatchObject({ poolSize: 1, healthyContainers: 1, busyContainers: 0 });
+  });
+});
@@ -5,7 +5,8 @@ import { organization, team } from "./organizations";
 
 // Define enums for roles and status
 export const flowStatusEnum = pgEnum("flow_status", ["draft", "published", "archived"]);
-export const traceStatusEnum = pgEnum("trace_status", ["running", "completed", "failed"]);
+export const traceStatusEnum = pgEnum("trace_status", ["running", "completed", "failed", "interrupted", "cancelled"]);
+export const executionJobStatusEnum = pgEnum("execution_job_status", ["queued", "running", "finished"]);
 
 // Flows - AI workflows with versioning
 export const flow = pgTable("flow", {
@@ -24,7 +25,7 @@ export const flow = pgTable("flow", {
   
   // Configuration
   config: jsonb("config"), // execution configuration
-  deploymentSettings: jsonb("deployment_settings"), // deployment-specific settings
+  deploymentSettings: jsonb("deployment_settings"), // deployment environments and the version each runs
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()).notNull(),
@@ -69,6 +70,7 @@ export const prompt = pgTable("prompt", {
   template: text("template").notNull(), // prompt template with variables
   variables: jsonb("variables"), // variable definitions and defaults
   tags: jsonb("tags"), // array of tags for organization
+  version: integer("version").notNull().default(1), // bumped when the template or variables change
   
   // Usage tracking
   usageCount: integer("usage_count").notNull().default(0),
@@ -84,6 +86,21 @@ export const prompt = pgTable("prompt", {
   nameIdx: index("prompt_name_idx").on(table.name),
 }));
 
+// Prompt versions - earlier templates kept when a prompt is edited
+export const promptVersion = pgTable("prompt_version", {
+  id: text("id").primaryKey(),
+  version: integer("version").notNull(),
+  template: text("template").notNull(),
+  variables: jsonb("variables"),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  
+  promptId: text("prompt_id").notNull().references(() => prompt.id, { onDelete: "cascade" }),
+  createdBy: text("created_by").notNull().references(() => user.id, { onDelete: "cascade" }),
+}, (table) => ({
+  promptVersionIdx: index("prompt_version_prompt_version_idx").on(table.promptId, table.version),
+}));
+
 // Traces - execution logs and analytics
 export const trace = pgTable("trace", {
   id: text("id").primaryKey(),
@@ -98,9 +115,15 @@ export const trace = pgTable("trace", {
   duration: integer("duration"), // total execution time in ms
   status: traceStatusEnum("status").notNull().default("running"),
   errorMessage: text("error_message"),
+  checkpoint: jsonb("checkpoint"), // paused execution state while waiting on an interrupt
+  parentExecutionId: text("parent_execution_id"), // execution that called this one as a sub-flow
+  modelCalls: jsonb("model_calls"), // recorded model requests and responses, for replay
   
   // Context
   version: text("version"), // flow version used
+  variant: text("variant"), // traffic split variant that served the run
+  trigger: text("trigger"), // what started the run: editor, api, schedule or replay
+  scheduleId: text("schedule_id").references(() => flowSchedule.id, { onDelete: "set null" }), // schedule that started the run
   userAgent: text("user_agent"),
   ipAddress: text("ip_address"),
   
@@ -113,6 +136,62 @@ export const trace = pgTable("trace", {
   executionIdx: index("trace_execution_idx").on(table.executionId),
   statusIdx: index("trace_status_idx").on(table.status),
   createdAtIdx: index("trace_created_at_idx").on(table.createdAt),
+  parentExecutionIdx: index("trace_parent_execution_idx").on(table.parentExecutionId),
+}));
+
+// Execution jobs - asynchronous runs waiting for or held by a worker
+export const executionJob = pgTable("execution_job", {
+  id: text("id").primaryKey(),
+  executionId: text("execution_id").notNull().unique(), // trace of the run, created as running when queued
+  request: jsonb("request").notNull(), // execute parameters the worker runs the flow with
+  callbackUrl: text("callback_url"), // receives a signed POST when the run finishes
+  status: executionJobStatusEnum("status").notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  lockedAt: timestamp("locked_at"), // when a worker claimed the job
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()).notNull(),
+  flowId: text("flow_id").notNull().references(() => flow.id, { onDelete: "cascade" }),
+}, (table) => ({
+  statusCreatedAtIdx: index("execution_job_status_created_at_idx").on(table.status, table.createdAt),
+}));
+
+// Flow promotions - who deployed which version to an environment, when and why
+export const flowPromotion = pgTable("flow_promotion", {
+  id: text("id").primaryKey(),
+  environment: text("environment").notNull(), // environment that received the version
+  fromEnvironment: text("from_environment"), // environment it was promoted from; null when deployed directly
+  version: text("version").notNull(),
+  previousVersion: text("previous_version"), // what the environment ran before
+  reason: text("reason"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  flowId: text("flow_id").notNull().references(() => flow.id, { onDelete: "cascade" }),
+  promotedBy: text("promoted_by").notNull().references(() => user.id, { onDelete: "cascade" }),
+}, (table) => ({
+  flowCreatedAtIdx: index("flow_promotion_flow_created_at_idx").on(table.flowId, table.createdAt),
+}));
+
+// Flow schedules - cron triggers running a flow's published version with a static input
+export const flowSchedule = pgTable("flow_schedule", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  cronExpression: text("cron_expression").notNull(),
+  timezone: text("timezone").notNull().default("UTC"), // IANA timezone the expression is evaluated in
+  input: jsonb("input"), // input every scheduled run receives
+  isActive: boolean("is_active").notNull().default(true),
+  nextRunAt: timestamp("next_run_at"), // null while paused
+  lastRunAt: timestamp("last_run_at"),
+  lastExecutionId: text("last_execution_id"),
+  lastError: text("last_error"), // why the last run could not be started
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()).notNull(),
+  flowId: text("flow_id").notNull().references(() => flow.id, { onDelete: "cascade" }),
+  createdBy: text("created_by").notNull().references(() => user.id, { onDelete: "cascade" }), // scheduled runs execute as this user
+}, (table) => ({
+  flowIdx: index("flow_schedule_flow_idx").on(table.flowId),
+  dueIdx: index("flow_schedule_due_idx").on(table.isActive, table.nextRunAt),
 }));
 
 // Datasets - test/training data
@@ -139,6 +218,21 @@ export const dataset = pgTable("dataset", {
   nameIdx: index("dataset_name_idx").on(table.name),
 }));
 
+// Flow documents - embedded chunks searched by retrieve blocks
+export const flowDocument = pgTable("flow_document", {
+  id: text("id").primaryKey(),
+  content: text("content").notNull(),
+  metadata: jsonb("metadata"),
+  embedding: jsonb("embedding").$type<number[]>().notNull(),
+  embedder: text("embedder").notNull(), // vectors are only comparable within one embedder
+  executionId: text("execution_id"), // run that indexed the chunk
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  flowId: text("flow_id").notNull().references(() => flow.id, { onDelete: "cascade" }),
+}, (table) => ({
+  flowEmbedderIdx: index("flow_document_flow_embedder_idx").on(table.flowId, table.embedder),
+}));
+
 
 // Connections - external provider credentials (flow-scoped for now)
 export const connection = pgTable("connection", {
@@ -147,6 +241,7 @@ export const connection = pgTable("connection", {
   provider: text("provider").notNull(), // e.g., googleai, openai, anthropic
   apiKey: text("api_key").notNull(), // consider encryption at rest
   isActive: boolean("is_active").notNull().default(true),
+  environment: text("environment"), // deployment environment the connection belongs to; null outside environments
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()).notNull(),
   flowId: text("flow_id").notNull().references(() => flow.id, { onDelete: "cascade" }),
@@ -168,6 +263,7 @@ export const flowApiKey = pgTable("flow_api_key", {
   lastUsedAt: timestamp("last_used_at"),
   usageCount: integer("usage_count").notNull().default(0),
   expiresAt: timestamp("expires_at"),
+  environment: text("environment"), // deployment environment the key runs; null for the latest published version
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()).notNull(),
   
@@ -220,6 +316,13 @@ export const promptRelations = relations(prompt, ({ one }) => ({
   }),
 }));
 
+export const promptVersionRelations = relations(promptVersion, ({ one }) => ({
+  prompt: one(prompt, {
+    fields: [promptVersion.promptId],
+    references: [prompt.id],
+  }),
+}));
+
 export const traceRelations = relations(trace, ({ one }) => ({
   flow: one(flow, {
     fields: [trace.flowId],
@@ -231,6 +334,13 @@ export const traceRelations = relations(trace, ({ one }) => ({
   }),
 }));
 
+export const executionJobRelations = relations(executionJob, ({ one }) => ({
+  flow: one(flow, {
+    fields: [executionJob.flowId],
+    references: [flow.id],
+  }),
+}));
+
 export const datasetRelations = relations(dataset, ({ one }) => ({
   flow: one(flow, {
     fields: [dataset.flowId],
@@ -242,4 +352,11 @@ export const datasetRelations = relations(dataset, ({ one }) => ({
   }),
 }));
 
+export const flowDocumentRelations = relations(flowDocument, ({ one }) => ({
+  flow: one(flow, {
+    fields: [flowDocument.flowId],
+    references: [flow.id],
+  }),
+}));
+
 // Project-level API keys removed; use flowApiKey instead
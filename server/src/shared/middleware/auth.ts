@@ -44,6 +44,7 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
             isActive: (schema as any).flowApiKey.isActive,
             expiresAt: (schema as any).flowApiKey.expiresAt,
             flowId: (schema as any).flowApiKey.flowId,
+            environment: (schema as any).flowApiKey.environment,
             createdBy: (schema as any).flowApiKey.createdBy,
           })
           .from((schema as any).flowApiKey)
@@ -60,7 +61,7 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
             image: undefined,
             emailVerified: true,
           };
-          (req as any).token = { id: key.id, flowId: (key as any).flowId, scopes: (key as any).scopes || [], rateLimit: (key as any).rateLimit || undefined };
+          (req as any).token = { id: key.id, flowId: (key as any).flowId, scopes: (key as any).scopes || [], rateLimit: (key as any).rateLimit || undefined, environment: (key as any).environment || undefined };
           // best-effort usage tracking
           try {
             await (db as any)
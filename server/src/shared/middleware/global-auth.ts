@@ -112,6 +112,7 @@ async function authenticateRequest(req: Request, res: Response, callback: (error
             isActive: (schema as any).flowApiKey.isActive,
             expiresAt: (schema as any).flowApiKey.expiresAt,
             flowId: (schema as any).flowApiKey.flowId,
+            environment: (schema as any).flowApiKey.environment,
             createdBy: (schema as any).flowApiKey.createdBy,
           })
           .from((schema as any).flowApiKey)
@@ -132,7 +133,8 @@ async function authenticateRequest(req: Request, res: Response, callback: (error
             id: key.id,
             flowId: (key as any).flowId,
             scopes: (key as any).scopes || [],
-            rateLimit: (key as any).rateLimit || undefined
+            rateLimit: (key as any).rateLimit || undefined,
+            environment: (key as any).environment || undefined
           };
           // Update last used timestamp (best-effort)
           try {
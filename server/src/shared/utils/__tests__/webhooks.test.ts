@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { assertPublicUrl, deliverWebhook, deriveWebhookSecret, isPrivateAddress, signWebhookPayload } from '../webhooks';
+
+describe('webhooks', () => {
+  let server: http.Server;
+  let url: string;
+  let statuses: number[];
+  const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', data => { body += data; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(statuses.shift() ?? 200);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should post the payload with a signature over the timestamp and body', async () => {
+    statuses = [];
+    received.length = 0;
+
+    await deliverWebhook(url, { executionId: 'exec-1', status: 'completed' }, 'secret', { allowPrivateNetworks: true });
+
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toEqual({ executionId: 'exec-1', status: 'completed' });
+    expect(headers['x-flowshapr-signature']).toBe(
+      `sha256=${signWebhookPayload('secret', headers['x-flowshapr-timestamp'] as string, body)}`
+    );
+  });
+
+  it('should retry failed deliveries', async () => {
+    statuses = [503];
+    received.length = 0;
+
+    await deliverWebhook(url, { executionId: 'exec-2' }, 'secret', { allowPrivateNetworks: true });
+
+    expect(received).toHaveLength(2);
+  });
+
+  it('should give up after the last attempt', async () => {
+    statuses = [500, 500, 500];
+    received.length = 0;
+
+    await expect(deliverWebhook(url, {}, 'secret', { allowPrivateNetworks: true })).rejects.toThrow(`Webhook delivery to ${url} failed: HTTP 500`);
+    expect(received).toHaveLength(3);
+  });
+
+  it('should derive a separate secret for every flow', () => {
+    const secret = deriveWebhookSecret('signing-secret', 'flow-1');
+
+    expect(secret).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(deriveWebhookSecret('signing-secret', 'flow-1')).toBe(secret);
+    expect(deriveWebhookSecret('signing-secret', 'flow-2')).not.toBe(secret);
+    expect(deriveWebhookSecret('other-secret', 'flow-1')).not.toBe(secret);
+  });
+
+  it('should refuse to post to private addresses unless allowed', async () => {
+    received.length = 0;
+
+    await expect(deliverWebhook(url, {}, 'secret')).rejects.toThrow('Callback URL must not point to a private or loopback address');
+    expect(received).toHaveLength(0);
+  });
+
+  it('should tell private and loopback addresses from public ones', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', '[::1]', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111', 'example.com']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  it('should check what a host name resolves to', async () => {
+    await expect(assertPublicUrl('http://localhost:8080/hook')).rejects.toThrow('private or loopback');
+    await expect(assertPublicUrl('http://[::1]/hook')).rejects.toThrow('private or loopback');
+    await expect(assertPublicUrl('https://93.184.216.34/hook')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const WEBHOOK_ATTEMPTS = 3;
+const WEBHOOK_RETRY_DELAY_MS = 1000;
+
+// Loopback, private, link-local (cloud metadata), shared, reserved and multicast ranges
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+export interface WebhookOptions {
+  allowPrivateNetworks?: boolean; // Self-hosted setups may call back services on their own network
+}
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, sent as `X-Flowshapr-Signature: sha256=<hex>`.
+ * Receivers recompute it with the shared secret and reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Secret a flow's webhooks are signed with, derived from the server's signing
+ * secret so every flow verifies with its own and cannot forge another's.
+ */
+export function deriveWebhookSecret(signingSecret: string, flowId: string): string {
+  return `whsec_${createHmac("sha256", signingSecret).update(`webhook:${flowId}`).digest("hex")}`;
+}
+
+/**
+ * Whether an IP address is in a range webhooks may not be sent to. Host names are not resolved.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, "");
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(host);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+  const family = isIP(host);
+  return family !== 0 && PRIVATE_NETWORKS.check(host, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Throw unless every address the URL's host resolves to is public, so
+ * callbacks cannot reach the server's own network (SSRF)
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    throw new Error("Callback URL host could not be resolved");
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error("Callback URL must not point to a private or loopback address");
+  }
+}
+
+/**
+ * POST a signed JSON payload, retrying network errors and non-2xx answers
+ * with a growing delay. Throws with the last failure once attempts run out.
+ * The host is checked again before every attempt, as DNS answers can change
+ * after the URL was accepted, and redirects are not followed.
+ */
+export async function deliverWebhook(url: string, payload: unknown, secret: string, options: WebhookOptions = {}): Promise<void> {
+  const body = JSON.stringify(payload);
+  let lastError = "";
+
+  for (let attempt = 1; attempt <= WEBHOOK_ATTEMPTS; attempt++) {
+    // Refused hosts are not retried
+    if (!options.allowPrivateNetworks) {
+      await assertPublicUrl(url);
+    }
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Flowshapr-Timestamp": timestamp,
+          "X-Flowshapr-Signature": `sha256=${signWebhookPayload(secret, timestamp, body)}`,
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (response.ok) return;
+      lastError = `HTTP ${response.status}`;
+    } catch (error: any) {
+      lastError = error?.message || String(error);
+    }
+
+    if (attempt < WEBHOOK_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, WEBHOOK_RETRY_DELAY_MS * attempt));
+    }
+  }
+
+  throw new Error(`Webhook delivery to ${url} failed: ${lastError}`);
+}